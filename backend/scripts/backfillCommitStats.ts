@@ -0,0 +1,59 @@
+import mongoose from 'mongoose';
+import { connectDatabase } from '../src/config/database';
+import Notebook from '../src/models/Notebook';
+import Commit from '../src/models/Commit';
+import { GitService, EMPTY_TREE_HASH, FileDiffStat } from '../src/services/gitService';
+
+// Recompute filesChanged, additions and deletions of every commit record from git.
+// Pass --dry-run to only report what would change.
+const diffStats = async (gitService: GitService, hash: string, parentHash?: string): Promise<FileDiffStat[]> => {
+  if (parentHash) {
+    return gitService.getDiffStats(parentHash, hash);
+  }
+  // Records without a parent are root commits, or older ones that never stored it
+  return gitService.getDiffStats(`${hash}^`, hash).catch(() => gitService.getDiffStats(EMPTY_TREE_HASH, hash));
+};
+
+const run = async (): Promise<void> => {
+  await connectDatabase();
+  const dryRun = process.argv.includes('--dry-run');
+  let updated = 0;
+  let skipped = 0;
+
+  const notebooks = await Notebook.find().select('name gitRepoPath');
+  for (const notebook of notebooks) {
+    const gitService = new GitService(notebook.gitRepoPath);
+    if (!(await gitService.isRepoInitialized())) {
+      continue;
+    }
+
+    for (const commit of await Commit.find({ notebook: notebook._id })) {
+      let filesChanged: FileDiffStat[];
+      try {
+        filesChanged = await diffStats(gitService, commit.hash, commit.parentHash);
+      } catch (error: any) {
+        console.error(`Skipped ${notebook.name} ${commit.hash.substring(0, 7)}: ${error.message}`);
+        skipped++;
+        continue;
+      }
+
+      const additions = filesChanged.reduce((sum, f) => sum + f.additions, 0);
+      const deletions = filesChanged.reduce((sum, f) => sum + f.deletions, 0);
+      console.log(
+        `${notebook.name} ${commit.hash.substring(0, 7)}: +${commit.additions}/-${commit.deletions} -> +${additions}/-${deletions}`
+      );
+      if (!dryRun) {
+        await Commit.updateOne({ _id: commit._id }, { filesChanged, additions, deletions });
+      }
+      updated++;
+    }
+  }
+
+  console.log(`${dryRun ? 'Would update' : 'Updated'} ${updated} commits, skipped ${skipped}`);
+  await mongoose.disconnect();
+};
+
+run().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
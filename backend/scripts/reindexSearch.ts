@@ -0,0 +1,38 @@
+import mongoose from 'mongoose';
+import { connectDatabase } from '../src/config/database';
+import Notebook from '../src/models/Notebook';
+import Branch from '../src/models/Branch';
+import { SearchService } from '../src/services/searchService';
+
+// Bring the search index up to date for every branch, e.g. for notebooks created before search existed.
+// Pass --full to drop the index and rebuild it from scratch.
+const run = async (): Promise<void> => {
+  await connectDatabase();
+  const full = process.argv.includes('--full');
+  const searchService = new SearchService();
+
+  const notebooks = await Notebook.find().select('name gitRepoPath');
+  for (const notebook of notebooks) {
+    const notebookId = String(notebook._id);
+    if (full) {
+      await searchService.removeNotebook(notebookId);
+      await Branch.updateMany({ notebook: notebookId }, { $unset: { indexedCommitHash: 1 } });
+    }
+
+    for (const branch of await Branch.find({ notebook: notebookId })) {
+      try {
+        await searchService.updateBranch(notebookId, notebook.gitRepoPath, branch.name);
+        console.log(`Indexed ${notebook.name}:${branch.name}`);
+      } catch (error: any) {
+        console.error(`Skipped ${notebook.name}:${branch.name}: ${error.message}`);
+      }
+    }
+  }
+
+  await mongoose.disconnect();
+};
+
+run().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
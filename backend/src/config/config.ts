@@ -9,5 +9,26 @@ export const config = {
   jwtSecret: process.env.JWT_SECRET || 'your-super-secret-jwt-key',
   jwtExpiration: process.env.JWT_EXPIRATION || '7d',
   repoBasePath: process.env.REPO_BASE_PATH || './repos',
+  // How long a git change waits for another one on the same notebook, and how long git may sit silent
+  gitLockTimeout: parseInt(process.env.GIT_LOCK_TIMEOUT || '15000', 10),
+  gitOperationTimeout: parseInt(process.env.GIT_OPERATION_TIMEOUT || '60000', 10),
   corsOrigin: process.env.CORS_ORIGIN || 'http://localhost:5173',
+  // Finished exports are kept this many days; PDF export drives a local Chrome or Chromium
+  exportPath: process.env.EXPORT_PATH || './exports',
+  exportRetentionDays: parseInt(process.env.EXPORT_RETENTION_DAYS || '7', 10),
+  chromePath: process.env.CHROME_PATH || '',
+  // Email stays off until an SMTP host is set; in development point it at a catcher such as Mailpit on port 1025
+  smtpHost: process.env.SMTP_HOST || '',
+  smtpPort: parseInt(process.env.SMTP_PORT || '1025', 10),
+  smtpSecure: process.env.SMTP_SECURE === 'true',
+  smtpUser: process.env.SMTP_USER || '',
+  smtpPass: process.env.SMTP_PASS || '',
+  mailFrom: process.env.MAIL_FROM || 'NoteVerse <no-reply@noteverse.local>',
+  // Where links in emails point
+  appUrl: process.env.APP_URL || process.env.CORS_ORIGIN || 'http://localhost:5173',
+  // Users allowed to import notebooks from repositories on the server's own disk
+  adminEmails: (process.env.ADMIN_EMAILS || '')
+    .split(',')
+    .map((email) => email.trim().toLowerCase())
+    .filter((email) => email),
 };
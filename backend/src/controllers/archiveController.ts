@@ -0,0 +1,56 @@
+import { Request, Response } from 'express';
+import Notebook from '../models/Notebook';
+import Branch from '../models/Branch';
+import { GitService } from '../services/gitService';
+import { uploadDirectory } from '../utils/uploads';
+import { ARCHIVE_FORMATS, ArchiveFormat, archiveName, sendArchive } from '../utils/archive';
+import { query, validationResult } from 'express-validator';
+
+export const downloadArchiveValidation = [
+  query('ref').optional().isString().trim().notEmpty(),
+  query('format').optional().isIn(ARCHIVE_FORMATS),
+];
+
+// The whole notebook at a branch, tag or commit (the default branch if none is given), uploads included
+export const downloadArchive = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    const { id } = req.params;
+    const format = (req.query.format as ArchiveFormat) || 'zip';
+
+    const notebook = await Notebook.findById(id);
+    if (!notebook) {
+      res.status(404).json({ message: 'Notebook not found' });
+      return;
+    }
+
+    let ref = req.query.ref as string | undefined;
+    if (!ref) {
+      const defaultBranch = await Branch.findOne({ notebook: id, isDefault: true });
+      ref = defaultBranch?.name || 'main';
+    }
+
+    const gitService = new GitService(notebook.gitRepoPath);
+    const commitHash = await gitService.resolveCommit(ref).catch(() => null);
+    if (!commitHash) {
+      res.status(404).json({ message: `No branch, tag or commit "${ref}"` });
+      return;
+    }
+
+    // A full hash makes a poor file name; use the short form
+    const name = archiveName(notebook.name, commitHash.startsWith(ref) ? commitHash.substring(0, 7) : ref);
+    const stream = await gitService.createArchiveStream(commitHash, format, name, {
+      directory: uploadDirectory(notebook.gitRepoPath),
+      name: 'uploads',
+    });
+    sendArchive(res, stream, name, format);
+  } catch (error: any) {
+    console.error('Error creating archive:', error);
+    res.status(500).json({ message: error.message });
+  }
+};
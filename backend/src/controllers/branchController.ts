@@ -2,7 +2,11 @@ import { Request, Response } from 'express';
 import Branch from '../models/Branch';
 import Notebook from '../models/Notebook';
 import { GitService } from '../services/gitService';
+import { SearchService } from '../services/searchService';
+import { BranchProtectionService } from '../services/branchProtectionService';
+import { EventBus } from '../services/eventBus';
 import { body, validationResult } from 'express-validator';
+import { handleRepositoryBusy } from '../middleware/errorHandler';
 
 export const createBranchValidation = [
   body('description').optional().trim(),
@@ -10,6 +14,13 @@ export const createBranchValidation = [
   body('sourceBranch').optional().trim(),
 ];
 
+export const updateProtectionValidation = [
+  body('requirePullRequest').optional().isBoolean().toBoolean(),
+  body('requiredApprovals').optional().isInt({ min: 0, max: 10 }).toInt(),
+  body('ownerOnlyDeletion').optional().isBoolean().toBoolean(),
+  body('allowForceOperations').optional().isBoolean().toBoolean(),
+];
+
 export const createBranch = async (req: Request, res: Response): Promise<void> => {
   try {
     // Accept both 'name' and 'branchName', and 'fromBranch' and 'sourceBranch'
@@ -99,8 +110,15 @@ export const createBranch = async (req: Request, res: Response): Promise<void> =
       lastCommitHash,
     });
 
+    new SearchService().queueBranchUpdate(id, notebook.gitRepoPath, name);
+
+    await new EventBus().publish('branch.created', { notebookId: id, userId: req.userId!, branch: name, fromBranch: sourceBranchName });
+
     res.status(201).json({ branch });
   } catch (error: any) {
+    if (handleRepositoryBusy(error, res)) {
+      return;
+    }
     console.error('Error creating branch:', error);
     res.status(500).json({ message: error.message });
   }
@@ -135,9 +153,11 @@ export const getBranchByName = async (req: Request, res: Response): Promise<void
   }
 };
 
+// ?force=true also deletes a branch whose commits were never merged anywhere, discarding them
 export const deleteBranch = async (req: Request, res: Response): Promise<void> => {
   try {
     const { id, name } = req.params;
+    const force = req.query.force === 'true';
 
     const branch = await Branch.findOne({ notebook: id, name });
 
@@ -151,18 +171,47 @@ export const deleteBranch = async (req: Request, res: Response): Promise<void> =
       return;
     }
 
+    const protectionError = new BranchProtectionService().deletionError(branch, req.body.userRole, force);
+    if (protectionError) {
+      res.status(403).json({ message: protectionError });
+      return;
+    }
+
     // Delete from Git
     const notebook = await Notebook.findById(id);
+    const pendingMerge = notebook?.pendingMerge;
+    if (pendingMerge && (pendingMerge.sourceBranch === name || pendingMerge.targetBranch === name)) {
+      res.status(409).json({ message: 'This branch is part of a merge in progress. Finish or abort it first.' });
+      return;
+    }
+
     if (notebook) {
       const gitService = new GitService(notebook.gitRepoPath);
-      await gitService.deleteBranch(name);
+      try {
+        await gitService.deleteBranch(name, force);
+      } catch (error: any) {
+        if (!force && /not fully merged/.test(error.message)) {
+          res.status(409).json({
+            message: `Branch "${name}" has commits that are not merged into any other branch. Delete it with force to discard them.`,
+            unmerged: true,
+          });
+          return;
+        }
+        throw error;
+      }
     }
 
     // Delete from database
     await branch.deleteOne();
+    await new SearchService().removeBranch(id, name);
+
+    await new EventBus().publish('branch.deleted', { notebookId: id, userId: req.userId!, branch: name, forced: force });
 
     res.json({ message: 'Branch deleted successfully' });
   } catch (error: any) {
+    if (handleRepositoryBusy(error, res)) {
+      return;
+    }
     res.status(500).json({ message: error.message });
   }
 };
@@ -184,12 +233,68 @@ export const checkoutBranch = async (req: Request, res: Response): Promise<void>
       return;
     }
 
-    // Checkout in Git
+    // Every branch is read from git or its own worktree, so switching never touches shared files
     const gitService = new GitService(notebook.gitRepoPath);
-    await gitService.checkoutBranch(name);
+    if (!(await gitService.branchExists(name))) {
+      res.status(404).json({ message: 'Branch not found in repository' });
+      return;
+    }
 
     res.json({ message: 'Branch checked out successfully', branch });
   } catch (error: any) {
     res.status(500).json({ message: error.message });
   }
 };
+
+// Turn on or change a branch's protection rules; rules left out keep their current (or default) value
+export const updateBranchProtection = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    const { id, name } = req.params;
+
+    const branch = await Branch.findOne({ notebook: id, name });
+    if (!branch) {
+      res.status(404).json({ message: 'Branch not found' });
+      return;
+    }
+
+    const current = branch.protection;
+    branch.set('protection', {
+      requirePullRequest: req.body.requirePullRequest ?? current?.requirePullRequest,
+      requiredApprovals: req.body.requiredApprovals ?? current?.requiredApprovals,
+      ownerOnlyDeletion: req.body.ownerOnlyDeletion ?? current?.ownerOnlyDeletion,
+      allowForceOperations: req.body.allowForceOperations ?? current?.allowForceOperations,
+    });
+    await branch.save();
+
+    res.json({ branch });
+  } catch (error: any) {
+    console.error('Error updating branch protection:', error);
+    res.status(500).json({ message: error.message });
+  }
+};
+
+export const removeBranchProtection = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id, name } = req.params;
+
+    const branch = await Branch.findOne({ notebook: id, name });
+    if (!branch) {
+      res.status(404).json({ message: 'Branch not found' });
+      return;
+    }
+
+    branch.set('protection', undefined);
+    await branch.save();
+
+    res.json({ branch });
+  } catch (error: any) {
+    console.error('Error removing branch protection:', error);
+    res.status(500).json({ message: error.message });
+  }
+};
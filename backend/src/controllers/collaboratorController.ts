@@ -0,0 +1,175 @@
+import { Request, Response } from 'express';
+import mongoose from 'mongoose';
+import Notebook, { CollaboratorRole } from '../models/Notebook';
+import { EventBus } from '../services/eventBus';
+import { body, validationResult } from 'express-validator';
+
+export const updateCollaboratorRoleValidation = [
+  body('role').isIn(['VIEWER', 'EDITOR']).withMessage('Invalid role. Must be VIEWER or EDITOR'),
+];
+
+export const requestOwnershipTransferValidation = [
+  body('userId').isMongoId(),
+];
+
+export const updateCollaboratorRole = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    const { id, userId } = req.params;
+    const role = req.body.role as CollaboratorRole;
+
+    const notebook = await Notebook.findById(id);
+    if (!notebook) {
+      res.status(404).json({ message: 'Notebook not found' });
+      return;
+    }
+
+    const collaborator = notebook.collaborators.find((c) => c.user.toString() === userId);
+    if (!collaborator) {
+      res.status(404).json({ message: 'Collaborator not found' });
+      return;
+    }
+
+    const previousRole = collaborator.role;
+    if (previousRole !== role) {
+      collaborator.role = role;
+      await notebook.save();
+
+      await new EventBus().publish('collaborator.roleChanged', {
+        notebookId: id,
+        userId: req.userId!,
+        collaboratorId: userId,
+        role,
+        previousRole,
+      });
+    }
+
+    res.json({ message: 'Role updated', collaborator: { user: userId, role } });
+  } catch (error: any) {
+    console.error('Error updating collaborator role:', error);
+    res.status(500).json({ message: error.message });
+  }
+};
+
+// Offer the notebook to a collaborator. A new offer replaces any earlier one.
+export const requestOwnershipTransfer = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    const { id } = req.params;
+    const { userId } = req.body;
+
+    const notebook = await Notebook.findById(id);
+    if (!notebook) {
+      res.status(404).json({ message: 'Notebook not found' });
+      return;
+    }
+
+    if (!notebook.collaborators.some((c) => c.user.toString() === userId)) {
+      res.status(400).json({ message: 'Ownership can only be transferred to a collaborator' });
+      return;
+    }
+
+    notebook.pendingOwnershipTransfer = {
+      to: new mongoose.Types.ObjectId(userId),
+      requestedAt: new Date(),
+    };
+    await notebook.save();
+
+    await new EventBus().publish('ownership.transferRequested', {
+      notebookId: id,
+      userId: req.userId!,
+      toUserId: userId,
+    });
+
+    res.json({ message: 'Ownership transfer requested', pendingOwnershipTransfer: notebook.pendingOwnershipTransfer });
+  } catch (error: any) {
+    console.error('Error requesting ownership transfer:', error);
+    res.status(500).json({ message: error.message });
+  }
+};
+
+export const cancelOwnershipTransfer = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const notebook = await Notebook.findById(req.params.id);
+    if (!notebook?.pendingOwnershipTransfer) {
+      res.status(404).json({ message: 'No ownership transfer is pending' });
+      return;
+    }
+
+    notebook.pendingOwnershipTransfer = undefined;
+    await notebook.save();
+
+    res.json({ message: 'Ownership transfer cancelled' });
+  } catch (error: any) {
+    console.error('Error cancelling ownership transfer:', error);
+    res.status(500).json({ message: error.message });
+  }
+};
+
+// The collaborator the notebook was offered to takes it over; the previous owner becomes an editor
+export const acceptOwnershipTransfer = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const userId = req.userId!;
+
+    const notebook = await Notebook.findById(id);
+    if (!notebook?.pendingOwnershipTransfer) {
+      res.status(404).json({ message: 'No ownership transfer is pending' });
+      return;
+    }
+    if (notebook.pendingOwnershipTransfer.to.toString() !== userId) {
+      res.status(403).json({ message: 'This ownership transfer was offered to someone else' });
+      return;
+    }
+
+    const previousOwnerId = notebook.owner;
+    notebook.collaborators = notebook.collaborators.filter((c) => c.user.toString() !== userId);
+    notebook.collaborators.push({ user: previousOwnerId, role: CollaboratorRole.EDITOR, addedAt: new Date() });
+    notebook.owner = new mongoose.Types.ObjectId(userId);
+    notebook.pendingOwnershipTransfer = undefined;
+    await notebook.save();
+
+    await new EventBus().publish('ownership.transferred', {
+      notebookId: id,
+      userId,
+      previousOwnerId,
+    });
+
+    res.json({ message: 'You are now the owner of this notebook' });
+  } catch (error: any) {
+    console.error('Error accepting ownership transfer:', error);
+    res.status(500).json({ message: error.message });
+  }
+};
+
+export const declineOwnershipTransfer = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const notebook = await Notebook.findById(req.params.id);
+    if (!notebook?.pendingOwnershipTransfer) {
+      res.status(404).json({ message: 'No ownership transfer is pending' });
+      return;
+    }
+    if (notebook.pendingOwnershipTransfer.to.toString() !== req.userId) {
+      res.status(403).json({ message: 'This ownership transfer was offered to someone else' });
+      return;
+    }
+
+    notebook.pendingOwnershipTransfer = undefined;
+    await notebook.save();
+
+    res.json({ message: 'Ownership transfer declined' });
+  } catch (error: any) {
+    console.error('Error declining ownership transfer:', error);
+    res.status(500).json({ message: error.message });
+  }
+};
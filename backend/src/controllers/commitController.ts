@@ -1,20 +1,81 @@
 import { Request, Response } from 'express';
+import path from 'path';
 import Commit from '../models/Commit';
 import Branch from '../models/Branch';
 import Notebook from '../models/Notebook';
 import User from '../models/User';
-import { GitService } from '../services/gitService';
-import { body, validationResult } from 'express-validator';
+import { GitService, EMPTY_TREE_HASH, FileOperation, ReplayResult } from '../services/gitService';
+import { SearchService } from '../services/searchService';
+import { EventBus } from '../services/eventBus';
+import { BranchProtectionService } from '../services/branchProtectionService';
+import { parseDiffByFile, splitDiff } from '../utils/diff';
+import { body, query, validationResult } from 'express-validator';
+import { handleRepositoryBusy } from '../middleware/errorHandler';
 
 export const createCommitValidation = [
   body('message').notEmpty().trim(),
   body('description').optional().trim(),
   body('branch').notEmpty(),
-  body('files').isArray({ min: 1 }),
+  body('files').optional().isArray(),
   body('files.*.path').notEmpty(),
   body('files.*.content').notEmpty(),
+  body('operations').optional().isArray(),
+  body('operations.*.type').isIn(['delete', 'rename', 'move']),
 ];
 
+export const getBlameValidation = [
+  query('path').isString().trim().notEmpty(),
+  query('ref').optional().isString().trim().notEmpty(),
+];
+
+export const getFileHistoryValidation = [
+  query('path').isString().trim().notEmpty(),
+  query('ref').optional().isString().trim().notEmpty(),
+  query('limit').optional().isInt({ min: 1, max: 500 }).toInt(),
+];
+
+export const compareRefsValidation = [
+  query('base').isString().trim().notEmpty(),
+  query('head').optional().isString().trim().notEmpty(),
+  query('view').optional().isIn(['unified', 'split']),
+  query('path').optional().isString().trim().notEmpty(),
+];
+
+export const revertCommitValidation = [body('branch').isString().trim().notEmpty()];
+
+export const cherryPickCommitValidation = [body('branch').isString().trim().notEmpty()];
+
+export const restoreFileValidation = [
+  body('branch').isString().trim().notEmpty(),
+  body('path').isString().trim().notEmpty(),
+];
+
+// The ref asked for, or the notebook's default branch
+const refOrDefault = async (notebookId: string, ref: unknown): Promise<string> => {
+  if (typeof ref === 'string' && ref) {
+    return ref;
+  }
+  const defaultBranch = await Branch.findOne({ notebook: notebookId, isDefault: true });
+  return defaultBranch?.name || 'main';
+};
+
+// A commit made through the app knows its author; otherwise fall back to a user with the same email
+const withUsers = async <T extends { hash: string; authorEmail: string }>(notebookId: string, commits: T[]) => {
+  const records = await Commit.find({ notebook: notebookId, hash: { $in: commits.map((c) => c.hash) } })
+    .select('hash author')
+    .populate('author', 'username name');
+  const recordOf = new Map(records.map((record) => [record.hash, record]));
+  const emails = [...new Set(commits.map((c) => c.authorEmail.toLowerCase()))];
+  const users = await User.find({ email: { $in: emails } }).select('username name email');
+  const userOf = new Map(users.map((user) => [user.email, user]));
+
+  return commits.map((commit) => ({
+    ...commit,
+    recorded: recordOf.has(commit.hash),
+    user: recordOf.get(commit.hash)?.author || userOf.get(commit.authorEmail.toLowerCase()) || null,
+  }));
+};
+
 export const createCommit = async (req: Request, res: Response): Promise<void> => {
   try {
     const errors = validationResult(req);
@@ -24,15 +85,30 @@ export const createCommit = async (req: Request, res: Response): Promise<void> =
     }
 
     const { id } = req.params;
-    const { message, description, branch: branchName, files } = req.body;
+    const { message, description, branch: branchName, files = [], operations = [] } = req.body;
     const userId = req.userId!;
 
-    // Validate files array
-    if (!files || !Array.isArray(files) || files.length === 0) {
-      res.status(400).json({ message: 'Files array is required and must not be empty' });
+    if (files.length === 0 && operations.length === 0) {
+      res.status(400).json({ message: 'A commit needs at least one file or file operation' });
       return;
     }
 
+    // Paths are relative to the notebook root, with no leading or trailing slashes
+    const isPath = (value: unknown) => typeof value === 'string' && value.trim().length > 0;
+    const cleanPath = (value: string) => path.posix.normalize(value.trim()).replace(/^\/+|\/+$/g, '');
+    const fileOperations: FileOperation[] = [];
+    for (const operation of operations as FileOperation[]) {
+      if (operation.type === 'delete' ? !isPath(operation.path) : !isPath(operation.from) || !isPath(operation.to)) {
+        res.status(400).json({ message: 'Delete needs a path; rename and move need from and to' });
+        return;
+      }
+      fileOperations.push(
+        operation.type === 'delete'
+          ? { type: 'delete', path: cleanPath(operation.path) }
+          : { type: operation.type, from: cleanPath(operation.from), to: cleanPath(operation.to) }
+      );
+    }
+
     // Validate each file has path and content
     for (const file of files) {
       if (!file.path || typeof file.path !== 'string') {
@@ -52,12 +128,23 @@ export const createCommit = async (req: Request, res: Response): Promise<void> =
       return;
     }
 
+    if (notebook.pendingMerge?.targetBranch === branchName) {
+      res.status(409).json({ message: 'A merge into this branch is in progress. Finish or abort it before committing.' });
+      return;
+    }
+
     const branch = await Branch.findOne({ notebook: id, name: branchName });
     if (!branch) {
       res.status(404).json({ message: `Branch "${branchName}" not found` });
       return;
     }
 
+    const protectionError = new BranchProtectionService().directChangeError(branch);
+    if (protectionError) {
+      res.status(403).json({ message: protectionError });
+      return;
+    }
+
     // Get user details
     const user = await User.findById(userId);
     if (!user) {
@@ -74,30 +161,18 @@ export const createCommit = async (req: Request, res: Response): Promise<void> =
       await gitService.initRepo();
     }
     
-    // Ensure we're on the correct branch (skip if no commits yet)
-    try {
-      await gitService.checkoutBranch(branchName);
-    } catch (error: any) {
-      // If this is the first commit, checkout will fail - that's ok
-      console.log('Checkout skipped for first commit:', error.message);
-    }
-    
-    // Commit changes
-    const { hash: commitHash, parentHash } = await gitService.commit(
+    // Commit in the branch's own working tree
+    const workTree = await gitService.forBranch(branchName);
+    const { hash: commitHash, parentHash } = await workTree.commit(
       files,
       message,
       user.name || user.username,
-      user.email
+      user.email,
+      fileOperations
     );
 
-    // Calculate file changes
-    const filesChanged = files.map((file: any) => ({
-      path: file.path,
-      additions: file.content.split('\n').length,
-      deletions: 0,
-    }));
-
-    const totalAdditions = filesChanged.reduce((sum: number, f: any) => sum + f.additions, 0);
+    // Stats come from what git recorded, not from what was submitted
+    const filesChanged = await gitService.getDiffStats(parentHash || EMPTY_TREE_HASH, commitHash);
 
     // Save commit to database
     const commit = await Commit.create({
@@ -109,8 +184,8 @@ export const createCommit = async (req: Request, res: Response): Promise<void> =
       branch: branch._id,
       parentHash,
       filesChanged,
-      additions: totalAdditions,
-      deletions: 0,
+      additions: filesChanged.reduce((sum, f) => sum + f.additions, 0),
+      deletions: filesChanged.reduce((sum, f) => sum + f.deletions, 0),
       timestamp: new Date(),
     });
 
@@ -118,6 +193,10 @@ export const createCommit = async (req: Request, res: Response): Promise<void> =
     branch.lastCommitHash = commitHash;
     await branch.save();
 
+    new SearchService().queueBranchUpdate(id, notebook.gitRepoPath, branchName);
+
+    await new EventBus().publish('commit.created', { notebookId: id, userId, branch: branchName, commitHash, message });
+
     // Populate commit data for response
     const populatedCommit = await Commit.findById(commit._id)
       .populate('author', 'username name email')
@@ -125,6 +204,9 @@ export const createCommit = async (req: Request, res: Response): Promise<void> =
 
     res.status(201).json({ commit: populatedCommit });
   } catch (error: any) {
+    if (handleRepositoryBusy(error, res)) {
+      return;
+    }
     console.error('Error creating commit:', error);
     res.status(500).json({ message: error.message || 'Failed to create commit' });
   }
@@ -202,9 +284,9 @@ export const getCommitDiff = async (req: Request, res: Response): Promise<void>
         console.log(`Getting diff between ${commit.parentHash} and ${hash}`);
         diff = await gitService.getDiff(commit.parentHash, hash);
       } else {
-        // First commit - show all files as additions (use special 4b825dc git empty tree hash)
+        // First commit - show all files as additions
         console.log(`Getting diff for first commit ${hash}`);
-        diff = await gitService.getDiff('4b825dc642cb6eb9a060e54bf8d69288fbee4904', hash);
+        diff = await gitService.getDiff(EMPTY_TREE_HASH, hash);
       }
       console.log(`Diff length: ${diff.length} characters`);
     } catch (error: any) {
@@ -212,58 +294,20 @@ export const getCommitDiff = async (req: Request, res: Response): Promise<void>
       diff = '';
     }
 
-    // Parse diff into per-file diffs
-    const parseDiffByFile = (diffText: string) => {
-      const fileMap = new Map<string, string>();
-      
-      if (!diffText || diffText.length === 0) {
-        console.log('No diff text to parse');
-        return fileMap;
-      }
-      
-      const lines = diffText.split('\n');
-      let currentFile = '';
-      let currentDiff: string[] = [];
-
-      for (const line of lines) {
-        // Check for file headers like "diff --git a/file.txt b/file.txt"
-        if (line.startsWith('diff --git')) {
-          // Save previous file
-          if (currentFile && currentDiff.length > 0) {
-            fileMap.set(currentFile, currentDiff.join('\n'));
-            console.log(`Parsed diff for ${currentFile}: ${currentDiff.length} lines`);
-          }
-          
-          // Extract filename from "diff --git a/file.txt b/file.txt"
-          const match = line.match(/diff --git a\/(.+?) b\//);
-          currentFile = match ? match[1] : '';
-          currentDiff = [line];
-          console.log(`Found file in diff: ${currentFile}`);
-        } else if (currentFile) {
-          currentDiff.push(line);
-        }
-      }
-
-      // Save last file
-      if (currentFile && currentDiff.length > 0) {
-        fileMap.set(currentFile, currentDiff.join('\n'));
-        console.log(`Parsed diff for ${currentFile}: ${currentDiff.length} lines`);
-      }
-
-      console.log(`Total files parsed: ${fileMap.size}`);
-      return fileMap;
-    };
-
     const fileDiffMap = parseDiffByFile(diff);
 
     // Return commit with file changes from database, including individual file diffs
     const files = commit.filesChanged.map((file: any) => {
-      const fileDiff = fileDiffMap.get(file.path);
+      // Diff headers name a renamed file by its old path
+      const fileDiff = fileDiffMap.get(file.previousPath || file.path);
       console.log(`File ${file.path}: diff ${fileDiff ? 'found' : 'NOT FOUND'} (${fileDiff?.length || 0} chars)`);
       return {
         path: file.path,
         additions: file.additions,
         deletions: file.deletions,
+        status: file.status,
+        previousPath: file.previousPath,
+        binary: file.binary,
         diff: fileDiff || '',
       };
     });
@@ -292,13 +336,8 @@ export const getFileTree = async (req: Request, res: Response): Promise<void> =>
 
     const gitService = new GitService(notebook.gitRepoPath);
     
-    // If commit is a branch name, use HEAD, otherwise use the commit hash
-    let commitRef = commit as string;
-    if (!commitRef || commitRef === 'main' || commitRef === 'master') {
-      commitRef = 'HEAD';
-    }
-    
-    const tree = await gitService.getFileTree(commitRef);
+    // Branch names and commit hashes are both read from git, whatever is checked out
+    const tree = await gitService.getFileTree((commit as string) || 'HEAD');
 
     res.json(tree);
   } catch (error: any) {
@@ -334,3 +373,370 @@ export const getFileContent = async (req: Request, res: Response): Promise<void>
     res.status(500).json({ message: error.message });
   }
 };
+
+// Who last changed each line of a file, with git authors matched to users so every line can link to its commit
+export const getBlame = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    const { id } = req.params;
+    const filePath = req.query.path as string;
+
+    const notebook = await Notebook.findById(id);
+    if (!notebook) {
+      res.status(404).json({ message: 'Notebook not found' });
+      return;
+    }
+
+    const ref = await refOrDefault(id, req.query.ref);
+    const gitService = new GitService(notebook.gitRepoPath);
+    const commitHash = await gitService.resolveCommit(ref).catch(() => null);
+    if (!commitHash) {
+      res.status(404).json({ message: `No branch, tag or commit "${ref}"` });
+      return;
+    }
+
+    let blame;
+    try {
+      blame = await gitService.blame(filePath, commitHash);
+    } catch {
+      res.status(404).json({ message: `No file "${filePath}" at ${ref}` });
+      return;
+    }
+
+    const commits = await withUsers(id, blame.commits);
+
+    res.json({ path: filePath, ref, commitHash, commits, ranges: blame.ranges });
+  } catch (error: any) {
+    console.error('Error getting blame:', error);
+    res.status(500).json({ message: error.message });
+  }
+};
+
+// Commits that changed one file, newest first, including those made before it was renamed
+export const getFileHistory = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    const { id } = req.params;
+    const filePath = req.query.path as string;
+    const limit = (req.query.limit as unknown as number) || 50;
+
+    const notebook = await Notebook.findById(id);
+    if (!notebook) {
+      res.status(404).json({ message: 'Notebook not found' });
+      return;
+    }
+
+    const ref = await refOrDefault(id, req.query.ref);
+    const gitService = new GitService(notebook.gitRepoPath);
+    const commitHash = await gitService.resolveCommit(ref).catch(() => null);
+    if (!commitHash) {
+      res.status(404).json({ message: `No branch, tag or commit "${ref}"` });
+      return;
+    }
+
+    const history = await gitService.getFileHistory(filePath, commitHash, limit);
+    const commits = await withUsers(id, history);
+
+    res.json({ path: filePath, ref, commitHash, commits });
+  } catch (error: any) {
+    console.error('Error getting file history:', error);
+    res.status(500).json({ message: error.message });
+  }
+};
+
+// Everything that differs between two branches, tags or commits, optionally limited to one file or folder.
+// Unlike a pull request diff this compares the two snapshots directly, not head against the merge base.
+export const compareRefs = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    const { id } = req.params;
+    const view = (req.query.view as 'unified' | 'split' | undefined) || 'unified';
+    const scope = (req.query.path as string | undefined)?.replace(/^\/+|\/+$/g, '');
+
+    const notebook = await Notebook.findById(id);
+    if (!notebook) {
+      res.status(404).json({ message: 'Notebook not found' });
+      return;
+    }
+
+    const gitService = new GitService(notebook.gitRepoPath);
+    const base = req.query.base as string;
+    const head = await refOrDefault(id, req.query.head);
+    const [baseHash, headHash] = await Promise.all(
+      [base, head].map((ref) => gitService.resolveCommit(ref).catch(() => null))
+    );
+    for (const [ref, hash] of [[base, baseHash], [head, headHash]]) {
+      if (!hash) {
+        res.status(404).json({ message: `No branch, tag or commit "${ref}"` });
+        return;
+      }
+    }
+
+    const inScope = (filePath?: string) => !!filePath && (filePath === scope || filePath.startsWith(`${scope}/`));
+    const stats = (await gitService.getDiffStats(baseHash!, headHash!)).filter(
+      (stat) => !scope || inScope(stat.path) || inScope(stat.previousPath)
+    );
+    const fileDiffMap = parseDiffByFile(await gitService.getDiff(baseHash!, headHash!));
+    const { ahead, behind } = await gitService.getAheadBehind(headHash!, baseHash!);
+
+    const files = stats.map((stat) => {
+      // Diff headers name a renamed file by its old path
+      const fileDiff = fileDiffMap.get(stat.previousPath || stat.path) || '';
+      return view === 'split' ? { ...stat, hunks: splitDiff(fileDiff) } : { ...stat, diff: fileDiff };
+    });
+
+    res.json({
+      base: { ref: base, commitHash: baseHash },
+      head: { ref: head, commitHash: headHash },
+      path: scope || null,
+      view,
+      ahead,
+      behind,
+      additions: stats.reduce((sum, stat) => sum + stat.additions, 0),
+      deletions: stats.reduce((sum, stat) => sum + stat.deletions, 0),
+      files,
+    });
+  } catch (error: any) {
+    console.error('Error comparing refs:', error);
+    res.status(500).json({ message: error.message });
+  }
+};
+
+// Load what reverting, cherry-picking or restoring needs; answers the request and returns null when something is missing
+const loadReplay = async (req: Request, res: Response) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    res.status(400).json({ errors: errors.array() });
+    return null;
+  }
+
+  const { id, hash } = req.params;
+  const branchName = req.body.branch as string;
+
+  const notebook = await Notebook.findById(id);
+  if (!notebook) {
+    res.status(404).json({ message: 'Notebook not found' });
+    return null;
+  }
+
+  if (notebook.pendingMerge?.targetBranch === branchName) {
+    res.status(409).json({ message: 'A merge into this branch is in progress. Finish or abort it first.' });
+    return null;
+  }
+
+  const branch = await Branch.findOne({ notebook: id, name: branchName });
+  if (!branch) {
+    res.status(404).json({ message: `Branch "${branchName}" not found` });
+    return null;
+  }
+
+  const protectionError = new BranchProtectionService().directChangeError(branch);
+  if (protectionError) {
+    res.status(403).json({ message: protectionError });
+    return null;
+  }
+
+  const user = await User.findById(req.userId);
+  if (!user) {
+    res.status(404).json({ message: 'User not found' });
+    return null;
+  }
+
+  const gitService = new GitService(notebook.gitRepoPath);
+  const commitHash = await gitService.resolveCommit(hash).catch(() => null);
+  if (!commitHash) {
+    res.status(404).json({ message: 'Commit not found' });
+    return null;
+  }
+
+  return { notebookId: id, notebook, branch, user, gitService, commitHash, record: await gitService.getCommitRecord(commitHash) };
+};
+
+// Answer with the new commit, mirrored in the database and the activity feed, or with why none was made
+const respondWithReplay = async (
+  res: Response,
+  context: NonNullable<Awaited<ReturnType<typeof loadReplay>>>,
+  result: ReplayResult,
+  details: { message: string; description?: string; operation: 'revert' | 'cherry_pick' | 'restore'; path?: string }
+): Promise<void> => {
+  if (result.status === 'conflicts') {
+    res.status(409).json({
+      message: `This conflicts with later changes to ${result.conflicts.join(', ')}. Nothing was changed.`,
+      conflicts: result.conflicts,
+    });
+    return;
+  }
+  if (result.status === 'dirty') {
+    res.status(409).json({ message: `${context.branch.name} has uncommitted changes. Nothing was changed.` });
+    return;
+  }
+  if (result.status === 'empty') {
+    res.status(400).json({ message: `Nothing to change: ${context.branch.name} already has this content` });
+    return;
+  }
+
+  const { notebookId, notebook, branch, user, commitHash } = context;
+  const filesChanged = await context.gitService.getDiffStats(result.parentHash, result.hash);
+  const commit = await Commit.create({
+    hash: result.hash,
+    message: details.message,
+    description: details.description,
+    author: user._id,
+    notebook: notebookId,
+    branch: branch._id,
+    parentHash: result.parentHash,
+    filesChanged,
+    additions: filesChanged.reduce((sum, f) => sum + f.additions, 0),
+    deletions: filesChanged.reduce((sum, f) => sum + f.deletions, 0),
+    timestamp: new Date(),
+  });
+
+  branch.lastCommitHash = result.hash;
+  await branch.save();
+
+  new SearchService().queueBranchUpdate(notebookId, notebook.gitRepoPath, branch.name);
+
+  await new EventBus().publish('commit.replayed', {
+    notebookId,
+    userId: String(user._id),
+    operation: details.operation,
+    branch: branch.name,
+    commitHash: result.hash,
+    message: details.message,
+    sourceCommitHash: commitHash,
+    path: details.path,
+  });
+
+  const populatedCommit = await Commit.findById(commit._id)
+    .populate('author', 'username name email')
+    .populate('branch', 'name');
+
+  res.status(201).json({ commit: populatedCommit });
+};
+
+// Undo a commit on a branch by committing its inverse; history is kept, nothing is rewritten
+export const revertCommit = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const context = await loadReplay(req, res);
+    if (!context) {
+      return;
+    }
+    const { branch, user, gitService, commitHash, record } = context;
+
+    if (!(await gitService.isAncestor(commitHash, branch.name))) {
+      res.status(400).json({ message: `Commit ${commitHash.substring(0, 7)} is not on ${branch.name}` });
+      return;
+    }
+
+    const message = `Revert "${record.message}"`;
+    const description = `This reverts commit ${commitHash}.`;
+    const result = await (await gitService.forBranch(branch.name)).revertCommit(
+      commitHash,
+      [message, description],
+      user.name || user.username,
+      user.email
+    );
+
+    await respondWithReplay(res, context, result, {
+      message,
+      description,
+      operation: 'revert',
+    });
+  } catch (error: any) {
+    if (handleRepositoryBusy(error, res)) {
+      return;
+    }
+    console.error('Error reverting commit:', error);
+    res.status(500).json({ message: error.message });
+  }
+};
+
+// Apply the changes of one commit from anywhere in the notebook onto another branch
+export const cherryPickCommit = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const context = await loadReplay(req, res);
+    if (!context) {
+      return;
+    }
+    const { branch, user, gitService, commitHash, record } = context;
+
+    if (await gitService.isAncestor(commitHash, branch.name)) {
+      res.status(400).json({ message: `Commit ${commitHash.substring(0, 7)} is already on ${branch.name}` });
+      return;
+    }
+
+    const message = record.message;
+    const description = [record.description, `(cherry picked from commit ${commitHash})`].filter(Boolean).join('\n\n');
+    const result = await (await gitService.forBranch(branch.name)).cherryPick(
+      commitHash,
+      [message, description],
+      user.name || user.username,
+      user.email
+    );
+
+    await respondWithReplay(res, context, result, {
+      message,
+      description,
+      operation: 'cherry_pick',
+    });
+  } catch (error: any) {
+    if (handleRepositoryBusy(error, res)) {
+      return;
+    }
+    console.error('Error cherry-picking commit:', error);
+    res.status(500).json({ message: error.message });
+  }
+};
+
+// Bring one file back to its content at a commit, as a new commit on a branch
+export const restoreFile = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const context = await loadReplay(req, res);
+    if (!context) {
+      return;
+    }
+    const { branch, user, gitService, commitHash } = context;
+    const filePath = path.posix.normalize(req.body.path as string).replace(/^\/+/, '');
+
+    if (!(await gitService.hasFile(filePath, commitHash))) {
+      res.status(404).json({ message: `No file "${filePath}" at ${commitHash.substring(0, 7)}` });
+      return;
+    }
+
+    const message = `Restore ${filePath} from ${commitHash.substring(0, 7)}`;
+    const result = await (await gitService.forBranch(branch.name)).restoreFile(
+      filePath,
+      commitHash,
+      [message],
+      user.name || user.username,
+      user.email
+    );
+
+    await respondWithReplay(res, context, result, {
+      message,
+      operation: 'restore',
+      path: filePath,
+    });
+  } catch (error: any) {
+    if (handleRepositoryBusy(error, res)) {
+      return;
+    }
+    console.error('Error restoring file:', error);
+    res.status(500).json({ message: error.message });
+  }
+};
@@ -0,0 +1,123 @@
+import { Request, Response } from 'express';
+import mongoose from 'mongoose';
+import Notebook from '../models/Notebook';
+import Branch from '../models/Branch';
+import User from '../models/User';
+import ExportJob, { ExportFormat } from '../models/ExportJob';
+import { GitService } from '../services/gitService';
+import { ExportService } from '../services/exportService';
+import { body, validationResult } from 'express-validator';
+
+export const createExportValidation = [
+  body('format').isIn(Object.values(ExportFormat)),
+  body('ref').optional().isString().trim().notEmpty(),
+];
+
+const findJob = (notebookId: string, jobId: string) =>
+  mongoose.isValidObjectId(jobId) ? ExportJob.findOne({ _id: jobId, notebook: notebookId }) : null;
+
+export const getExports = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    const exports = await ExportJob.find({ notebook: id })
+      .sort({ createdAt: -1 })
+      .limit(20)
+      .populate('requestedBy', 'username name');
+
+    res.json({ exports });
+  } catch (error: any) {
+    console.error('Error listing exports:', error);
+    res.status(500).json({ message: error.message });
+  }
+};
+
+// Queue a PDF, EPUB or HTML site of the notebook at a branch, tag or commit (the default branch if none is given)
+export const createExport = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    const { id } = req.params;
+    const format = req.body.format as ExportFormat;
+    const userId = req.userId!;
+
+    const exportService = new ExportService();
+    if (!exportService.isAvailable(format)) {
+      res.status(503).json({ message: `${format.toUpperCase()} export is not set up on this server` });
+      return;
+    }
+
+    const notebook = await Notebook.findById(id);
+    if (!notebook) {
+      res.status(404).json({ message: 'Notebook not found' });
+      return;
+    }
+
+    const user = await User.findById(userId);
+    if (!user) {
+      res.status(404).json({ message: 'User not found' });
+      return;
+    }
+
+    let ref = req.body.ref as string | undefined;
+    if (!ref) {
+      const defaultBranch = await Branch.findOne({ notebook: id, isDefault: true });
+      ref = defaultBranch?.name || 'main';
+    }
+
+    const commitHash = await new GitService(notebook.gitRepoPath).resolveCommit(ref).catch(() => null);
+    if (!commitHash) {
+      res.status(404).json({ message: `No branch, tag or commit "${ref}"` });
+      return;
+    }
+
+    const job = await exportService.createJob(notebook, user, format, ref, commitHash);
+
+    res.status(202).json({ message: 'Export queued', export: job });
+  } catch (error: any) {
+    console.error('Error creating export:', error);
+    res.status(500).json({ message: error.message });
+  }
+};
+
+export const getExport = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id, jobId } = req.params;
+
+    const job = await findJob(id, jobId);
+    if (!job) {
+      res.status(404).json({ message: 'Export not found' });
+      return;
+    }
+
+    res.json({ export: job });
+  } catch (error: any) {
+    console.error('Error getting export:', error);
+    res.status(500).json({ message: error.message });
+  }
+};
+
+export const downloadExport = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id, jobId } = req.params;
+
+    const job = await findJob(id, jobId);
+    if (!job || !job.filePath || !job.fileName) {
+      res.status(404).json({ message: 'Export not found or not finished' });
+      return;
+    }
+
+    res.download(job.filePath, job.fileName, (error) => {
+      if (error && !res.headersSent) {
+        res.status(404).json({ message: 'The exported file has expired' });
+      }
+    });
+  } catch (error: any) {
+    console.error('Error downloading export:', error);
+    res.status(500).json({ message: error.message });
+  }
+};
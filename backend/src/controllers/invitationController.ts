@@ -0,0 +1,227 @@
+import { Request, Response } from 'express';
+import Invitation, { InvitationStatus, InvitedRole } from '../models/Invitation';
+import Notebook from '../models/Notebook';
+import User from '../models/User';
+import { getNotebookRole } from '../middleware/permissions';
+import { InvitationError, InvitationService } from '../services/invitationService';
+import { body, validationResult } from 'express-validator';
+
+export const createInvitationValidation = [
+  body('userId').optional().isMongoId(),
+  body('email').optional().trim().isEmail(),
+  body('role').isIn(['VIEWER', 'EDITOR']).withMessage('Invalid role. Must be VIEWER or EDITOR'),
+];
+
+export const createInviteLinkValidation = [
+  body('role').isIn(['VIEWER', 'EDITOR']).withMessage('Invalid role. Must be VIEWER or EDITOR'),
+  body('expiresInDays').optional().isInt({ min: 1, max: 30 }).toInt(),
+];
+
+const populateInvitation = (id: unknown) =>
+  Invitation.findById(id)
+    .populate('invitee', 'username name email')
+    .populate('invitedBy', 'username name');
+
+const handleInvitationError = (error: unknown, res: Response): boolean => {
+  if (error instanceof InvitationError) {
+    res.status(error.status).json({ message: error.message });
+    return true;
+  }
+  return false;
+};
+
+// Pending invitations and links of a notebook, for its owner
+export const getNotebookInvitations = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    await new InvitationService().expireStale({ notebook: id });
+    const invitations = await Invitation.find({ notebook: id, status: InvitationStatus.PENDING })
+      .populate('invitee', 'username name email')
+      .populate('invitedBy', 'username name')
+      .sort({ createdAt: -1 });
+
+    res.json({ invitations });
+  } catch (error: any) {
+    console.error('Error fetching invitations:', error);
+    res.status(500).json({ message: error.message });
+  }
+};
+
+// Invite a user by id, or anyone by email address
+export const createInvitation = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    const { id } = req.params;
+    const { userId, email, role } = req.body;
+
+    if (Boolean(userId) === Boolean(email)) {
+      res.status(400).json({ message: 'Give either a userId or an email address' });
+      return;
+    }
+
+    const notebook = await Notebook.findById(id);
+    if (!notebook) {
+      res.status(404).json({ message: 'Notebook not found' });
+      return;
+    }
+
+    const invitation = await new InvitationService().invite(notebook, req.userId!, { userId, email }, role as InvitedRole);
+
+    res.status(201).json({ message: 'Invitation sent', invitation: await populateInvitation(invitation._id) });
+  } catch (error: any) {
+    if (handleInvitationError(error, res)) {
+      return;
+    }
+    console.error('Error creating invitation:', error);
+    res.status(500).json({ message: error.message });
+  }
+};
+
+export const createInviteLink = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    const { id } = req.params;
+    const { role, expiresInDays = 7 } = req.body;
+
+    const notebook = await Notebook.findById(id);
+    if (!notebook) {
+      res.status(404).json({ message: 'Notebook not found' });
+      return;
+    }
+
+    const invitation = await new InvitationService().createLink(notebook, req.userId!, role as InvitedRole, expiresInDays);
+
+    res.status(201).json({ invitation: await populateInvitation(invitation._id) });
+  } catch (error: any) {
+    console.error('Error creating invite link:', error);
+    res.status(500).json({ message: error.message });
+  }
+};
+
+// Withdraw an invitation or disable a link
+export const revokeInvitation = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id, invitationId } = req.params;
+
+    const invitation = await Invitation.findOneAndDelete({ _id: invitationId, notebook: id });
+    if (!invitation) {
+      res.status(404).json({ message: 'Invitation not found' });
+      return;
+    }
+
+    res.json({ message: 'Invitation revoked' });
+  } catch (error: any) {
+    console.error('Error revoking invitation:', error);
+    res.status(500).json({ message: error.message });
+  }
+};
+
+export const getMyInvitations = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const user = await User.findById(req.userId);
+    if (!user) {
+      res.status(404).json({ message: 'User not found' });
+      return;
+    }
+
+    const invitations = await new InvitationService().pendingFor(user);
+
+    res.json({ invitations });
+  } catch (error: any) {
+    console.error('Error fetching invitations:', error);
+    res.status(500).json({ message: error.message });
+  }
+};
+
+// What an invitation or link offers, for whoever holds its token
+export const getInvitation = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const invitation = await new InvitationService().findByToken(req.params.token);
+    if (!invitation) {
+      res.status(404).json({ message: 'Invitation not found' });
+      return;
+    }
+
+    const notebook = await Notebook.findById(invitation.notebook);
+    await invitation.populate([
+      { path: 'notebook', select: 'name description courseName courseCode' },
+      { path: 'invitedBy', select: 'username name' },
+    ]);
+
+    res.json({
+      invitation: {
+        _id: invitation._id,
+        kind: invitation.kind,
+        email: invitation.email,
+        role: invitation.role,
+        status: invitation.status,
+        expiresAt: invitation.expiresAt,
+        notebook: invitation.notebook,
+        invitedBy: invitation.invitedBy,
+      },
+      hasAccess: Boolean(notebook && getNotebookRole(notebook, req.userId!)),
+    });
+  } catch (error: any) {
+    console.error('Error fetching invitation:', error);
+    res.status(500).json({ message: error.message });
+  }
+};
+
+export const acceptInvitation = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const invitationService = new InvitationService();
+    const [invitation, user] = await Promise.all([
+      invitationService.findByToken(req.params.token),
+      User.findById(req.userId),
+    ]);
+    if (!invitation || !user) {
+      res.status(404).json({ message: 'Invitation not found' });
+      return;
+    }
+
+    const notebook = await invitationService.accept(invitation, user);
+
+    res.json({ message: 'Invitation accepted', notebook: { _id: notebook._id, name: notebook.name } });
+  } catch (error: any) {
+    if (handleInvitationError(error, res)) {
+      return;
+    }
+    console.error('Error accepting invitation:', error);
+    res.status(500).json({ message: error.message });
+  }
+};
+
+export const declineInvitation = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const invitationService = new InvitationService();
+    const [invitation, user] = await Promise.all([
+      invitationService.findByToken(req.params.token),
+      User.findById(req.userId),
+    ]);
+    if (!invitation || !user) {
+      res.status(404).json({ message: 'Invitation not found' });
+      return;
+    }
+
+    await invitationService.decline(invitation, user);
+
+    res.json({ message: 'Invitation declined' });
+  } catch (error: any) {
+    if (handleInvitationError(error, res)) {
+      return;
+    }
+    console.error('Error declining invitation:', error);
+    res.status(500).json({ message: error.message });
+  }
+};
@@ -0,0 +1,482 @@
+import { Request, Response } from 'express';
+import Branch from '../models/Branch';
+import Notebook, { CollaboratorRole, INotebook } from '../models/Notebook';
+import PullRequest, { IPullRequest, PullRequestStatus } from '../models/PullRequest';
+import User from '../models/User';
+import { GitService } from '../services/gitService';
+import { MergeService } from '../services/mergeService';
+import { BranchProtectionService } from '../services/branchProtectionService';
+import { EventBus } from '../services/eventBus';
+import { body, validationResult } from 'express-validator';
+import { getNotebookRole } from '../middleware/permissions';
+import { handleRepositoryBusy } from '../middleware/errorHandler';
+
+export const startMergeValidation = [
+  body('sourceBranch').optional().trim(),
+  body('targetBranch').optional().trim(),
+  body('pullRequest').optional().isMongoId(),
+  body('upstream').optional().isBoolean(),
+  body('message').optional().trim(),
+];
+
+export const resolveConflictValidation = [
+  body('path').notEmpty().trim(),
+  body('content').optional().isString(),
+  body('deleted').optional().isBoolean(),
+];
+
+// Describe the in-progress merge, re-reading unresolved conflicts from the target branch's index
+const getMergeState = async (notebook: INotebook, gitService: GitService) => {
+  const pending = notebook.pendingMerge!;
+  const conflicted = await gitService.getConflictedFiles();
+  const conflicts = await Promise.all(conflicted.map((filePath) => gitService.getConflict(filePath)));
+
+  const startedBy = await User.findById(pending.startedBy).select('username name');
+
+  return {
+    sourceBranch: pending.sourceBranch,
+    targetBranch: pending.targetBranch,
+    message: pending.message,
+    pullRequest: pending.pullRequest,
+    startedBy,
+    startedAt: pending.startedAt,
+    conflicts,
+    resolved: pending.conflicts.filter((filePath) => !conflicted.includes(filePath)),
+  };
+};
+
+export const getMerge = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    const notebook = await Notebook.findById(id);
+    if (!notebook) {
+      res.status(404).json({ message: 'Notebook not found' });
+      return;
+    }
+
+    if (!notebook.pendingMerge) {
+      res.json({ merge: null });
+      return;
+    }
+
+    const gitService = new GitService(notebook.gitRepoPath);
+    const workTree = await gitService.findWorktree(notebook.pendingMerge.targetBranch);
+
+    // The target branch no longer has a merge in progress, so the record is stale
+    if (!workTree || !(await workTree.isMergeInProgress())) {
+      notebook.pendingMerge = undefined;
+      await notebook.save();
+      res.json({ merge: null });
+      return;
+    }
+
+    res.json({ merge: await getMergeState(notebook, workTree) });
+  } catch (error: any) {
+    if (handleRepositoryBusy(error, res)) {
+      return;
+    }
+    console.error('Error getting merge state:', error);
+    res.status(500).json({ message: error.message });
+  }
+};
+
+export const startMerge = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    const { id } = req.params;
+    const { pullRequest: pullRequestId, upstream, userRole } = req.body;
+    let { sourceBranch: sourceName, targetBranch: targetName, message } = req.body;
+    const userId = req.userId!;
+
+    const notebook = await Notebook.findById(id);
+    if (!notebook) {
+      res.status(404).json({ message: 'Notebook not found' });
+      return;
+    }
+
+    if (notebook.pendingMerge) {
+      res.status(409).json({ message: 'Another merge is in progress. Finish or abort it first.' });
+      return;
+    }
+
+    const gitService = new GitService(notebook.gitRepoPath);
+    // What git merges; only differs from sourceName for pull requests from forks and upstream pulls
+    let sourceRef = sourceName;
+    let pullRequest: IPullRequest | null = null;
+
+    // Merging a pull request takes its branches and message from the pull request itself
+    if (pullRequestId) {
+      if (userRole !== CollaboratorRole.OWNER) {
+        res.status(403).json({ message: 'Only the notebook owner can merge pull requests' });
+        return;
+      }
+
+      pullRequest = await PullRequest.findOne({ _id: pullRequestId, notebook: id })
+        .populate('targetBranch', 'name');
+      if (!pullRequest) {
+        res.status(404).json({ message: 'Pull request not found' });
+        return;
+      }
+      if (pullRequest.status !== PullRequestStatus.OPEN) {
+        res.status(400).json({ message: 'Only open pull requests can be merged' });
+        return;
+      }
+
+      const source = await new MergeService(gitService).getPullRequestSource(pullRequest, { refresh: true });
+      if (!source) {
+        res.status(404).json({ message: 'The source branch of this pull request no longer exists' });
+        return;
+      }
+
+      sourceName = source.label;
+      sourceRef = source.ref;
+      targetName = (pullRequest.targetBranch as any).name;
+      message = `Merge pull request "${pullRequest.title}" from ${sourceName}`;
+    }
+
+    // Pulling from upstream merges a branch of the notebook this one was forked from
+    if (upstream) {
+      if (userRole !== CollaboratorRole.OWNER) {
+        res.status(403).json({ message: 'Only the notebook owner can pull upstream changes' });
+        return;
+      }
+
+      const parent = notebook.forkedFrom ? await Notebook.findById(notebook.forkedFrom) : null;
+      if (!parent) {
+        res.status(400).json({ message: 'This notebook is not a fork of an existing notebook' });
+        return;
+      }
+      if (!parent.isPublic && !getNotebookRole(parent, userId)) {
+        res.status(403).json({ message: 'You no longer have access to the original notebook' });
+        return;
+      }
+
+      // The upstream branch defaults to the one with the same name as the branch being updated
+      const upstreamName = sourceName || targetName;
+      if (!upstreamName || !(await Branch.exists({ notebook: parent._id, name: upstreamName }))) {
+        res.status(404).json({ message: `Branch "${upstreamName}" not found in the original notebook` });
+        return;
+      }
+
+      sourceRef = `refs/remotes/upstream/${upstreamName}`;
+      await gitService.fetchFromNotebook(parent.gitRepoPath, upstreamName, sourceRef);
+      sourceName = `upstream/${upstreamName}`;
+      message = message || `Merge ${parent.name}:${upstreamName} into ${targetName}`;
+    }
+
+    if (!sourceName || !targetName) {
+      res.status(400).json({ message: 'Source and target branches are required' });
+      return;
+    }
+    if (sourceName === targetName) {
+      res.status(400).json({ message: 'Source and target branches must be different' });
+      return;
+    }
+
+    const [sourceExists, targetBranch] = await Promise.all([
+      // Pull request and upstream sources were already checked, and may live in another notebook
+      pullRequestId || upstream || Branch.exists({ notebook: id, name: sourceName }),
+      Branch.findOne({ notebook: id, name: targetName }),
+    ]);
+    if (!sourceExists || !targetBranch) {
+      res.status(404).json({ message: 'Source or target branch not found' });
+      return;
+    }
+
+    const protection = new BranchProtectionService();
+    const protectionError = pullRequest
+      ? await protection.pullRequestMergeError(targetBranch, pullRequest)
+      : protection.directChangeError(targetBranch);
+    if (protectionError) {
+      res.status(403).json({ message: protectionError });
+      return;
+    }
+
+    const user = await User.findById(userId);
+    if (!user) {
+      res.status(404).json({ message: 'User not found' });
+      return;
+    }
+
+    message = message || `Merge branch '${sourceName}' into ${targetName}`;
+    const [source, target, mergeMessage] = [sourceName, targetName, message];
+    const mergeService = new MergeService(gitService);
+
+    // Nothing may land on the target between reading its head and recording the merge on top of it
+    await gitService.withLock(async () => {
+      if (pullRequestId && !(await mergeService.claimPullRequest(pullRequestId))) {
+        res.status(400).json({ message: 'Only open pull requests can be merged' });
+        return;
+      }
+
+      try {
+        // Merge inside the target branch's worktree so no other branch's files change
+        const workTree = await gitService.forBranch(target);
+        if (await workTree.isMergeInProgress()) {
+          res.status(409).json({ message: 'Another merge is in progress. Finish or abort it first.' });
+          return;
+        }
+        // Merging could fail on, or an abort throw away, edits saved on the target but not yet committed
+        if (await workTree.hasUncommittedChanges()) {
+          res.status(409).json({ message: `${target} has uncommitted changes. Commit them before merging.` });
+          return;
+        }
+
+        const previousHead = await gitService.getBranchHead(target);
+        const result = await workTree.mergeBranch(sourceRef, {
+          message: mergeMessage,
+          authorName: user.name || user.username,
+          authorEmail: user.email,
+        });
+
+        if (!result.success) {
+          // Keep the half-finished merge so the conflicts can be resolved one file at a time.
+          // Claimed atomically, since a concurrent merge may have started after the check above.
+          const claimed = await Notebook.findOneAndUpdate(
+            { _id: id, pendingMerge: null },
+            {
+              pendingMerge: {
+                sourceBranch: source,
+                targetBranch: target,
+                message: mergeMessage,
+                conflicts: result.conflicts || [],
+                pullRequest: pullRequestId,
+                startedBy: user._id,
+                startedAt: new Date(),
+              },
+            },
+            { new: true }
+          );
+          if (!claimed) {
+            await workTree.abortMerge();
+            res.status(409).json({ message: 'Another merge is in progress. Finish or abort it first.' });
+            return;
+          }
+
+          res.json({
+            merged: false,
+            message: 'The merge has conflicts that must be resolved',
+            merge: await getMergeState(claimed, workTree),
+          });
+          return;
+        }
+
+        const mergeHash = await gitService.getBranchHead(target);
+        await mergeService.recordMergeCommit({
+          notebookId: id,
+          userId,
+          targetBranch,
+          previousHead,
+          mergeHash,
+          message: mergeMessage,
+        });
+
+        if (pullRequestId) {
+          await mergeService.markPullRequestMerged(pullRequestId, userId, previousHead, mergeHash, source, target);
+        } else {
+          await new EventBus().publish('branch.merged', {
+            notebookId: id,
+            userId,
+            sourceBranch: source,
+            targetBranch: target,
+            commitHash: mergeHash,
+            conflicts: [],
+          });
+        }
+
+        res.json({ merged: true, commitHash: mergeHash });
+      } finally {
+        // A pull request whose merge stopped at conflicts stays open until they are resolved
+        if (pullRequestId) {
+          await mergeService.releasePullRequest(pullRequestId);
+        }
+      }
+    });
+  } catch (error: any) {
+    if (handleRepositoryBusy(error, res)) {
+      return;
+    }
+    console.error('Error starting merge:', error);
+    res.status(500).json({ message: error.message });
+  }
+};
+
+export const resolveConflict = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    const { id } = req.params;
+    const { path: filePath, content, deleted } = req.body;
+
+    const notebook = await Notebook.findById(id);
+    if (!notebook) {
+      res.status(404).json({ message: 'Notebook not found' });
+      return;
+    }
+
+    if (!notebook.pendingMerge) {
+      res.status(400).json({ message: 'No merge is in progress' });
+      return;
+    }
+
+    if (!notebook.pendingMerge.conflicts.includes(filePath)) {
+      res.status(400).json({ message: `"${filePath}" is not part of this merge's conflicts` });
+      return;
+    }
+
+    if (!deleted && typeof content !== 'string') {
+      res.status(400).json({ message: 'Resolved content is required unless the file is deleted' });
+      return;
+    }
+
+    const workTree = await new GitService(notebook.gitRepoPath).forBranch(notebook.pendingMerge.targetBranch);
+    await workTree.resolveConflict(filePath, deleted ? null : content);
+
+    res.json({ merge: await getMergeState(notebook, workTree) });
+  } catch (error: any) {
+    if (handleRepositoryBusy(error, res)) {
+      return;
+    }
+    console.error('Error resolving conflict:', error);
+    res.status(500).json({ message: error.message });
+  }
+};
+
+export const completeMerge = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { userRole } = req.body;
+    const userId = req.userId!;
+
+    const notebook = await Notebook.findById(id);
+    if (!notebook) {
+      res.status(404).json({ message: 'Notebook not found' });
+      return;
+    }
+
+    const pending = notebook.pendingMerge;
+    if (!pending) {
+      res.status(400).json({ message: 'No merge is in progress' });
+      return;
+    }
+
+    if (pending.pullRequest && userRole !== CollaboratorRole.OWNER) {
+      res.status(403).json({ message: 'Only the notebook owner can merge pull requests' });
+      return;
+    }
+
+    const gitService = new GitService(notebook.gitRepoPath);
+    const workTree = await gitService.forBranch(pending.targetBranch);
+    const conflicted = await workTree.getConflictedFiles();
+    if (conflicted.length > 0) {
+      res.status(409).json({ message: 'Resolve every conflict before completing the merge', conflicts: conflicted });
+      return;
+    }
+
+    const targetBranch = await Branch.findOne({ notebook: id, name: pending.targetBranch });
+    if (!targetBranch) {
+      res.status(404).json({ message: `Branch "${pending.targetBranch}" not found` });
+      return;
+    }
+
+    // Protection may have been turned on while the conflicts were being resolved
+    const pullRequest = pending.pullRequest ? await PullRequest.findById(pending.pullRequest) : null;
+    const protection = new BranchProtectionService();
+    const protectionError = pullRequest
+      ? await protection.pullRequestMergeError(targetBranch, pullRequest)
+      : protection.directChangeError(targetBranch);
+    if (protectionError) {
+      res.status(403).json({ message: protectionError });
+      return;
+    }
+
+    const user = await User.findById(userId);
+    if (!user) {
+      res.status(404).json({ message: 'User not found' });
+      return;
+    }
+
+    const previousHead = await gitService.getBranchHead(pending.targetBranch);
+    const mergeHash = await workTree.commitMerge(pending.message, user.name || user.username, user.email);
+
+    const mergeService = new MergeService(gitService);
+    await mergeService.recordMergeCommit({
+      notebookId: id,
+      userId,
+      targetBranch,
+      previousHead,
+      mergeHash,
+      message: pending.message,
+    });
+
+    if (pending.pullRequest) {
+      await mergeService.markPullRequestMerged(
+        pending.pullRequest,
+        userId,
+        previousHead,
+        mergeHash,
+        pending.sourceBranch,
+        pending.targetBranch
+      );
+    } else {
+      await new EventBus().publish('branch.merged', {
+        notebookId: id,
+        userId,
+        sourceBranch: pending.sourceBranch,
+        targetBranch: pending.targetBranch,
+        commitHash: mergeHash,
+        conflicts: pending.conflicts,
+      });
+    }
+
+    notebook.pendingMerge = undefined;
+    await notebook.save();
+
+    res.json({ merged: true, commitHash: mergeHash });
+  } catch (error: any) {
+    if (handleRepositoryBusy(error, res)) {
+      return;
+    }
+    console.error('Error completing merge:', error);
+    res.status(500).json({ message: error.message });
+  }
+};
+
+export const abortMerge = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    const notebook = await Notebook.findById(id);
+    if (!notebook) {
+      res.status(404).json({ message: 'Notebook not found' });
+      return;
+    }
+
+    const pending = notebook.pendingMerge;
+    const workTree = pending ? await new GitService(notebook.gitRepoPath).findWorktree(pending.targetBranch) : null;
+    if (workTree && (await workTree.isMergeInProgress())) {
+      await workTree.abortMerge();
+    }
+
+    notebook.pendingMerge = undefined;
+    await notebook.save();
+
+    res.json({ message: 'Merge aborted' });
+  } catch (error: any) {
+    if (handleRepositoryBusy(error, res)) {
+      return;
+    }
+    console.error('Error aborting merge:', error);
+    res.status(500).json({ message: error.message });
+  }
+};
@@ -1,9 +1,19 @@
 import { Request, Response } from 'express';
 import Notebook from '../models/Notebook';
 import Branch from '../models/Branch';
+import Tag from '../models/Tag';
+import Release from '../models/Release';
+import NotebookWatch from '../models/NotebookWatch';
+import Invitation from '../models/Invitation';
 import { GitService } from '../services/gitService';
+import { SearchService } from '../services/searchService';
+import { ImportService, ImportSource, ImportError } from '../services/importService';
+import { ExportService } from '../services/exportService';
+import { EventBus } from '../services/eventBus';
+import User from '../models/User';
 import { body, validationResult } from 'express-validator';
 import mongoose from 'mongoose';
+import fs from 'fs/promises';
 
 export const createNotebookValidation = [
   body('name').notEmpty().trim().isLength({ max: 100 }),
@@ -51,9 +61,75 @@ export const createNotebook = async (req: Request, res: Response): Promise<void>
       notebook: notebook._id,
     });
 
+    new SearchService().queueBranchUpdate(String(notebook._id), repoPath, 'main');
+
+    await new EventBus().publish('notebook.created', { notebookId: String(notebook._id), userId, imported: false });
+
+    res.status(201).json({ notebook });
+  } catch (error: any) {
+    res.status(500).json({ message: error.message });
+  }
+};
+
+export const importNotebookValidation = [
+  ...createNotebookValidation,
+  body('source').isIn(['bundle', 'zip', 'path']),
+  body('path').optional().trim(),
+];
+
+// Create a notebook from an uploaded git bundle or ZIP, or (admins only) a repository on the server
+export const importNotebook = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    const { name, description, courseName, courseCode, isPublic, source: sourceType } = req.body;
+
+    let source: ImportSource;
+    if (sourceType === 'path') {
+      if (!req.body.path) {
+        res.status(400).json({ message: 'A repository path is required' });
+        return;
+      }
+      source = { type: 'path', path: req.body.path };
+    } else {
+      if (!req.file) {
+        res.status(400).json({ message: `Upload a ${sourceType === 'zip' ? 'ZIP archive' : 'git bundle'} to import` });
+        return;
+      }
+      source = { type: sourceType, file: req.file.path };
+    }
+
+    const user = await User.findById(req.userId);
+    if (!user) {
+      res.status(404).json({ message: 'User not found' });
+      return;
+    }
+
+    const notebook = await new ImportService().importNotebook(
+      source,
+      // Multipart forms send every field as a string
+      { name, description, courseName, courseCode, isPublic: isPublic === true || isPublic === 'true' },
+      user
+    );
+
+    await new EventBus().publish('notebook.created', { notebookId: String(notebook._id), userId: req.userId!, imported: true });
+
     res.status(201).json({ notebook });
   } catch (error: any) {
+    if (error instanceof ImportError) {
+      res.status(400).json({ message: error.message });
+      return;
+    }
+    console.error('Error importing notebook:', error);
     res.status(500).json({ message: error.message });
+  } finally {
+    if (req.file) {
+      await fs.rm(req.file.path, { force: true });
+    }
   }
 };
 
@@ -88,7 +164,9 @@ export const getNotebookById = async (req: Request, res: Response): Promise<void
 
     const notebook = await Notebook.findById(id)
       .populate('owner', 'username name email')
-      .populate('collaborators.user', 'username name email');
+      .populate('collaborators.user', 'username name email')
+      .populate('pendingOwnershipTransfer.to', 'username name')
+      .populate('forkedFrom', 'name');
 
     if (!notebook) {
       res.status(404).json({ message: 'Notebook not found' });
@@ -147,7 +225,13 @@ export const deleteNotebook = async (req: Request, res: Response): Promise<void>
 
     // Also delete all related data
     await Branch.deleteMany({ notebook: id });
-    // TODO: Delete commits, PRs, comments, tags
+    await Tag.deleteMany({ notebook: id });
+    await Release.deleteMany({ notebook: id });
+    await NotebookWatch.deleteMany({ notebook: id });
+    await Invitation.deleteMany({ notebook: id });
+    await new SearchService().removeNotebook(id);
+    await new ExportService().removeNotebook(id);
+    // TODO: Delete commits, PRs, comments
 
     res.json({ message: 'Notebook deleted successfully' });
   } catch (error: any) {
@@ -0,0 +1,421 @@
+import { Request, Response } from 'express';
+import PullRequest, { PullRequestStatus } from '../models/PullRequest';
+import Branch from '../models/Branch';
+import Notebook, { CollaboratorRole } from '../models/Notebook';
+import User from '../models/User';
+import { GitService } from '../services/gitService';
+import { MergeService } from '../services/mergeService';
+import { BranchProtectionService } from '../services/branchProtectionService';
+import { EventBus } from '../services/eventBus';
+import { parseDiffByFile } from '../utils/diff';
+import { body, validationResult } from 'express-validator';
+import { handleRepositoryBusy } from '../middleware/errorHandler';
+
+export const createPullRequestValidation = [
+  body('title').notEmpty().trim().isLength({ max: 200 }),
+  body('description').optional().trim(),
+  body('sourceBranch').notEmpty().trim(),
+  body('targetBranch').optional().trim(),
+];
+
+export const updatePullRequestValidation = [
+  body('title').optional().notEmpty().trim().isLength({ max: 200 }),
+  body('description').optional().trim(),
+  body('status').optional().isIn([PullRequestStatus.OPEN, PullRequestStatus.CLOSED]),
+];
+
+const populatePullRequest = (pullRequestId: unknown) =>
+  PullRequest.findById(pullRequestId)
+    .populate('sourceBranch', 'name lastCommitHash')
+    .populate('targetBranch', 'name lastCommitHash')
+    .populate('sourceNotebook', 'name')
+    .populate('author', 'username name')
+    .populate('mergedBy', 'username name');
+
+export const createPullRequest = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    const { id } = req.params;
+    const { title, description, sourceBranch: sourceName, targetBranch: targetName } = req.body;
+    const userId = req.userId!;
+
+    const sourceBranch = await Branch.findOne({ notebook: id, name: sourceName });
+    if (!sourceBranch) {
+      res.status(404).json({ message: `Source branch "${sourceName}" not found` });
+      return;
+    }
+
+    // Default to the notebook's default branch when no target is given
+    const targetBranch = targetName
+      ? await Branch.findOne({ notebook: id, name: targetName })
+      : await Branch.findOne({ notebook: id, isDefault: true });
+    if (!targetBranch) {
+      res.status(404).json({ message: `Target branch "${targetName || 'main'}" not found` });
+      return;
+    }
+
+    if (String(sourceBranch._id) === String(targetBranch._id)) {
+      res.status(400).json({ message: 'Source and target branches must be different' });
+      return;
+    }
+
+    const existing = await PullRequest.findOne({
+      notebook: id,
+      sourceBranch: sourceBranch._id,
+      targetBranch: targetBranch._id,
+      status: PullRequestStatus.OPEN,
+    });
+    if (existing) {
+      res.status(400).json({ message: 'An open pull request already exists for these branches' });
+      return;
+    }
+
+    const pullRequest = await PullRequest.create({
+      title,
+      description,
+      sourceBranch: sourceBranch._id,
+      targetBranch: targetBranch._id,
+      notebook: id,
+      author: userId,
+    });
+
+    await new EventBus().publish('pullRequest.opened', {
+      notebookId: id,
+      userId,
+      pullRequest,
+      sourceLabel: sourceBranch.name,
+      targetBranch: targetBranch.name,
+    });
+
+    const populated = await populatePullRequest(pullRequest._id);
+
+    res.status(201).json({ pullRequest: populated });
+  } catch (error: any) {
+    console.error('Error creating pull request:', error);
+    res.status(500).json({ message: error.message });
+  }
+};
+
+export const getPullRequests = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { status } = req.query;
+
+    const filter: any = { notebook: id };
+    if (status && typeof status === 'string' && status.toLowerCase() !== 'all') {
+      const normalized = status.toUpperCase() as PullRequestStatus;
+      if (!Object.values(PullRequestStatus).includes(normalized)) {
+        res.status(400).json({ message: 'Invalid status. Must be OPEN, CLOSED, MERGED or ALL' });
+        return;
+      }
+      filter.status = normalized;
+    }
+
+    const pullRequests = await PullRequest.find(filter)
+      .populate('sourceBranch', 'name')
+      .populate('targetBranch', 'name')
+      .populate('sourceNotebook', 'name')
+      .populate('author', 'username name')
+      .populate('mergedBy', 'username name')
+      .sort({ createdAt: -1 });
+
+    res.json({ pullRequests });
+  } catch (error: any) {
+    res.status(500).json({ message: error.message });
+  }
+};
+
+export const getPullRequestById = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id, prId } = req.params;
+
+    const pullRequest = await PullRequest.findOne({ _id: prId, notebook: id });
+    if (!pullRequest) {
+      res.status(404).json({ message: 'Pull request not found' });
+      return;
+    }
+
+    const populated = await populatePullRequest(pullRequest._id);
+
+    res.json({ pullRequest: populated });
+  } catch (error: any) {
+    res.status(500).json({ message: error.message });
+  }
+};
+
+export const getPullRequestDiff = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id, prId } = req.params;
+
+    const notebook = await Notebook.findById(id);
+    if (!notebook) {
+      res.status(404).json({ message: 'Notebook not found' });
+      return;
+    }
+
+    const pullRequest = await PullRequest.findOne({ _id: prId, notebook: id });
+    if (!pullRequest) {
+      res.status(404).json({ message: 'Pull request not found' });
+      return;
+    }
+
+    const gitService = new GitService(notebook.gitRepoPath);
+
+    // Merged pull requests no longer differ from their target, so show what the merge brought in
+    let diff: string;
+    let stats;
+    if (pullRequest.status === PullRequestStatus.MERGED && pullRequest.mergeCommitHash) {
+      // Fast-forward merges leave no merge commit, so diff against the target's head from before the merge
+      const base = pullRequest.previousTargetHash || `${pullRequest.mergeCommitHash}^1`;
+      diff = await gitService.getDiff(base, pullRequest.mergeCommitHash);
+      stats = await gitService.getDiffStats(base, pullRequest.mergeCommitHash);
+    } else {
+      const [source, targetBranch] = await Promise.all([
+        new MergeService(gitService).getPullRequestSource(pullRequest),
+        Branch.findById(pullRequest.targetBranch),
+      ]);
+      if (!source || !targetBranch) {
+        res.status(404).json({ message: 'Source or target branch no longer exists' });
+        return;
+      }
+
+      diff = await gitService.getBranchDiff(targetBranch.name, source.ref);
+      stats = await gitService.getDiffStats(`${targetBranch.name}...${source.ref}`);
+    }
+
+    const fileDiffMap = parseDiffByFile(diff);
+    const files = stats.map((file) => ({
+      ...file,
+      diff: fileDiffMap.get(file.previousPath || file.path) || '',
+    }));
+
+    res.json({
+      diff,
+      files,
+      additions: stats.reduce((sum, f) => sum + f.additions, 0),
+      deletions: stats.reduce((sum, f) => sum + f.deletions, 0),
+    });
+  } catch (error: any) {
+    if (handleRepositoryBusy(error, res)) {
+      return;
+    }
+    console.error('Error getting pull request diff:', error);
+    res.status(500).json({ message: error.message });
+  }
+};
+
+// Fetch the source branch of a pull request from a fork again, so its diff shows the fork's latest commits
+export const refreshPullRequest = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id, prId } = req.params;
+    const { userRole } = req.body;
+    const userId = req.userId!;
+
+    const notebook = await Notebook.findById(id);
+    if (!notebook) {
+      res.status(404).json({ message: 'Notebook not found' });
+      return;
+    }
+
+    const pullRequest = await PullRequest.findOne({ _id: prId, notebook: id });
+    if (!pullRequest) {
+      res.status(404).json({ message: 'Pull request not found' });
+      return;
+    }
+
+    if (pullRequest.author.toString() !== userId && userRole === CollaboratorRole.VIEWER) {
+      res.status(403).json({ message: 'Only the author or an editor can refresh this pull request' });
+      return;
+    }
+
+    if (!pullRequest.sourceNotebook || pullRequest.status !== PullRequestStatus.OPEN) {
+      res.status(400).json({ message: 'Only open pull requests from a fork can be refreshed' });
+      return;
+    }
+
+    const source = await new MergeService(new GitService(notebook.gitRepoPath)).getPullRequestSource(pullRequest, {
+      refresh: true,
+    });
+    if (!source) {
+      res.status(404).json({ message: 'The source branch of this pull request no longer exists' });
+      return;
+    }
+
+    res.json({ pullRequest: await populatePullRequest(pullRequest._id) });
+  } catch (error: any) {
+    if (handleRepositoryBusy(error, res)) {
+      return;
+    }
+    console.error('Error refreshing pull request:', error);
+    res.status(500).json({ message: error.message });
+  }
+};
+
+export const updatePullRequest = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    const { id, prId } = req.params;
+    const { title, description, status, userRole } = req.body;
+    const userId = req.userId!;
+
+    const pullRequest = await PullRequest.findOne({ _id: prId, notebook: id });
+    if (!pullRequest) {
+      res.status(404).json({ message: 'Pull request not found' });
+      return;
+    }
+
+    if (pullRequest.author.toString() !== userId && userRole !== CollaboratorRole.OWNER) {
+      res.status(403).json({ message: 'Only the author or the notebook owner can update this pull request' });
+      return;
+    }
+
+    if (pullRequest.status === PullRequestStatus.MERGED) {
+      res.status(400).json({ message: 'Merged pull requests cannot be modified' });
+      return;
+    }
+
+    if (title !== undefined) pullRequest.title = title;
+    if (description !== undefined) pullRequest.description = description;
+    if (status !== undefined) pullRequest.status = status;
+    await pullRequest.save();
+
+    const populated = await populatePullRequest(pullRequest._id);
+
+    res.json({ pullRequest: populated });
+  } catch (error: any) {
+    res.status(500).json({ message: error.message });
+  }
+};
+
+export const mergePullRequest = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id, prId } = req.params;
+    const userId = req.userId!;
+
+    const notebook = await Notebook.findById(id);
+    if (!notebook) {
+      res.status(404).json({ message: 'Notebook not found' });
+      return;
+    }
+
+    const pullRequest = await PullRequest.findOne({ _id: prId, notebook: id });
+    if (!pullRequest) {
+      res.status(404).json({ message: 'Pull request not found' });
+      return;
+    }
+
+    if (pullRequest.status !== PullRequestStatus.OPEN) {
+      res.status(400).json({ message: 'Only open pull requests can be merged' });
+      return;
+    }
+
+    if (notebook.pendingMerge) {
+      res.status(409).json({ message: 'Another merge is in progress. Finish or abort it first.' });
+      return;
+    }
+
+    const gitService = new GitService(notebook.gitRepoPath);
+    const mergeService = new MergeService(gitService);
+
+    const [source, targetBranch] = await Promise.all([
+      mergeService.getPullRequestSource(pullRequest, { refresh: true }),
+      Branch.findById(pullRequest.targetBranch),
+    ]);
+    if (!source || !targetBranch) {
+      res.status(404).json({ message: 'Source or target branch no longer exists' });
+      return;
+    }
+
+    const protectionError = await new BranchProtectionService().pullRequestMergeError(targetBranch, pullRequest);
+    if (protectionError) {
+      res.status(403).json({ message: protectionError });
+      return;
+    }
+
+    const user = await User.findById(userId);
+    if (!user) {
+      res.status(404).json({ message: 'User not found' });
+      return;
+    }
+
+    // Nothing may land on the target between reading its head and recording the merge on top of it
+    const merged = await gitService.withLock(async () => {
+      if ((await Notebook.findById(id))?.pendingMerge) {
+        res.status(409).json({ message: 'Another merge is in progress. Finish or abort it first.' });
+        return false;
+      }
+      if (!(await mergeService.claimPullRequest(pullRequest._id))) {
+        res.status(400).json({ message: 'Only open pull requests can be merged' });
+        return false;
+      }
+
+      try {
+        const workTree = await gitService.forBranch(targetBranch.name);
+        // Merging could fail on, or an abort throw away, edits saved on the target but not yet committed
+        if (await workTree.hasUncommittedChanges()) {
+          await mergeService.releasePullRequest(pullRequest._id);
+          res.status(409).json({ message: `${targetBranch.name} has uncommitted changes. Commit them before merging.` });
+          return false;
+        }
+        const previousHead = await gitService.getBranchHead(targetBranch.name);
+
+        const result = await workTree.mergeBranch(source.ref, {
+          message: `Merge pull request "${pullRequest.title}" from ${source.label}`,
+          authorName: user.name || user.username,
+          authorEmail: user.email,
+        });
+
+        if (!result.success) {
+          // Leave the repository clean so other operations are not blocked by a half-finished merge
+          await workTree.abortMerge();
+          await mergeService.releasePullRequest(pullRequest._id);
+          res.status(409).json({
+            message: 'This pull request has conflicts that must be resolved before merging',
+            conflicts: result.conflicts,
+          });
+          return false;
+        }
+
+        const mergeHash = await gitService.getBranchHead(targetBranch.name);
+
+        await mergeService.recordMergeCommit({
+          notebookId: id,
+          userId,
+          targetBranch,
+          previousHead,
+          mergeHash,
+          message: `Merge pull request "${pullRequest.title}" from ${source.label}`,
+          description: pullRequest.description,
+        });
+        await mergeService.markPullRequestMerged(pullRequest._id, userId, previousHead, mergeHash, source.label, targetBranch.name);
+        return true;
+      } catch (error) {
+        await mergeService.releasePullRequest(pullRequest._id);
+        throw error;
+      }
+    });
+    if (!merged) {
+      return;
+    }
+
+    const populated = await populatePullRequest(pullRequest._id);
+
+    res.json({ pullRequest: populated });
+  } catch (error: any) {
+    if (handleRepositoryBusy(error, res)) {
+      return;
+    }
+    console.error('Error merging pull request:', error);
+    res.status(500).json({ message: error.message });
+  }
+};
@@ -0,0 +1,213 @@
+import { Request, Response } from 'express';
+import mongoose from 'mongoose';
+import Notebook from '../models/Notebook';
+import User from '../models/User';
+import Tag from '../models/Tag';
+import Release from '../models/Release';
+import { GitService } from '../services/gitService';
+import { EventBus } from '../services/eventBus';
+import { TagService, isValidTagName } from '../services/tagService';
+import { handleRepositoryBusy } from '../middleware/errorHandler';
+import { ARCHIVE_FORMATS, ArchiveFormat, archiveName, sendArchive } from '../utils/archive';
+import { body, query, validationResult } from 'express-validator';
+
+export const createReleaseValidation = [
+  body('tag')
+    .trim()
+    .isLength({ min: 1, max: 100 })
+    .custom((name: string) => isValidTagName(name))
+    .withMessage('Tag names may contain letters, digits, ".", "_" and "-", and must start with a letter or digit'),
+  body('title').notEmpty().trim().isLength({ max: 200 }),
+  body('notes').optional().isString(),
+  body('ref').optional().trim(),
+  body('color').optional().matches(/^#[0-9a-fA-F]{6}$/),
+];
+
+export const updateReleaseValidation = [
+  body('title').optional().notEmpty().trim().isLength({ max: 200 }),
+  body('notes').optional().isString(),
+];
+
+export const downloadReleaseValidation = [query('format').optional().isIn(ARCHIVE_FORMATS)];
+
+const populateRelease = (releaseId: mongoose.Types.ObjectId | unknown) =>
+  Release.findById(releaseId).populate('tag').populate('author', 'username name');
+
+export const getReleases = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    const notebook = await Notebook.findById(id);
+    if (!notebook) {
+      res.status(404).json({ message: 'Notebook not found' });
+      return;
+    }
+
+    const releases = await Release.find({ notebook: id })
+      .populate('tag')
+      .populate('author', 'username name')
+      .sort({ createdAt: -1 });
+
+    res.json({ releases });
+  } catch (error: any) {
+    console.error('Error listing releases:', error);
+    res.status(500).json({ message: error.message });
+  }
+};
+
+// Publish notes for an existing tag, or tag `ref` (the default branch if omitted) first
+export const createRelease = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    const { id } = req.params;
+    const { tag: tagName, title, notes, ref, color } = req.body;
+    const userId = req.userId!;
+
+    const notebook = await Notebook.findById(id);
+    if (!notebook) {
+      res.status(404).json({ message: 'Notebook not found' });
+      return;
+    }
+
+    const user = await User.findById(userId);
+    if (!user) {
+      res.status(404).json({ message: 'User not found' });
+      return;
+    }
+
+    const tagService = new TagService();
+    let tag = (await tagService.listTags(notebook)).find((t) => t.name === tagName);
+    if (tag) {
+      if (await Release.exists({ tag: tag._id })) {
+        res.status(409).json({ message: `A release for tag "${tagName}" already exists` });
+        return;
+      }
+    } else {
+      const commitHash = await tagService.resolveRef(notebook, ref);
+      if (!commitHash) {
+        res.status(404).json({ message: `No branch or commit "${ref}" to tag` });
+        return;
+      }
+      tag = await tagService.createTag(notebook, user, { name: tagName, commitHash, description: title, color });
+    }
+
+    const release = await Release.create({
+      notebook: id,
+      tag: tag._id,
+      title,
+      notes,
+      author: userId,
+    });
+
+    await new EventBus().publish('release.published', {
+      notebookId: id,
+      userId,
+      releaseId: String(release._id),
+      title,
+      tag: tagName,
+      commitHash: tag.commitHash,
+    });
+
+    res.status(201).json({ release: await populateRelease(release._id) });
+  } catch (error: any) {
+    if (handleRepositoryBusy(error, res)) {
+      return;
+    }
+    console.error('Error creating release:', error);
+    res.status(500).json({ message: error.message });
+  }
+};
+
+export const updateRelease = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    const { id, tag: tagName } = req.params;
+    const { title, notes } = req.body;
+
+    const tag = await Tag.findOne({ notebook: id, name: tagName });
+    const release = tag && (await Release.findOne({ tag: tag._id }));
+    if (!release) {
+      res.status(404).json({ message: 'Release not found' });
+      return;
+    }
+
+    if (title !== undefined) {
+      release.title = title;
+    }
+    if (notes !== undefined) {
+      release.notes = notes;
+    }
+    await release.save();
+
+    res.json({ release: await populateRelease(release._id) });
+  } catch (error: any) {
+    res.status(500).json({ message: error.message });
+  }
+};
+
+// Removes the release notes only; the tag stays
+export const deleteRelease = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id, tag: tagName } = req.params;
+
+    const tag = await Tag.findOne({ notebook: id, name: tagName });
+    const release = tag && (await Release.findOneAndDelete({ tag: tag._id }));
+    if (!release) {
+      res.status(404).json({ message: 'Release not found' });
+      return;
+    }
+
+    res.json({ message: 'Release deleted successfully' });
+  } catch (error: any) {
+    res.status(500).json({ message: error.message });
+  }
+};
+
+// The notes exactly as tagged, as a zip (default) or tar.gz
+export const downloadRelease = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    const { id, tag: tagName } = req.params;
+    const format = (req.query.format as ArchiveFormat) || 'zip';
+
+    const notebook = await Notebook.findById(id);
+    if (!notebook) {
+      res.status(404).json({ message: 'Notebook not found' });
+      return;
+    }
+
+    const tag = await Tag.findOne({ notebook: id, name: tagName });
+    if (!tag || !(await Release.exists({ tag: tag._id }))) {
+      res.status(404).json({ message: 'Release not found' });
+      return;
+    }
+
+    const gitService = new GitService(notebook.gitRepoPath);
+    const commitHash = await gitService.resolveCommit(`refs/tags/${tagName}`).catch(() => null);
+    if (!commitHash) {
+      res.status(404).json({ message: `Tag "${tagName}" no longer exists` });
+      return;
+    }
+
+    const name = archiveName(notebook.name, tagName);
+    sendArchive(res, await gitService.createArchiveStream(commitHash, format, name), name, format);
+  } catch (error: any) {
+    console.error('Error downloading release:', error);
+    res.status(500).json({ message: error.message });
+  }
+};
@@ -0,0 +1,302 @@
+import { Request, Response } from 'express';
+import PullRequest, { PullRequestStatus } from '../models/PullRequest';
+import Review, { ReviewVerdict } from '../models/Review';
+import Comment from '../models/Comment';
+import Notebook, { CollaboratorRole } from '../models/Notebook';
+import { GitService } from '../services/gitService';
+import { MergeService } from '../services/mergeService';
+import { ReviewService } from '../services/reviewService';
+import { EventBus } from '../services/eventBus';
+import { body, validationResult } from 'express-validator';
+
+export const submitReviewValidation = [
+  body('verdict').isIn(Object.values(ReviewVerdict)),
+  body('body').optional().trim().isLength({ max: 5000 }),
+  body('comments').optional().isArray({ max: 100 }),
+  body('comments.*.content').notEmpty().trim().isLength({ max: 2000 }),
+  body('comments.*.filePath').notEmpty().trim(),
+  body('comments.*.lineNumber').isInt({ min: 1 }).toInt(),
+  body('comments.*.side').optional().isIn(['old', 'new']),
+];
+
+export const createReviewCommentValidation = [
+  body('content').notEmpty().trim().isLength({ max: 2000 }),
+  body('filePath').optional().trim(),
+  body('lineNumber').optional().isInt({ min: 1 }).toInt(),
+  body('side').optional().isIn(['old', 'new']),
+  body('parentCommentId').optional().isMongoId(),
+];
+
+export const resolveThreadValidation = [
+  body('resolved').isBoolean().toBoolean(),
+];
+
+const populateThreads = (filter: Record<string, unknown>) =>
+  Comment.find(filter)
+    .populate('author', 'username name')
+    .populate('resolvedBy', 'username name')
+    .populate({
+      path: 'replies',
+      populate: { path: 'author', select: 'username name' },
+    })
+    .sort({ createdAt: 1 });
+
+export const getReviews = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id, prId } = req.params;
+
+    const pullRequest = await PullRequest.findOne({ _id: prId, notebook: id });
+    if (!pullRequest) {
+      res.status(404).json({ message: 'Pull request not found' });
+      return;
+    }
+
+    const [reviews, verdicts] = await Promise.all([
+      Review.find({ pullRequest: pullRequest._id })
+        .populate('author', 'username name')
+        .sort({ createdAt: 1 }),
+      new ReviewService().getVerdicts(pullRequest),
+    ]);
+
+    // Where each reviewer currently stands, taken from their deciding review
+    const populatedById = new Map(reviews.map((review) => [String(review._id), review]));
+    res.json({
+      reviews,
+      verdicts: verdicts.map((review) => ({
+        user: populatedById.get(String(review._id))?.author,
+        verdict: review.verdict,
+        review: review._id,
+        submittedAt: review.createdAt,
+      })),
+    });
+  } catch (error: any) {
+    console.error('Error getting reviews:', error);
+    res.status(500).json({ message: error.message });
+  }
+};
+
+// Threads on the pull request, inline ones carrying filePath, lineNumber and side
+export const getReviewComments = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id, prId } = req.params;
+
+    const pullRequest = await PullRequest.findOne({ _id: prId, notebook: id });
+    if (!pullRequest) {
+      res.status(404).json({ message: 'Pull request not found' });
+      return;
+    }
+
+    const comments = await populateThreads({ pullRequest: pullRequest._id, parentComment: null });
+
+    res.json({ comments });
+  } catch (error: any) {
+    console.error('Error getting review comments:', error);
+    res.status(500).json({ message: error.message });
+  }
+};
+
+// A verdict with an optional summary and a batch of inline comments, all posted at once
+export const submitReview = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    const { id, prId } = req.params;
+    const { verdict, body: summary, userRole } = req.body;
+    const comments: Array<{ content: string; filePath: string; lineNumber: number; side?: 'old' | 'new' }> =
+      req.body.comments || [];
+    const userId = req.userId!;
+
+    const notebook = await Notebook.findById(id);
+    if (!notebook) {
+      res.status(404).json({ message: 'Notebook not found' });
+      return;
+    }
+
+    const pullRequest = await PullRequest.findOne({ _id: prId, notebook: id });
+    if (!pullRequest) {
+      res.status(404).json({ message: 'Pull request not found' });
+      return;
+    }
+
+    if (pullRequest.status !== PullRequestStatus.OPEN) {
+      res.status(400).json({ message: 'Only open pull requests can be reviewed' });
+      return;
+    }
+
+    if (verdict !== ReviewVerdict.COMMENT) {
+      if (pullRequest.author.toString() === userId) {
+        res.status(400).json({ message: 'You cannot approve or request changes on your own pull request' });
+        return;
+      }
+      if (userRole === CollaboratorRole.VIEWER) {
+        res.status(403).json({ message: 'Viewers can comment but cannot approve or request changes' });
+        return;
+      }
+    } else if (!summary && comments.length === 0) {
+      res.status(400).json({ message: 'A comment review needs a summary or at least one inline comment' });
+      return;
+    }
+
+    // Record what was reviewed, so a verdict can be read against later pushes
+    const gitService = new GitService(notebook.gitRepoPath);
+    const source = await new MergeService(gitService).getPullRequestSource(pullRequest);
+    const commitHash = source ? await gitService.resolveCommit(source.ref).catch(() => undefined) : undefined;
+
+    const review = await Review.create({
+      pullRequest: pullRequest._id,
+      notebook: id,
+      author: userId,
+      verdict,
+      body: summary || undefined,
+      commitHash,
+    });
+
+    if (comments.length > 0) {
+      await Comment.insertMany(
+        comments.map((comment) => ({
+          content: comment.content,
+          author: userId,
+          notebook: id,
+          pullRequest: pullRequest._id,
+          review: review._id,
+          filePath: comment.filePath,
+          lineNumber: comment.lineNumber,
+          side: comment.side || 'new',
+        }))
+      );
+    }
+
+    await new EventBus().publish('pullRequest.reviewed', { notebookId: id, userId, pullRequest, review });
+
+    const populated = await Review.findById(review._id).populate('author', 'username name');
+
+    res.status(201).json({ review: populated });
+  } catch (error: any) {
+    console.error('Error submitting review:', error);
+    res.status(500).json({ message: error.message });
+  }
+};
+
+// Start a thread (inline when filePath and lineNumber are given) or reply to one
+export const createReviewComment = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    const { id, prId } = req.params;
+    const { content, filePath, lineNumber, side, parentCommentId } = req.body;
+    const userId = req.userId!;
+
+    const pullRequest = await PullRequest.findOne({ _id: prId, notebook: id });
+    if (!pullRequest) {
+      res.status(404).json({ message: 'Pull request not found' });
+      return;
+    }
+
+    const parent = parentCommentId
+      ? await Comment.findOne({ _id: parentCommentId, pullRequest: pullRequest._id, parentComment: null })
+      : null;
+    if (parentCommentId && !parent) {
+      res.status(404).json({ message: 'Thread not found' });
+      return;
+    }
+
+    if (!parent && (filePath ? !lineNumber : lineNumber)) {
+      res.status(400).json({ message: 'Inline comments need both filePath and lineNumber' });
+      return;
+    }
+
+    // Replies inherit their thread's position
+    const comment = await Comment.create({
+      content,
+      author: userId,
+      notebook: id,
+      pullRequest: pullRequest._id,
+      parentComment: parent?._id,
+      filePath: parent ? parent.filePath : filePath,
+      lineNumber: parent ? parent.lineNumber : lineNumber,
+      side: parent ? parent.side : filePath ? side || 'new' : undefined,
+    });
+
+    if (parent) {
+      parent.replies.push(comment._id as any);
+      // Replying to a resolved thread reopens it
+      if (parent.resolved) {
+        parent.resolved = false;
+        parent.resolvedBy = undefined;
+        parent.resolvedAt = undefined;
+      }
+      await parent.save();
+    }
+
+    await new EventBus().publish('comment.created', {
+      notebookId: id,
+      userId,
+      commentId: String(comment._id),
+      pullRequest,
+    });
+
+    const populated = await Comment.findById(comment._id).populate('author', 'username name');
+
+    res.status(201).json({ comment: populated });
+  } catch (error: any) {
+    console.error('Error creating review comment:', error);
+    res.status(500).json({ message: error.message });
+  }
+};
+
+// Owners, editors, the pull request's author and whoever started the thread can resolve or reopen it
+export const resolveThread = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    const { id, prId, commentId } = req.params;
+    const { resolved, userRole } = req.body;
+    const userId = req.userId!;
+
+    const pullRequest = await PullRequest.findOne({ _id: prId, notebook: id });
+    if (!pullRequest) {
+      res.status(404).json({ message: 'Pull request not found' });
+      return;
+    }
+
+    const thread = await Comment.findOne({ _id: commentId, pullRequest: pullRequest._id, parentComment: null });
+    if (!thread) {
+      res.status(404).json({ message: 'Thread not found' });
+      return;
+    }
+
+    const canResolve =
+      userRole === CollaboratorRole.OWNER ||
+      userRole === CollaboratorRole.EDITOR ||
+      pullRequest.author.toString() === userId ||
+      thread.author.toString() === userId;
+    if (!canResolve) {
+      res.status(403).json({ message: 'You cannot resolve this thread' });
+      return;
+    }
+
+    thread.resolved = resolved;
+    thread.resolvedBy = resolved ? (userId as any) : undefined;
+    thread.resolvedAt = resolved ? new Date() : undefined;
+    await thread.save();
+
+    const [populated] = await populateThreads({ _id: thread._id });
+
+    res.json({ comment: populated });
+  } catch (error: any) {
+    console.error('Error resolving thread:', error);
+    res.status(500).json({ message: error.message });
+  }
+};
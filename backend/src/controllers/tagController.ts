@@ -0,0 +1,115 @@
+import { Request, Response } from 'express';
+import Notebook from '../models/Notebook';
+import User from '../models/User';
+import { GitService } from '../services/gitService';
+import { EventBus } from '../services/eventBus';
+import { TagService, isValidTagName } from '../services/tagService';
+import { handleRepositoryBusy } from '../middleware/errorHandler';
+import { body, validationResult } from 'express-validator';
+
+export const createTagValidation = [
+  body('name')
+    .trim()
+    .isLength({ min: 1, max: 100 })
+    .custom((name: string) => isValidTagName(name))
+    .withMessage('Tag names may contain letters, digits, ".", "_" and "-", and must start with a letter or digit'),
+  body('ref').optional().trim(),
+  body('description').optional().trim().isLength({ max: 500 }),
+  body('color').optional().matches(/^#[0-9a-fA-F]{6}$/),
+];
+
+export const getTags = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    const notebook = await Notebook.findById(id);
+    if (!notebook) {
+      res.status(404).json({ message: 'Notebook not found' });
+      return;
+    }
+
+    const tags = await new TagService().listTags(notebook);
+    res.json({ tags });
+  } catch (error: any) {
+    console.error('Error listing tags:', error);
+    res.status(500).json({ message: error.message });
+  }
+};
+
+// Tag a branch head or commit, e.g. to freeze notes as they were before an exam
+export const createTag = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    const { id } = req.params;
+    const { name, ref, description, color } = req.body;
+    const userId = req.userId!;
+
+    const notebook = await Notebook.findById(id);
+    if (!notebook) {
+      res.status(404).json({ message: 'Notebook not found' });
+      return;
+    }
+
+    const user = await User.findById(userId);
+    if (!user) {
+      res.status(404).json({ message: 'User not found' });
+      return;
+    }
+
+    if ((await new GitService(notebook.gitRepoPath).listTags()).includes(name)) {
+      res.status(409).json({ message: `Tag "${name}" already exists` });
+      return;
+    }
+
+    const tagService = new TagService();
+    const commitHash = await tagService.resolveRef(notebook, ref);
+    if (!commitHash) {
+      res.status(404).json({ message: `No branch or commit "${ref}" to tag` });
+      return;
+    }
+
+    const tag = await tagService.createTag(notebook, user, { name, commitHash, description, color });
+
+    await new EventBus().publish('tag.created', { notebookId: id, userId, tag: name, commitHash });
+
+    res.status(201).json({ tag });
+  } catch (error: any) {
+    if (handleRepositoryBusy(error, res)) {
+      return;
+    }
+    console.error('Error creating tag:', error);
+    res.status(500).json({ message: error.message });
+  }
+};
+
+// Deleting a tag also deletes the release published for it
+export const deleteTag = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id, name } = req.params;
+
+    const notebook = await Notebook.findById(id);
+    if (!notebook) {
+      res.status(404).json({ message: 'Notebook not found' });
+      return;
+    }
+
+    if (!(await new GitService(notebook.gitRepoPath).listTags()).includes(name)) {
+      res.status(404).json({ message: `Tag "${name}" not found` });
+      return;
+    }
+
+    await new TagService().deleteTag(notebook, name);
+    res.json({ message: 'Tag deleted successfully' });
+  } catch (error: any) {
+    if (handleRepositoryBusy(error, res)) {
+      return;
+    }
+    console.error('Error deleting tag:', error);
+    res.status(500).json({ message: error.message });
+  }
+};
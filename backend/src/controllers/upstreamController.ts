@@ -0,0 +1,205 @@
+import { Request, Response } from 'express';
+import Branch from '../models/Branch';
+import Notebook, { INotebook } from '../models/Notebook';
+import PullRequest, { PullRequestStatus } from '../models/PullRequest';
+import { GitService } from '../services/gitService';
+import { MergeService } from '../services/mergeService';
+import { EventBus } from '../services/eventBus';
+import { getNotebookRole } from '../middleware/permissions';
+import { handleRepositoryBusy } from '../middleware/errorHandler';
+import { body, validationResult } from 'express-validator';
+
+export const createUpstreamPullRequestValidation = [
+  body('title').notEmpty().trim().isLength({ max: 200 }),
+  body('description').optional().trim(),
+  body('sourceBranch').notEmpty().trim(),
+  body('targetBranch').optional().trim(),
+];
+
+// The notebook a fork was made from, provided it still exists and the user may still read it
+const findUpstream = async (notebook: INotebook, userId: string): Promise<INotebook | null> => {
+  if (!notebook.forkedFrom) {
+    return null;
+  }
+
+  const parent = await Notebook.findById(notebook.forkedFrom);
+  if (!parent || (!parent.isPublic && !getNotebookRole(parent, userId))) {
+    return null;
+  }
+  return parent;
+};
+
+// Compare a branch with the original notebook. Only a refresh fetches from the original; otherwise
+// the counts come from what the last refresh, sync or proposal fetched, and are null before the first one.
+const sendUpstreamStatus = async (req: Request, res: Response, refresh: boolean): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const userId = req.userId!;
+
+    const notebook = await Notebook.findById(id);
+    if (!notebook) {
+      res.status(404).json({ message: 'Notebook not found' });
+      return;
+    }
+
+    const parent = await findUpstream(notebook, userId);
+    if (!parent) {
+      res.json({ upstream: null });
+      return;
+    }
+
+    const defaultBranch = await Branch.findOne({ notebook: id, isDefault: true });
+    const branchName = (req.query.branch as string) || defaultBranch?.name || 'main';
+    if (!(await Branch.exists({ notebook: id, name: branchName }))) {
+      res.status(404).json({ message: `Branch "${branchName}" not found` });
+      return;
+    }
+
+    // Compare against the parent's branch of the same name, falling back to its default branch
+    const parentBranches = await Branch.find({ notebook: parent._id }).sort({ isDefault: -1, createdAt: 1 });
+    const requested = (req.query.upstreamBranch as string) || branchName;
+    const upstreamBranch =
+      parentBranches.find((b) => b.name === requested) || parentBranches.find((b) => b.isDefault);
+    if (!upstreamBranch) {
+      res.status(404).json({ message: 'The original notebook has no matching branch' });
+      return;
+    }
+
+    const gitService = new GitService(notebook.gitRepoPath);
+    const upstreamRef = `refs/remotes/upstream/${upstreamBranch.name}`;
+    if (refresh) {
+      await gitService.fetchFromNotebook(parent.gitRepoPath, upstreamBranch.name, upstreamRef);
+    }
+    const { ahead, behind } = (await gitService.refExists(upstreamRef))
+      ? await gitService.getAheadBehind(`refs/heads/${branchName}`, upstreamRef)
+      : { ahead: null, behind: null };
+
+    res.json({
+      upstream: {
+        notebook: { _id: parent._id, name: parent.name },
+        branch: branchName,
+        upstreamBranch: upstreamBranch.name,
+        branches: parentBranches.map((b) => b.name),
+        ahead,
+        behind,
+      },
+    });
+  } catch (error: any) {
+    if (handleRepositoryBusy(error, res)) {
+      return;
+    }
+    console.error(refresh ? 'Error refreshing upstream status:' : 'Error getting upstream status:', error);
+    res.status(500).json({ message: error.message });
+  }
+};
+
+export const getUpstream = (req: Request, res: Response): Promise<void> => sendUpstreamStatus(req, res, false);
+
+export const refreshUpstream = (req: Request, res: Response): Promise<void> => sendUpstreamStatus(req, res, true);
+
+export const getUpstreamPullRequests = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    const pullRequests = await PullRequest.find({ sourceNotebook: id })
+      .populate('notebook', 'name')
+      .populate('sourceBranch', 'name')
+      .populate('targetBranch', 'name')
+      .populate('author', 'username name')
+      .populate('mergedBy', 'username name')
+      .sort({ createdAt: -1 });
+
+    res.json({ pullRequests });
+  } catch (error: any) {
+    res.status(500).json({ message: error.message });
+  }
+};
+
+// Propose a branch of this fork for merging into the notebook it was forked from
+export const createUpstreamPullRequest = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ errors: errors.array() });
+      return;
+    }
+
+    const { id } = req.params;
+    const { title, description, sourceBranch: sourceName, targetBranch: targetName } = req.body;
+    const userId = req.userId!;
+
+    const notebook = await Notebook.findById(id);
+    if (!notebook) {
+      res.status(404).json({ message: 'Notebook not found' });
+      return;
+    }
+
+    const parent = await findUpstream(notebook, userId);
+    if (!parent) {
+      res.status(400).json({ message: 'This notebook is not a fork of a notebook you can access' });
+      return;
+    }
+
+    const sourceBranch = await Branch.findOne({ notebook: id, name: sourceName });
+    if (!sourceBranch) {
+      res.status(404).json({ message: `Source branch "${sourceName}" not found` });
+      return;
+    }
+
+    const targetBranch = targetName
+      ? await Branch.findOne({ notebook: parent._id, name: targetName })
+      : await Branch.findOne({ notebook: parent._id, isDefault: true });
+    if (!targetBranch) {
+      res.status(404).json({ message: `Target branch "${targetName || 'main'}" not found in "${parent.name}"` });
+      return;
+    }
+
+    const existing = await PullRequest.findOne({
+      notebook: parent._id,
+      sourceNotebook: id,
+      sourceBranch: sourceBranch._id,
+      targetBranch: targetBranch._id,
+      status: PullRequestStatus.OPEN,
+    });
+    if (existing) {
+      res.status(400).json({ message: 'An open pull request already exists for these branches' });
+      return;
+    }
+
+    const pullRequest = new PullRequest({
+      title,
+      description,
+      sourceBranch: sourceBranch._id,
+      targetBranch: targetBranch._id,
+      notebook: parent._id,
+      sourceNotebook: id,
+      author: userId,
+    });
+    // Copy the branch into the parent now; reading the pull request later never fetches
+    await new MergeService(new GitService(parent.gitRepoPath)).getPullRequestSource(pullRequest, { refresh: true });
+    await pullRequest.save();
+
+    await new EventBus().publish('pullRequest.opened', {
+      notebookId: String(parent._id),
+      userId,
+      pullRequest,
+      sourceLabel: `${notebook.name}:${sourceBranch.name}`,
+      targetBranch: targetBranch.name,
+    });
+
+    const populated = await PullRequest.findById(pullRequest._id)
+      .populate('notebook', 'name')
+      .populate('sourceNotebook', 'name')
+      .populate('sourceBranch', 'name')
+      .populate('targetBranch', 'name')
+      .populate('author', 'username name');
+
+    res.status(201).json({ pullRequest: populated });
+  } catch (error: any) {
+    if (handleRepositoryBusy(error, res)) {
+      return;
+    }
+    console.error('Error creating upstream pull request:', error);
+    res.status(500).json({ message: error.message });
+  }
+};
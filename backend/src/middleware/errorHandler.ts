@@ -1,5 +1,15 @@
 import { Request, Response, NextFunction } from 'express';
 import logger from '../utils/logger';
+import { RepositoryBusyError } from '../utils/repoLock';
+
+// Answer 503 when another change to the notebook held its repository too long; returns false otherwise
+export const handleRepositoryBusy = (error: unknown, res: Response): boolean => {
+  if (!(error instanceof RepositoryBusyError)) {
+    return false;
+  }
+  res.set('Retry-After', '2').status(503).json({ message: error.message, retryable: true });
+  return true;
+};
 
 export const errorHandler = (
   err: Error,
@@ -7,6 +17,10 @@ export const errorHandler = (
   res: Response,
   _next: NextFunction
 ): void => {
+  if (handleRepositoryBusy(err, res)) {
+    return;
+  }
+
   logger.error('Error:', {
     message: err.message,
     stack: err.stack,
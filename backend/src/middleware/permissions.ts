@@ -1,7 +1,19 @@
 import { Request, Response, NextFunction } from 'express';
-import Notebook, { CollaboratorRole } from '../models/Notebook';
+import Notebook, { CollaboratorRole, INotebook } from '../models/Notebook';
 import mongoose from 'mongoose';
 
+// Resolve a user's role on a notebook, or null when they have no access
+export const getNotebookRole = (notebook: INotebook, userId: string): CollaboratorRole | null => {
+  if (notebook.owner.toString() === userId) {
+    return CollaboratorRole.OWNER;
+  }
+
+  const collaborator = notebook.collaborators.find(
+    (c) => c.user.toString() === userId
+  );
+  return collaborator ? collaborator.role : null;
+};
+
 export const checkNotebookPermission = (allowedRoles: CollaboratorRole[]) => {
   return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
     try {
@@ -25,29 +37,26 @@ export const checkNotebookPermission = (allowedRoles: CollaboratorRole[]) => {
         return;
       }
 
-      // Check if user is owner
-      if (notebook.owner.toString() === userId) {
-        req.body.userRole = CollaboratorRole.OWNER;
+      const role = getNotebookRole(notebook, userId);
+
+      // Owners always pass
+      if (role === CollaboratorRole.OWNER) {
+        req.body.userRole = role;
         next();
         return;
       }
 
-      // Check if user is a collaborator with sufficient permissions
-      const collaborator = notebook.collaborators.find(
-        (c) => c.user.toString() === userId
-      );
-
-      if (!collaborator) {
+      if (!role) {
         res.status(403).json({ message: 'Access denied' });
         return;
       }
 
-      if (!allowedRoles.includes(collaborator.role)) {
+      if (!allowedRoles.includes(role)) {
         res.status(403).json({ message: 'Insufficient permissions' });
         return;
       }
 
-      req.body.userRole = collaborator.role;
+      req.body.userRole = role;
       next();
     } catch (error) {
       res.status(500).json({ message: 'Server error', error });
@@ -3,7 +3,7 @@ import mongoose, { Schema, Document } from 'mongoose';
 export interface IActivity extends Document {
   notebook: mongoose.Types.ObjectId;
   user: mongoose.Types.ObjectId;
-  type: 'commit' | 'branch_created' | 'branch_deleted' | 'collaborator_added' | 'collaborator_removed' | 'file_uploaded' | 'notebook_created' | 'notebook_forked' | 'comment_added';
+  type: 'commit' | 'branch_created' | 'branch_deleted' | 'collaborator_added' | 'collaborator_invited' | 'collaborator_role_changed' | 'ownership_transfer_requested' | 'ownership_transferred' | 'collaborator_removed' | 'file_uploaded' | 'notebook_created' | 'notebook_forked' | 'comment_added' | 'pull_request_opened' | 'pull_request_merged' | 'branch_merged' | 'tag_created' | 'release_published' | 'commit_reverted' | 'commit_cherry_picked' | 'file_restored' | 'pull_request_reviewed' | 'notebook_starred';
   description: string;
   metadata?: any;
   createdAt: Date;
@@ -25,7 +25,7 @@ const ActivitySchema: Schema = new Schema(
     },
     type: {
       type: String,
-      enum: ['commit', 'branch_created', 'branch_deleted', 'collaborator_added', 'collaborator_removed', 'file_uploaded', 'notebook_created', 'notebook_forked', 'comment_added'],
+      enum: ['commit', 'branch_created', 'branch_deleted', 'collaborator_added', 'collaborator_invited', 'collaborator_role_changed', 'ownership_transfer_requested', 'ownership_transferred', 'collaborator_removed', 'file_uploaded', 'notebook_created', 'notebook_forked', 'comment_added', 'pull_request_opened', 'pull_request_merged', 'branch_merged', 'tag_created', 'release_published', 'commit_reverted', 'commit_cherry_picked', 'file_restored', 'pull_request_reviewed', 'notebook_starred'],
       required: true,
     },
     description: {
@@ -1,15 +1,53 @@
 import mongoose, { Schema, Document } from 'mongoose';
 
+// Rules an owner sets on a branch; a branch without them is unprotected
+export interface IBranchProtection {
+  // No direct commits, reverts or branch merges: changes arrive through pull requests
+  requirePullRequest: boolean;
+  // Approvals from people other than the author before a pull request can be merged
+  requiredApprovals: number;
+  // Only the owner may delete the branch
+  ownerOnlyDeletion: boolean;
+  // Whether the branch may be deleted while it has commits no other branch contains
+  allowForceOperations: boolean;
+}
+
 export interface IBranch extends Document {
   name: string;
   description?: string;
   isDefault: boolean;
   notebook: mongoose.Types.ObjectId;
   lastCommitHash?: string;
+  indexedCommitHash?: string;
+  protection?: IBranchProtection;
   createdAt: Date;
   updatedAt: Date;
 }
 
+const BranchProtectionSchema = new Schema(
+  {
+    requirePullRequest: {
+      type: Boolean,
+      default: true,
+    },
+    requiredApprovals: {
+      type: Number,
+      default: 0,
+      min: 0,
+      max: 10,
+    },
+    ownerOnlyDeletion: {
+      type: Boolean,
+      default: true,
+    },
+    allowForceOperations: {
+      type: Boolean,
+      default: false,
+    },
+  },
+  { _id: false }
+);
+
 const BranchSchema: Schema = new Schema(
   {
     name: {
@@ -34,6 +72,11 @@ const BranchSchema: Schema = new Schema(
     lastCommitHash: {
       type: String,
     },
+    // Head the search index was last brought up to date with
+    indexedCommitHash: {
+      type: String,
+    },
+    protection: BranchProtectionSchema,
   },
   {
     timestamps: true,
@@ -6,8 +6,13 @@ export interface IComment extends Document {
   notebook: mongoose.Types.ObjectId;
   commit?: mongoose.Types.ObjectId;
   pullRequest?: mongoose.Types.ObjectId;
+  review?: mongoose.Types.ObjectId;
   lineNumber?: number;
+  side?: 'old' | 'new';
   filePath?: string;
+  resolved: boolean;
+  resolvedBy?: mongoose.Types.ObjectId;
+  resolvedAt?: Date;
   parentComment?: mongoose.Types.ObjectId;
   replies: mongoose.Types.ObjectId[];
   createdAt: Date;
@@ -40,12 +45,34 @@ const CommentSchema: Schema = new Schema(
       type: Schema.Types.ObjectId,
       ref: 'PullRequest',
     },
+    // Set for inline comments submitted as part of a pull request review
+    review: {
+      type: Schema.Types.ObjectId,
+      ref: 'Review',
+    },
     lineNumber: {
       type: Number,
     },
+    // Which side of a diff lineNumber counts from: the old file for deleted lines, the new one otherwise
+    side: {
+      type: String,
+      enum: ['old', 'new'],
+    },
     filePath: {
       type: String,
     },
+    // Only top-level comments (threads) are resolved
+    resolved: {
+      type: Boolean,
+      default: false,
+    },
+    resolvedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    resolvedAt: {
+      type: Date,
+    },
     parentComment: {
       type: Schema.Types.ObjectId,
       ref: 'Comment',
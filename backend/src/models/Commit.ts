@@ -4,6 +4,9 @@ export interface IFileChange {
   path: string;
   additions: number;
   deletions: number;
+  status?: 'added' | 'modified' | 'deleted' | 'renamed';
+  previousPath?: string;
+  binary?: boolean;
 }
 
 export interface ICommit extends Document {
@@ -34,6 +37,16 @@ const FileChangeSchema = new Schema({
     type: Number,
     default: 0,
   },
+  status: {
+    type: String,
+    enum: ['added', 'modified', 'deleted', 'renamed'],
+  },
+  previousPath: {
+    type: String,
+  },
+  binary: {
+    type: Boolean,
+  },
 });
 
 const CommitSchema: Schema = new Schema(
@@ -94,5 +107,6 @@ CommitSchema.index({ notebook: 1 });
 CommitSchema.index({ branch: 1 });
 CommitSchema.index({ author: 1 });
 CommitSchema.index({ timestamp: -1 });
+CommitSchema.index({ message: 'text', description: 'text' }, { weights: { message: 3, description: 1 } });
 
 export default mongoose.model<ICommit>('Commit', CommitSchema);
@@ -0,0 +1,98 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export enum ExportFormat {
+  PDF = 'pdf',
+  EPUB = 'epub',
+  HTML = 'html',
+}
+
+export enum ExportStatus {
+  QUEUED = 'QUEUED',
+  RUNNING = 'RUNNING',
+  COMPLETED = 'COMPLETED',
+  FAILED = 'FAILED',
+}
+
+// A request to render a notebook at one commit into a downloadable file
+export interface IExportJob extends Document {
+  notebook: mongoose.Types.ObjectId;
+  requestedBy: mongoose.Types.ObjectId;
+  format: ExportFormat;
+  ref: string;
+  commitHash: string;
+  status: ExportStatus;
+  progress: number;
+  fileName?: string;
+  filePath?: string;
+  fileSize?: number;
+  error?: string;
+  startedAt?: Date;
+  completedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ExportJobSchema: Schema = new Schema(
+  {
+    notebook: {
+      type: Schema.Types.ObjectId,
+      ref: 'Notebook',
+      required: true,
+    },
+    requestedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    format: {
+      type: String,
+      enum: Object.values(ExportFormat),
+      required: true,
+    },
+    ref: {
+      type: String,
+      required: true,
+    },
+    commitHash: {
+      type: String,
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: Object.values(ExportStatus),
+      default: ExportStatus.QUEUED,
+    },
+    // 0-100
+    progress: {
+      type: Number,
+      default: 0,
+    },
+    fileName: {
+      type: String,
+    },
+    filePath: {
+      type: String,
+    },
+    fileSize: {
+      type: Number,
+    },
+    error: {
+      type: String,
+    },
+    startedAt: {
+      type: Date,
+    },
+    completedAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Indexes
+ExportJobSchema.index({ notebook: 1, createdAt: -1 });
+ExportJobSchema.index({ status: 1, createdAt: 1 });
+
+export default mongoose.model<IExportJob>('ExportJob', ExportJobSchema);
@@ -0,0 +1,101 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { CollaboratorRole } from './Notebook';
+
+export enum InvitationStatus {
+  PENDING = 'pending',
+  ACCEPTED = 'accepted',
+  DECLINED = 'declined',
+  EXPIRED = 'expired',
+}
+
+// Who an invitation is for: a registered user, an email address that may not have an account yet,
+// or anyone holding the link
+export enum InvitationKind {
+  USER = 'user',
+  EMAIL = 'email',
+  LINK = 'link',
+}
+
+export type InvitedRole = CollaboratorRole.EDITOR | CollaboratorRole.VIEWER;
+
+export interface IInvitation extends Document {
+  notebook: mongoose.Types.ObjectId;
+  kind: InvitationKind;
+  invitee?: mongoose.Types.ObjectId;
+  email?: string;
+  role: InvitedRole;
+  token: string;
+  status: InvitationStatus;
+  invitedBy: mongoose.Types.ObjectId;
+  expiresAt: Date;
+  // Links stay pending until they expire or are revoked, so they count how often they were used instead
+  uses: number;
+  respondedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const InvitationSchema: Schema = new Schema(
+  {
+    notebook: {
+      type: Schema.Types.ObjectId,
+      ref: 'Notebook',
+      required: true,
+    },
+    kind: {
+      type: String,
+      enum: Object.values(InvitationKind),
+      required: true,
+    },
+    invitee: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    email: {
+      type: String,
+      lowercase: true,
+      trim: true,
+    },
+    role: {
+      type: String,
+      enum: [CollaboratorRole.EDITOR, CollaboratorRole.VIEWER],
+      required: true,
+    },
+    token: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    status: {
+      type: String,
+      enum: Object.values(InvitationStatus),
+      default: InvitationStatus.PENDING,
+    },
+    invitedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+    uses: {
+      type: Number,
+      default: 0,
+    },
+    respondedAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Indexes
+InvitationSchema.index({ notebook: 1, status: 1 });
+InvitationSchema.index({ invitee: 1, status: 1 });
+InvitationSchema.index({ email: 1, status: 1 });
+
+export default mongoose.model<IInvitation>('Invitation', InvitationSchema);
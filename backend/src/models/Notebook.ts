@@ -12,6 +12,22 @@ export interface ICollaborator {
   addedAt: Date;
 }
 
+export interface IPendingMerge {
+  sourceBranch: string;
+  targetBranch: string;
+  message: string;
+  conflicts: string[];
+  pullRequest?: mongoose.Types.ObjectId;
+  startedBy: mongoose.Types.ObjectId;
+  startedAt: Date;
+}
+
+// Ownership offered to a collaborator; nothing changes until they accept
+export interface IPendingOwnershipTransfer {
+  to: mongoose.Types.ObjectId;
+  requestedAt: Date;
+}
+
 export interface INotebook extends Document {
   name: string;
   description?: string;
@@ -24,6 +40,9 @@ export interface INotebook extends Document {
   starCount: number;
   forkCount: number;
   viewCount: number;
+  forkedFrom?: mongoose.Types.ObjectId;
+  pendingMerge?: IPendingMerge;
+  pendingOwnershipTransfer?: IPendingOwnershipTransfer;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -45,6 +64,54 @@ const CollaboratorSchema = new Schema({
   },
 });
 
+const PendingMergeSchema = new Schema(
+  {
+    sourceBranch: {
+      type: String,
+      required: true,
+    },
+    targetBranch: {
+      type: String,
+      required: true,
+    },
+    message: {
+      type: String,
+      required: true,
+    },
+    // Every path that conflicted when the merge started, resolved or not
+    conflicts: [String],
+    pullRequest: {
+      type: Schema.Types.ObjectId,
+      ref: 'PullRequest',
+    },
+    startedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    startedAt: {
+      type: Date,
+      default: Date.now,
+    },
+  },
+  { _id: false }
+);
+
+const PendingOwnershipTransferSchema = new Schema(
+  {
+    to: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    requestedAt: {
+      type: Date,
+      default: Date.now,
+    },
+  },
+  { _id: false }
+);
+
 const NotebookSchema: Schema = new Schema(
   {
     name: {
@@ -92,6 +159,12 @@ const NotebookSchema: Schema = new Schema(
       type: Number,
       default: 0,
     },
+    forkedFrom: {
+      type: Schema.Types.ObjectId,
+      ref: 'Notebook',
+    },
+    pendingMerge: PendingMergeSchema,
+    pendingOwnershipTransfer: PendingOwnershipTransferSchema,
   },
   {
     timestamps: true,
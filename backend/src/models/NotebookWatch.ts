@@ -0,0 +1,45 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+// How closely a user follows a notebook: everything, only what involves them, or nothing at all
+export enum WatchLevel {
+  WATCHING = 'watching',
+  PARTICIPATING = 'participating',
+  IGNORING = 'ignoring',
+}
+
+export interface INotebookWatch extends Document {
+  user: mongoose.Types.ObjectId;
+  notebook: mongoose.Types.ObjectId;
+  level: WatchLevel;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const NotebookWatchSchema: Schema = new Schema(
+  {
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    notebook: {
+      type: Schema.Types.ObjectId,
+      ref: 'Notebook',
+      required: true,
+      index: true,
+    },
+    level: {
+      type: String,
+      enum: Object.values(WatchLevel),
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Indexes
+NotebookWatchSchema.index({ user: 1, notebook: 1 }, { unique: true });
+
+export default mongoose.model<INotebookWatch>('NotebookWatch', NotebookWatchSchema);
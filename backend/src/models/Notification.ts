@@ -2,7 +2,7 @@ import mongoose, { Schema, Document } from 'mongoose';
 
 export interface INotification extends Document {
   user: mongoose.Types.ObjectId;
-  type: 'collaborator_added' | 'comment_added' | 'commit_made' | 'notebook_forked' | 'notebook_starred';
+  type: 'collaborator_added' | 'comment_added' | 'commit_made' | 'notebook_forked' | 'notebook_starred' | 'review_submitted';
   title: string;
   message: string;
   link?: string;
@@ -22,7 +22,7 @@ const NotificationSchema: Schema = new Schema(
     },
     type: {
       type: String,
-      enum: ['collaborator_added', 'comment_added', 'commit_made', 'notebook_forked', 'notebook_starred'],
+      enum: ['collaborator_added', 'comment_added', 'commit_made', 'notebook_forked', 'notebook_starred', 'review_submitted'],
       required: true,
     },
     title: {
@@ -0,0 +1,71 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { INotification } from './Notification';
+
+export type NotificationType = INotification['type'];
+
+export enum DigestFrequency {
+  OFF = 'off',
+  DAILY = 'daily',
+  WEEKLY = 'weekly',
+}
+
+export const NOTIFICATION_TYPES: NotificationType[] = [
+  'collaborator_added',
+  'comment_added',
+  'commit_made',
+  'notebook_forked',
+  'notebook_starred',
+  'review_submitted',
+];
+
+// What users who never saved preferences get. Every commit to every notebook they belong to is too much for the bell
+// by default, so commits are opt-in.
+export const DEFAULT_IN_APP_TYPES: NotificationType[] = NOTIFICATION_TYPES.filter((type) => type !== 'commit_made');
+export const DEFAULT_EMAIL_TYPES: NotificationType[] = ['collaborator_added', 'review_submitted'];
+
+// Each channel has its own list of the notification types it delivers
+export interface INotificationPreference extends Document {
+  user: mongoose.Types.ObjectId;
+  inAppTypes: NotificationType[];
+  emailTypes: NotificationType[];
+  digest: DigestFrequency;
+  lastDigestAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const NotificationPreferenceSchema: Schema = new Schema(
+  {
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+      unique: true,
+    },
+    inAppTypes: {
+      type: [{ type: String, enum: NOTIFICATION_TYPES }],
+      default: () => [...DEFAULT_IN_APP_TYPES],
+    },
+    emailTypes: {
+      type: [{ type: String, enum: NOTIFICATION_TYPES }],
+      default: () => [...DEFAULT_EMAIL_TYPES],
+    },
+    digest: {
+      type: String,
+      enum: Object.values(DigestFrequency),
+      default: DigestFrequency.OFF,
+    },
+    // The end of the period the last digest covered
+    lastDigestAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Indexes
+NotificationPreferenceSchema.index({ digest: 1, lastDigestAt: 1 });
+
+export default mongoose.model<INotificationPreference>('NotificationPreference', NotificationPreferenceSchema);
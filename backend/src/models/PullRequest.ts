@@ -13,9 +13,12 @@ export interface IPullRequest extends Document {
   sourceBranch: mongoose.Types.ObjectId;
   targetBranch: mongoose.Types.ObjectId;
   notebook: mongoose.Types.ObjectId;
+  sourceNotebook?: mongoose.Types.ObjectId;
   author: mongoose.Types.ObjectId;
   mergedBy?: mongoose.Types.ObjectId;
   mergedAt?: Date;
+  mergeCommitHash?: string;
+  previousTargetHash?: string;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -51,6 +54,11 @@ const PullRequestSchema: Schema = new Schema(
       ref: 'Notebook',
       required: true,
     },
+    // Set when the source branch lives in a fork of the notebook
+    sourceNotebook: {
+      type: Schema.Types.ObjectId,
+      ref: 'Notebook',
+    },
     author: {
       type: Schema.Types.ObjectId,
       ref: 'User',
@@ -63,6 +71,13 @@ const PullRequestSchema: Schema = new Schema(
     mergedAt: {
       type: Date,
     },
+    mergeCommitHash: {
+      type: String,
+    },
+    // Head of the target branch just before the merge, which the merged diff is taken against
+    previousTargetHash: {
+      type: String,
+    },
   },
   {
     timestamps: true,
@@ -0,0 +1,51 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+// Release notes published for a tag; the tagged commit is the release's snapshot
+export interface IRelease extends Document {
+  notebook: mongoose.Types.ObjectId;
+  tag: mongoose.Types.ObjectId;
+  title: string;
+  notes?: string;
+  author: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ReleaseSchema: Schema = new Schema(
+  {
+    notebook: {
+      type: Schema.Types.ObjectId,
+      ref: 'Notebook',
+      required: true,
+    },
+    tag: {
+      type: Schema.Types.ObjectId,
+      ref: 'Tag',
+      required: true,
+    },
+    title: {
+      type: String,
+      required: true,
+      trim: true,
+      maxlength: 200,
+    },
+    notes: {
+      type: String,
+      default: '',
+    },
+    author: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Indexes
+ReleaseSchema.index({ tag: 1 }, { unique: true });
+ReleaseSchema.index({ notebook: 1, createdAt: -1 });
+
+export default mongoose.model<IRelease>('Release', ReleaseSchema);
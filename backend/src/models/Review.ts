@@ -0,0 +1,61 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export enum ReviewVerdict {
+  APPROVE = 'APPROVE',
+  REQUEST_CHANGES = 'REQUEST_CHANGES',
+  COMMENT = 'COMMENT',
+}
+
+export interface IReview extends Document {
+  pullRequest: mongoose.Types.ObjectId;
+  notebook: mongoose.Types.ObjectId;
+  author: mongoose.Types.ObjectId;
+  verdict: ReviewVerdict;
+  body?: string;
+  commitHash?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ReviewSchema: Schema = new Schema(
+  {
+    pullRequest: {
+      type: Schema.Types.ObjectId,
+      ref: 'PullRequest',
+      required: true,
+    },
+    notebook: {
+      type: Schema.Types.ObjectId,
+      ref: 'Notebook',
+      required: true,
+    },
+    author: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    verdict: {
+      type: String,
+      enum: Object.values(ReviewVerdict),
+      required: true,
+    },
+    body: {
+      type: String,
+      trim: true,
+      maxlength: 5000,
+    },
+    // Head of the source branch when the review was submitted
+    commitHash: {
+      type: String,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Indexes
+ReviewSchema.index({ pullRequest: 1, createdAt: 1 });
+ReviewSchema.index({ author: 1 });
+
+export default mongoose.model<IReview>('Review', ReviewSchema);
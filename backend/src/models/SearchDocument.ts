@@ -0,0 +1,46 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+// One Markdown file as committed on a branch, kept for full-text search
+export interface ISearchDocument extends Document {
+  notebook: mongoose.Types.ObjectId;
+  branch: string;
+  path: string;
+  blob: string;
+  content: string;
+  updatedAt: Date;
+}
+
+const SearchDocumentSchema: Schema = new Schema(
+  {
+    notebook: {
+      type: Schema.Types.ObjectId,
+      ref: 'Notebook',
+      required: true,
+    },
+    branch: {
+      type: String,
+      required: true,
+    },
+    path: {
+      type: String,
+      required: true,
+    },
+    blob: {
+      type: String,
+      required: true,
+    },
+    content: {
+      type: String,
+      default: '',
+    },
+  },
+  {
+    timestamps: { createdAt: false, updatedAt: true },
+  }
+);
+
+// Indexes
+SearchDocumentSchema.index({ notebook: 1, branch: 1, path: 1 }, { unique: true });
+SearchDocumentSchema.index({ path: 'text', content: 'text' }, { weights: { path: 5, content: 1 } });
+
+export default mongoose.model<ISearchDocument>('SearchDocument', SearchDocumentSchema);
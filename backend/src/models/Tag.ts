@@ -6,6 +6,7 @@ export interface ITag extends Document {
   color?: string;
   commitHash: string;
   notebook: mongoose.Types.ObjectId;
+  createdBy?: mongoose.Types.ObjectId;
   createdAt: Date;
 }
 
@@ -33,6 +34,10 @@ const TagSchema: Schema = new Schema(
       ref: 'Notebook',
       required: true,
     },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
   },
   {
     timestamps: { createdAt: true, updatedAt: false },
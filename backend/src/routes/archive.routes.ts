@@ -0,0 +1,18 @@
+import { Router } from 'express';
+import { authenticateToken } from '../middleware/auth';
+import { checkNotebookPermission } from '../middleware/permissions';
+import { CollaboratorRole } from '../models/Notebook';
+import { downloadArchive, downloadArchiveValidation } from '../controllers/archiveController';
+
+const router = Router({ mergeParams: true });
+
+router.use(authenticateToken);
+
+router.get(
+  '/',
+  checkNotebookPermission([CollaboratorRole.OWNER, CollaboratorRole.EDITOR, CollaboratorRole.VIEWER]),
+  downloadArchiveValidation,
+  downloadArchive
+);
+
+export default router;
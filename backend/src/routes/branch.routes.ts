@@ -8,7 +8,10 @@ import {
   getBranchByName,
   deleteBranch,
   checkoutBranch,
+  updateBranchProtection,
+  removeBranchProtection,
   createBranchValidation,
+  updateProtectionValidation,
 } from '../controllers/branchController';
 
 const router = Router({ mergeParams: true });
@@ -36,6 +39,17 @@ router.delete(
   checkNotebookPermission([CollaboratorRole.OWNER, CollaboratorRole.EDITOR]),
   deleteBranch
 );
+router.put(
+  '/:name/protection',
+  checkNotebookPermission([CollaboratorRole.OWNER]),
+  updateProtectionValidation,
+  updateBranchProtection
+);
+router.delete(
+  '/:name/protection',
+  checkNotebookPermission([CollaboratorRole.OWNER]),
+  removeBranchProtection
+);
 router.post(
   '/:name/checkout',
   checkNotebookPermission([CollaboratorRole.OWNER, CollaboratorRole.EDITOR, CollaboratorRole.VIEWER]),
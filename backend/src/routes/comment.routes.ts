@@ -3,9 +3,7 @@ import { authenticateToken } from '../middleware/auth';
 import { checkNotebookPermission } from '../middleware/permissions';
 import { CollaboratorRole } from '../models/Notebook';
 import Comment from '../models/Comment';
-import Notification from '../models/Notification';
-import Activity from '../models/Activity';
-import Notebook from '../models/Notebook';
+import { EventBus } from '../services/eventBus';
 import { body, validationResult } from 'express-validator';
 
 const router = Router({ mergeParams: true });
@@ -21,7 +19,8 @@ router.get(
       const { id } = req.params;
       const { commitId, filePath } = req.query;
 
-      const query: any = { notebook: id, parentComment: null };
+      // Pull request threads are listed with their pull request
+      const query: any = { notebook: id, parentComment: null, pullRequest: null };
       
       if (commitId) {
         query.commit = commitId;
@@ -81,47 +80,18 @@ router.post(
       });
 
       // If this is a reply, add to parent's replies array
-      if (parentCommentId) {
-        await Comment.findByIdAndUpdate(parentCommentId, {
-          $push: { replies: comment._id }
-        });
-      }
-
-      // Get notebook for notifications
-      const notebook = await Notebook.findById(id).populate('owner collaborators.user');
-      
-      if (notebook) {
-        // Notify owner and collaborators (except the commenter)
-        const notifyUsers = [notebook.owner._id];
-        notebook.collaborators.forEach(c => {
-          if (c.user._id.toString() !== userId) {
-            notifyUsers.push(c.user._id);
-          }
-        });
-
-        const uniqueUsers = [...new Set(notifyUsers.map(u => u.toString()))].filter(u => u !== userId);
-
-        await Notification.insertMany(
-          uniqueUsers.map(user => ({
-            user,
-            type: 'comment_added',
-            title: 'New Comment',
-            message: `New comment on "${notebook.name}"`,
-            link: `/notebook/${id}`,
-            relatedNotebook: id,
-            relatedUser: userId,
-          }))
-        );
-
-        // Log activity
-        await Activity.create({
-          notebook: id,
-          user: userId,
-          type: 'comment_added',
-          description: 'Added a comment',
-          metadata: { commentId: comment._id },
-        });
-      }
+      const parentComment = parentCommentId
+        ? await Comment.findByIdAndUpdate(parentCommentId, {
+            $push: { replies: comment._id }
+          })
+        : null;
+
+      await new EventBus().publish('comment.created', {
+        notebookId: id,
+        userId,
+        commentId: String(comment._id),
+        parentAuthorId: parentComment?.author,
+      });
 
       const populatedComment = await Comment.findById(comment._id)
         .populate('author', 'username name');
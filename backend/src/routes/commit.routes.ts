@@ -9,7 +9,19 @@ import {
   getCommitDiff,
   getFileTree,
   getFileContent,
+  getBlame,
+  getFileHistory,
+  compareRefs,
+  revertCommit,
+  cherryPickCommit,
+  restoreFile,
   createCommitValidation,
+  getBlameValidation,
+  getFileHistoryValidation,
+  compareRefsValidation,
+  revertCommitValidation,
+  cherryPickCommitValidation,
+  restoreFileValidation,
 } from '../controllers/commitController';
 
 const router = Router({ mergeParams: true });
@@ -25,7 +37,43 @@ router.post(
 );
 router.get('/files', getFileTree);
 router.get('/file-content', getFileContent);
+router.get(
+  '/blame',
+  checkNotebookPermission([CollaboratorRole.OWNER, CollaboratorRole.EDITOR, CollaboratorRole.VIEWER]),
+  getBlameValidation,
+  getBlame
+);
+router.get(
+  '/history',
+  checkNotebookPermission([CollaboratorRole.OWNER, CollaboratorRole.EDITOR, CollaboratorRole.VIEWER]),
+  getFileHistoryValidation,
+  getFileHistory
+);
+router.get(
+  '/compare',
+  checkNotebookPermission([CollaboratorRole.OWNER, CollaboratorRole.EDITOR, CollaboratorRole.VIEWER]),
+  compareRefsValidation,
+  compareRefs
+);
 router.get('/:hash', getCommitByHash);
 router.get('/:hash/diff', getCommitDiff);
+router.post(
+  '/:hash/revert',
+  checkNotebookPermission([CollaboratorRole.OWNER, CollaboratorRole.EDITOR]),
+  revertCommitValidation,
+  revertCommit
+);
+router.post(
+  '/:hash/cherry-pick',
+  checkNotebookPermission([CollaboratorRole.OWNER, CollaboratorRole.EDITOR]),
+  cherryPickCommitValidation,
+  cherryPickCommit
+);
+router.post(
+  '/:hash/restore',
+  checkNotebookPermission([CollaboratorRole.OWNER, CollaboratorRole.EDITOR]),
+  restoreFileValidation,
+  restoreFile
+);
 
 export default router;
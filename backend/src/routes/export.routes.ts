@@ -0,0 +1,42 @@
+import { Router } from 'express';
+import { authenticateToken } from '../middleware/auth';
+import { checkNotebookPermission } from '../middleware/permissions';
+import { CollaboratorRole } from '../models/Notebook';
+import {
+  getExports,
+  createExport,
+  createExportValidation,
+  getExport,
+  downloadExport,
+} from '../controllers/exportController';
+
+const router = Router({ mergeParams: true });
+
+router.use(authenticateToken);
+
+router.get(
+  '/',
+  checkNotebookPermission([CollaboratorRole.OWNER, CollaboratorRole.EDITOR, CollaboratorRole.VIEWER]),
+  getExports
+);
+
+router.post(
+  '/',
+  checkNotebookPermission([CollaboratorRole.OWNER, CollaboratorRole.EDITOR, CollaboratorRole.VIEWER]),
+  createExportValidation,
+  createExport
+);
+
+router.get(
+  '/:jobId',
+  checkNotebookPermission([CollaboratorRole.OWNER, CollaboratorRole.EDITOR, CollaboratorRole.VIEWER]),
+  getExport
+);
+
+router.get(
+  '/:jobId/download',
+  checkNotebookPermission([CollaboratorRole.OWNER, CollaboratorRole.EDITOR, CollaboratorRole.VIEWER]),
+  downloadExport
+);
+
+export default router;
@@ -1,13 +1,35 @@
 import { Router, Request, Response } from 'express';
+import mongoose from 'mongoose';
 import { authenticateToken } from '../middleware/auth';
 import StarredNotebook from '../models/StarredNotebook';
 import Activity from '../models/Activity';
-import Notebook from '../models/Notebook';
+import Notebook, { INotebook } from '../models/Notebook';
+import NotebookWatch, { WatchLevel } from '../models/NotebookWatch';
+import { NotificationPreferenceService } from '../services/notificationPreferenceService';
+import { EventBus } from '../services/eventBus';
+import { getNotebookRole } from '../middleware/permissions';
+import { ForkService } from '../services/forkService';
+import { SearchService, SearchNotebook, FileSearchResult } from '../services/searchService';
+import { handleRepositoryBusy } from '../middleware/errorHandler';
 
 const router = Router();
 
 router.use(authenticateToken);
 
+// Watching needs read access: public notebooks, or private ones the user is a member of
+const findReadableNotebook = async (id: string, userId: string, res: Response): Promise<INotebook | null> => {
+  const notebook = await Notebook.findById(id);
+  if (!notebook) {
+    res.status(404).json({ message: 'Notebook not found' });
+    return null;
+  }
+  if (!notebook.isPublic && !getNotebookRole(notebook, userId)) {
+    res.status(403).json({ message: 'Access denied' });
+    return null;
+  }
+  return notebook;
+};
+
 // Star a notebook
 router.post('/:id/star', async (req: Request, res: Response): Promise<void> => {
   try {
@@ -27,13 +49,7 @@ router.post('/:id/star', async (req: Request, res: Response): Promise<void> => {
     // Increment star count
     await Notebook.findByIdAndUpdate(id, { $inc: { starCount: 1 } });
 
-    // Log activity
-    await Activity.create({
-      notebook: id,
-      user: userId,
-      type: 'notebook_created',
-      description: 'Starred this notebook',
-    });
+    await new EventBus().publish('notebook.starred', { notebookId: id, userId });
 
     res.status(201).json({ message: 'Notebook starred successfully' });
   } catch (error: any) {
@@ -101,6 +117,65 @@ router.get('/:id/star/status', async (req: Request, res: Response): Promise<void
   }
 });
 
+// Get how closely the user follows a notebook
+router.get('/:id/watch', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const notebook = await findReadableNotebook(req.params.id, req.userId!, res);
+    if (!notebook) {
+      return;
+    }
+
+    res.json(await new NotificationPreferenceService().getWatchLevel(notebook, req.userId!));
+  } catch (error: any) {
+    console.error('Error getting watch status:', error);
+    res.status(500).json({ message: error.message });
+  }
+});
+
+// Watch a notebook, follow only what involves you, or ignore it
+router.put('/:id/watch', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { level } = req.body;
+    if (!Object.values(WatchLevel).includes(level)) {
+      res.status(400).json({ message: `Level must be one of: ${Object.values(WatchLevel).join(', ')}` });
+      return;
+    }
+
+    const notebook = await findReadableNotebook(req.params.id, req.userId!, res);
+    if (!notebook) {
+      return;
+    }
+
+    await NotebookWatch.findOneAndUpdate(
+      { user: req.userId, notebook: notebook._id },
+      { level },
+      { upsert: true }
+    );
+
+    res.json({ level, isDefault: false });
+  } catch (error: any) {
+    console.error('Error updating watch status:', error);
+    res.status(500).json({ message: error.message });
+  }
+});
+
+// Go back to the default for the user's role on the notebook
+router.delete('/:id/watch', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const notebook = await findReadableNotebook(req.params.id, req.userId!, res);
+    if (!notebook) {
+      return;
+    }
+
+    await NotebookWatch.deleteOne({ user: req.userId, notebook: notebook._id });
+
+    res.json(await new NotificationPreferenceService().getWatchLevel(notebook, req.userId!));
+  } catch (error: any) {
+    console.error('Error resetting watch status:', error);
+    res.status(500).json({ message: error.message });
+  }
+});
+
 // Fork a notebook
 router.post('/:id/fork', async (req: Request, res: Response): Promise<void> => {
   try {
@@ -113,38 +188,24 @@ router.post('/:id/fork', async (req: Request, res: Response): Promise<void> => {
       return;
     }
 
-    // Create new notebook
-    const forkedNotebook = await Notebook.create({
-      name: `${originalNotebook.name} (Fork)`,
-      description: originalNotebook.description,
-      courseName: originalNotebook.courseName,
-      courseCode: originalNotebook.courseCode,
-      isPublic: false,
-      owner: userId,
-      gitRepoPath: new Date().getTime().toString(),
-      collaborators: [],
-    });
-
-    // Copy git repository
-    const { GitService } = await import('../services/gitService');
-    const forkedGit = new GitService(forkedNotebook.gitRepoPath);
+    // Private notebooks can only be forked by people who can already read them
+    if (!originalNotebook.isPublic && !getNotebookRole(originalNotebook, userId)) {
+      res.status(403).json({ message: 'Access denied' });
+      return;
+    }
 
-    await forkedGit.initRepo();
+    const forkedNotebook = await new ForkService().forkNotebook(originalNotebook, userId);
 
     // Increment fork count
     await Notebook.findByIdAndUpdate(id, { $inc: { forkCount: 1 } });
 
-    // Log activity
-    await Activity.create({
-      notebook: id,
-      user: userId,
-      type: 'notebook_forked',
-      description: `Forked this notebook`,
-      metadata: { forkedNotebookId: forkedNotebook._id },
-    });
+    await new EventBus().publish('notebook.forked', { notebookId: id, userId, forkId: String(forkedNotebook._id) });
 
     res.status(201).json({ notebook: forkedNotebook });
   } catch (error: any) {
+    if (handleRepositoryBusy(error, res)) {
+      return;
+    }
     console.error('Error forking notebook:', error);
     res.status(500).json({ message: error.message });
   }
@@ -189,7 +250,7 @@ router.get('/activity/me', async (req: Request, res: Response): Promise<void> =>
 // Search notebooks
 router.get('/search', async (req: Request, res: Response): Promise<void> => {
   try {
-    const { q, course, sort = 'relevance' } = req.query;
+    const { q, course, sort = 'relevance', notebook, branch } = req.query;
     const userId = req.userId!;
 
     let query: any = {
@@ -200,6 +261,26 @@ router.get('/search', async (req: Request, res: Response): Promise<void> => {
       ],
     };
 
+    if (course && typeof course === 'string') {
+      query.courseName = { $regex: course, $options: 'i' };
+    }
+
+    if (typeof notebook === 'string' && mongoose.isValidObjectId(notebook)) {
+      query._id = notebook;
+    }
+
+    // File contents and commit messages are searched in every notebook the filters allow, whatever its name
+    let files: FileSearchResult[] = [];
+    let commits: any[] = [];
+    if (q && typeof q === 'string' && q.trim()) {
+      const scope = await Notebook.find(query).select('name').lean<SearchNotebook[]>();
+      const searchService = new SearchService();
+      [files, commits] = await Promise.all([
+        searchService.searchFiles(scope, q, { branch: typeof branch === 'string' ? branch : undefined }),
+        searchService.searchCommits(scope, q),
+      ]);
+    }
+
     if (q && typeof q === 'string') {
       query.$and = query.$and || [];
       query.$and.push({
@@ -212,10 +293,6 @@ router.get('/search', async (req: Request, res: Response): Promise<void> => {
       });
     }
 
-    if (course && typeof course === 'string') {
-      query.courseName = { $regex: course, $options: 'i' };
-    }
-
     let sortOption: any = { updatedAt: -1 };
     if (sort === 'stars') {
       sortOption = { starCount: -1, updatedAt: -1 };
@@ -230,7 +307,7 @@ router.get('/search', async (req: Request, res: Response): Promise<void> => {
       .sort(sortOption)
       .limit(50);
 
-    res.json({ notebooks, count: notebooks.length });
+    res.json({ notebooks, count: notebooks.length, files, commits });
   } catch (error: any) {
     console.error('Error searching notebooks:', error);
     res.status(500).json({ message: error.message });
@@ -0,0 +1,20 @@
+import { Router } from 'express';
+import { authenticateToken } from '../middleware/auth';
+import {
+  getMyInvitations,
+  getInvitation,
+  acceptInvitation,
+  declineInvitation,
+} from '../controllers/invitationController';
+
+const router = Router();
+
+router.use(authenticateToken);
+
+// Invitations are answered by token, which reaches the invitee in a notification, an email or a shared link
+router.get('/', getMyInvitations);
+router.get('/:token', getInvitation);
+router.post('/:token/accept', acceptInvitation);
+router.post('/:token/decline', declineInvitation);
+
+export default router;
@@ -0,0 +1,47 @@
+import { Router } from 'express';
+import { authenticateToken } from '../middleware/auth';
+import { checkNotebookPermission } from '../middleware/permissions';
+import { CollaboratorRole } from '../models/Notebook';
+import {
+  getMerge,
+  startMerge,
+  resolveConflict,
+  completeMerge,
+  abortMerge,
+  startMergeValidation,
+  resolveConflictValidation,
+} from '../controllers/mergeController';
+
+const router = Router({ mergeParams: true });
+
+router.use(authenticateToken);
+
+router.get(
+  '/',
+  checkNotebookPermission([CollaboratorRole.OWNER, CollaboratorRole.EDITOR, CollaboratorRole.VIEWER]),
+  getMerge
+);
+router.post(
+  '/',
+  checkNotebookPermission([CollaboratorRole.OWNER, CollaboratorRole.EDITOR]),
+  startMergeValidation,
+  startMerge
+);
+router.post(
+  '/resolve',
+  checkNotebookPermission([CollaboratorRole.OWNER, CollaboratorRole.EDITOR]),
+  resolveConflictValidation,
+  resolveConflict
+);
+router.post(
+  '/complete',
+  checkNotebookPermission([CollaboratorRole.OWNER, CollaboratorRole.EDITOR]),
+  completeMerge
+);
+router.post(
+  '/abort',
+  checkNotebookPermission([CollaboratorRole.OWNER, CollaboratorRole.EDITOR]),
+  abortMerge
+);
+
+export default router;
@@ -1,8 +1,10 @@
 import { Router } from 'express';
 import { authenticateToken } from '../middleware/auth';
 import { checkNotebookPermission } from '../middleware/permissions';
+import { handleRepositoryBusy } from '../middleware/errorHandler';
 import { CollaboratorRole } from '../models/Notebook';
-import mongoose from 'mongoose';
+import multer from 'multer';
+import os from 'os';
 import {
   createNotebook,
   getUserNotebooks,
@@ -11,10 +13,38 @@ import {
   deleteNotebook,
   searchPublicNotebooks,
   createNotebookValidation,
+  importNotebook,
+  importNotebookValidation,
 } from '../controllers/notebookController';
+import {
+  getNotebookInvitations,
+  createInvitation,
+  createInviteLink,
+  revokeInvitation,
+  createInvitationValidation,
+  createInviteLinkValidation,
+} from '../controllers/invitationController';
+import {
+  updateCollaboratorRole,
+  requestOwnershipTransfer,
+  cancelOwnershipTransfer,
+  acceptOwnershipTransfer,
+  declineOwnershipTransfer,
+  updateCollaboratorRoleValidation,
+  requestOwnershipTransferValidation,
+} from '../controllers/collaboratorController';
+import { EventBus } from '../services/eventBus';
 
 const router = Router();
 
+// Imported bundles and archives only need to live until the import finishes
+const importUpload = multer({
+  dest: os.tmpdir(),
+  limits: {
+    fileSize: 200 * 1024 * 1024, // 200MB limit
+  },
+});
+
 // Public routes
 router.get('/public', searchPublicNotebooks);
 
@@ -22,6 +52,7 @@ router.get('/public', searchPublicNotebooks);
 router.use(authenticateToken);
 
 router.post('/', createNotebookValidation, createNotebook);
+router.post('/import', importUpload.single('file'), importNotebookValidation, importNotebook);
 router.get('/', getUserNotebooks);
 router.get('/:id', getNotebookById);
 router.put(
@@ -35,70 +66,67 @@ router.delete(
   deleteNotebook
 );
 
-// Add collaborator
+// Invite a collaborator; they join once they accept
 router.post(
   '/:id/collaborators',
   checkNotebookPermission([CollaboratorRole.OWNER]),
-  async (req, res) => {
-    try {
-      const { id } = req.params;
-      const { userId, role } = req.body;
-
-      if (!userId || !role) {
-        res.status(400).json({ message: 'userId and role are required' });
-        return;
-      }
-
-      if (!['VIEWER', 'EDITOR'].includes(role)) {
-        res.status(400).json({ message: 'Invalid role. Must be VIEWER or EDITOR' });
-        return;
-      }
-
-      const Notebook = await import('../models/Notebook').then(m => m.default);
-      const notebook = await Notebook.findById(id);
-      
-      if (!notebook) {
-        res.status(404).json({ message: 'Notebook not found' });
-        return;
-      }
-
-      // Check if user is already a collaborator
-      const existingCollaborator = notebook.collaborators.find(
-        (c: any) => c.user.toString() === userId
-      );
+  createInvitationValidation,
+  createInvitation
+);
 
-      if (existingCollaborator) {
-        res.status(400).json({ message: 'User is already a collaborator' });
-        return;
-      }
+// Change a collaborator between viewer and editor
+router.patch(
+  '/:id/collaborators/:userId',
+  checkNotebookPermission([CollaboratorRole.OWNER]),
+  updateCollaboratorRoleValidation,
+  updateCollaboratorRole
+);
 
-      // Add the collaborator
-      notebook.collaborators.push({
-        user: new mongoose.Types.ObjectId(userId),
-        role: role as CollaboratorRole,
-        addedAt: new Date(),
-      } as any);
-
-      await notebook.save();
-
-      // Create notification for the added collaborator
-      const Notification = await import('../models/Notification').then(m => m.default);
-      await Notification.create({
-        user: userId,
-        type: 'collaborator_added',
-        title: 'Added as Collaborator',
-        message: `You've been added as a ${role.toLowerCase()} to "${notebook.name}"`,
-        link: `/notebook/${id}`,
-        relatedNotebook: id,
-        relatedUser: req.userId,
-      });
+// Ownership moves only once the collaborator it is offered to accepts
+router.post(
+  '/:id/transfer',
+  checkNotebookPermission([CollaboratorRole.OWNER]),
+  requestOwnershipTransferValidation,
+  requestOwnershipTransfer
+);
+router.delete(
+  '/:id/transfer',
+  checkNotebookPermission([CollaboratorRole.OWNER]),
+  cancelOwnershipTransfer
+);
+router.post(
+  '/:id/transfer/accept',
+  checkNotebookPermission([CollaboratorRole.EDITOR, CollaboratorRole.VIEWER]),
+  acceptOwnershipTransfer
+);
+router.post(
+  '/:id/transfer/decline',
+  checkNotebookPermission([CollaboratorRole.EDITOR, CollaboratorRole.VIEWER]),
+  declineOwnershipTransfer
+);
 
-      res.json({ message: 'Collaborator added successfully' });
-    } catch (error: any) {
-      console.error('Error adding collaborator:', error);
-      res.status(500).json({ message: error.message });
-    }
-  }
+// Invitations and invite links
+router.get(
+  '/:id/invitations',
+  checkNotebookPermission([CollaboratorRole.OWNER]),
+  getNotebookInvitations
+);
+router.post(
+  '/:id/invitations',
+  checkNotebookPermission([CollaboratorRole.OWNER]),
+  createInvitationValidation,
+  createInvitation
+);
+router.post(
+  '/:id/invitations/link',
+  checkNotebookPermission([CollaboratorRole.OWNER]),
+  createInviteLinkValidation,
+  createInviteLink
+);
+router.delete(
+  '/:id/invitations/:invitationId',
+  checkNotebookPermission([CollaboratorRole.OWNER]),
+  revokeInvitation
 );
 
 // Remove collaborator
@@ -117,11 +145,24 @@ router.delete(
         return;
       }
 
-      notebook.collaborators = notebook.collaborators.filter(
+      const remaining = notebook.collaborators.filter(
         (c: any) => c.user.toString() !== userId
       );
 
-      await notebook.save();
+      if (remaining.length !== notebook.collaborators.length) {
+        notebook.collaborators = remaining;
+        // Ownership can only go to a collaborator
+        if (notebook.pendingOwnershipTransfer?.to.toString() === userId) {
+          notebook.pendingOwnershipTransfer = undefined;
+        }
+        await notebook.save();
+
+        await new EventBus().publish('collaborator.removed', {
+          notebookId: id,
+          userId: req.userId!,
+          collaboratorId: userId,
+        });
+      }
 
       res.json({ message: 'Collaborator removed successfully' });
     } catch (error: any) {
@@ -151,6 +192,11 @@ router.post(
         return;
       }
 
+      if (branch && notebook.pendingMerge?.targetBranch === branch) {
+        res.status(409).json({ message: 'A merge into this branch is in progress. Resolve conflicts through the merge view instead.' });
+        return;
+      }
+
       const { GitService } = await import('../services/gitService');
       const gitService = new GitService(notebook.gitRepoPath);
       
@@ -160,21 +206,15 @@ router.post(
         await gitService.initRepo();
       }
       
-      // If branch is specified, checkout that branch first (only if repo has commits)
-      if (branch) {
-        try {
-          await gitService.checkoutBranch(branch);
-        } catch (error: any) {
-          // Ignore checkout errors if no commits yet
-          console.log('Checkout skipped:', error.message);
-        }
-      }
-      
-      // Write file to working directory
-      await gitService.writeFile(filePath, content || '');
+      // Save into the branch's own working tree so other branches are untouched
+      const workTree = branch ? await gitService.forBranch(branch) : gitService;
+      await workTree.writeFile(filePath, content || '');
 
       res.json({ message: 'File saved successfully', filePath });
     } catch (error: any) {
+      if (handleRepositoryBusy(error, res)) {
+        return;
+      }
       console.error('Error saving file:', error);
       res.status(500).json({ message: error.message });
     }
@@ -204,17 +244,11 @@ router.get(
       const { GitService } = await import('../services/gitService');
       const gitService = new GitService(notebook.gitRepoPath);
       
-      // If branch is specified, checkout that branch first
-      if (branch && typeof branch === 'string') {
-        try {
-          await gitService.checkoutBranch(branch);
-        } catch (error: any) {
-          console.log('Checkout skipped:', error.message);
-        }
-      }
-      
-      // Read file content
-      const content = await gitService.readFile(path as string);
+      // Reading never checks anything out
+      const content =
+        branch && typeof branch === 'string'
+          ? await gitService.readBranchFile(branch, path as string)
+          : await gitService.readFile(path as string);
 
       res.json({ content });
     } catch (error: any) {
@@ -231,6 +265,7 @@ router.get(
   async (req, res) => {
     try {
       const { id } = req.params;
+      const { branch } = req.query;
 
       const notebook = await import('../models/Notebook').then(m => m.default.findById(id));
       if (!notebook) {
@@ -240,9 +275,16 @@ router.get(
 
       const { GitService } = await import('../services/gitService');
       const gitService = new GitService(notebook.gitRepoPath);
-      
-      const status = await gitService.getStatus();
-      const currentBranch = await gitService.getCurrentBranch();
+
+      // A branch nobody has saved to yet has no worktree, and so no local changes
+      const workTree = branch && typeof branch === 'string' ? await gitService.findWorktree(branch) : gitService;
+      if (!workTree) {
+        res.json({ status: null, currentBranch: branch, hasChanges: false });
+        return;
+      }
+
+      const status = await workTree.getStatus();
+      const currentBranch = await workTree.getCurrentBranch();
 
       res.json({ 
         status,
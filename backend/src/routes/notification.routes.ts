@@ -1,9 +1,44 @@
 import { Router, Request, Response } from 'express';
 import { authenticateToken } from '../middleware/auth';
+import { body, validationResult } from 'express-validator';
 import Notification from '../models/Notification';
+import NotificationPreference, {
+  DEFAULT_EMAIL_TYPES,
+  DEFAULT_IN_APP_TYPES,
+  DigestFrequency,
+  INotificationPreference,
+  NOTIFICATION_TYPES,
+} from '../models/NotificationPreference';
+import { NotificationService } from '../services/notificationService';
+import { MailService } from '../services/mailService';
+import { verifyToken } from '../utils/jwt';
 
 const router = Router();
 
+const preferencesResponse = (preference: INotificationPreference | null) => ({
+  preferences: {
+    inAppTypes: preference ? preference.inAppTypes : DEFAULT_IN_APP_TYPES,
+    emailTypes: preference ? preference.emailTypes : DEFAULT_EMAIL_TYPES,
+    digest: preference ? preference.digest : DigestFrequency.OFF,
+  },
+  // Lets the client say that email is switched off on this server
+  emailEnabled: new MailService().isEnabled(),
+});
+
+// Live notifications over Server-Sent Events. EventSource can't send an Authorization
+// header, so the token comes in the query string, as it does for the collaboration socket.
+router.get('/stream', (req: Request, res: Response): void => {
+  let userId: string;
+  try {
+    userId = verifyToken(String(req.query.token || '')).userId;
+  } catch (error) {
+    res.status(401).json({ message: 'Authentication token required' });
+    return;
+  }
+
+  new NotificationService().subscribe(userId, res);
+});
+
 router.use(authenticateToken);
 
 // Get user notifications
@@ -32,6 +67,63 @@ router.get('/', async (req: Request, res: Response): Promise<void> => {
   }
 });
 
+// Get which notification types reach each channel, or the defaults for users who never saved any
+router.get('/preferences', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const preference = await NotificationPreference.findOne({ user: req.userId });
+
+    res.json(preferencesResponse(preference));
+  } catch (error: any) {
+    console.error('Error fetching notification preferences:', error);
+    res.status(500).json({ message: error.message });
+  }
+});
+
+// Update notification preferences
+router.put(
+  '/preferences',
+  [
+    body('inAppTypes').optional().isArray(),
+    body('inAppTypes.*').isIn(NOTIFICATION_TYPES),
+    body('emailTypes').optional().isArray(),
+    body('emailTypes.*').isIn(NOTIFICATION_TYPES),
+    body('digest').optional().isIn(Object.values(DigestFrequency)),
+  ],
+  async (req: Request, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ errors: errors.array() });
+        return;
+      }
+
+      const { inAppTypes, emailTypes, digest } = req.body;
+
+      const preference =
+        (await NotificationPreference.findOne({ user: req.userId })) ||
+        new NotificationPreference({ user: req.userId });
+
+      if (inAppTypes) {
+        preference.inAppTypes = [...new Set<string>(inAppTypes)] as INotificationPreference['inAppTypes'];
+      }
+      if (emailTypes) {
+        preference.emailTypes = [...new Set<string>(emailTypes)] as INotificationPreference['emailTypes'];
+      }
+      if (digest && digest !== preference.digest) {
+        // A newly chosen digest covers the period from now on, not everything before it
+        preference.digest = digest;
+        preference.lastDigestAt = new Date();
+      }
+      await preference.save();
+
+      res.json(preferencesResponse(preference));
+    } catch (error: any) {
+      console.error('Error updating notification preferences:', error);
+      res.status(500).json({ message: error.message });
+    }
+  }
+);
+
 // Mark notification as read
 router.patch('/:id/read', async (req: Request, res: Response): Promise<void> => {
   try {
@@ -49,6 +141,8 @@ router.patch('/:id/read', async (req: Request, res: Response): Promise<void> =>
       return;
     }
 
+    await new NotificationService().publishUnreadCount(userId);
+
     res.json({ notification });
   } catch (error: any) {
     console.error('Error marking notification as read:', error);
@@ -66,6 +160,8 @@ router.patch('/read-all', async (req: Request, res: Response): Promise<void> =>
       { isRead: true }
     );
 
+    await new NotificationService().publishUnreadCount(userId);
+
     res.json({ message: 'All notifications marked as read' });
   } catch (error: any) {
     console.error('Error marking all notifications as read:', error);
@@ -86,6 +182,8 @@ router.delete('/:id', async (req: Request, res: Response): Promise<void> => {
       return;
     }
 
+    await new NotificationService().publishUnreadCount(userId);
+
     res.json({ message: 'Notification deleted' });
   } catch (error: any) {
     console.error('Error deleting notification:', error);
@@ -0,0 +1,97 @@
+import { Router } from 'express';
+import { authenticateToken } from '../middleware/auth';
+import { checkNotebookPermission } from '../middleware/permissions';
+import { CollaboratorRole } from '../models/Notebook';
+import {
+  createPullRequest,
+  getPullRequests,
+  getPullRequestById,
+  getPullRequestDiff,
+  refreshPullRequest,
+  updatePullRequest,
+  mergePullRequest,
+  createPullRequestValidation,
+  updatePullRequestValidation,
+} from '../controllers/pullRequestController';
+import {
+  getReviews,
+  submitReview,
+  getReviewComments,
+  createReviewComment,
+  resolveThread,
+  submitReviewValidation,
+  createReviewCommentValidation,
+  resolveThreadValidation,
+} from '../controllers/reviewController';
+
+const router = Router({ mergeParams: true });
+
+router.use(authenticateToken);
+
+router.get(
+  '/',
+  checkNotebookPermission([CollaboratorRole.OWNER, CollaboratorRole.EDITOR, CollaboratorRole.VIEWER]),
+  getPullRequests
+);
+router.post(
+  '/',
+  checkNotebookPermission([CollaboratorRole.OWNER, CollaboratorRole.EDITOR]),
+  createPullRequestValidation,
+  createPullRequest
+);
+router.get(
+  '/:prId',
+  checkNotebookPermission([CollaboratorRole.OWNER, CollaboratorRole.EDITOR, CollaboratorRole.VIEWER]),
+  getPullRequestById
+);
+router.get(
+  '/:prId/diff',
+  checkNotebookPermission([CollaboratorRole.OWNER, CollaboratorRole.EDITOR, CollaboratorRole.VIEWER]),
+  getPullRequestDiff
+);
+router.post(
+  '/:prId/refresh',
+  checkNotebookPermission([CollaboratorRole.OWNER, CollaboratorRole.EDITOR, CollaboratorRole.VIEWER]),
+  refreshPullRequest
+);
+router.patch(
+  '/:prId',
+  checkNotebookPermission([CollaboratorRole.OWNER, CollaboratorRole.EDITOR]),
+  updatePullRequestValidation,
+  updatePullRequest
+);
+router.get(
+  '/:prId/reviews',
+  checkNotebookPermission([CollaboratorRole.OWNER, CollaboratorRole.EDITOR, CollaboratorRole.VIEWER]),
+  getReviews
+);
+router.post(
+  '/:prId/reviews',
+  checkNotebookPermission([CollaboratorRole.OWNER, CollaboratorRole.EDITOR, CollaboratorRole.VIEWER]),
+  submitReviewValidation,
+  submitReview
+);
+router.get(
+  '/:prId/comments',
+  checkNotebookPermission([CollaboratorRole.OWNER, CollaboratorRole.EDITOR, CollaboratorRole.VIEWER]),
+  getReviewComments
+);
+router.post(
+  '/:prId/comments',
+  checkNotebookPermission([CollaboratorRole.OWNER, CollaboratorRole.EDITOR, CollaboratorRole.VIEWER]),
+  createReviewCommentValidation,
+  createReviewComment
+);
+router.patch(
+  '/:prId/comments/:commentId',
+  checkNotebookPermission([CollaboratorRole.OWNER, CollaboratorRole.EDITOR, CollaboratorRole.VIEWER]),
+  resolveThreadValidation,
+  resolveThread
+);
+router.post(
+  '/:prId/merge',
+  checkNotebookPermission([CollaboratorRole.OWNER]),
+  mergePullRequest
+);
+
+export default router;
@@ -0,0 +1,49 @@
+import { Router } from 'express';
+import { authenticateToken } from '../middleware/auth';
+import { checkNotebookPermission } from '../middleware/permissions';
+import { CollaboratorRole } from '../models/Notebook';
+import {
+  getReleases,
+  createRelease,
+  updateRelease,
+  deleteRelease,
+  downloadRelease,
+  createReleaseValidation,
+  updateReleaseValidation,
+  downloadReleaseValidation,
+} from '../controllers/releaseController';
+
+const router = Router({ mergeParams: true });
+
+router.use(authenticateToken);
+
+router.get(
+  '/',
+  checkNotebookPermission([CollaboratorRole.OWNER, CollaboratorRole.EDITOR, CollaboratorRole.VIEWER]),
+  getReleases
+);
+router.post(
+  '/',
+  checkNotebookPermission([CollaboratorRole.OWNER, CollaboratorRole.EDITOR]),
+  createReleaseValidation,
+  createRelease
+);
+router.put(
+  '/:tag',
+  checkNotebookPermission([CollaboratorRole.OWNER, CollaboratorRole.EDITOR]),
+  updateReleaseValidation,
+  updateRelease
+);
+router.delete(
+  '/:tag',
+  checkNotebookPermission([CollaboratorRole.OWNER, CollaboratorRole.EDITOR]),
+  deleteRelease
+);
+router.get(
+  '/:tag/snapshot',
+  checkNotebookPermission([CollaboratorRole.OWNER, CollaboratorRole.EDITOR, CollaboratorRole.VIEWER]),
+  downloadReleaseValidation,
+  downloadRelease
+);
+
+export default router;
@@ -0,0 +1,28 @@
+import { Router } from 'express';
+import { authenticateToken } from '../middleware/auth';
+import { checkNotebookPermission } from '../middleware/permissions';
+import { CollaboratorRole } from '../models/Notebook';
+import { getTags, createTag, deleteTag, createTagValidation } from '../controllers/tagController';
+
+const router = Router({ mergeParams: true });
+
+router.use(authenticateToken);
+
+router.get(
+  '/',
+  checkNotebookPermission([CollaboratorRole.OWNER, CollaboratorRole.EDITOR, CollaboratorRole.VIEWER]),
+  getTags
+);
+router.post(
+  '/',
+  checkNotebookPermission([CollaboratorRole.OWNER, CollaboratorRole.EDITOR]),
+  createTagValidation,
+  createTag
+);
+router.delete(
+  '/:name',
+  checkNotebookPermission([CollaboratorRole.OWNER, CollaboratorRole.EDITOR]),
+  deleteTag
+);
+
+export default router;
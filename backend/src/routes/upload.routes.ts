@@ -6,6 +6,8 @@ import { authenticateToken } from '../middleware/auth';
 import { checkNotebookPermission } from '../middleware/permissions';
 import { CollaboratorRole } from '../models/Notebook';
 import Notebook from '../models/Notebook';
+import { uploadDirectory } from '../utils/uploads';
+import { EventBus } from '../services/eventBus';
 
 const router = Router({ mergeParams: true });
 
@@ -19,7 +21,7 @@ const storage = multer.diskStorage({
       return cb(new Error('Notebook not found'), '');
     }
     
-    const uploadDir = path.join(process.cwd(), 'repos', notebook.gitRepoPath, 'uploads');
+    const uploadDir = uploadDirectory(notebook.gitRepoPath);
     
     await fs.mkdir(uploadDir, { recursive: true });
     cb(null, uploadDir);
@@ -73,6 +75,12 @@ router.post(
 
       const { id } = req.params;
       const relativePath = `uploads/${req.file.filename}`;
+
+      await new EventBus().publish('file.uploaded', {
+        notebookId: id,
+        userId: req.userId!,
+        files: [req.file.originalname],
+      });
       
       res.status(201).json({
         message: 'File uploaded successfully',
@@ -114,6 +122,12 @@ router.post(
         mimetype: file.mimetype,
         url: `/api/notebooks/${id}/uploads/${file.filename}`,
       }));
+
+      await new EventBus().publish('file.uploaded', {
+        notebookId: id,
+        userId: req.userId!,
+        files: files.map((file) => file.originalName),
+      });
       
       res.status(201).json({
         message: 'Files uploaded successfully',
@@ -140,7 +154,7 @@ router.get(
         return;
       }
       
-      const filePath = path.join(process.cwd(), 'repos', notebook.gitRepoPath, 'uploads', filename);
+      const filePath = path.join(uploadDirectory(notebook.gitRepoPath), filename);
       
       // Check if file exists
       try {
@@ -172,7 +186,7 @@ router.delete(
         return;
       }
       
-      const filePath = path.join(process.cwd(), 'repos', notebook.gitRepoPath, 'uploads', filename);
+      const filePath = path.join(uploadDirectory(notebook.gitRepoPath), filename);
       
       await fs.unlink(filePath);
       
@@ -0,0 +1,39 @@
+import { Router } from 'express';
+import { authenticateToken } from '../middleware/auth';
+import { checkNotebookPermission } from '../middleware/permissions';
+import { CollaboratorRole } from '../models/Notebook';
+import {
+  getUpstream,
+  refreshUpstream,
+  getUpstreamPullRequests,
+  createUpstreamPullRequest,
+  createUpstreamPullRequestValidation,
+} from '../controllers/upstreamController';
+
+const router = Router({ mergeParams: true });
+
+router.use(authenticateToken);
+
+router.get(
+  '/',
+  checkNotebookPermission([CollaboratorRole.OWNER, CollaboratorRole.EDITOR, CollaboratorRole.VIEWER]),
+  getUpstream
+);
+router.post(
+  '/refresh',
+  checkNotebookPermission([CollaboratorRole.OWNER, CollaboratorRole.EDITOR]),
+  refreshUpstream
+);
+router.get(
+  '/pulls',
+  checkNotebookPermission([CollaboratorRole.OWNER, CollaboratorRole.EDITOR, CollaboratorRole.VIEWER]),
+  getUpstreamPullRequests
+);
+router.post(
+  '/pulls',
+  checkNotebookPermission([CollaboratorRole.OWNER, CollaboratorRole.EDITOR]),
+  createUpstreamPullRequestValidation,
+  createUpstreamPullRequest
+);
+
+export default router;
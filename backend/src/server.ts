@@ -6,6 +6,11 @@ import { config } from './config/config';
 import { connectDatabase } from './config/database';
 import { errorHandler } from './middleware/errorHandler';
 import logger from './utils/logger';
+import { CollaborationService } from './services/collaborationService';
+import { ExportService } from './services/exportService';
+import { DigestService } from './services/digestService';
+import { subscribeActivityWriter } from './services/activityWriter';
+import { subscribeNotificationWriter } from './services/notificationWriter';
 
 // Import routes
 import authRoutes from './routes/auth.routes';
@@ -16,9 +21,21 @@ import userRoutes from './routes/user.routes';
 import uploadRoutes from './routes/upload.routes';
 import featureRoutes from './routes/feature.routes';
 import notificationRoutes from './routes/notification.routes';
+import pullRequestRoutes from './routes/pullRequest.routes';
+import mergeRoutes from './routes/merge.routes';
+import upstreamRoutes from './routes/upstream.routes';
+import tagRoutes from './routes/tag.routes';
+import releaseRoutes from './routes/release.routes';
+import archiveRoutes from './routes/archive.routes';
+import exportRoutes from './routes/export.routes';
+import invitationRoutes from './routes/invitation.routes';
 
 const app: Application = express();
 
+// The activity feed and notifications follow the events controllers publish
+subscribeActivityWriter();
+subscribeNotificationWriter();
+
 // Security middleware
 app.use(helmet());
 app.use(cors({
@@ -55,9 +72,17 @@ app.use('/api/notebooks', notebookRoutes);
 app.use('/api/notebooks/:id/branches', branchRoutes);
 app.use('/api/notebooks/:id/commits', commitRoutes);
 app.use('/api/notebooks/:id/uploads', uploadRoutes);
+app.use('/api/notebooks/:id/pulls', pullRequestRoutes);
+app.use('/api/notebooks/:id/merge', mergeRoutes);
+app.use('/api/notebooks/:id/upstream', upstreamRoutes);
+app.use('/api/notebooks/:id/tags', tagRoutes);
+app.use('/api/notebooks/:id/releases', releaseRoutes);
+app.use('/api/notebooks/:id/archive', archiveRoutes);
+app.use('/api/notebooks/:id/exports', exportRoutes);
 app.use('/api/notebooks/:id/comments', require('./routes/comment.routes').default);
 app.use('/api/users', userRoutes);
 app.use('/api/notifications', notificationRoutes);
+app.use('/api/invitations', invitationRoutes);
 
 // 404 handler
 app.use((_req, res) => {
@@ -74,11 +99,20 @@ const startServer = async () => {
     await connectDatabase();
 
     // Start listening
-    app.listen(config.port, () => {
+    const server = app.listen(config.port, () => {
       logger.info(`Server running on port ${config.port}`);
       logger.info(`Environment: ${config.env}`);
       logger.info(`CORS origin: ${config.corsOrigin}`);
     });
+
+    // Real-time co-editing shares the HTTP port
+    new CollaborationService().attach(server);
+
+    // Pick up exports queued or running when the server last stopped
+    await new ExportService().recoverInterruptedJobs();
+
+    // Email digests of notebook activity for users who asked for them
+    new DigestService().start();
   } catch (error) {
     logger.error('Failed to start server:', error);
     process.exit(1);
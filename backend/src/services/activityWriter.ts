@@ -0,0 +1,181 @@
+import Activity, { IActivity } from '../models/Activity';
+import { InvitationKind } from '../models/Invitation';
+import { ReviewVerdict } from '../models/Review';
+import User from '../models/User';
+import { DomainEvents, EventBus, EventType } from './eventBus';
+
+type ActivityRecord = Pick<IActivity, 'type' | 'description'> & { metadata?: Record<string, unknown> };
+
+const short = (hash: string) => hash.substring(0, 7);
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+const username = async (userId: unknown): Promise<string> => {
+  const user = await User.findById(userId).select('username');
+  return user?.username || 'a deleted user';
+};
+
+const verdictActivity: Record<ReviewVerdict, string> = {
+  [ReviewVerdict.APPROVE]: 'Approved',
+  [ReviewVerdict.REQUEST_CHANGES]: 'Requested changes on',
+  [ReviewVerdict.COMMENT]: 'Reviewed',
+};
+
+const replayActivity: Record<
+  DomainEvents['commit.replayed']['operation'],
+  { type: ActivityRecord['type']; summary: (event: DomainEvents['commit.replayed']) => string }
+> = {
+  revert: {
+    type: 'commit_reverted',
+    summary: (event) => `Reverted ${short(event.sourceCommitHash)} on ${event.branch}`,
+  },
+  cherry_pick: {
+    type: 'commit_cherry_picked',
+    summary: (event) => `Cherry-picked ${short(event.sourceCommitHash)} onto ${event.branch}`,
+  },
+  restore: {
+    type: 'file_restored',
+    summary: (event) => `Restored ${event.path} on ${event.branch} to its content at ${short(event.sourceCommitHash)}`,
+  },
+};
+
+// One feed entry per event, describing it from the acting user's point of view
+const describers: { [K in EventType]: (event: DomainEvents[K]) => ActivityRecord | Promise<ActivityRecord> } = {
+  'notebook.created': (event) => ({
+    type: 'notebook_created',
+    description: event.imported ? 'Imported this notebook' : 'Created this notebook',
+  }),
+  'notebook.forked': (event) => ({
+    type: 'notebook_forked',
+    description: 'Forked this notebook',
+    metadata: { forkedNotebookId: event.forkId },
+  }),
+  'notebook.starred': () => ({
+    type: 'notebook_starred',
+    description: 'Starred this notebook',
+  }),
+  'commit.created': (event) => ({
+    type: 'commit',
+    description: `Committed "${event.message}" to ${event.branch}`,
+    metadata: { commitHash: event.commitHash, branch: event.branch },
+  }),
+  'commit.replayed': (event) => ({
+    type: replayActivity[event.operation].type,
+    description: replayActivity[event.operation].summary(event),
+    metadata: { commitHash: event.commitHash, sourceCommitHash: event.sourceCommitHash, branch: event.branch },
+  }),
+  'branch.created': (event) => ({
+    type: 'branch_created',
+    description: `Created branch ${event.branch} from ${event.fromBranch}`,
+    metadata: { branch: event.branch, fromBranch: event.fromBranch },
+  }),
+  'branch.deleted': (event) => ({
+    type: 'branch_deleted',
+    description: `${event.forced ? 'Force-deleted' : 'Deleted'} branch ${event.branch}`,
+    metadata: { branch: event.branch },
+  }),
+  'branch.merged': (event) => ({
+    type: 'branch_merged',
+    description:
+      event.conflicts.length > 0
+        ? `Merged ${event.sourceBranch} into ${event.targetBranch} (resolved ${plural(event.conflicts.length, 'conflict')})`
+        : `Merged ${event.sourceBranch} into ${event.targetBranch}`,
+    metadata: event.conflicts.length > 0
+      ? { commitHash: event.commitHash, conflicts: event.conflicts }
+      : { commitHash: event.commitHash },
+  }),
+  'file.uploaded': (event) => ({
+    type: 'file_uploaded',
+    description: event.files.length === 1 ? `Uploaded ${event.files[0]}` : `Uploaded ${plural(event.files.length, 'file')}`,
+    metadata: { files: event.files },
+  }),
+  'collaborator.invited': async ({ invitation }) => ({
+    type: 'collaborator_invited',
+    // Invited addresses stay out of the feed, which readers of public notebooks see too
+    description:
+      invitation.kind === InvitationKind.LINK
+        ? `Created an invite link for ${invitation.role.toLowerCase()}s`
+        : invitation.kind === InvitationKind.EMAIL
+          ? `Invited someone by email as ${invitation.role.toLowerCase()}`
+          : `Invited ${await username(invitation.invitee)} as ${invitation.role.toLowerCase()}`,
+    metadata: { invitationId: invitation._id, kind: invitation.kind, role: invitation.role },
+  }),
+  'collaborator.added': async (event) => ({
+    type: 'collaborator_added',
+    description:
+      String(event.collaboratorId) === String(event.userId)
+        ? `Joined as ${event.role.toLowerCase()}`
+        : `Added ${await username(event.collaboratorId)} as ${event.role.toLowerCase()}`,
+    metadata: { collaboratorId: event.collaboratorId, role: event.role },
+  }),
+  'collaborator.removed': async (event) => ({
+    type: 'collaborator_removed',
+    description: `Removed ${await username(event.collaboratorId)} from the collaborators`,
+    metadata: { collaboratorId: event.collaboratorId },
+  }),
+  'collaborator.roleChanged': async (event) => ({
+    type: 'collaborator_role_changed',
+    description: `Changed ${await username(event.collaboratorId)} from ${event.previousRole.toLowerCase()} to ${event.role.toLowerCase()}`,
+    metadata: { collaboratorId: event.collaboratorId, role: event.role, previousRole: event.previousRole },
+  }),
+  'ownership.transferRequested': async (event) => ({
+    type: 'ownership_transfer_requested',
+    description: `Offered ownership to ${await username(event.toUserId)}`,
+    metadata: { toUserId: event.toUserId },
+  }),
+  'ownership.transferred': async (event) => ({
+    type: 'ownership_transferred',
+    description: `Took over ownership from ${await username(event.previousOwnerId)}`,
+    metadata: { previousOwnerId: event.previousOwnerId },
+  }),
+  'comment.created': (event) =>
+    event.pullRequest
+      ? {
+          type: 'comment_added',
+          description: `Commented on pull request "${event.pullRequest.title}"`,
+          metadata: { commentId: event.commentId, pullRequestId: event.pullRequest._id },
+        }
+      : {
+          type: 'comment_added',
+          description: 'Added a comment',
+          metadata: { commentId: event.commentId },
+        },
+  'pullRequest.opened': (event) => ({
+    type: 'pull_request_opened',
+    description: `Opened pull request "${event.pullRequest.title}" (${event.sourceLabel} → ${event.targetBranch})`,
+    metadata: event.pullRequest.sourceNotebook
+      ? { pullRequestId: event.pullRequest._id, sourceNotebookId: event.pullRequest.sourceNotebook }
+      : { pullRequestId: event.pullRequest._id },
+  }),
+  'pullRequest.merged': (event) => ({
+    type: 'pull_request_merged',
+    description: `Merged pull request "${event.pullRequest.title}" (${event.sourceBranch} → ${event.targetBranch})`,
+    metadata: { pullRequestId: event.pullRequest._id, commitHash: event.commitHash },
+  }),
+  'pullRequest.reviewed': (event) => ({
+    type: 'pull_request_reviewed',
+    description: `${verdictActivity[event.review.verdict]} pull request "${event.pullRequest.title}"`,
+    metadata: { pullRequestId: event.pullRequest._id, reviewId: event.review._id, verdict: event.review.verdict },
+  }),
+  'tag.created': (event) => ({
+    type: 'tag_created',
+    description: `Tagged ${short(event.commitHash)} as ${event.tag}`,
+    metadata: { tag: event.tag, commitHash: event.commitHash },
+  }),
+  'release.published': (event) => ({
+    type: 'release_published',
+    description: `Published release "${event.title}" (${event.tag})`,
+    metadata: { releaseId: event.releaseId, tag: event.tag, commitHash: event.commitHash },
+  }),
+};
+
+// Record every domain event in the notebook's activity feed
+export const subscribeActivityWriter = (): void => {
+  const bus = new EventBus();
+  (Object.keys(describers) as EventType[]).forEach(<K extends EventType>(type: K) => {
+    bus.subscribe(type, async (event: DomainEvents[K]) => {
+      const record = await describers[type](event);
+      await Activity.create({ notebook: event.notebookId, user: event.userId, ...record });
+    });
+  });
+};
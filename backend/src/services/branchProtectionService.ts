@@ -0,0 +1,48 @@
+import { IBranch } from '../models/Branch';
+import { CollaboratorRole } from '../models/Notebook';
+import { IPullRequest } from '../models/PullRequest';
+import { ReviewVerdict } from '../models/Review';
+import { ReviewService } from './reviewService';
+
+// Each check returns why a protected branch refuses an action, worded for a 403, or null when the action is allowed
+export class BranchProtectionService {
+  // Commits, reverts, cherry-picks, restores and merges that don't come from a pull request
+  directChangeError(branch: IBranch): string | null {
+    if (branch.protection?.requirePullRequest) {
+      return `Branch "${branch.name}" is protected: changes must go through a pull request`;
+    }
+    return null;
+  }
+
+  // Branches that need approvals also stay closed while any reviewer's latest verdict asks for changes
+  async pullRequestMergeError(branch: IBranch, pullRequest: IPullRequest): Promise<string | null> {
+    const required = branch.protection?.requiredApprovals || 0;
+    if (required === 0) {
+      return null;
+    }
+
+    const verdicts = await new ReviewService().getVerdicts(pullRequest);
+    if (verdicts.some((review) => review.verdict === ReviewVerdict.REQUEST_CHANGES)) {
+      return `Branch "${branch.name}" is protected: a reviewer has requested changes on this pull request`;
+    }
+    const approvals = verdicts.filter((review) => review.verdict === ReviewVerdict.APPROVE).length;
+    if (approvals < required) {
+      return `Branch "${branch.name}" is protected: merging needs ${required} approval${required === 1 ? '' : 's'}, this pull request has ${approvals}`;
+    }
+    return null;
+  }
+
+  deletionError(branch: IBranch, role: CollaboratorRole, force: boolean): string | null {
+    const protection = branch.protection;
+    if (!protection) {
+      return null;
+    }
+    if (protection.ownerOnlyDeletion && role !== CollaboratorRole.OWNER) {
+      return `Branch "${branch.name}" is protected: only the notebook owner can delete it`;
+    }
+    if (force && !protection.allowForceOperations) {
+      return `Branch "${branch.name}" is protected: it cannot be force-deleted while it has unmerged commits`;
+    }
+    return null;
+  }
+}
@@ -0,0 +1,328 @@
+import http from 'http';
+import { WebSocketServer, WebSocket, RawData } from 'ws';
+import * as Y from 'yjs';
+import * as syncProtocol from 'y-protocols/sync';
+import * as awarenessProtocol from 'y-protocols/awareness';
+import * as encoding from 'lib0/encoding';
+import * as decoding from 'lib0/decoding';
+import Notebook, { CollaboratorRole } from '../models/Notebook';
+import { getNotebookRole } from '../middleware/permissions';
+import { verifyToken } from '../utils/jwt';
+import { GitService } from './gitService';
+import logger from '../utils/logger';
+
+// Message types of the y-websocket protocol spoken by the frontend provider
+const MESSAGE_SYNC = 0;
+const MESSAGE_AWARENESS = 1;
+
+const PING_INTERVAL = 30000;
+export const COLLAB_PATH = '/api/collab';
+
+interface Connection {
+  socket: WebSocket;
+  readOnly: boolean;
+  clientIds: Set<number>;
+}
+
+// One shared document per open file; lives only while someone is editing it
+class CollaborationRoom {
+  doc = new Y.Doc();
+  awareness = new awarenessProtocol.Awareness(this.doc);
+  connections = new Map<WebSocket, Connection>();
+  closed = false;
+
+  constructor(public name: string, content: string) {
+    // The server holds no editor state of its own
+    this.awareness.setLocalState(null);
+    this.doc.getText('content').insert(0, content);
+
+    this.doc.on('update', (update: Uint8Array) => {
+      const encoder = encoding.createEncoder();
+      encoding.writeVarUint(encoder, MESSAGE_SYNC);
+      syncProtocol.writeUpdate(encoder, update);
+      this.broadcast(encoding.toUint8Array(encoder));
+    });
+
+    this.awareness.on(
+      'update',
+      ({ added, updated, removed }: { added: number[]; updated: number[]; removed: number[] }, origin: unknown) => {
+        const connection = origin instanceof WebSocket ? this.connections.get(origin) : undefined;
+        if (connection) {
+          added.forEach((clientId) => connection.clientIds.add(clientId));
+          removed.forEach((clientId) => connection.clientIds.delete(clientId));
+        }
+
+        const changed = [...added, ...updated, ...removed];
+        const encoder = encoding.createEncoder();
+        encoding.writeVarUint(encoder, MESSAGE_AWARENESS);
+        encoding.writeVarUint8Array(encoder, awarenessProtocol.encodeAwarenessUpdate(this.awareness, changed));
+        this.broadcast(encoding.toUint8Array(encoder));
+      }
+    );
+  }
+
+  join(socket: WebSocket, readOnly: boolean): void {
+    this.connections.set(socket, { socket, readOnly, clientIds: new Set() });
+
+    // Start the sync handshake and tell the newcomer who is already here
+    const syncEncoder = encoding.createEncoder();
+    encoding.writeVarUint(syncEncoder, MESSAGE_SYNC);
+    syncProtocol.writeSyncStep1(syncEncoder, this.doc);
+    this.send(socket, encoding.toUint8Array(syncEncoder));
+
+    const states = this.awareness.getStates();
+    if (states.size > 0) {
+      const awarenessEncoder = encoding.createEncoder();
+      encoding.writeVarUint(awarenessEncoder, MESSAGE_AWARENESS);
+      encoding.writeVarUint8Array(
+        awarenessEncoder,
+        awarenessProtocol.encodeAwarenessUpdate(this.awareness, Array.from(states.keys()))
+      );
+      this.send(socket, encoding.toUint8Array(awarenessEncoder));
+    }
+  }
+
+  leave(socket: WebSocket): void {
+    const connection = this.connections.get(socket);
+    if (!connection) {
+      return;
+    }
+
+    this.connections.delete(socket);
+    awarenessProtocol.removeAwarenessStates(this.awareness, Array.from(connection.clientIds), null);
+  }
+
+  handleMessage(socket: WebSocket, message: Uint8Array): void {
+    const connection = this.connections.get(socket);
+    if (!connection) {
+      return;
+    }
+
+    const decoder = decoding.createDecoder(message);
+    const encoder = encoding.createEncoder();
+    const messageType = decoding.readVarUint(decoder);
+
+    switch (messageType) {
+      case MESSAGE_SYNC: {
+        encoding.writeVarUint(encoder, MESSAGE_SYNC);
+        if (connection.readOnly) {
+          // Viewers may catch up with the document but never change it
+          if (decoding.readVarUint(decoder) === syncProtocol.messageYjsSyncStep1) {
+            syncProtocol.readSyncStep1(decoder, encoder, this.doc);
+          }
+        } else {
+          syncProtocol.readSyncMessage(decoder, encoder, this.doc, socket);
+        }
+        if (encoding.length(encoder) > 1) {
+          this.send(socket, encoding.toUint8Array(encoder));
+        }
+        break;
+      }
+      case MESSAGE_AWARENESS:
+        awarenessProtocol.applyAwarenessUpdate(this.awareness, decoding.readVarUint8Array(decoder), socket);
+        break;
+      default:
+        logger.warn(`Unknown collaboration message type ${messageType} in ${this.name}`);
+    }
+  }
+
+  destroy(): void {
+    this.closed = true;
+    this.awareness.destroy();
+    this.doc.destroy();
+  }
+
+  private broadcast(message: Uint8Array): void {
+    this.connections.forEach((_connection, socket) => this.send(socket, message));
+  }
+
+  private send(socket: WebSocket, message: Uint8Array): void {
+    if (socket.readyState !== WebSocket.OPEN) {
+      this.leave(socket);
+      return;
+    }
+    socket.send(message, (error) => {
+      if (error) {
+        this.leave(socket);
+      }
+    });
+  }
+}
+
+export class CollaborationService {
+  private wss = new WebSocketServer({ noServer: true });
+  private rooms = new Map<string, Promise<CollaborationRoom>>();
+
+  attach(server: http.Server): void {
+    server.on('upgrade', (req, socket, head) => {
+      const url = new URL(req.url || '', 'http://localhost');
+      if (!url.pathname.startsWith(`${COLLAB_PATH}/`)) {
+        return;
+      }
+
+      // Until ws takes the socket over, a client resetting the connection must not crash the server
+      const onSocketError = (error: Error) => logger.warn('Collaboration upgrade socket failed:', error);
+      socket.on('error', onSocketError);
+
+      this.authorize(url)
+        .then((session) => {
+          if (!session) {
+            socket.write('HTTP/1.1 403 Forbidden\r\n\r\n');
+            socket.destroy();
+            return;
+          }
+
+          socket.off('error', onSocketError);
+          this.wss.handleUpgrade(req, socket, head, (ws) => {
+            // ws reports invalid frames as errors, which would be uncaught and end the process
+            ws.on('error', (error) => {
+              logger.warn(`Collaboration socket of ${session.roomName} failed:`, error);
+              this.rooms.get(session.roomName)?.then((room) => {
+                room.leave(ws);
+                this.release(session.roomName, room);
+              });
+            });
+            this.handleConnection(ws, session).catch((error) => {
+              logger.error('Collaboration connection failed:', error);
+              ws.close();
+            });
+          });
+        })
+        .catch((error) => {
+          logger.error('Collaboration upgrade failed:', error);
+          socket.write('HTTP/1.1 500 Internal Server Error\r\n\r\n');
+          socket.destroy();
+        });
+    });
+  }
+
+  // URLs look like /api/collab/<notebookId>?branch=<branch>&file=<path>&token=<jwt>
+  private async authorize(url: URL) {
+    const notebookId = decodeURIComponent(url.pathname.slice(COLLAB_PATH.length + 1));
+    const branch = url.searchParams.get('branch');
+    const filePath = url.searchParams.get('file');
+    const token = url.searchParams.get('token');
+
+    if (!branch || !filePath || !token || filePath.includes('..')) {
+      return null;
+    }
+
+    let userId: string;
+    try {
+      userId = verifyToken(token).userId;
+    } catch (error) {
+      return null;
+    }
+
+    const notebook = await Notebook.findById(notebookId).catch(() => null);
+    if (!notebook) {
+      return null;
+    }
+
+    const role = getNotebookRole(notebook, userId);
+    if (!role) {
+      return null;
+    }
+
+    return {
+      roomName: `${notebookId}/${branch}/${filePath}`,
+      repoPath: notebook.gitRepoPath,
+      branch,
+      filePath,
+      readOnly: role === CollaboratorRole.VIEWER,
+    };
+  }
+
+  private async handleConnection(
+    socket: WebSocket,
+    session: { roomName: string; repoPath: string; branch: string; filePath: string; readOnly: boolean }
+  ): Promise<void> {
+    socket.binaryType = 'arraybuffer';
+
+    // Buffer anything the client sends while the room is still loading
+    const pending: Uint8Array[] = [];
+    const buffer = (data: RawData) => pending.push(toUint8Array(data));
+    socket.on('message', buffer);
+
+    const room = await this.openRoom(session);
+
+    // The client gave up while the room was loading, so nobody may be left to close it
+    if (socket.readyState !== WebSocket.OPEN) {
+      this.release(session.roomName, room);
+      return;
+    }
+    room.join(socket, session.readOnly);
+
+    // A malformed frame only costs the client that sent it its connection
+    const receive = (message: Uint8Array) => {
+      try {
+        room.handleMessage(socket, message);
+      } catch (error) {
+        logger.warn(`Dropping collaboration client of ${session.roomName} after a malformed message:`, error);
+        socket.close(1003, 'Malformed message');
+      }
+    };
+
+    socket.off('message', buffer);
+    socket.on('message', (data: RawData) => receive(toUint8Array(data)));
+    pending.forEach(receive);
+
+    let alive = true;
+    socket.on('pong', () => {
+      alive = true;
+    });
+    const ping = setInterval(() => {
+      if (!alive) {
+        socket.terminate();
+        return;
+      }
+      alive = false;
+      socket.ping();
+    }, PING_INTERVAL);
+
+    socket.on('close', () => {
+      clearInterval(ping);
+      room.leave(socket);
+      this.release(session.roomName, room);
+    });
+  }
+
+  // Another connection may close a room while this one waits for it to load, in which case a fresh one is opened
+  private async openRoom(session: { roomName: string; repoPath: string; branch: string; filePath: string }): Promise<CollaborationRoom> {
+    const room = await this.getRoom(session.roomName, session.repoPath, session.branch, session.filePath);
+    return room.closed ? this.openRoom(session) : room;
+  }
+
+  private release(roomName: string, room: CollaborationRoom): void {
+    if (room.connections.size === 0 && !room.closed) {
+      this.rooms.delete(roomName);
+      room.destroy();
+    }
+  }
+
+  private getRoom(roomName: string, repoPath: string, branch: string, filePath: string): Promise<CollaborationRoom> {
+    let room = this.rooms.get(roomName);
+    if (!room) {
+      room = loadFileContent(repoPath, branch, filePath).then((content) => new CollaborationRoom(roomName, content));
+      this.rooms.set(roomName, room);
+      room.catch(() => this.rooms.delete(roomName));
+    }
+    return room;
+  }
+}
+
+// Seed a new room with what the editor would otherwise have loaded for this file
+const loadFileContent = async (repoPath: string, branch: string, filePath: string): Promise<string> => {
+  try {
+    return await new GitService(repoPath).readBranchFile(branch, filePath);
+  } catch (error) {
+    return '';
+  }
+};
+
+const toUint8Array = (data: RawData): Uint8Array => {
+  if (Array.isArray(data)) {
+    return new Uint8Array(Buffer.concat(data));
+  }
+  return new Uint8Array(data);
+};
@@ -0,0 +1,120 @@
+import mongoose from 'mongoose';
+import Activity from '../models/Activity';
+import Notebook from '../models/Notebook';
+import NotificationPreference, { DigestFrequency } from '../models/NotificationPreference';
+import User, { IUser } from '../models/User';
+import { MailService } from './mailService';
+import { DigestSection, digestEmail } from './emailTemplates';
+import logger from '../utils/logger';
+
+type ScheduledFrequency = DigestFrequency.DAILY | DigestFrequency.WEEKLY;
+
+const PERIODS: Record<ScheduledFrequency, number> = {
+  [DigestFrequency.DAILY]: 24 * 60 * 60 * 1000,
+  [DigestFrequency.WEEKLY]: 7 * 24 * 60 * 60 * 1000,
+};
+
+// Digests go out within this long of falling due
+const CHECK_INTERVAL = 60 * 60 * 1000;
+
+// A digest lists at most this many updates, oldest first
+const MAX_DIGEST_ENTRIES = 200;
+
+let timer: NodeJS.Timeout | null = null;
+
+export class DigestService {
+  start(): void {
+    if (timer) {
+      return;
+    }
+    const check = () => this.sendDueDigests().catch((error) => logger.error('Digest run failed:', error));
+    timer = setInterval(check, CHECK_INTERVAL);
+    timer.unref();
+    check();
+  }
+
+  // Send every digest whose period has ended, returning how many went out
+  async sendDueDigests(now = new Date()): Promise<number> {
+    if (!new MailService().isEnabled()) {
+      return 0;
+    }
+
+    let sent = 0;
+    for (const frequency of [DigestFrequency.DAILY, DigestFrequency.WEEKLY] as ScheduledFrequency[]) {
+      const dueBefore = new Date(now.getTime() - PERIODS[frequency]);
+      const due = await NotificationPreference.find({
+        digest: frequency,
+        $or: [{ lastDigestAt: { $lte: dueBefore } }, { lastDigestAt: null }],
+      });
+
+      for (const preference of due) {
+        // Claiming the period first keeps other server processes from sending the same digest
+        const claimed = await NotificationPreference.findOneAndUpdate(
+          { _id: preference._id, lastDigestAt: preference.lastDigestAt ?? null },
+          { lastDigestAt: now }
+        );
+        if (!claimed) {
+          continue;
+        }
+
+        try {
+          if (await this.sendDigest(preference.user, frequency, preference.lastDigestAt || dueBefore, now)) {
+            sent++;
+          }
+        } catch (error) {
+          logger.error(`Failed to send digest to user ${preference.user}:`, error);
+        }
+      }
+    }
+    return sent;
+  }
+
+  // Other people's activity on notebooks the user owns or collaborates on; nothing is sent for a quiet period
+  private async sendDigest(
+    userId: mongoose.Types.ObjectId,
+    frequency: ScheduledFrequency,
+    since: Date,
+    until: Date
+  ): Promise<boolean> {
+    const user = await User.findById(userId).select('email username name');
+    if (!user) {
+      return false;
+    }
+
+    const notebooks = await Notebook.find({ $or: [{ owner: userId }, { 'collaborators.user': userId }] })
+      .select('name')
+      .sort({ name: 1 });
+    if (notebooks.length === 0) {
+      return false;
+    }
+
+    const activities = await Activity.find({
+      notebook: { $in: notebooks.map((notebook) => notebook._id) },
+      user: { $ne: userId },
+      createdAt: { $gt: since, $lte: until },
+    })
+      .populate<{ user: IUser }>('user', 'username name')
+      .sort({ createdAt: 1 })
+      .limit(MAX_DIGEST_ENTRIES);
+    if (activities.length === 0) {
+      return false;
+    }
+
+    const sections: DigestSection[] = notebooks
+      .map((notebook) => ({
+        notebookId: String(notebook._id),
+        notebookName: notebook.name,
+        entries: activities
+          .filter((activity) => activity.notebook.toString() === String(notebook._id))
+          .map((activity) => ({
+            actor: activity.user?.name || activity.user?.username || 'Someone',
+            description: activity.description,
+            createdAt: activity.createdAt,
+          })),
+      }))
+      .filter((section) => section.entries.length > 0);
+
+    await new MailService().send({ to: user.email, ...digestEmail(user.name || user.username, frequency, sections) });
+    return true;
+  }
+}
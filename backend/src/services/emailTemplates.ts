@@ -0,0 +1,130 @@
+import { config } from '../config/config';
+import { CollaboratorRole } from '../models/Notebook';
+import { DigestFrequency } from '../models/NotificationPreference';
+
+export interface EmailContent {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+export interface DigestSection {
+  notebookId: string;
+  notebookName: string;
+  entries: Array<{ actor: string; description: string; createdAt: Date }>;
+}
+
+const escapeHtml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+// Notification links are app paths such as /notebook/:id/pulls
+const appLink = (path = '/'): string => new URL(path, config.appUrl).toString();
+
+const FOOTER_TEXT = 'You can choose which emails you get under Notification settings in the notification menu.';
+
+// Invitations can reach addresses with no account, and so no settings to point at
+const INVITATION_FOOTER_TEXT = "Someone invited this address to a notebook. If you weren't expecting it, you can ignore this email.";
+
+const layout = (heading: string, body: string, footer = FOOTER_TEXT): string => `<!DOCTYPE html>
+<html>
+<body style="margin:0;padding:24px;background:#f8fafc;font-family:-apple-system,BlinkMacSystemFont,'Segoe UI',sans-serif;color:#0f172a;">
+  <div style="max-width:560px;margin:0 auto;background:#ffffff;border:1px solid #e2e8f0;border-radius:12px;padding:24px;">
+    <h1 style="margin:0 0 16px;font-size:18px;">${escapeHtml(heading)}</h1>
+    ${body}
+  </div>
+  <p style="max-width:560px;margin:16px auto 0;font-size:12px;color:#64748b;">
+    ${escapeHtml(footer)} <a href="${appLink()}" style="color:#4f46e5;">Open NoteVerse</a>
+  </p>
+</body>
+</html>`;
+
+const button = (label: string, href: string): string =>
+  `<p style="margin:24px 0 0;"><a href="${escapeHtml(href)}" style="display:inline-block;padding:10px 16px;background:#4f46e5;color:#ffffff;text-decoration:none;border-radius:8px;font-size:14px;">${escapeHtml(label)}</a></p>`;
+
+export const notificationEmail = (
+  recipientName: string,
+  notification: { title: string; message: string; link?: string }
+): EmailContent => {
+  const link = appLink(notification.link);
+  return {
+    subject: `[NoteVerse] ${notification.title}`,
+    text: `Hi ${recipientName},\n\n${notification.message}\n\n${link}\n\n--\n${FOOTER_TEXT}\n`,
+    html: layout(
+      notification.title,
+      `<p style="margin:0 0 8px;font-size:14px;">Hi ${escapeHtml(recipientName)},</p>
+    <p style="margin:0;font-size:14px;line-height:1.5;">${escapeHtml(notification.message)}</p>
+    ${button('View in NoteVerse', link)}`
+    ),
+  };
+};
+
+const DIGEST_TITLES: Record<Exclude<DigestFrequency, DigestFrequency.OFF>, string> = {
+  [DigestFrequency.DAILY]: 'Your daily NoteVerse digest',
+  [DigestFrequency.WEEKLY]: 'Your weekly NoteVerse digest',
+};
+
+export const digestEmail = (
+  recipientName: string,
+  frequency: DigestFrequency.DAILY | DigestFrequency.WEEKLY,
+  sections: DigestSection[]
+): EmailContent => {
+  const title = DIGEST_TITLES[frequency];
+  const count = sections.reduce((total, section) => total + section.entries.length, 0);
+  const summary = `${count} update${count === 1 ? '' : 's'} across ${sections.length} notebook${sections.length === 1 ? '' : 's'}.`;
+
+  const text = sections
+    .map((section) =>
+      [
+        `${section.notebookName} (${appLink(`/notebook/${section.notebookId}`)})`,
+        ...section.entries.map((entry) => `  - ${entry.actor}: ${entry.description}`),
+      ].join('\n')
+    )
+    .join('\n\n');
+
+  const html = sections
+    .map(
+      (section) => `<h2 style="margin:24px 0 8px;font-size:15px;"><a href="${escapeHtml(appLink(`/notebook/${section.notebookId}`))}" style="color:#4f46e5;text-decoration:none;">${escapeHtml(section.notebookName)}</a></h2>
+    <ul style="margin:0;padding-left:20px;font-size:14px;line-height:1.6;">
+      ${section.entries
+        .map((entry) => `<li><strong>${escapeHtml(entry.actor)}</strong> ${escapeHtml(entry.description)}</li>`)
+        .join('\n      ')}
+    </ul>`
+    )
+    .join('\n    ');
+
+  return {
+    subject: `[NoteVerse] ${title}`,
+    text: `Hi ${recipientName},\n\n${summary}\n\n${text}\n\n--\n${FOOTER_TEXT}\n`,
+    html: layout(
+      title,
+      `<p style="margin:0;font-size:14px;">Hi ${escapeHtml(recipientName)}, ${escapeHtml(summary)}</p>
+    ${html}`
+    ),
+  };
+};
+
+export const invitationEmail = (
+  inviterName: string,
+  notebookName: string,
+  role: CollaboratorRole,
+  token: string
+): EmailContent => {
+  const link = appLink(`/invite/${token}`);
+  const message = `${inviterName} invited you to collaborate on "${notebookName}" as ${role === CollaboratorRole.EDITOR ? 'an editor' : 'a viewer'}.`;
+  return {
+    subject: `[NoteVerse] ${inviterName} invited you to "${notebookName}"`,
+    text: `Hi,\n\n${message} Sign in or create an account, then use this link to accept or decline:\n\n${link}\n\n--\n${INVITATION_FOOTER_TEXT}\n`,
+    html: layout(
+      'Notebook Invitation',
+      `<p style="margin:0 0 8px;font-size:14px;">Hi,</p>
+    <p style="margin:0;font-size:14px;line-height:1.5;">${escapeHtml(message)} Sign in or create an account, then use the button below to accept or decline.</p>
+    ${button('View invitation', link)}`,
+      INVITATION_FOOTER_TEXT
+    ),
+  };
+};
@@ -0,0 +1,75 @@
+import mongoose from 'mongoose';
+import { IInvitation } from '../models/Invitation';
+import { CollaboratorRole } from '../models/Notebook';
+import { IPullRequest } from '../models/PullRequest';
+import { IReview } from '../models/Review';
+import logger from '../utils/logger';
+
+type Ref = mongoose.Types.ObjectId | string;
+
+// Who did something, and in which notebook
+interface NotebookEvent {
+  notebookId: Ref;
+  userId: Ref;
+}
+
+// Everything that happens to a notebook, as controllers report it. The activity feed and
+// notifications are written by subscribers, so each event is recorded the same way wherever it comes from.
+export interface DomainEvents {
+  'notebook.created': NotebookEvent & { imported: boolean };
+  'notebook.forked': NotebookEvent & { forkId: Ref };
+  'notebook.starred': NotebookEvent;
+  'commit.created': NotebookEvent & { branch: string; commitHash: string; message: string };
+  // A new commit that replays an earlier one: a revert, a cherry-pick or a restored file
+  'commit.replayed': NotebookEvent & {
+    operation: 'revert' | 'cherry_pick' | 'restore';
+    branch: string;
+    commitHash: string;
+    message: string;
+    sourceCommitHash: string;
+    path?: string;
+  };
+  'branch.created': NotebookEvent & { branch: string; fromBranch: string };
+  'branch.deleted': NotebookEvent & { branch: string; forced: boolean };
+  'branch.merged': NotebookEvent & { sourceBranch: string; targetBranch: string; commitHash: string; conflicts: string[] };
+  'file.uploaded': NotebookEvent & { files: string[] };
+  'collaborator.invited': NotebookEvent & { invitation: IInvitation };
+  // The user joined, by accepting an invitation
+  'collaborator.added': NotebookEvent & { collaboratorId: Ref; role: CollaboratorRole };
+  'collaborator.removed': NotebookEvent & { collaboratorId: Ref };
+  'collaborator.roleChanged': NotebookEvent & { collaboratorId: Ref; role: CollaboratorRole; previousRole: CollaboratorRole };
+  'ownership.transferRequested': NotebookEvent & { toUserId: Ref };
+  // Published by the new owner once they accept; the previous owner stays on as an editor
+  'ownership.transferred': NotebookEvent & { previousOwnerId: Ref };
+  // Comments on the notebook itself, or on a pull request when one is given
+  'comment.created': NotebookEvent & { commentId: Ref; parentAuthorId?: Ref; pullRequest?: IPullRequest };
+  'pullRequest.opened': NotebookEvent & { pullRequest: IPullRequest; sourceLabel: string; targetBranch: string };
+  'pullRequest.merged': NotebookEvent & { pullRequest: IPullRequest; sourceBranch: string; targetBranch: string; commitHash: string };
+  'pullRequest.reviewed': NotebookEvent & { pullRequest: IPullRequest; review: IReview };
+  'tag.created': NotebookEvent & { tag: string; commitHash: string };
+  'release.published': NotebookEvent & { releaseId: Ref; title: string; tag: string; commitHash: string };
+}
+
+export type EventType = keyof DomainEvents;
+
+type Handler<K extends EventType> = (event: DomainEvents[K]) => Promise<void>;
+
+// Subscribers for the whole process, registered once at startup
+const handlers: { [K in EventType]?: Array<Handler<K>> } = {};
+
+export class EventBus {
+  subscribe<K extends EventType>(type: K, handler: Handler<K>): void {
+    const list: Array<Handler<K>> = handlers[type] || [];
+    list.push(handler);
+    handlers[type] = list as (typeof handlers)[K];
+  }
+
+  // Resolves once every subscriber has run. A subscriber failing is logged, never passed on to the publisher,
+  // since the change the event describes has already happened.
+  async publish<K extends EventType>(type: K, event: DomainEvents[K]): Promise<void> {
+    const list: Array<Handler<K>> = handlers[type] || [];
+    await Promise.all(
+      list.map((handler) => handler(event).catch((error) => logger.error(`Failed to handle ${type} event:`, error)))
+    );
+  }
+}
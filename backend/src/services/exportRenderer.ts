@@ -0,0 +1,307 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import MarkdownIt from 'markdown-it';
+import markdownItKatex from '@vscode/markdown-it-katex';
+import hljs from 'highlight.js';
+import { GitService } from './gitService';
+import { ExportFormat } from '../models/ExportJob';
+
+const MARKDOWN_FILE = /\.(md|markdown)$/i;
+const INDEX_FILE = /^(readme|index)\.(md|markdown)$/i;
+const EXTERNAL_URL = /^([a-z][\w+.-]*:|\/\/)/i;
+const UPLOAD_URL = /^(?:https?:\/\/[^/]+)?(?:\/api\/notebooks\/[^/]+)?\/?uploads\/([^/]+)$/;
+
+const IMAGE_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.svg': 'image/svg+xml',
+};
+
+export interface BookChapter {
+  path: string;
+  slug: string;
+  title: string;
+  html: string;
+}
+
+export interface BookAsset {
+  // Relative to the book's root, e.g. assets/3f2a9c1b0d4e-diagram.png
+  name: string;
+  mediaType: string;
+  data: Buffer;
+}
+
+export interface Book {
+  identifier: string;
+  title: string;
+  author: string;
+  chapters: BookChapter[];
+  assets: BookAsset[];
+}
+
+export interface BookSource {
+  gitService: GitService;
+  commitHash: string;
+  uploadsPath: string;
+}
+
+export interface BookDetails {
+  title: string;
+  author: string;
+  // Called with the share of chapters rendered so far, 0-1
+  onProgress?: (done: number) => Promise<void> | void;
+}
+
+const naturalCompare = new Intl.Collator(undefined, { numeric: true, sensitivity: 'base' }).compare;
+
+const safeDecode = (value: string): string => {
+  try {
+    return decodeURI(value);
+  } catch {
+    return value;
+  }
+};
+
+// README or index comes first in each folder, then the folder's other files, then its subfolders; "2-" sorts before "10-"
+const defaultOrder = (paths: string[]): string[] =>
+  [...paths].sort((a, b) => {
+    const aParts = a.split('/');
+    const bParts = b.split('/');
+    let i = 0;
+    while (aParts[i] === bParts[i]) {
+      i++;
+    }
+
+    const aFile = i === aParts.length - 1;
+    const bFile = i === bParts.length - 1;
+    if (aFile !== bFile) {
+      return aFile ? -1 : 1;
+    }
+    if (aFile && INDEX_FILE.test(aParts[i]) !== INDEX_FILE.test(bParts[i])) {
+      return INDEX_FILE.test(aParts[i]) ? -1 : 1;
+    }
+    return naturalCompare(aParts[i], bParts[i]) || (aParts[i] < bParts[i] ? -1 : 1);
+  });
+
+// A root SUMMARY.md (the GitBook convention) sets the order with its links; files it doesn't link follow in the default order
+export const chapterOrder = (paths: string[], summary?: string): string[] => {
+  const sorted = defaultOrder(paths);
+  if (summary === undefined) {
+    return sorted;
+  }
+
+  const available = new Set(sorted);
+  const listed = new Set<string>();
+  for (const match of summary.matchAll(/\]\(\s*<?([^)\s>]+)/g)) {
+    const target = path.posix.normalize(safeDecode(match[1].split('#')[0])).replace(/^(\.\/|\/)/, '');
+    if (available.has(target)) {
+      listed.add(target);
+    }
+  }
+  return [...listed, ...sorted.filter((p) => !listed.has(p))];
+};
+
+// Same ids as the Reader gives headings, so links written against it keep working
+const headingAnchor = (text: string): string => text.toLowerCase().replace(/[^\w]+/g, '-');
+
+// Where a link to a chapter, or a heading in it, points in each format; heading ids carry the chapter slug so they stay unique in a PDF
+const chapterHref = (format: ExportFormat, slug: string, anchor?: string): string => {
+  const fragment = anchor ? `#${slug}-${anchor}` : '';
+  switch (format) {
+    case ExportFormat.PDF:
+      return fragment || `#${slug}`;
+    case ExportFormat.EPUB:
+      return `${slug}.xhtml${fragment}`;
+    default:
+      return `${slug}.html${fragment}`;
+  }
+};
+
+const inlineText = (token?: MarkdownIt.Token): string =>
+  (token?.children || [])
+    .filter((child) => child.type === 'text' || child.type === 'code_inline')
+    .map((child) => child.content)
+    .join('')
+    .trim();
+
+const createMarkdown = (format: ExportFormat): MarkdownIt => {
+  // Raw HTML in notes is kept for the HTML site only: EPUB readers reject anything that isn't well-formed XHTML,
+  // and the PDF is printed on the server, where an <iframe> or <object> could pull in server files
+  const md: MarkdownIt = new MarkdownIt({
+    html: format === ExportFormat.HTML,
+    xhtmlOut: true,
+    linkify: true,
+    highlight: (code, language) => {
+      const highlighted =
+        language && hljs.getLanguage(language)
+          ? hljs.highlight(code, { language, ignoreIllegals: true }).value
+          : md.utils.escapeHtml(code);
+      return `<pre><code class="hljs${language ? ` language-${md.utils.escapeHtml(language)}` : ''}">${highlighted}</code></pre>`;
+    },
+  });
+  return md.use(markdownItKatex, { throwOnError: false });
+};
+
+// Renders every Markdown file of a commit into chapters, pulling in the images they show
+class BookRenderer {
+  private md: MarkdownIt;
+  private blobs = new Map<string, string>();
+  private slugs = new Map<string, string>();
+  private assets = new Map<string, BookAsset | null>();
+
+  constructor(private source: BookSource, private format: ExportFormat) {
+    this.md = createMarkdown(format);
+  }
+
+  async render(details: BookDetails): Promise<Book> {
+    const { gitService, commitHash } = this.source;
+    for (const entry of await gitService.listBlobs(commitHash)) {
+      this.blobs.set(entry.path, entry.blob!);
+    }
+
+    const summaryBlob = this.blobs.get('SUMMARY.md');
+    const summary = summaryBlob ? await gitService.readBlob(summaryBlob) : undefined;
+    const paths = chapterOrder(
+      [...this.blobs.keys()].filter((p) => MARKDOWN_FILE.test(p) && p !== 'SUMMARY.md'),
+      summary
+    );
+    if (paths.length === 0) {
+      throw new Error('There are no Markdown files to export at this commit');
+    }
+    paths.forEach((p, i) => this.slugs.set(p, `chapter-${i + 1}`));
+
+    const chapters: BookChapter[] = [];
+    for (const chapterPath of paths) {
+      chapters.push(await this.renderChapter(chapterPath));
+      await details.onProgress?.(chapters.length / paths.length);
+    }
+
+    return {
+      identifier: `urn:git:${commitHash}`,
+      title: details.title,
+      author: details.author,
+      chapters,
+      // The same image may be referenced by several URLs
+      assets: [...new Map([...this.assets.values()].flatMap((asset) => (asset ? [[asset.name, asset]] : []))).values()],
+    };
+  }
+
+  private async renderChapter(chapterPath: string): Promise<BookChapter> {
+    const slug = this.slugs.get(chapterPath)!;
+    const content = await this.source.gitService.readBlob(this.blobs.get(chapterPath)!);
+    const tokens = this.md.parse(content, {});
+
+    let title: string | undefined;
+    const usedAnchors = new Map<string, number>();
+    for (let i = 0; i < tokens.length; i++) {
+      const token = tokens[i];
+      if (token.type === 'heading_open') {
+        const text = inlineText(tokens[i + 1]);
+        const base = headingAnchor(text) || 'section';
+        const count = usedAnchors.get(base) || 0;
+        usedAnchors.set(base, count + 1);
+        token.attrSet('id', `${slug}-${count ? `${base}-${count}` : base}`);
+        if (token.tag === 'h1' && !title) {
+          title = text;
+        }
+      } else if (token.type === 'html_block') {
+        token.content = await this.rewriteHtmlImages(token.content, chapterPath);
+      } else if (token.type === 'inline') {
+        for (const child of token.children || []) {
+          await this.rewriteToken(child, chapterPath);
+        }
+      }
+    }
+
+    return {
+      path: chapterPath,
+      slug,
+      title: title || path.posix.basename(chapterPath).replace(MARKDOWN_FILE, ''),
+      html: this.md.renderer.render(tokens, this.md.options, {}),
+    };
+  }
+
+  private async rewriteToken(token: MarkdownIt.Token, chapterPath: string): Promise<void> {
+    if (token.type === 'image') {
+      const asset = await this.loadImage(token.attrGet('src') || '', chapterPath);
+      if (asset) {
+        token.attrSet('src', asset.name);
+      }
+    } else if (token.type === 'link_open') {
+      const href = this.linkTarget(token.attrGet('href') || '', chapterPath);
+      if (href) {
+        token.attrSet('href', href);
+      }
+    } else if (token.type === 'html_inline') {
+      token.content = await this.rewriteHtmlImages(token.content, chapterPath);
+    }
+  }
+
+  // Links to another note, or to a heading in one, point at its chapter; anything else is left alone
+  private linkTarget(href: string, chapterPath: string): string | null {
+    if (EXTERNAL_URL.test(href)) {
+      return null;
+    }
+
+    const [target, anchor] = href.split('#');
+    if (!target) {
+      return anchor ? chapterHref(this.format, this.slugs.get(chapterPath)!, anchor) : null;
+    }
+    const slug = this.slugs.get(this.repoPath(safeDecode(target), chapterPath));
+    return slug ? chapterHref(this.format, slug, anchor) : null;
+  }
+
+  private repoPath(target: string, chapterPath: string): string {
+    return target.startsWith('/')
+      ? path.posix.normalize(target).slice(1)
+      : path.posix.join(path.posix.dirname(chapterPath), target);
+  }
+
+  private async rewriteHtmlImages(html: string, chapterPath: string): Promise<string> {
+    const pattern = /(<img\b[^>]*?\bsrc\s*=\s*)(["'])(.*?)\2/gi;
+    const sources = new Map<string, string>();
+    for (const match of html.matchAll(pattern)) {
+      const asset = await this.loadImage(match[3], chapterPath);
+      if (asset) {
+        sources.set(match[3], asset.name);
+      }
+    }
+    return html.replace(pattern, (match, prefix, quote, src) =>
+      sources.has(src) ? `${prefix}${quote}${sources.get(src)}${quote}` : match
+    );
+  }
+
+  // Images committed to the notebook or uploaded to it are copied into the book; others keep their URL
+  private async loadImage(src: string, chapterPath: string): Promise<BookAsset | null> {
+    const filePath = safeDecode(src.split(/[?#]/)[0]);
+    const mediaType = IMAGE_TYPES[path.posix.extname(filePath).toLowerCase()];
+    const upload = filePath.match(UPLOAD_URL);
+    if (!mediaType || (EXTERNAL_URL.test(filePath) && !upload)) {
+      return null;
+    }
+    if (this.assets.has(src)) {
+      return this.assets.get(src)!;
+    }
+
+    let data: Buffer | null = null;
+    const blob = EXTERNAL_URL.test(filePath) ? undefined : this.blobs.get(this.repoPath(filePath, chapterPath));
+    if (blob) {
+      data = await this.source.gitService.readBinaryBlob(blob);
+    } else if (upload) {
+      data = await fs.readFile(path.join(this.source.uploadsPath, path.basename(upload[1]))).catch(() => null);
+    }
+
+    const hash = data && crypto.createHash('sha1').update(data).digest('hex').substring(0, 12);
+    const name = `assets/${hash}-${path.posix.basename(filePath).replace(/[^\w.-]+/g, '-')}`;
+    const asset = data ? { name, mediaType, data } : null;
+    this.assets.set(src, asset);
+    return asset;
+  }
+}
+
+export const renderBook = (source: BookSource, format: ExportFormat, details: BookDetails): Promise<Book> =>
+  new BookRenderer(source, format).render(details);
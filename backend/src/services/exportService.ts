@@ -0,0 +1,149 @@
+import path from 'path';
+import fs from 'fs/promises';
+import ExportJob, { ExportFormat, ExportStatus, IExportJob } from '../models/ExportJob';
+import Notebook, { INotebook } from '../models/Notebook';
+import User, { IUser } from '../models/User';
+import { GitService } from './gitService';
+import { renderBook } from './exportRenderer';
+import { writeEpub, writeHtmlSite, writePdf } from './exportWriters';
+import { uploadDirectory } from '../utils/uploads';
+import { archiveName } from '../utils/archive';
+import { config } from '../config/config';
+
+const FILE_EXTENSIONS: Record<ExportFormat, string> = {
+  [ExportFormat.PDF]: 'pdf',
+  [ExportFormat.EPUB]: 'epub',
+  [ExportFormat.HTML]: 'zip',
+};
+
+// Jobs run one at a time per process; `requested` makes the running worker look again for jobs queued while it was busy
+let running = false;
+let requested = false;
+
+const jobDirectory = (jobId: string): string => path.resolve(config.exportPath, jobId);
+
+export class ExportService {
+  isAvailable(format: ExportFormat): boolean {
+    return format !== ExportFormat.PDF || Boolean(config.chromePath);
+  }
+
+  async createJob(notebook: INotebook, user: IUser, format: ExportFormat, ref: string, commitHash: string): Promise<IExportJob> {
+    const job = await ExportJob.create({
+      notebook: notebook._id,
+      requestedBy: user._id,
+      format,
+      ref,
+      commitHash,
+    });
+    this.processQueue();
+    return job;
+  }
+
+  processQueue(): void {
+    requested = true;
+    if (running) {
+      return;
+    }
+    running = true;
+    this.drainQueue()
+      .catch((error) => console.error('Export queue stopped:', error))
+      .finally(() => {
+        running = false;
+      });
+  }
+
+  // Jobs a restart cut short start over
+  async recoverInterruptedJobs(): Promise<void> {
+    await ExportJob.updateMany({ status: ExportStatus.RUNNING }, { status: ExportStatus.QUEUED, progress: 0 });
+    this.processQueue();
+  }
+
+  async removeNotebook(notebookId: string): Promise<void> {
+    const jobs = await ExportJob.find({ notebook: notebookId }).select('_id');
+    await Promise.all(jobs.map((job) => fs.rm(jobDirectory(String(job._id)), { recursive: true, force: true })));
+    await ExportJob.deleteMany({ notebook: notebookId });
+  }
+
+  private async drainQueue(): Promise<void> {
+    while (requested) {
+      requested = false;
+      await this.purgeExpired();
+
+      // Claiming a job atomically keeps other server processes from running it too
+      let job: IExportJob | null;
+      while (
+        (job = await ExportJob.findOneAndUpdate(
+          { status: ExportStatus.QUEUED },
+          { status: ExportStatus.RUNNING, progress: 0, startedAt: new Date() },
+          { sort: { createdAt: 1 }, new: true }
+        ))
+      ) {
+        await this.runJob(job);
+      }
+    }
+  }
+
+  private async runJob(job: IExportJob): Promise<void> {
+    const directory = jobDirectory(String(job._id));
+    try {
+      const notebook = await Notebook.findById(job.notebook);
+      if (!notebook) {
+        throw new Error('The notebook no longer exists');
+      }
+      const owner = await User.findById(notebook.owner).select('name username');
+
+      const gitService = new GitService(notebook.gitRepoPath);
+      const book = await renderBook(
+        { gitService, commitHash: job.commitHash, uploadsPath: uploadDirectory(notebook.gitRepoPath) },
+        job.format,
+        {
+          title: notebook.name,
+          author: owner?.name || owner?.username || '',
+          // Rendering is most of the work; writing the file takes the rest
+          onProgress: async (done) => {
+            await ExportJob.updateOne({ _id: job._id }, { progress: Math.floor(done * 90) });
+          },
+        }
+      );
+
+      const name = archiveName(notebook.name, job.commitHash.startsWith(job.ref) ? job.commitHash.substring(0, 7) : job.ref);
+      const fileName = `${name}.${FILE_EXTENSIONS[job.format]}`;
+      const filePath = path.join(directory, fileName);
+      await fs.mkdir(directory, { recursive: true });
+      switch (job.format) {
+        case ExportFormat.PDF:
+          await writePdf(book, filePath, config.chromePath);
+          break;
+        case ExportFormat.EPUB:
+          await writeEpub(book, filePath);
+          break;
+        default:
+          await writeHtmlSite(book, filePath, name);
+      }
+
+      const { size } = await fs.stat(filePath);
+      await ExportJob.updateOne(
+        { _id: job._id },
+        { status: ExportStatus.COMPLETED, progress: 100, fileName, filePath, fileSize: size, completedAt: new Date() }
+      );
+    } catch (error: any) {
+      console.error(`Export ${job._id} failed:`, error);
+      await fs.rm(directory, { recursive: true, force: true });
+      await ExportJob.updateOne(
+        { _id: job._id },
+        { status: ExportStatus.FAILED, error: error.message, completedAt: new Date() }
+      );
+    }
+  }
+
+  // Finished exports are only kept for a while
+  private async purgeExpired(): Promise<void> {
+    const cutoff = new Date(Date.now() - config.exportRetentionDays * 24 * 60 * 60 * 1000);
+    const expired = await ExportJob.find({
+      status: { $in: [ExportStatus.COMPLETED, ExportStatus.FAILED] },
+      completedAt: { $lt: cutoff },
+    }).select('_id');
+    await Promise.all(expired.map((job) => fs.rm(jobDirectory(String(job._id)), { recursive: true, force: true })));
+    await ExportJob.deleteMany({ _id: { $in: expired.map((job) => job._id) } });
+  }
+}
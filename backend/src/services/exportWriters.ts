@@ -0,0 +1,227 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { pathToFileURL } from 'url';
+import AdmZip from 'adm-zip';
+import puppeteer from 'puppeteer-core';
+import { Book } from './exportRenderer';
+
+const BOOK_CSS = `
+body { font-family: Georgia, 'Times New Roman', serif; line-height: 1.6; color: #1f2933; max-width: 46em; margin: 0 auto; padding: 2em 1.5em; }
+h1, h2, h3, h4, h5, h6 { font-family: 'Helvetica Neue', Arial, sans-serif; line-height: 1.25; }
+a { color: #2563eb; }
+img { max-width: 100%; }
+pre { background: #f6f8fa; border-radius: 6px; padding: 1em; overflow-x: auto; font-size: 0.875em; }
+pre code.hljs { padding: 0; background: none; }
+code { font-family: Menlo, Consolas, monospace; }
+table { border-collapse: collapse; margin: 1em 0; }
+th, td { border: 1px solid #d0d7de; padding: 0.4em 0.8em; }
+blockquote { margin: 1em 0; padding-left: 1em; border-left: 4px solid #d0d7de; color: #57606a; }
+.katex-display { overflow-x: auto; overflow-y: hidden; }
+nav.pager { display: flex; justify-content: space-between; margin-top: 3em; padding-top: 1em; border-top: 1px solid #d0d7de; font-family: 'Helvetica Neue', Arial, sans-serif; }
+.title-page { text-align: center; padding-top: 30vh; }
+@media print {
+  body { max-width: none; padding: 0; }
+  .title-page, .contents, .chapter { break-after: page; }
+  pre, img, table { break-inside: avoid; }
+}
+`;
+
+const katexDirectory = (): string => path.dirname(require.resolve('katex/dist/katex.min.css'));
+
+const escapeXml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+// Highlighting and math styles plus our own, with KaTeX fonts reduced to WOFF2 so an EPUB can list every font it carries
+const loadStylesheet = async (): Promise<{ css: string; fonts: Array<{ name: string; data: Buffer }> }> => {
+  const katexCss = (await fs.readFile(path.join(katexDirectory(), 'katex.min.css'), 'utf8')).replace(
+    /,url\(fonts\/[^)]+\.(woff|ttf)\) format\("(woff|truetype)"\)/g,
+    ''
+  );
+  const highlightCss = await fs.readFile(require.resolve('highlight.js/styles/github.css'), 'utf8');
+
+  const fontsDirectory = path.join(katexDirectory(), 'fonts');
+  const fonts = [];
+  for (const file of (await fs.readdir(fontsDirectory)).filter((f) => f.endsWith('.woff2'))) {
+    fonts.push({ name: `fonts/${file}`, data: await fs.readFile(path.join(fontsDirectory, file)) });
+  }
+  return { css: `${katexCss}\n${highlightCss}\n${BOOK_CSS}`, fonts };
+};
+
+const page = (title: string, body: string, xhtml: boolean): string =>
+  [
+    xhtml ? '<?xml version="1.0" encoding="UTF-8"?>\n<!DOCTYPE html>' : '<!DOCTYPE html>',
+    xhtml
+      ? '<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" lang="en" xml:lang="en">'
+      : '<html lang="en">',
+    `<head><meta charset="utf-8" /><title>${escapeXml(title)}</title><link rel="stylesheet" href="book.css" /></head>`,
+    `<body>\n${body}\n</body>`,
+    '</html>',
+  ].join('\n');
+
+const contents = (book: Book, href: (slug: string) => string): string =>
+  `<ol>\n${book.chapters
+    .map((chapter) => `<li><a href="${href(chapter.slug)}">${escapeXml(chapter.title)}</a></li>`)
+    .join('\n')}\n</ol>`;
+
+// A folder of linked pages that opens from index.html, zipped
+export const writeHtmlSite = async (book: Book, outputPath: string, folder: string): Promise<void> => {
+  const zip = new AdmZip();
+  const add = (name: string, data: string | Buffer) => zip.addFile(`${folder}/${name}`, Buffer.from(data));
+  const { css, fonts } = await loadStylesheet();
+
+  add(
+    'index.html',
+    page(book.title, `<h1>${escapeXml(book.title)}</h1>\n<p>${escapeXml(book.author)}</p>\n${contents(book, (slug) => `${slug}.html`)}`, false)
+  );
+  book.chapters.forEach((chapter, i) => {
+    const previous = book.chapters[i - 1];
+    const next = book.chapters[i + 1];
+    const pager = [
+      previous ? `<a href="${previous.slug}.html">&larr; ${escapeXml(previous.title)}</a>` : '<span></span>',
+      '<a href="index.html">Contents</a>',
+      next ? `<a href="${next.slug}.html">${escapeXml(next.title)} &rarr;</a>` : '<span></span>',
+    ];
+    add(`${chapter.slug}.html`, page(chapter.title, `${chapter.html}\n<nav class="pager">${pager.join('')}</nav>`, false));
+  });
+  add('book.css', css);
+  for (const file of [...fonts, ...book.assets]) {
+    add(file.name, file.data);
+  }
+
+  await zip.writeZipPromise(outputPath);
+};
+
+// EPUB 3: the uncompressed mimetype entry must come first, then the container pointing at the package document
+export const writeEpub = async (book: Book, outputPath: string): Promise<void> => {
+  const zip = new AdmZip(undefined, { noSort: true });
+  zip.addFile('mimetype', Buffer.from('application/epub+zip'));
+  zip.getEntry('mimetype')!.header.method = 0;
+  zip.addFile(
+    'META-INF/container.xml',
+    Buffer.from(
+      '<?xml version="1.0" encoding="UTF-8"?>\n' +
+        '<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">\n' +
+        '<rootfiles><rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/></rootfiles>\n' +
+        '</container>'
+    )
+  );
+
+  const { css, fonts } = await loadStylesheet();
+  const add = (name: string, data: string | Buffer) => zip.addFile(`OEBPS/${name}`, Buffer.from(data));
+  const manifest = [
+    '<item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>',
+    '<item id="css" href="book.css" media-type="text/css"/>',
+  ];
+
+  add(
+    'nav.xhtml',
+    page(
+      book.title,
+      `<nav epub:type="toc" id="toc">\n<h1>Contents</h1>\n${contents(book, (slug) => `${slug}.xhtml`)}\n</nav>`,
+      true
+    )
+  );
+  add('book.css', css);
+  fonts.forEach((font, i) => {
+    add(font.name, font.data);
+    manifest.push(`<item id="font-${i + 1}" href="${font.name}" media-type="font/woff2"/>`);
+  });
+  book.assets.forEach((asset, i) => {
+    add(asset.name, asset.data);
+    manifest.push(`<item id="asset-${i + 1}" href="${escapeXml(asset.name)}" media-type="${asset.mediaType}"/>`);
+  });
+  for (const chapter of book.chapters) {
+    add(`${chapter.slug}.xhtml`, page(chapter.title, chapter.html, true));
+    const properties = [chapter.html.includes('<math') && 'mathml', chapter.html.includes('<svg') && 'svg'].filter((p) => p);
+    manifest.push(
+      `<item id="${chapter.slug}" href="${chapter.slug}.xhtml" media-type="application/xhtml+xml"${
+        properties.length ? ` properties="${properties.join(' ')}"` : ''
+      }/>`
+    );
+  }
+
+  add(
+    'content.opf',
+    [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id">',
+      '<metadata xmlns:dc="http://purl.org/dc/elements/1.1/">',
+      `<dc:identifier id="book-id">${escapeXml(book.identifier)}</dc:identifier>`,
+      `<dc:title>${escapeXml(book.title)}</dc:title>`,
+      `<dc:creator>${escapeXml(book.author)}</dc:creator>`,
+      '<dc:language>en</dc:language>',
+      `<meta property="dcterms:modified">${new Date().toISOString().replace(/\.\d+Z$/, 'Z')}</meta>`,
+      '</metadata>',
+      `<manifest>\n${manifest.join('\n')}\n</manifest>`,
+      `<spine>\n${book.chapters.map((chapter) => `<itemref idref="${chapter.slug}"/>`).join('\n')}\n</spine>`,
+      '</package>',
+    ].join('\n')
+  );
+
+  await zip.writeZipPromise(outputPath);
+};
+
+// One long page with a title page and contents, printed to A4 by headless Chrome
+export const writePdf = async (book: Book, outputPath: string, chromePath: string): Promise<void> => {
+  const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'notebook-pdf-'));
+  try {
+    const { css, fonts } = await loadStylesheet();
+    const allowed = new Set<string>();
+    for (const file of [{ name: 'book.css', data: Buffer.from(css) }, ...fonts, ...book.assets]) {
+      const filePath = path.join(directory, file.name);
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.writeFile(filePath, file.data);
+      allowed.add(pathToFileURL(filePath).href);
+    }
+
+    const body = [
+      `<section class="title-page"><h1>${escapeXml(book.title)}</h1><p>${escapeXml(book.author)}</p></section>`,
+      `<section class="contents"><h1>Contents</h1>\n${contents(book, (slug) => `#${slug}`)}</section>`,
+      ...book.chapters.map((chapter) => `<section class="chapter" id="${chapter.slug}">\n${chapter.html}\n</section>`),
+    ];
+    const bookFile = path.join(directory, 'book.html');
+    await fs.writeFile(bookFile, page(book.title, body.join('\n'), false));
+    allowed.add(pathToFileURL(bookFile).href);
+
+    const browser = await puppeteer.launch({
+      executablePath: chromePath,
+      args: ['--no-sandbox', '--disable-dev-shm-usage'],
+    });
+    try {
+      const browserPage = await browser.newPage();
+      // The page may load the files written above and nothing else, e.g. no other file or internal URL an image points at
+      await browserPage.setJavaScriptEnabled(false);
+      await browserPage.setRequestInterception(true);
+      browserPage.on('request', (request) => {
+        const url = request.url().split(/[?#]/)[0];
+        if (allowed.has(url) || url.startsWith('data:')) {
+          request.continue();
+        } else {
+          request.abort('blockedbyclient');
+        }
+      });
+      await browserPage.goto(pathToFileURL(bookFile).href, { waitUntil: 'load', timeout: 120000 });
+      await browserPage.pdf({
+        path: outputPath,
+        format: 'A4',
+        printBackground: true,
+        margin: { top: '20mm', bottom: '20mm', left: '18mm', right: '18mm' },
+        displayHeaderFooter: true,
+        headerTemplate: '<span></span>',
+        footerTemplate:
+          '<div style="width: 100%; font-size: 9px; text-align: center; color: #57606a;"><span class="pageNumber"></span></div>',
+        timeout: 300000,
+      });
+    } finally {
+      await browser.close();
+    }
+  } finally {
+    await fs.rm(directory, { recursive: true, force: true });
+  }
+};
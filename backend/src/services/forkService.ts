@@ -0,0 +1,112 @@
+import mongoose from 'mongoose';
+import Notebook, { INotebook } from '../models/Notebook';
+import Branch from '../models/Branch';
+import Commit from '../models/Commit';
+import Tag from '../models/Tag';
+import Release from '../models/Release';
+import { GitService } from './gitService';
+import { SearchService } from './searchService';
+import { TagService } from './tagService';
+
+export class ForkService {
+  // Create a private copy of a notebook for userId, with every branch, tag and commit of the original
+  async forkNotebook(original: INotebook, userId: string): Promise<INotebook> {
+    const forkedNotebook = await Notebook.create({
+      name: `${original.name} (Fork)`,
+      description: original.description,
+      courseName: original.courseName,
+      courseCode: original.courseCode,
+      isPublic: false,
+      owner: userId,
+      gitRepoPath: new mongoose.Types.ObjectId().toString(),
+      collaborators: [],
+      forkedFrom: original._id,
+    });
+
+    try {
+      const gitService = new GitService(forkedNotebook.gitRepoPath);
+      await gitService.cloneFrom(original.gitRepoPath);
+      await this.copyRecords(original, forkedNotebook, gitService);
+      await new TagService().syncTags(forkedNotebook);
+    } catch (error) {
+      // Don't leave a half-copied fork behind
+      await Promise.all([
+        Branch.deleteMany({ notebook: forkedNotebook._id }),
+        Commit.deleteMany({ notebook: forkedNotebook._id }),
+        Tag.deleteMany({ notebook: forkedNotebook._id }),
+        Release.deleteMany({ notebook: forkedNotebook._id }),
+        forkedNotebook.deleteOne(),
+      ]);
+      throw error;
+    }
+
+    const searchService = new SearchService();
+    for (const branch of await Branch.find({ notebook: forkedNotebook._id })) {
+      searchService.queueBranchUpdate(String(forkedNotebook._id), forkedNotebook.gitRepoPath, branch.name);
+    }
+
+    return forkedNotebook;
+  }
+
+  private async copyRecords(original: INotebook, forkedNotebook: INotebook, gitService: GitService): Promise<void> {
+    const originalBranches = await Branch.find({ notebook: original._id });
+    const branchIds = new Map<string, mongoose.Types.ObjectId>();
+
+    // The cloned repository decides which branches exist; the original's records only add details
+    for (const name of await gitService.listBranches()) {
+      const originalBranch = originalBranches.find((b) => b.name === name);
+      const branch = await Branch.create({
+        name,
+        description: originalBranch?.description,
+        isDefault: originalBranch ? originalBranch.isDefault : name === 'main',
+        notebook: forkedNotebook._id,
+        lastCommitHash: await gitService.getBranchHead(name),
+      });
+      if (originalBranch) {
+        branchIds.set(String(originalBranch._id), branch._id as mongoose.Types.ObjectId);
+      }
+    }
+
+    const commits = await Commit.find({ notebook: original._id }).lean();
+    const copiedCommits = commits
+      .filter((commit) => branchIds.has(commit.branch.toString()))
+      .map(({ _id, createdAt, ...commit }) => ({
+        ...commit,
+        filesChanged: commit.filesChanged.map(({ path, additions, deletions, status, previousPath, binary }) => ({
+          path,
+          additions,
+          deletions,
+          status,
+          previousPath,
+          binary,
+        })),
+        notebook: forkedNotebook._id,
+        branch: branchIds.get(commit.branch.toString()),
+      }));
+    if (copiedCommits.length > 0) {
+      await Commit.insertMany(copiedCommits);
+    }
+
+    const tags = await Tag.find({ notebook: original._id }).lean();
+    if (tags.length === 0) {
+      return;
+    }
+    const copiedTags = await Tag.insertMany(
+      tags.map(({ _id, createdAt, ...tag }) => ({ ...tag, notebook: forkedNotebook._id }))
+    );
+    const tagIds = new Map(tags.map((tag, i) => [String(tag._id), copiedTags[i]._id]));
+
+    const releases = (await Release.find({ notebook: original._id }).lean()).filter((release) =>
+      tagIds.has(String(release.tag))
+    );
+    if (releases.length > 0) {
+      await Release.insertMany(
+        releases.map(({ _id, createdAt, updatedAt, ...release }) => ({
+          ...release,
+          notebook: forkedNotebook._id,
+          tag: tagIds.get(String(release.tag)),
+        }))
+      );
+    }
+  }
+}
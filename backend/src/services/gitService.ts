@@ -1,7 +1,13 @@
 import simpleGit, { SimpleGit, LogResult } from 'simple-git';
 import path from 'path';
 import fs from 'fs/promises';
+import os from 'os';
+import { spawn } from 'child_process';
+import { PassThrough, Readable } from 'stream';
 import { config } from '../config/config';
+import { ConflictSegment, parseConflictMarkers } from '../utils/diff';
+import { withRepoLock } from '../utils/repoLock';
+import { ArchiveFormat } from '../utils/archive';
 
 export interface FileTreeItem {
   name: string;
@@ -10,89 +16,365 @@ export interface FileTreeItem {
   children?: FileTreeItem[];
 }
 
+export type FileChangeStatus = 'added' | 'modified' | 'deleted' | 'renamed';
+
+export interface FileDiffStat {
+  path: string;
+  additions: number;
+  deletions: number;
+  status: FileChangeStatus;
+  previousPath?: string;
+  binary?: boolean;
+}
+
+// Git's well-known empty tree, for diffing a root commit against "nothing"
+export const EMPTY_TREE_HASH = '4b825dc642cb6eb9a060e54bf8d69288fbee4904';
+
+const COMMIT_RECORD_FORMAT = '%H%x00%P%x00%an%x00%ae%x00%aI%x00%s%x00%b%x01';
+
+const changeStatuses: Record<string, FileChangeStatus> = { A: 'added', D: 'deleted', R: 'renamed', C: 'added' };
+
+export type FileOperation =
+  | { type: 'delete'; path: string }
+  | { type: 'rename' | 'move'; from: string; to: string };
+
+export interface CommitRecord {
+  hash: string;
+  parentHash?: string;
+  authorName: string;
+  authorEmail: string;
+  date: Date;
+  message: string;
+  description?: string;
+}
+
+export interface TagDetails {
+  name: string;
+  commitHash: string;
+  annotated: boolean;
+  message?: string;
+  tagger?: string;
+  date?: string;
+}
+
+export interface BlameCommit {
+  hash: string;
+  authorName: string;
+  authorEmail: string;
+  date: Date;
+  summary: string;
+}
+
+// Lines startLine..startLine + lineCount - 1 (1-based) were last changed by the same commit
+export interface BlameRange {
+  hash: string;
+  startLine: number;
+  lineCount: number;
+}
+
+export interface BlameResult {
+  commits: BlameCommit[];
+  ranges: BlameRange[];
+}
+
+// A commit that changed a file, with the path the file had at that commit
+export interface FileHistoryEntry extends CommitRecord {
+  path: string;
+}
+
+// What applying an earlier change to a branch came to; on conflicts nothing is left applied
+export type ReplayResult =
+  | { status: 'committed'; hash: string; parentHash: string }
+  | { status: 'conflicts'; conflicts: string[] }
+  | { status: 'dirty' }
+  | { status: 'empty' };
+
+export interface BlobEntry {
+  path: string;
+  blob: string | null;
+}
+
+export interface ConflictFile {
+  path: string;
+  segments: ConflictSegment[];
+  deletedIn?: 'ours' | 'theirs';
+}
+
+// Branches other than the one checked out in the main repository each get their own linked worktree here
+const worktreeBase = () => path.join(config.repoBasePath, '.worktrees');
+
 export class GitService {
   private git: SimpleGit | null = null;
   private repoPath: string;
 
-  constructor(notebookId: string) {
-    this.repoPath = path.join(config.repoBasePath, notebookId);
+  // Pass a branch only for a worktree that already exists; use forBranch() to get one safely
+  constructor(private notebookId: string, worktreeBranch?: string) {
+    this.repoPath = worktreeBranch
+      ? path.join(worktreeBase(), notebookId, encodeURIComponent(worktreeBranch))
+      : path.join(config.repoBasePath, notebookId);
   }
 
   private async ensureGit(): Promise<SimpleGit> {
     if (!this.git) {
       // Ensure directory exists before creating git instance
       await fs.mkdir(this.repoPath, { recursive: true });
-      this.git = simpleGit(this.repoPath);
+      // Kill git if it stops producing output, so a hung process can't hold the repository lock forever
+      this.git = simpleGit(this.repoPath, { timeout: { block: config.gitOperationTimeout } });
     }
     return this.git;
   }
 
+  // Serialize changes per notebook; its worktrees share refs and config with the main repository
+  private exclusive<T>(task: () => Promise<T>): Promise<T> {
+    return withRepoLock(this.notebookId, task, config.gitLockTimeout);
+  }
+
+  // Hold the notebook's lock across several steps, e.g. reading a branch head and merging onto it
+  async withLock<T>(task: () => Promise<T>): Promise<T> {
+    return this.exclusive(task);
+  }
+
   async initRepo(): Promise<void> {
-    await fs.mkdir(this.repoPath, { recursive: true });
-    const git = await this.ensureGit();
-    await git.init();
-    await git.addConfig('user.name', 'NoteVerse System');
-    await git.addConfig('user.email', 'system@noteverse.com');
+    return this.exclusive(async () => {
+      await fs.mkdir(this.repoPath, { recursive: true });
+      const git = await this.ensureGit();
+      await git.init();
+      await git.addConfig('user.name', 'NoteVerse System');
+      await git.addConfig('user.email', 'system@noteverse.com');
     
-    // Explicitly set initial branch to main
-    try {
-      await git.raw(['branch', '-M', 'main']);
-    } catch (error) {
-      // Ignore error if branch doesn't exist yet
-    }
+      // Explicitly set initial branch to main
+      try {
+        await git.raw(['branch', '-M', 'main']);
+      } catch (error) {
+        // Ignore error if branch doesn't exist yet
+      }
     
-    // Create initial README
-    const readmePath = path.join(this.repoPath, 'README.md');
-    await fs.writeFile(readmePath, '# Notebook\n\nInitial commit');
-    await git.add('README.md');
-    await git.commit('Initial commit');
+      // Create initial README
+      const readmePath = path.join(this.repoPath, 'README.md');
+      await fs.writeFile(readmePath, '# Notebook\n\nInitial commit');
+      await git.add('README.md');
+      await git.commit('Initial commit');
     
-    // Ensure we're on main branch after commit
-    try {
-      await git.raw(['branch', '-M', 'main']);
-    } catch (error) {
-      console.log('Could not rename branch to main:', error);
+      // Ensure we're on main branch after commit
+      try {
+        await git.raw(['branch', '-M', 'main']);
+      } catch (error) {
+        console.log('Could not rename branch to main:', error);
+      }
+    });
+  }
+
+  // Fill this (not yet created) repository with a full copy of another notebook's history
+  async cloneFrom(sourceNotebookId: string): Promise<void> {
+    const source = new GitService(sourceNotebookId);
+    if (!(await source.isRepoInitialized())) {
+      throw new Error('Source repository not initialized');
     }
+
+    // Hold the source still so the copy sees one consistent set of refs
+    await source.exclusive(() => this.exclusive(() => this.cloneRepository(source.repoPath)));
   }
 
-  async createBranch(branchName: string, fromBranch: string = 'main'): Promise<void> {
+  // Fill this (not yet created) repository from a git bundle or a repository elsewhere on disk, keeping its history
+  async importRepository(sourcePath: string): Promise<void> {
+    return this.exclusive(async () => {
+      await this.cloneRepository(sourcePath);
+
+      // Bundles and bare repositories may name a HEAD branch they don't contain; check out a real one
+      const git = await this.ensureGit();
+      const branches = (await git.branchLocal()).all;
+      if (branches.length === 0) {
+        throw new Error('The repository has no branches');
+      }
+      const head = (await git.raw(['symbolic-ref', '--short', 'HEAD'])).trim();
+      if (!branches.includes(head)) {
+        const preferred = ['main', 'master'].find((name) => branches.includes(name)) || branches[0];
+        await git.checkout(preferred);
+      }
+    });
+  }
+
+  // Fill this (not yet created) repository with a single commit of the files in a directory
+  async importFiles(directory: string, message: string, authorName: string, authorEmail: string): Promise<void> {
+    return this.exclusive(async () => {
+      const git = await this.ensureGit();
+      await git.raw(['init', '--initial-branch=main']);
+      await git.addConfig('user.name', authorName);
+      await git.addConfig('user.email', authorEmail);
+
+      await fs.cp(directory, this.repoPath, { recursive: true });
+      await git.add(['-A']);
+      const staged = await git.raw(['diff', '--cached', '--name-only']);
+      if (!staged.trim()) {
+        throw new Error('There are no files to import');
+      }
+      await git.commit(message);
+    });
+  }
+
+  private async cloneRepository(sourcePath: string): Promise<void> {
+    await fs.mkdir(path.dirname(this.repoPath), { recursive: true });
+    // Checked-out symbolic links would point file reads and writes anywhere on the server; keep them as plain files
+    await simpleGit(path.dirname(this.repoPath)).clone(sourcePath, this.repoPath, [
+      '--no-hardlinks',
+      '--config',
+      'core.symlinks=false',
+    ]);
+
     const git = await this.ensureGit();
-    
-    // Check if there are any commits first
-    try {
-      const log = await git.log({ maxCount: 1 });
-      if (!log || !log.latest) {
-        // No commits yet, can't create branch from another branch
-        throw new Error('Cannot create branch: repository has no commits yet. Please make an initial commit first.');
+    await git.addConfig('user.name', 'NoteVerse System');
+    await git.addConfig('user.email', 'system@noteverse.com');
+
+    // A clone only checks out one branch; turn every other remote branch into a local one
+    const remoteBranches = await git.raw(['for-each-ref', '--format=%(refname:strip=3)', 'refs/remotes/origin']);
+    const localBranches = (await git.branchLocal()).all;
+    for (const branchName of remoteBranches.split('\n').filter((name) => name && name !== 'HEAD')) {
+      if (!localBranches.includes(branchName)) {
+        await git.branch([branchName, `origin/${branchName}`]);
       }
-    } catch (error: any) {
-      if (error.message.includes('does not have any commits yet')) {
-        throw new Error('Cannot create branch: repository has no commits yet. Please make an initial commit first.');
+    }
+
+    await git.fetch(['origin', '--tags']);
+    await git.removeRemote('origin');
+  }
+
+  // Paths committed as symbolic links on any branch or tag, anywhere in their history
+  async listTrackedSymlinks(): Promise<string[]> {
+    const git = await this.ensureGit();
+    // Every entry of every reachable tree shows up in some commit's diff against one of its parents, or against nothing for root commits
+    const output = await git.raw(['log', '--all', '--root', '-m', '--raw', '--no-renames', '--no-abbrev', '--format=']);
+    const symlinks = new Set<string>();
+    for (const line of output.split('\n')) {
+      const match = line.match(/^:\d{6} 120000 \S+ \S+ \S+\t(.+)$/);
+      if (match) {
+        symlinks.add(match[1]);
       }
-      throw error;
     }
-    
-    await git.checkoutBranch(branchName, fromBranch);
+    return [...symlinks];
   }
 
-  async checkoutBranch(branchName: string): Promise<void> {
+  // Copy a branch of another notebook into a ref of this repository, e.g. to compare or merge across forks
+  async fetchFromNotebook(sourceNotebookId: string, branchName: string, ref: string): Promise<string> {
+    const source = new GitService(sourceNotebookId);
+
+    // Take both locks in a fixed order so a fork and its parent fetching from each other can't deadlock
+    const [first, second] = [source, this].sort((a, b) => a.notebookId.localeCompare(b.notebookId));
+    return first.exclusive(() =>
+      second.exclusive(async () => {
+        const git = await this.ensureGit();
+        // Without --no-tags git would also copy the other notebook's tags that point into the branch
+        await git.fetch(['--no-tags', source.repoPath, `+refs/heads/${branchName}:${ref}`]);
+        return (await git.revparse([ref])).trim();
+      })
+    );
+  }
+
+  // How many commits each side has that the other doesn't
+  async getAheadBehind(ref: string, otherRef: string): Promise<{ ahead: number; behind: number }> {
     const git = await this.ensureGit();
+    const output = await git.raw(['rev-list', '--left-right', '--count', `${ref}...${otherRef}`]);
+    const [ahead, behind] = output.trim().split(/\s+/).map((count) => parseInt(count, 10));
+    return { ahead, behind };
+  }
+
+  async createBranch(branchName: string, fromBranch: string = 'main'): Promise<void> {
+    return this.exclusive(async () => {
+      const git = await this.ensureGit();
     
-    // Check if there are any commits first
+      // Check if there are any commits first
+      try {
+        const log = await git.log({ maxCount: 1 });
+        if (!log || !log.latest) {
+          // No commits yet, can't create branch from another branch
+          throw new Error('Cannot create branch: repository has no commits yet. Please make an initial commit first.');
+        }
+      } catch (error: any) {
+        if (error.message.includes('does not have any commits yet')) {
+          throw new Error('Cannot create branch: repository has no commits yet. Please make an initial commit first.');
+        }
+        throw error;
+      }
+    
+      // Only create the ref; nobody's working files move
+      await git.branch([branchName, fromBranch]);
+    });
+  }
+
+  async branchExists(branchName: string): Promise<boolean> {
+    return this.refExists(`refs/heads/${branchName}`);
+  }
+
+  async refExists(ref: string): Promise<boolean> {
+    const git = await this.ensureGit();
     try {
-      const log = await git.log({ maxCount: 1 });
-      if (!log || !log.latest) {
-        // No commits yet, can't checkout
-        console.log('No commits yet, skipping checkout');
-        return;
+      await git.raw(['show-ref', '--verify', ref]);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  // The working tree holding a branch's files, if one has been set up yet. Never changes any files.
+  async findWorktree(branchName: string): Promise<GitService | null> {
+    if ((await this.getCurrentBranch()) === branchName) {
+      return new GitService(this.notebookId);
+    }
+
+    const worktree = new GitService(this.notebookId, branchName);
+    return (await worktree.isRepoInitialized()) ? worktree : null;
+  }
+
+  // The working tree for editing a branch, adding a linked worktree the first time it is needed
+  async forBranch(branchName: string): Promise<GitService> {
+    const existing = await this.findWorktree(branchName);
+    if (existing) {
+      return existing;
+    }
+
+    return this.exclusive(async () => {
+      // Another request may have added the same worktree while we waited
+      const worktree = await this.findWorktree(branchName);
+      if (worktree) {
+        return worktree;
       }
-    } catch (error) {
-      // No commits yet, can't checkout
-      console.log('No commits yet, skipping checkout');
-      return;
+
+      if (!(await this.branchExists(branchName))) {
+        throw new Error(`Branch "${branchName}" not found`);
+      }
+
+      const git = await this.ensureGit();
+      const worktreePath = path.join(worktreeBase(), this.notebookId, encodeURIComponent(branchName));
+      await fs.mkdir(path.dirname(worktreePath), { recursive: true });
+
+      // Forget worktrees whose directories were removed by hand
+      await git.raw(['worktree', 'prune']);
+      await git.raw(['worktree', 'add', worktreePath, branchName]);
+
+      return new GitService(this.notebookId, branchName);
+    });
+  }
+
+  async removeWorktree(branchName: string): Promise<void> {
+    return this.exclusive(async () => {
+      const git = await this.ensureGit();
+      const worktreePath = path.join(worktreeBase(), this.notebookId, encodeURIComponent(branchName));
+      try {
+        await git.raw(['worktree', 'remove', '--force', worktreePath]);
+      } catch (error) {
+        // No worktree was ever created for this branch
+      }
+    });
+  }
+
+  // Read a file as the editor sees it: saved-but-uncommitted changes first, otherwise the branch tip
+  async readBranchFile(branchName: string, filePath: string): Promise<string> {
+    const worktree = await this.findWorktree(branchName);
+    if (worktree) {
+      return await worktree.readFile(filePath);
     }
-    
-    await git.checkout(branchName);
+
+    const git = await this.ensureGit();
+    return await git.show([`refs/heads/${branchName}:${filePath}`]);
   }
 
   async listBranches(): Promise<string[]> {
@@ -102,58 +384,112 @@ export class GitService {
   }
 
   async deleteBranch(branchName: string, force: boolean = false): Promise<void> {
-    const git = await this.ensureGit();
-    await git.deleteLocalBranch(branchName, force);
+    return this.exclusive(async () => {
+      const git = await this.ensureGit();
+      // Git refuses to delete a branch that is still checked out in a worktree
+      await this.removeWorktree(branchName);
+      await git.deleteLocalBranch(branchName, force);
+    });
   }
 
   async commit(
     files: { path: string; content: string }[],
     message: string,
     authorName: string,
-    authorEmail: string
+    authorEmail: string,
+    operations: FileOperation[] = []
   ): Promise<{ hash: string; parentHash?: string }> {
-    const git = await this.ensureGit();
+    return this.exclusive(async () => {
+      const git = await this.ensureGit();
     
-    // Get current commit hash as parent (if exists)
-    let parentHash: string | undefined;
-    try {
-      const log = await git.log({ maxCount: 1 });
-      if (log && log.latest) {
-        parentHash = log.latest.hash;
+      // Get current commit hash as parent (if exists)
+      let parentHash: string | undefined;
+      try {
+        const log = await git.log({ maxCount: 1 });
+        if (log && log.latest) {
+          parentHash = log.latest.hash;
+        }
+      } catch (error) {
+        // No commits yet, parentHash will be undefined
+        parentHash = undefined;
       }
-    } catch (error) {
-      // No commits yet, parentHash will be undefined
-      parentHash = undefined;
-    }
     
-    // Configure author for this commit
-    await git.addConfig('user.name', authorName, false, 'local');
-    await git.addConfig('user.email', authorEmail, false, 'local');
-
-    // Write files
-    for (const file of files) {
-      const filePath = path.join(this.repoPath, file.path);
-      const dirPath = path.dirname(filePath);
-      await fs.mkdir(dirPath, { recursive: true });
-      await fs.writeFile(filePath, file.content);
-    }
+      // Configure author for this commit
+      await git.addConfig('user.name', authorName, false, 'local');
+      await git.addConfig('user.email', authorEmail, false, 'local');
+
+      // Deletes, renames and moves go through git so history records them as such
+      if (operations.length > 0) {
+        await this.applyOperations(git, operations);
+      }
 
-    // Stage files
-    await git.add(files.map((f) => f.path));
+      // Write files
+      for (const file of files) {
+        const filePath = path.join(this.repoPath, file.path);
+        const dirPath = path.dirname(filePath);
+        await fs.mkdir(dirPath, { recursive: true });
+        await fs.writeFile(filePath, file.content);
+      }
+
+      // Stage files
+      if (files.length > 0) {
+        await git.add(files.map((f) => f.path));
+      }
     
-    // Check if there are changes to commit
-    const status = await git.status();
-    if (status.staged.length === 0) {
-      throw new Error('No changes to commit');
-    }
+      // Check if there are changes to commit
+      const staged = await git.raw(['diff', '--cached', '--name-only']);
+      if (!staged.trim()) {
+        throw new Error('No changes to commit');
+      }
     
-    // Commit
-    const result = await git.commit(message);
+      // Commit
+      const result = await git.commit(message);
     
-    return {
-      hash: result.commit,
-      parentHash,
-    };
+      return {
+        hash: result.commit,
+        parentHash,
+      };
+    });
+  }
+
+  // Check every operation against the tracked files before touching any, so a bad one can't leave the worktree half-changed
+  private async applyOperations(git: SimpleGit, operations: FileOperation[]): Promise<void> {
+    const originalTracked = (await git.raw(['ls-files', '-z'])).split('\0').filter((f) => f);
+    const within = (file: string, dir: string) => file === dir || file.startsWith(`${dir}/`);
+
+    let tracked = originalTracked;
+    for (const operation of operations) {
+      const source = operation.type === 'delete' ? operation.path : operation.from;
+      if (!tracked.some((f) => within(f, source))) {
+        throw new Error(`File not found: ${source}`);
+      }
+
+      if (operation.type === 'delete') {
+        tracked = tracked.filter((f) => !within(f, source));
+        continue;
+      }
+
+      const target = path.join(this.repoPath, operation.to);
+      if (path.relative(this.repoPath, target).startsWith('..')) {
+        throw new Error(`Invalid path: ${operation.to}`);
+      }
+      const untrackedTarget =
+        !originalTracked.some((f) => within(f, operation.to)) && (await fs.access(target).then(() => true, () => false));
+      if (tracked.some((f) => within(f, operation.to)) || untrackedTarget) {
+        throw new Error(`"${operation.to}" already exists`);
+      }
+      tracked = tracked.map((f) => (within(f, operation.from) ? operation.to + f.slice(operation.from.length) : f));
+    }
+
+    for (const operation of operations) {
+      if (operation.type === 'delete') {
+        // Folders go too, along with any saved-but-uncommitted edits
+        await git.raw(['rm', '-r', '-f', '--', operation.path]);
+      } else {
+        await fs.mkdir(path.dirname(path.join(this.repoPath, operation.to)), { recursive: true });
+        await git.raw(['mv', '--', operation.from, operation.to]);
+      }
+    }
   }
 
   async getCommitHistory(branch?: string, limit: number = 50): Promise<LogResult> {
@@ -165,6 +501,120 @@ export class GitService {
     return await git.log(options);
   }
 
+  // Every commit reachable from a ref, oldest first, e.g. to create records for imported history
+  async listCommitRecords(ref: string): Promise<CommitRecord[]> {
+    const git = await this.ensureGit();
+    return this.parseCommitRecords(await git.raw(['log', '--reverse', `--format=${COMMIT_RECORD_FORMAT}`, ref]));
+  }
+
+  async getCommitRecord(ref: string): Promise<CommitRecord> {
+    const git = await this.ensureGit();
+    const commitHash = await this.resolveCommit(ref);
+    return this.parseCommitRecords(await git.raw(['log', '-1', `--format=${COMMIT_RECORD_FORMAT}`, commitHash]))[0];
+  }
+
+  private parseCommitRecords(output: string): CommitRecord[] {
+    return output
+      .split('\x01')
+      .map((entry) => entry.replace(/^\n/, ''))
+      .filter((entry) => entry)
+      .map((entry) => {
+        const [hash, parents, authorName, authorEmail, date, subject, body] = entry.split('\0');
+        return {
+          hash,
+          parentHash: parents.split(' ')[0] || undefined,
+          authorName,
+          authorEmail,
+          date: new Date(date),
+          message: subject,
+          description: body.trim() || undefined,
+        };
+      });
+  }
+
+  // Which commit last changed each line of a file as it is at ref
+  async blame(filePath: string, ref: string = 'HEAD'): Promise<BlameResult> {
+    const git = await this.ensureGit();
+    const commitHash = await this.resolveCommit(ref);
+    const output = await git.raw(['blame', '--porcelain', commitHash, '--', filePath]);
+
+    // Each line comes as "<hash> <original line> <final line>[ <group size>]", the commit's details the first
+    // time it appears, then the line's content prefixed with a tab
+    const commits = new Map<string, BlameCommit>();
+    const ranges: BlameRange[] = [];
+    const lines = output.split('\n');
+    for (let i = 0; i < lines.length; i++) {
+      const header = lines[i].match(/^([0-9a-f]{40}) \d+ (\d+)/);
+      if (!header) {
+        continue;
+      }
+
+      const [, hash, finalLine] = header;
+      const fields = new Map<string, string>();
+      for (i++; i < lines.length && !lines[i].startsWith('\t'); i++) {
+        const space = lines[i].indexOf(' ');
+        fields.set(space === -1 ? lines[i] : lines[i].slice(0, space), space === -1 ? '' : lines[i].slice(space + 1));
+      }
+      if (!commits.has(hash)) {
+        commits.set(hash, {
+          hash,
+          authorName: fields.get('author') || '',
+          authorEmail: (fields.get('author-mail') || '').replace(/^<|>$/g, ''),
+          date: new Date(Number(fields.get('author-time') || 0) * 1000),
+          summary: fields.get('summary') || '',
+        });
+      }
+
+      const line = Number(finalLine);
+      const last = ranges[ranges.length - 1];
+      if (last && last.hash === hash && last.startLine + last.lineCount === line) {
+        last.lineCount++;
+      } else {
+        ranges.push({ hash, startLine: line, lineCount: 1 });
+      }
+    }
+
+    return { commits: [...commits.values()], ranges };
+  }
+
+  // Commits that changed a file up to ref, newest first, following it back through renames
+  async getFileHistory(filePath: string, ref: string = 'HEAD', limit: number = 50): Promise<FileHistoryEntry[]> {
+    const git = await this.ensureGit();
+    const commitHash = await this.resolveCommit(ref);
+    const output = await git.raw([
+      'log',
+      '--follow',
+      '--name-only',
+      '-z',
+      `--max-count=${limit}`,
+      '--format=%x01%H%x00%P%x00%an%x00%ae%x00%aI%x00%s%x00%b%x00',
+      commitHash,
+      '--',
+      filePath,
+    ]);
+
+    // Each entry is the formatted fields followed by the file's name at that commit
+    let currentPath = filePath;
+    return output
+      .split('\x01')
+      .filter((entry) => entry)
+      .map((entry) => {
+        const [hash, parents, authorName, authorEmail, date, subject, body, ...names] = entry.split('\0');
+        const name = names.map((n) => n.replace(/^\n/, '')).find((n) => n);
+        currentPath = name || currentPath;
+        return {
+          hash,
+          parentHash: parents.split(' ')[0] || undefined,
+          authorName,
+          authorEmail,
+          date: new Date(date),
+          message: subject,
+          description: body.trim() || undefined,
+          path: currentPath,
+        };
+      });
+  }
+
   async getCommitDetails(commitHash: string): Promise<any> {
     const git = await this.ensureGit();
     const log = await git.show([commitHash, '--stat']);
@@ -179,26 +629,16 @@ export class GitService {
     if (!isRepo) {
       throw new Error('Repository not initialized');
     }
-    
-    if (commitHash && commitHash !== 'main' && commitHash !== 'master' && commitHash !== 'HEAD') {
-      try {
-        return await git.show([`${commitHash}:${filePath}`]);
-      } catch (error) {
-        // If commit doesn't exist, try reading from working directory
-        const fullPath = path.join(this.repoPath, filePath);
-        try {
-          return await fs.readFile(fullPath, 'utf-8');
-        } catch (e: any) {
-          throw new Error(`File not found: ${filePath}`);
-        }
-      }
-    }
-    
-    // For 'main', 'master', 'HEAD', or no commit hash, read from working directory
-    const fullPath = path.join(this.repoPath, filePath);
+
+    const ref = !commitHash || commitHash === 'HEAD' ? await this.getCurrentBranch() : commitHash;
+
     try {
-      return await fs.readFile(fullPath, 'utf-8');
-    } catch (error: any) {
+      // Branches include saved edits from their worktree; anything else is read straight from git
+      if (await this.branchExists(ref)) {
+        return await this.readBranchFile(ref, filePath);
+      }
+      return await git.show([`${ref}:${filePath}`]);
+    } catch (error) {
       throw new Error(`File not found: ${filePath}`);
     }
   }
@@ -208,35 +648,343 @@ export class GitService {
     return await git.diff([from, to]);
   }
 
+  async getBranchDiff(baseBranch: string, headBranch: string): Promise<string> {
+    const git = await this.ensureGit();
+    // Three-dot range: changes on head since it diverged from base
+    return await git.diff([`${baseBranch}...${headBranch}`]);
+  }
+
+  // What changed per file, with renames detected; binary files have no line counts
+  async getDiffStats(from: string, to?: string): Promise<FileDiffStat[]> {
+    const git = await this.ensureGit();
+    const range = to ? [from, to] : [from];
+    const numstat = await git.raw(['diff', '--numstat', '-M', '-z', ...range]);
+    const nameStatus = await git.raw(['diff', '--name-status', '-M', '-z', ...range]);
+
+    // "<status>\0<path>\0", or "<R|C><score>\0<old path>\0<new path>\0"
+    const statuses = new Map<string, { status: FileChangeStatus; previousPath?: string }>();
+    const statusFields = nameStatus.split('\0');
+    for (let i = 0; i + 1 < statusFields.length; ) {
+      const letter = statusFields[i].charAt(0);
+      if (letter === 'R' || letter === 'C') {
+        statuses.set(statusFields[i + 2], {
+          status: changeStatuses[letter],
+          ...(letter === 'R' && { previousPath: statusFields[i + 1] }),
+        });
+        i += 3;
+      } else {
+        statuses.set(statusFields[i + 1], { status: changeStatuses[letter] || 'modified' });
+        i += 2;
+      }
+    }
+
+    // "<added>\t<deleted>\t<path>\0", with an empty path followed by "<old path>\0<new path>\0" for renames
+    const stats: FileDiffStat[] = [];
+    const numstatFields = numstat.split('\0');
+    for (let i = 0; i < numstatFields.length; i++) {
+      if (!numstatFields[i]) {
+        continue;
+      }
+      const [additions, deletions, filePath] = numstatFields[i].split('\t');
+      let newPath = filePath;
+      if (!newPath) {
+        newPath = numstatFields[i + 2];
+        i += 2;
+      }
+      const binary = additions === '-';
+      stats.push({
+        path: newPath,
+        additions: binary ? 0 : parseInt(additions, 10),
+        deletions: binary ? 0 : parseInt(deletions, 10),
+        ...(statuses.get(newPath) || { status: 'modified' }),
+        ...(binary && { binary }),
+      });
+    }
+    return stats;
+  }
+
+  // Every file at a ref with the blob holding its content
+  async listBlobs(ref: string): Promise<BlobEntry[]> {
+    const git = await this.ensureGit();
+    const output = await git.raw(['ls-tree', '-r', '-z', ref]);
+
+    return output
+      .split('\0')
+      .filter((entry) => entry)
+      .map((entry) => {
+        const tab = entry.indexOf('\t');
+        const [, type, blob] = entry.slice(0, tab).split(' ');
+        return { path: entry.slice(tab + 1), blob, type };
+      })
+      .filter((entry) => entry.type === 'blob')
+      .map(({ path: filePath, blob }) => ({ path: filePath, blob }));
+  }
+
+  // Files that differ between two commits; blob is null for files deleted in `to`
+  async getChangedBlobs(from: string, to: string): Promise<BlobEntry[]> {
+    const git = await this.ensureGit();
+    const output = await git.raw(['diff', '--raw', '--no-abbrev', '--no-renames', '-z', from, to]);
+
+    // Entries come as ":<modes> <old blob> <new blob> <status>\0<path>\0"
+    const fields = output.split('\0');
+    const changes: BlobEntry[] = [];
+    for (let i = 0; i + 1 < fields.length; i += 2) {
+      const [, , , blob, status] = fields[i].split(' ');
+      changes.push({ path: fields[i + 1], blob: status === 'D' ? null : blob });
+    }
+    return changes;
+  }
+
+  async readBlob(blob: string): Promise<string> {
+    const git = await this.ensureGit();
+    return await git.raw(['cat-file', 'blob', blob]);
+  }
+
+  // For images and other files that aren't text
+  async readBinaryBlob(blob: string): Promise<Buffer> {
+    const git = await this.ensureGit();
+    return await git.binaryCatFile(['blob', blob]);
+  }
+
+  async getBranchHead(branchName: string): Promise<string> {
+    const git = await this.ensureGit();
+    return (await git.revparse([branchName])).trim();
+  }
+
+  // Merge into the branch checked out here; call on the target's forBranch() worktree
   async mergeBranch(
     sourceBranch: string,
-    targetBranch: string
+    options: { message?: string; authorName?: string; authorEmail?: string } = {}
   ): Promise<{ success: boolean; conflicts?: string[] }> {
+    return this.exclusive(async () => {
+      const git = await this.ensureGit();
+      try {
+        if (options.authorName && options.authorEmail) {
+          await git.addConfig('user.name', options.authorName, false, 'local');
+          await git.addConfig('user.email', options.authorEmail, false, 'local');
+        }
+
+        // Always record a merge commit when a message is given so the merge shows up in history
+        const mergeArgs = options.message ? ['--no-ff', '-m', options.message, sourceBranch] : [sourceBranch];
+        const result = await git.merge(mergeArgs);
+      
+        if (result.conflicts && result.conflicts.length > 0) {
+          return {
+            success: false,
+            conflicts: result.conflicts.map((c) => c.file).filter((f): f is string => f !== undefined),
+          };
+        }
+      
+        return { success: true };
+      } catch (error: any) {
+        if (error.message.includes('CONFLICT')) {
+          const status = await git.status();
+          return {
+            success: false,
+            conflicts: status.conflicted,
+          };
+        }
+        throw error;
+      }
+    });
+  }
+
+  async abortMerge(): Promise<void> {
+    return this.exclusive(async () => {
+      const git = await this.ensureGit();
+      await git.merge(['--abort']);
+    });
+  }
+
+  // Saved but uncommitted edits in the worktree. Untracked files don't count: the main repository's worktree also
+  // holds the uploads folder.
+  async hasUncommittedChanges(): Promise<boolean> {
+    const git = await this.ensureGit();
+    return (await git.raw(['status', '--porcelain', '--untracked-files=no'])).trim() !== '';
+  }
+
+  async isMergeInProgress(): Promise<boolean> {
     const git = await this.ensureGit();
     try {
-      await this.checkoutBranch(targetBranch);
-      const result = await git.merge([sourceBranch]);
-      
-      if (result.conflicts && result.conflicts.length > 0) {
-        return {
-          success: false,
-          conflicts: result.conflicts.map((c) => c.file).filter((f): f is string => f !== undefined),
-        };
+      // Linked worktrees keep their merge state under the main repository's .git directory
+      const mergeHead = (await git.raw(['rev-parse', '--git-path', 'MERGE_HEAD'])).trim();
+      await fs.access(path.resolve(this.repoPath, mergeHead));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async getConflictedFiles(): Promise<string[]> {
+    const git = await this.ensureGit();
+    const status = await git.status();
+    return status.conflicted;
+  }
+
+  // Read-only: rebuilt from the index stages, so the worktree and any partial resolution in it stay untouched
+  async getConflict(filePath: string): Promise<ConflictFile> {
+    const git = await this.ensureGit();
+
+    const readStage = async (stage: number): Promise<string | null> => {
+      try {
+        return await git.show([`:${stage}:${filePath}`]);
+      } catch (error) {
+        return null;
       }
-      
-      return { success: true };
-    } catch (error: any) {
-      if (error.message.includes('CONFLICT')) {
-        const status = await git.status();
-        return {
-          success: false,
-          conflicts: status.conflicted,
-        };
+    };
+    const [base, ours, theirs] = await Promise.all([readStage(1), readStage(2), readStage(3)]);
+
+    // Whole-file conflict (e.g. modified on one side, deleted on the other)
+    if (ours === null || theirs === null) {
+      const lines = (content: string | null) => (content === null ? [] : content.split('\n'));
+      return {
+        path: filePath,
+        segments: [{ type: 'conflict', ours: lines(ours), base: lines(base), theirs: lines(theirs) }],
+        deletedIn: ours === null ? 'ours' : 'theirs',
+      };
+    }
+
+    // Let git redo the three-way merge of the stages outside the repository, with diff3 markers
+    const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'noteverse-conflict-'));
+    try {
+      await Promise.all([
+        fs.writeFile(path.join(directory, 'ours'), ours),
+        fs.writeFile(path.join(directory, 'base'), base ?? ''),
+        fs.writeFile(path.join(directory, 'theirs'), theirs),
+      ]);
+      const merged = await simpleGit(directory).raw([
+        'merge-file', '-p', '-q', '--diff3',
+        '-L', 'ours', '-L', 'base', '-L', 'theirs',
+        'ours', 'base', 'theirs',
+      ]);
+      return { path: filePath, segments: parseConflictMarkers(merged) };
+    } finally {
+      await fs.rm(directory, { recursive: true, force: true });
+    }
+  }
+
+  async resolveConflict(filePath: string, content: string | null): Promise<void> {
+    return this.exclusive(async () => {
+      const git = await this.ensureGit();
+
+      if (content === null) {
+        await git.raw(['rm', '--quiet', '--ignore-unmatch', '--', filePath]);
+        return;
       }
-      throw error;
+
+      await this.writeFile(filePath, content);
+      await git.add(filePath);
+    });
+  }
+
+  async commitMerge(message: string, authorName: string, authorEmail: string): Promise<string> {
+    return this.exclusive(async () => {
+      const git = await this.ensureGit();
+
+      const conflicted = await this.getConflictedFiles();
+      if (conflicted.length > 0) {
+        throw new Error(`Unresolved conflicts remain in: ${conflicted.join(', ')}`);
+      }
+
+      await git.addConfig('user.name', authorName, false, 'local');
+      await git.addConfig('user.email', authorEmail, false, 'local');
+
+      await git.commit(message);
+      return (await git.revparse(['HEAD'])).trim();
+    });
+  }
+
+  // Undo a commit with a new one on the branch checked out here; call on the branch's forBranch() worktree
+  async revertCommit(commitHash: string, message: string[], authorName: string, authorEmail: string): Promise<ReplayResult> {
+    return this.replay(async (git) => {
+      await git.raw(['revert', '--no-commit', ...(await this.mainlineArgs(git, commitHash)), commitHash]);
+    }, message, authorName, authorEmail);
+  }
+
+  // Copy the changes of a commit from another branch onto the branch checked out here
+  async cherryPick(commitHash: string, message: string[], authorName: string, authorEmail: string): Promise<ReplayResult> {
+    return this.replay(async (git) => {
+      await git.raw(['cherry-pick', '--no-commit', ...(await this.mainlineArgs(git, commitHash)), commitHash]);
+    }, message, authorName, authorEmail);
+  }
+
+  // Put one file back the way it was at an earlier commit, committed on the branch checked out here
+  async restoreFile(
+    filePath: string,
+    commitHash: string,
+    message: string[],
+    authorName: string,
+    authorEmail: string
+  ): Promise<ReplayResult> {
+    return this.replay(async (git) => {
+      await git.raw(['checkout', commitHash, '--', filePath]);
+    }, message, authorName, authorEmail);
+  }
+
+  async hasFile(filePath: string, ref: string): Promise<boolean> {
+    const git = await this.ensureGit();
+    try {
+      return (await git.raw(['cat-file', '-t', `${ref}:${filePath}`])).trim() === 'blob';
+    } catch {
+      return false;
     }
   }
 
+  // Whether a commit is already part of a ref's history
+  async isAncestor(commitHash: string, ref: string): Promise<boolean> {
+    const git = await this.ensureGit();
+    const [commit, tip] = await Promise.all([this.resolveCommit(commitHash), this.resolveCommit(ref)]);
+    // merge-base --is-ancestor answers only through its exit code, which simple-git does not report
+    const mergeBase = await git.raw(['merge-base', commit, tip]).catch(() => '');
+    return mergeBase.trim() === commit;
+  }
+
+  // Reverting or picking a merge commit needs to know which side it is relative to: the branch it was merged into
+  private async mainlineArgs(git: SimpleGit, commitHash: string): Promise<string[]> {
+    const parents = (await git.raw(['rev-list', '--parents', '-n', '1', commitHash])).trim().split(' ').slice(1);
+    return parents.length > 1 ? ['-m', '1'] : [];
+  }
+
+  // Stage a change into a clean worktree and commit it, or put the worktree back as it was if it conflicts or changes nothing
+  private async replay(
+    apply: (git: SimpleGit) => Promise<void>,
+    message: string[],
+    authorName: string,
+    authorEmail: string
+  ): Promise<ReplayResult> {
+    return this.exclusive(async () => {
+      const git = await this.ensureGit();
+      if (await this.hasUncommittedChanges()) {
+        return { status: 'dirty' };
+      }
+      const parentHash = (await git.revparse(['HEAD'])).trim();
+
+      try {
+        await apply(git);
+      } catch (error) {
+        const conflicts = (await git.status()).conflicted;
+        // Also clears the revert or cherry-pick git was left in the middle of
+        await git.raw(['reset', '--hard', 'HEAD']);
+        if (conflicts.length > 0) {
+          return { status: 'conflicts', conflicts };
+        }
+        throw error;
+      }
+
+      const staged = await git.raw(['diff', '--cached', '--name-only']);
+      if (!staged.trim()) {
+        await git.raw(['reset', '--hard', 'HEAD']);
+        return { status: 'empty' };
+      }
+
+      await git.addConfig('user.name', authorName, false, 'local');
+      await git.addConfig('user.email', authorEmail, false, 'local');
+      await git.commit(message);
+
+      return { status: 'committed', hash: (await git.revparse(['HEAD'])).trim(), parentHash };
+    });
+  }
+
   async getFileTree(commitHash?: string): Promise<FileTreeItem[]> {
     try {
       const git = await this.ensureGit();
@@ -318,13 +1066,22 @@ export class GitService {
     }
   }
 
-  async createTag(tagName: string, commitHash: string, message?: string): Promise<void> {
-    const git = await this.ensureGit();
-    const args = [tagName, commitHash];
-    if (message) {
-      args.push('-m', message);
-    }
-    await git.tag(args);
+  // Annotated, so the tag records who froze the notes and when
+  async createTag(
+    tagName: string,
+    commitHash: string,
+    message: string,
+    taggerName?: string,
+    taggerEmail?: string
+  ): Promise<void> {
+    return this.exclusive(async () => {
+      const git = await this.ensureGit();
+      if (taggerName && taggerEmail) {
+        await git.addConfig('user.name', taggerName, false, 'local');
+        await git.addConfig('user.email', taggerEmail, false, 'local');
+      }
+      await git.tag(['-a', tagName, commitHash, '-m', message]);
+    });
   }
 
   async listTags(): Promise<string[]> {
@@ -333,9 +1090,88 @@ export class GitService {
     return tags.all;
   }
 
-  async deleteTag(tagName: string): Promise<void> {
+  // Every tag with the commit it points to; lightweight tags have no message or tagger date
+  async listTagDetails(): Promise<TagDetails[]> {
     const git = await this.ensureGit();
-    await git.tag(['-d', tagName]);
+    const output = await git.raw([
+      'for-each-ref',
+      'refs/tags',
+      '--format=%(refname:strip=2)%00%(objecttype)%00%(objectname)%00%(*objectname)%00%(contents)%00%(creatordate:iso-strict)%00%(taggername)%01',
+    ]);
+
+    return output
+      .split('\x01')
+      .map((entry) => entry.replace(/^\n/, ''))
+      .filter((entry) => entry)
+      .map((entry) => {
+        const [name, type, object, peeled, message, date, tagger] = entry.split('\0');
+        const annotated = type === 'tag';
+        return {
+          name,
+          commitHash: peeled || object,
+          annotated,
+          message: annotated ? message.trim() : undefined,
+          tagger: tagger || undefined,
+          date: date || undefined,
+        };
+      });
+  }
+
+  async resolveCommit(ref: string): Promise<string> {
+    const git = await this.ensureGit();
+    return (await git.raw(['rev-parse', '--verify', '--end-of-options', `${ref}^{commit}`])).trim();
+  }
+
+  async deleteTag(tagName: string): Promise<void> {
+    return this.exclusive(async () => {
+      const git = await this.ensureGit();
+      await git.tag(['-d', tagName]);
+    });
+  }
+
+  // Stream the files of a commit as an archive; check the commit exists first, as a failing git only ends the stream.
+  // Files in `extra.directory` that the commit doesn't track are added under `extra.name`, e.g. the notebook's uploads.
+  async createArchiveStream(
+    commitHash: string,
+    format: ArchiveFormat,
+    prefix: string,
+    extra?: { directory: string; name: string }
+  ): Promise<Readable> {
+    const args = ['archive', `--format=${format}`];
+    if (extra) {
+      const entries = await fs.readdir(extra.directory, { withFileTypes: true }).catch(() => []);
+      const git = await this.ensureGit();
+      const tracked = new Set(
+        (await git.raw(['ls-tree', '--name-only', '-z', commitHash, '--', `${extra.name}/`])).split('\0')
+      );
+      const files = entries.filter((entry) => entry.isFile() && !tracked.has(`${extra.name}/${entry.name}`));
+      if (files.length > 0) {
+        args.push(`--prefix=${prefix}/${extra.name}/`);
+        args.push(...files.map((file) => `--add-file=${path.resolve(extra.directory, file.name)}`));
+      }
+    }
+    args.push(`--prefix=${prefix}/`, commitHash);
+
+    const output = new PassThrough();
+    const child = spawn('git', args, {
+      cwd: this.repoPath,
+      stdio: ['ignore', 'pipe', 'pipe'],
+    });
+
+    let stderr = '';
+    child.stderr.on('data', (chunk) => {
+      stderr += chunk;
+    });
+    child.stdout.pipe(output, { end: false });
+    child.on('error', (error) => output.destroy(error));
+    child.on('close', (code) => {
+      if (code === 0) {
+        output.end();
+      } else {
+        output.destroy(new Error(stderr.trim() || `git archive exited with code ${code}`));
+      }
+    });
+    return output;
   }
 
   async getCurrentBranch(): Promise<string> {
@@ -350,10 +1186,12 @@ export class GitService {
   }
 
   async writeFile(filePath: string, content: string): Promise<void> {
-    const fullPath = path.join(this.repoPath, filePath);
-    const dirPath = path.dirname(fullPath);
-    await fs.mkdir(dirPath, { recursive: true });
-    await fs.writeFile(fullPath, content);
+    return this.exclusive(async () => {
+      const fullPath = path.join(this.repoPath, filePath);
+      const dirPath = path.dirname(fullPath);
+      await fs.mkdir(dirPath, { recursive: true });
+      await fs.writeFile(fullPath, content);
+    });
   }
 
   async readFile(filePath: string): Promise<string> {
@@ -362,7 +1200,9 @@ export class GitService {
   }
 
   async deleteFile(filePath: string): Promise<void> {
-    const fullPath = path.join(this.repoPath, filePath);
-    await fs.unlink(fullPath);
+    return this.exclusive(async () => {
+      const fullPath = path.join(this.repoPath, filePath);
+      await fs.unlink(fullPath);
+    });
   }
 }
@@ -0,0 +1,251 @@
+import mongoose from 'mongoose';
+import os from 'os';
+import path from 'path';
+import fs from 'fs/promises';
+import AdmZip from 'adm-zip';
+import Notebook, { INotebook } from '../models/Notebook';
+import Branch from '../models/Branch';
+import Commit from '../models/Commit';
+import Tag from '../models/Tag';
+import User, { IUser } from '../models/User';
+import { GitService, CommitRecord, EMPTY_TREE_HASH } from './gitService';
+import { SearchService } from './searchService';
+import { TagService } from './tagService';
+import { config } from '../config/config';
+
+const MAX_EXTRACTED_SIZE = 500 * 1024 * 1024;
+// Operating system clutter that has no place in a notebook
+const IGNORED_ZIP_ENTRY = /(^|\/)(__MACOSX|\.DS_Store|Thumbs\.db)(\/|$)/;
+
+export type ImportSource =
+  | { type: 'bundle'; file: string }
+  | { type: 'zip'; file: string }
+  | { type: 'path'; path: string };
+
+export interface ImportedNotebookDetails {
+  name: string;
+  description?: string;
+  courseName?: string;
+  courseCode?: string;
+  isPublic?: boolean;
+}
+
+// Something wrong with what the user asked to import, as opposed to a failure on our side
+export class ImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ImportError';
+  }
+}
+
+// Unpack a ZIP into a directory and return the folder holding its contents: a single top-level folder is unwrapped
+const extractZip = async (file: string, directory: string): Promise<string> => {
+  let zip: AdmZip;
+  try {
+    zip = new AdmZip(file);
+  } catch {
+    throw new ImportError('The file is not a valid ZIP archive');
+  }
+
+  const entries = zip.getEntries().filter((entry) => !IGNORED_ZIP_ENTRY.test(entry.entryName));
+  if (entries.reduce((size, entry) => size + entry.header.size, 0) > MAX_EXTRACTED_SIZE) {
+    throw new ImportError('The ZIP archive is too large once extracted');
+  }
+
+  for (const entry of entries) {
+    const target = path.resolve(directory, entry.entryName);
+    if (!target.startsWith(directory + path.sep)) {
+      throw new ImportError(`The ZIP archive contains an unsafe path: ${entry.entryName}`);
+    }
+    if (entry.isDirectory) {
+      await fs.mkdir(target, { recursive: true });
+    } else {
+      await fs.mkdir(path.dirname(target), { recursive: true });
+      await fs.writeFile(target, entry.getData());
+    }
+  }
+
+  const topLevel = await fs.readdir(directory, { withFileTypes: true });
+  if (topLevel.length === 1 && topLevel[0].isDirectory() && topLevel[0].name !== '.git') {
+    return path.join(directory, topLevel[0].name);
+  }
+  return directory;
+};
+
+const isDirectory = (target: string): Promise<boolean> =>
+  fs.stat(target).then((stat) => stat.isDirectory(), () => false);
+
+const exists = (target: string): Promise<boolean> =>
+  fs.lstat(target).then(() => true, () => false);
+
+const containsSymlink = async (directory: string): Promise<boolean> => {
+  for (const entry of await fs.readdir(directory, { withFileTypes: true })) {
+    if (entry.isSymbolicLink()) {
+      return true;
+    }
+    if (entry.isDirectory() && (await containsSymlink(path.join(directory, entry.name)))) {
+      return true;
+    }
+  }
+  return false;
+};
+
+// Files that make git read objects or refs from outside the repository, e.g. from another notebook's
+const BORROWING_FILES = ['objects/info/alternates', 'objects/info/http-alternates', 'commondir'];
+
+// An uploaded .git directory must stand on its own, and its config and hooks are not ours to run.
+// Only ever called on an extracted copy, which is changed in place.
+const sanitizeUploadedRepository = async (gitDirectory: string): Promise<void> => {
+  for (const file of BORROWING_FILES) {
+    if (await exists(path.join(gitDirectory, file))) {
+      throw new ImportError(`The repository refers to objects outside itself (.git/${file}), which is not supported`);
+    }
+  }
+  if (await containsSymlink(gitDirectory)) {
+    throw new ImportError('The repository contains symbolic links inside .git, which is not supported');
+  }
+
+  await fs.rm(path.join(gitDirectory, 'hooks'), { recursive: true, force: true });
+  await fs.writeFile(path.join(gitDirectory, 'config'), '[core]\n\trepositoryformatversion = 0\n\tbare = false\n');
+};
+
+export class ImportService {
+  isAdmin(user: IUser): boolean {
+    return config.adminEmails.includes(user.email.toLowerCase());
+  }
+
+  // Create a notebook for user from existing notes, keeping any git history they come with
+  async importNotebook(source: ImportSource, details: ImportedNotebookDetails, user: IUser): Promise<INotebook> {
+    if (source.type === 'path') {
+      if (!this.isAdmin(user)) {
+        throw new ImportError('Only administrators can import from a path on the server');
+      }
+      if (!path.isAbsolute(source.path) || !(await isDirectory(source.path))) {
+        throw new ImportError(`"${source.path}" is not a directory on the server`);
+      }
+    }
+
+    const notebook = await Notebook.create({
+      ...details,
+      isPublic: details.isPublic || false,
+      owner: user._id,
+      gitRepoPath: new mongoose.Types.ObjectId().toString(),
+      collaborators: [],
+    });
+
+    const gitService = new GitService(notebook.gitRepoPath);
+    let extractDirectory: string | null = null;
+    try {
+      if (source.type === 'zip') {
+        extractDirectory = await fs.mkdtemp(path.join(os.tmpdir(), 'noteverse-import-'));
+        const root = await extractZip(source.file, extractDirectory);
+        const gitDirectory = path.join(root, '.git');
+        // A zipped working copy brings its history along
+        if (await isDirectory(gitDirectory)) {
+          await sanitizeUploadedRepository(gitDirectory);
+          await this.importRepository(gitService, root);
+        } else if (await exists(gitDirectory)) {
+          // A .git file would point git at some other repository on this server
+          throw new ImportError('The ZIP archive contains a .git file instead of a .git folder');
+        } else {
+          await gitService
+            .importFiles(root, `Import ${details.name}`, user.name || user.username, user.email)
+            .catch((error) => {
+              throw new ImportError(error.message);
+            });
+        }
+      } else {
+        await this.importRepository(gitService, source.type === 'bundle' ? source.file : source.path);
+      }
+
+      await this.createRecords(notebook, gitService, user);
+    } catch (error) {
+      // Don't leave a half-imported notebook behind
+      await Promise.all([
+        Branch.deleteMany({ notebook: notebook._id }),
+        Commit.deleteMany({ notebook: notebook._id }),
+        Tag.deleteMany({ notebook: notebook._id }),
+        notebook.deleteOne(),
+        fs.rm(path.join(config.repoBasePath, notebook.gitRepoPath), { recursive: true, force: true }),
+      ]);
+      throw error;
+    } finally {
+      if (extractDirectory) {
+        await fs.rm(extractDirectory, { recursive: true, force: true });
+      }
+    }
+
+    const searchService = new SearchService();
+    for (const branch of await Branch.find({ notebook: notebook._id })) {
+      searchService.queueBranchUpdate(String(notebook._id), notebook.gitRepoPath, branch.name);
+    }
+
+    return notebook;
+  }
+
+  private async importRepository(gitService: GitService, sourcePath: string): Promise<void> {
+    try {
+      await gitService.importRepository(sourcePath);
+    } catch (error: any) {
+      throw new ImportError(`Could not read the repository: ${error.message}`);
+    }
+
+    const symlinks = await gitService.listTrackedSymlinks();
+    if (symlinks.length > 0) {
+      throw new ImportError(
+        `The repository tracks symbolic links (${symlinks.slice(0, 3).join(', ')}), which is not supported`
+      );
+    }
+  }
+
+  // Branch, Commit and Tag records for everything in the imported repository
+  private async createRecords(notebook: INotebook, gitService: GitService, importer: IUser): Promise<void> {
+    const defaultBranch = await gitService.getCurrentBranch();
+    const branchNames = [defaultBranch, ...(await gitService.listBranches()).filter((name) => name !== defaultBranch)];
+
+    const commitsByBranch = new Map<string, CommitRecord[]>();
+    for (const name of branchNames) {
+      commitsByBranch.set(name, await gitService.listCommitRecords(name));
+    }
+
+    // Credit commits to the users with matching emails, and the rest to whoever imported them
+    const emails = [...new Set([...commitsByBranch.values()].flat().map((c) => c.authorEmail.toLowerCase()))];
+    const users = await User.find({ email: { $in: emails } });
+    const authorOf = new Map(users.map((u) => [u.email, u._id]));
+
+    // Each commit is recorded once, on the first branch (default first) that contains it
+    const recorded = new Set<string>();
+    for (const name of branchNames) {
+      const branch = await Branch.create({
+        name,
+        isDefault: name === defaultBranch,
+        notebook: notebook._id,
+        lastCommitHash: await gitService.getBranchHead(name),
+      });
+
+      const commits = [];
+      for (const commit of commitsByBranch.get(name)!.filter((c) => !recorded.has(c.hash))) {
+        recorded.add(commit.hash);
+        const filesChanged = await gitService.getDiffStats(commit.parentHash || EMPTY_TREE_HASH, commit.hash);
+        commits.push({
+          hash: commit.hash,
+          message: commit.message || '(no message)',
+          description: commit.description,
+          author: authorOf.get(commit.authorEmail.toLowerCase()) || importer._id,
+          notebook: notebook._id,
+          branch: branch._id,
+          parentHash: commit.parentHash,
+          filesChanged,
+          additions: filesChanged.reduce((sum, f) => sum + f.additions, 0),
+          deletions: filesChanged.reduce((sum, f) => sum + f.deletions, 0),
+          timestamp: commit.date,
+        });
+      }
+      if (commits.length > 0) {
+        await Commit.insertMany(commits);
+      }
+    }
+
+    await new TagService().syncTags(notebook);
+  }
+}
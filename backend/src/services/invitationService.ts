@@ -0,0 +1,181 @@
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import Invitation, { IInvitation, InvitationKind, InvitationStatus, InvitedRole } from '../models/Invitation';
+import Notebook, { INotebook } from '../models/Notebook';
+import User, { IUser } from '../models/User';
+import { getNotebookRole } from '../middleware/permissions';
+import { EventBus } from './eventBus';
+import { MailService } from './mailService';
+import { invitationEmail } from './emailTemplates';
+import logger from '../utils/logger';
+
+// Invitations addressed to a person; links choose their own expiry
+const INVITATION_EXPIRY_DAYS = 14;
+
+// Something the user can fix, carrying the status to answer with
+export class InvitationError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = 'InvitationError';
+  }
+}
+
+const daysFromNow = (days: number): Date => new Date(Date.now() + days * 24 * 60 * 60 * 1000);
+
+export class InvitationService {
+  // Pending invitations past their expiry are only marked expired when someone next looks at them
+  async expireStale(filter: Record<string, unknown>): Promise<void> {
+    await Invitation.updateMany(
+      { ...filter, status: InvitationStatus.PENDING, expiresAt: { $lte: new Date() } },
+      { status: InvitationStatus.EXPIRED }
+    );
+  }
+
+  // Invite a registered user, or an email address. Addresses aren't verified when people register, so an email
+  // invitation never goes to whichever account claims the address; only the link in the email redeems it.
+  async invite(
+    notebook: INotebook,
+    invitedBy: string,
+    target: { userId?: string; email?: string },
+    role: InvitedRole
+  ): Promise<IInvitation> {
+    const email = target.email?.trim().toLowerCase();
+    const invitee = target.userId ? await User.findById(target.userId) : null;
+
+    if (target.userId && !invitee) {
+      throw new InvitationError('User not found', 404);
+    }
+    if (invitee && getNotebookRole(notebook, String(invitee._id))) {
+      throw new InvitationError('User is already a collaborator');
+    }
+
+    await this.expireStale({ notebook: notebook._id });
+    const addressee = invitee ? { invitee: invitee._id } : { email };
+    if (await Invitation.exists({ notebook: notebook._id, status: InvitationStatus.PENDING, ...addressee })) {
+      throw new InvitationError(`${invitee ? invitee.username : email} already has a pending invitation`, 409);
+    }
+
+    const invitation = await Invitation.create({
+      notebook: notebook._id,
+      kind: invitee ? InvitationKind.USER : InvitationKind.EMAIL,
+      ...addressee,
+      role,
+      token: crypto.randomBytes(24).toString('base64url'),
+      invitedBy,
+      expiresAt: daysFromNow(INVITATION_EXPIRY_DAYS),
+    });
+
+    if (!invitee) {
+      await this.sendInvitationEmail(invitation, notebook, invitedBy);
+    }
+    await new EventBus().publish('collaborator.invited', { notebookId: String(notebook._id), userId: invitedBy, invitation });
+
+    return invitation;
+  }
+
+  // A link anyone signed in may use to join, as often as they like, until it expires or is revoked
+  async createLink(notebook: INotebook, invitedBy: string, role: InvitedRole, expiresInDays: number): Promise<IInvitation> {
+    const invitation = await Invitation.create({
+      notebook: notebook._id,
+      kind: InvitationKind.LINK,
+      role,
+      token: crypto.randomBytes(24).toString('base64url'),
+      invitedBy,
+      expiresAt: daysFromNow(expiresInDays),
+    });
+
+    await new EventBus().publish('collaborator.invited', { notebookId: String(notebook._id), userId: invitedBy, invitation });
+
+    return invitation;
+  }
+
+  async findByToken(token: string): Promise<IInvitation | null> {
+    await this.expireStale({ token });
+    return Invitation.findOne({ token });
+  }
+
+  // Invitations sent to this user's account and waiting for their answer
+  async pendingFor(user: IUser): Promise<IInvitation[]> {
+    const addressedTo = { invitee: user._id, status: InvitationStatus.PENDING };
+    await this.expireStale(addressedTo);
+    return Invitation.find(addressedTo)
+      .populate('notebook', 'name description courseName courseCode')
+      .populate('invitedBy', 'username name')
+      .sort({ createdAt: -1 });
+  }
+
+  async accept(invitation: IInvitation, user: IUser): Promise<INotebook> {
+    this.checkAnswerable(invitation, user);
+
+    const notebook = await Notebook.findById(invitation.notebook);
+    if (!notebook) {
+      throw new InvitationError('The notebook no longer exists', 404);
+    }
+    if (getNotebookRole(notebook, String(user._id))) {
+      throw new InvitationError('You already have access to this notebook');
+    }
+
+    notebook.collaborators.push({
+      user: user._id as mongoose.Types.ObjectId,
+      role: invitation.role,
+      addedAt: new Date(),
+    });
+    await notebook.save();
+
+    if (invitation.kind === InvitationKind.LINK) {
+      invitation.uses += 1;
+    } else {
+      invitation.status = InvitationStatus.ACCEPTED;
+      invitation.invitee = user._id as mongoose.Types.ObjectId;
+      invitation.respondedAt = new Date();
+    }
+    await invitation.save();
+
+    await new EventBus().publish('collaborator.added', {
+      notebookId: String(notebook._id),
+      userId: String(user._id),
+      collaboratorId: String(user._id),
+      role: invitation.role,
+    });
+
+    return notebook;
+  }
+
+  async decline(invitation: IInvitation, user: IUser): Promise<void> {
+    if (invitation.kind === InvitationKind.LINK) {
+      throw new InvitationError('Invite links cannot be declined');
+    }
+    this.checkAnswerable(invitation, user);
+
+    invitation.status = InvitationStatus.DECLINED;
+    invitation.respondedAt = new Date();
+    await invitation.save();
+  }
+
+  // Only pending invitations can be answered. One sent to an account can only be answered by that account; for
+  // email invitations and links, holding the token is what counts.
+  private checkAnswerable(invitation: IInvitation, user: IUser): void {
+    if (invitation.status === InvitationStatus.EXPIRED) {
+      throw new InvitationError('This invitation has expired', 410);
+    }
+    if (invitation.status !== InvitationStatus.PENDING) {
+      throw new InvitationError(`This invitation was already ${invitation.status}`, 410);
+    }
+    if (invitation.kind === InvitationKind.USER && invitation.invitee?.toString() !== String(user._id)) {
+      throw new InvitationError('This invitation was sent to someone else', 403);
+    }
+  }
+
+  // People without an account hear about the invitation only by email, so a failure here is logged, not fatal
+  private async sendInvitationEmail(invitation: IInvitation, notebook: INotebook, invitedBy: string): Promise<void> {
+    const inviter = await User.findById(invitedBy).select('username name');
+    try {
+      await new MailService().send({
+        to: invitation.email!,
+        ...invitationEmail(inviter?.name || inviter?.username || 'Someone', notebook.name, invitation.role, invitation.token),
+      });
+    } catch (error) {
+      logger.error(`Failed to email an invitation to ${invitation.email}:`, error);
+    }
+  }
+}
@@ -0,0 +1,38 @@
+import nodemailer, { Transporter } from 'nodemailer';
+import { config } from '../config/config';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+}
+
+// One pooled SMTP connection for the whole process, opened on first use
+let transporter: Transporter | null = null;
+
+const getTransporter = (): Transporter => {
+  if (!transporter) {
+    transporter = nodemailer.createTransport({
+      host: config.smtpHost,
+      port: config.smtpPort,
+      secure: config.smtpSecure,
+      auth: config.smtpUser ? { user: config.smtpUser, pass: config.smtpPass } : undefined,
+      pool: true,
+    });
+  }
+  return transporter;
+};
+
+export class MailService {
+  isEnabled(): boolean {
+    return Boolean(config.smtpHost);
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    if (!this.isEnabled()) {
+      return;
+    }
+    await getTransporter().sendMail({ from: config.mailFrom, ...message });
+  }
+}
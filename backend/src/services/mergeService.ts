@@ -0,0 +1,126 @@
+import mongoose from 'mongoose';
+import Commit from '../models/Commit';
+import Notebook from '../models/Notebook';
+import Branch, { IBranch } from '../models/Branch';
+import PullRequest, { IPullRequest, PullRequestStatus } from '../models/PullRequest';
+import { GitService } from './gitService';
+import { SearchService } from './searchService';
+import { EventBus } from './eventBus';
+
+export interface MergeRecordData {
+  notebookId: string;
+  userId: string;
+  targetBranch: IBranch;
+  previousHead: string;
+  mergeHash: string;
+  message: string;
+  description?: string;
+}
+
+export class MergeService {
+  constructor(private gitService: GitService) {}
+
+  // Mirror a merge commit in the database so it shows up in the target branch history
+  async recordMergeCommit(data: MergeRecordData): Promise<void> {
+    if (data.mergeHash !== data.previousHead) {
+      const filesChanged = await this.gitService.getDiffStats(data.previousHead, data.mergeHash);
+      await Commit.create({
+        hash: data.mergeHash,
+        message: data.message,
+        description: data.description,
+        author: data.userId,
+        notebook: data.notebookId,
+        branch: data.targetBranch._id,
+        parentHash: data.previousHead,
+        filesChanged,
+        additions: filesChanged.reduce((sum, f) => sum + f.additions, 0),
+        deletions: filesChanged.reduce((sum, f) => sum + f.deletions, 0),
+        timestamp: new Date(),
+      });
+    }
+
+    data.targetBranch.lastCommitHash = data.mergeHash;
+    await data.targetBranch.save();
+
+    const notebook = await Notebook.findById(data.notebookId);
+    if (notebook) {
+      new SearchService().queueBranchUpdate(data.notebookId, notebook.gitRepoPath, data.targetBranch.name);
+    }
+  }
+
+  // What to merge for a pull request. A branch from a fork is read from the copy last fetched into this
+  // repository; pass refresh to fetch it again, which locks both repositories.
+  async getPullRequestSource(
+    pullRequest: IPullRequest,
+    options: { refresh?: boolean } = {}
+  ): Promise<{ ref: string; label: string } | null> {
+    const sourceBranch = await Branch.findById(pullRequest.sourceBranch);
+    if (!sourceBranch) {
+      return null;
+    }
+
+    if (!pullRequest.sourceNotebook) {
+      return { ref: sourceBranch.name, label: sourceBranch.name };
+    }
+
+    const sourceNotebook = await Notebook.findById(pullRequest.sourceNotebook);
+    if (!sourceNotebook) {
+      return null;
+    }
+
+    const ref = `refs/pull/${pullRequest._id}/head`;
+    if (options.refresh) {
+      await this.gitService.fetchFromNotebook(sourceNotebook.gitRepoPath, sourceBranch.name, ref);
+    } else if (!(await this.gitService.resolveCommit(ref).catch(() => null))) {
+      return null;
+    }
+    return { ref, label: `${sourceNotebook.name}:${sourceBranch.name}` };
+  }
+
+  // Take an open pull request for merging, so a concurrent merge of it stops here; null if it is no longer open.
+  // Give it back with releasePullRequest() unless markPullRequestMerged() follows.
+  async claimPullRequest(pullRequestId: unknown): Promise<IPullRequest | null> {
+    return PullRequest.findOneAndUpdate(
+      { _id: pullRequestId, status: PullRequestStatus.OPEN },
+      { status: PullRequestStatus.MERGED },
+      { new: true }
+    );
+  }
+
+  async releasePullRequest(pullRequestId: unknown): Promise<void> {
+    await PullRequest.updateOne(
+      { _id: pullRequestId, status: PullRequestStatus.MERGED, mergeCommitHash: null },
+      { status: PullRequestStatus.OPEN }
+    );
+  }
+
+  async markPullRequestMerged(
+    pullRequestId: unknown,
+    userId: string,
+    previousHead: string,
+    mergeHash: string,
+    sourceName: string,
+    targetName: string
+  ): Promise<void> {
+    const pullRequest = await PullRequest.findById(pullRequestId);
+    if (!pullRequest) {
+      return;
+    }
+
+    pullRequest.status = PullRequestStatus.MERGED;
+    pullRequest.mergedBy = new mongoose.Types.ObjectId(userId);
+    pullRequest.mergedAt = new Date();
+    pullRequest.mergeCommitHash = mergeHash;
+    pullRequest.previousTargetHash = previousHead;
+    await pullRequest.save();
+
+    await new EventBus().publish('pullRequest.merged', {
+      notebookId: pullRequest.notebook,
+      userId,
+      pullRequest,
+      sourceBranch: sourceName,
+      targetBranch: targetName,
+      commitHash: mergeHash,
+    });
+  }
+}
@@ -0,0 +1,40 @@
+import User from '../models/User';
+import { MailService } from './mailService';
+import { notificationEmail } from './emailTemplates';
+import { DeliveryChannel } from './notificationPreferenceService';
+import { NotificationInput } from './notificationService';
+import logger from '../utils/logger';
+
+// A way of reaching users beyond the in-app list. It gets only the notifications whose recipients chose it.
+export interface NotificationChannel {
+  name: DeliveryChannel;
+  deliver(notifications: NotificationInput[]): Promise<void>;
+}
+
+export class EmailChannel implements NotificationChannel {
+  name: DeliveryChannel = 'email';
+
+  async deliver(notifications: NotificationInput[]): Promise<void> {
+    const mailService = new MailService();
+    if (!mailService.isEnabled()) {
+      return;
+    }
+
+    const userIds = [...new Set(notifications.map((notification) => notification.user.toString()))];
+    const users = await User.find({ _id: { $in: userIds } }).select('email username name');
+    const usersById = new Map(users.map((user) => [String(user._id), user]));
+
+    for (const notification of notifications) {
+      const user = usersById.get(notification.user.toString());
+      if (!user) {
+        continue;
+      }
+
+      try {
+        await mailService.send({ to: user.email, ...notificationEmail(user.name || user.username, notification) });
+      } catch (error) {
+        logger.error(`Failed to email a ${notification.type} notification to ${user.email}:`, error);
+      }
+    }
+  }
+}
@@ -0,0 +1,79 @@
+import Notebook, { INotebook } from '../models/Notebook';
+import NotebookWatch, { WatchLevel } from '../models/NotebookWatch';
+import NotificationPreference, {
+  DEFAULT_EMAIL_TYPES,
+  DEFAULT_IN_APP_TYPES,
+  INotificationPreference,
+} from '../models/NotificationPreference';
+import { getNotebookRole } from '../middleware/permissions';
+import { NotificationInput } from './notificationService';
+
+export type DeliveryChannel = 'inApp' | 'email';
+
+export interface Delivery {
+  input: NotificationInput;
+  channels: DeliveryChannel[];
+}
+
+// Members of a notebook watch it unless they say otherwise; anyone else only hears about what involves them
+const defaultWatchLevel = (notebook: INotebook, userId: string): WatchLevel =>
+  getNotebookRole(notebook, userId) ? WatchLevel.WATCHING : WatchLevel.PARTICIPATING;
+
+const channelTypes = (preference: INotificationPreference | undefined) => ({
+  inApp: preference ? preference.inAppTypes : DEFAULT_IN_APP_TYPES,
+  email: preference ? preference.emailTypes : DEFAULT_EMAIL_TYPES,
+});
+
+export class NotificationPreferenceService {
+  async getWatchLevel(notebook: INotebook, userId: string): Promise<{ level: WatchLevel; isDefault: boolean }> {
+    const watch = await NotebookWatch.findOne({ user: userId, notebook: notebook._id });
+    return watch
+      ? { level: watch.level, isDefault: false }
+      : { level: defaultWatchLevel(notebook, userId), isDefault: true };
+  }
+
+  // Everyone who may want news of the whole notebook: its members, and anyone else watching it while they can
+  // still read it. resolve() then drops those who turned it down.
+  async watchers(notebook: INotebook): Promise<string[]> {
+    const watches = await NotebookWatch.find({ notebook: notebook._id, level: WatchLevel.WATCHING }).select('user');
+    const members = [notebook.owner, ...notebook.collaborators.map((collaborator) => collaborator.user)].map(String);
+    const others = notebook.isPublic ? watches.map((watch) => watch.user.toString()) : [];
+    return [...new Set([...members, ...others])];
+  }
+
+  // Work out which channels each notification goes out on, dropping those nobody should receive
+  async resolve(inputs: NotificationInput[]): Promise<Delivery[]> {
+    const userIds = [...new Set(inputs.map((input) => input.user.toString()))];
+    const notebookIds = [...new Set(inputs.filter((input) => input.relatedNotebook).map((input) => input.relatedNotebook!.toString()))];
+
+    const [preferences, watches, notebooks] = await Promise.all([
+      NotificationPreference.find({ user: { $in: userIds } }),
+      notebookIds.length > 0 ? NotebookWatch.find({ user: { $in: userIds }, notebook: { $in: notebookIds } }) : [],
+      notebookIds.length > 0 ? Notebook.find({ _id: { $in: notebookIds } }).select('owner collaborators') : [],
+    ]);
+
+    const preferencesByUser = new Map(preferences.map((preference) => [preference.user.toString(), preference]));
+    const watchLevels = new Map(watches.map((watch) => [`${watch.user}:${watch.notebook}`, watch.level]));
+    const notebooksById = new Map(notebooks.map((notebook) => [String(notebook._id), notebook]));
+
+    const deliveries: Delivery[] = [];
+    for (const input of inputs) {
+      const userId = input.user.toString();
+
+      const notebook = input.relatedNotebook ? notebooksById.get(input.relatedNotebook.toString()) : undefined;
+      if (notebook) {
+        const level = watchLevels.get(`${userId}:${notebook._id}`) || defaultWatchLevel(notebook, userId);
+        if (level === WatchLevel.IGNORING || (level === WatchLevel.PARTICIPATING && input.reason === 'watching')) {
+          continue;
+        }
+      }
+
+      const types = channelTypes(preferencesByUser.get(userId));
+      const channels = (Object.keys(types) as DeliveryChannel[]).filter((channel) => types[channel].includes(input.type));
+      if (channels.length > 0) {
+        deliveries.push({ input, channels });
+      }
+    }
+    return deliveries;
+  }
+}
@@ -0,0 +1,121 @@
+import { Response } from 'express';
+import mongoose from 'mongoose';
+import Notification, { INotification } from '../models/Notification';
+import { EmailChannel, NotificationChannel } from './notificationChannels';
+import { NotificationPreferenceService } from './notificationPreferenceService';
+import logger from '../utils/logger';
+
+type Ref = mongoose.Types.ObjectId | string;
+
+export type NotificationInput = Pick<INotification, 'type' | 'title' | 'message'> & {
+  user: Ref;
+  link?: string;
+  relatedNotebook?: Ref;
+  relatedUser?: Ref;
+  // 'participating' when it is about the recipient's own work (their pull request, their comment, their access);
+  // 'watching' when they only hear of it as a follower of the notebook
+  reason: NotificationReason;
+};
+
+export type NotificationReason = 'participating' | 'watching';
+
+// Proxies drop idle connections, so the stream sends a comment line this often
+const HEARTBEAT_INTERVAL = 25000;
+
+// Open notification streams by user id. They live in this process only, so with several
+// backend instances a user only hears about notifications created by the one they're connected to.
+const streams = new Map<string, Set<Response>>();
+
+// Delivery beyond the in-app list and its stream
+const channels: NotificationChannel[] = [new EmailChannel()];
+
+const send = (res: Response, event: string, data: unknown) => {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+};
+
+export class NotificationService {
+  // Deliver notifications on the channels each recipient chose for the type and the notebook. In-app ones are
+  // saved and pushed to the recipient's open streams.
+  async notify(inputs: NotificationInput | NotificationInput[]): Promise<INotification[]> {
+    const list = Array.isArray(inputs) ? inputs : [inputs];
+    if (list.length === 0) {
+      return [];
+    }
+
+    const deliveries = await new NotificationPreferenceService().resolve(list);
+    const inApp = deliveries.filter((delivery) => delivery.channels.includes('inApp'));
+
+    const notifications = inApp.length > 0 ? await Notification.create(inApp.map((delivery) => delivery.input)) : [];
+    await this.publish(notifications).catch((error) => logger.error('Failed to publish notifications:', error));
+
+    // Sending mail can be slow, so the request that caused the notification doesn't wait for it
+    for (const channel of channels) {
+      const outgoing = deliveries.filter((delivery) => delivery.channels.includes(channel.name));
+      if (outgoing.length === 0) {
+        continue;
+      }
+      channel
+        .deliver(outgoing.map((delivery) => delivery.input))
+        .catch((error) => logger.error(`Failed to deliver notifications by ${channel.name}:`, error));
+    }
+    return notifications;
+  }
+
+  // Hold the response open as a Server-Sent Events stream until the client goes away
+  subscribe(userId: string, res: Response): void {
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    });
+    res.write('retry: 5000\n\n');
+
+    let userStreams = streams.get(userId);
+    if (!userStreams) {
+      userStreams = new Set();
+      streams.set(userId, userStreams);
+    }
+    userStreams.add(res);
+
+    const heartbeat = setInterval(() => res.write(': ping\n\n'), HEARTBEAT_INTERVAL);
+
+    res.on('close', () => {
+      clearInterval(heartbeat);
+      userStreams!.delete(res);
+      if (userStreams!.size === 0) {
+        streams.delete(userId);
+      }
+    });
+  }
+
+  // Tell a user's other tabs that notifications were read or deleted
+  async publishUnreadCount(userId: string): Promise<void> {
+    const userStreams = streams.get(userId);
+    if (!userStreams) {
+      return;
+    }
+
+    const unreadCount = await Notification.countDocuments({ user: userId, isRead: false });
+    userStreams.forEach((res) => send(res, 'unread', { unreadCount }));
+  }
+
+  private async publish(notifications: INotification[]): Promise<void> {
+    const listening = notifications.filter((notification) => streams.has(notification.user.toString()));
+    if (listening.length === 0) {
+      return;
+    }
+
+    // Same shape as GET /api/notifications returns
+    await Notification.populate(listening, [
+      { path: 'relatedUser', select: 'username name' },
+      { path: 'relatedNotebook', select: 'name' },
+    ]);
+
+    for (const notification of listening) {
+      const userId = notification.user.toString();
+      const unreadCount = await Notification.countDocuments({ user: userId, isRead: false });
+      streams.get(userId)?.forEach((res) => send(res, 'notification', { notification, unreadCount }));
+    }
+  }
+}
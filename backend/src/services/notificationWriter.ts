@@ -0,0 +1,187 @@
+import { InvitationKind } from '../models/Invitation';
+import Notebook, { INotebook } from '../models/Notebook';
+import { ReviewVerdict } from '../models/Review';
+import User from '../models/User';
+import { DomainEvents, EventBus } from './eventBus';
+import { NotificationInput, NotificationService } from './notificationService';
+import { NotificationPreferenceService } from './notificationPreferenceService';
+
+const displayName = async (userId: unknown): Promise<string> => {
+  const user = await User.findById(userId).select('username name');
+  return user?.name || user?.username || 'Someone';
+};
+
+const verdictNotification: Record<ReviewVerdict, (title: string) => string> = {
+  [ReviewVerdict.APPROVE]: (title) => `Your pull request "${title}" was approved`,
+  [ReviewVerdict.REQUEST_CHANGES]: (title) => `Changes were requested on your pull request "${title}"`,
+  [ReviewVerdict.COMMENT]: (title) => `Your pull request "${title}" has a new review`,
+};
+
+// Send one notification to each user but the one who acted
+const notifyAllBut = (
+  actorId: unknown,
+  userIds: string[],
+  notification: (userId: string) => NotificationInput
+): Promise<unknown> =>
+  new NotificationService().notify(userIds.filter((userId) => userId !== String(actorId)).map(notification));
+
+// Commits reach everyone watching the notebook
+const notifyCommit = async (event: DomainEvents['commit.created'] | DomainEvents['commit.replayed']) => {
+  const notebook = await Notebook.findById(event.notebookId);
+  if (!notebook) {
+    return;
+  }
+  const [watchers, actor] = await Promise.all([new NotificationPreferenceService().watchers(notebook), displayName(event.userId)]);
+
+  await notifyAllBut(event.userId, watchers, (user) => ({
+    user,
+    type: 'commit_made',
+    title: 'New Commit',
+    message: `${actor} committed "${event.message}" to ${event.branch} in "${notebook.name}"`,
+    link: `/notebook/${notebook._id}/commits`,
+    relatedNotebook: event.notebookId,
+    relatedUser: event.userId,
+    reason: 'watching',
+  }));
+};
+
+// Stars and forks are news for the owner alone
+const notifyOwner = async (
+  event: DomainEvents['notebook.starred'],
+  notification: (notebook: INotebook, actor: string) => Pick<NotificationInput, 'type' | 'title' | 'message' | 'link'>
+) => {
+  const notebook = await Notebook.findById(event.notebookId);
+  if (!notebook) {
+    return;
+  }
+  const actor = await displayName(event.userId);
+
+  await notifyAllBut(event.userId, [notebook.owner.toString()], (user) => ({
+    user,
+    ...notification(notebook, actor),
+    relatedNotebook: event.notebookId,
+    relatedUser: event.userId,
+    reason: 'watching',
+  }));
+};
+
+// Turn domain events into notifications for the people they concern
+export const subscribeNotificationWriter = (): void => {
+  const bus = new EventBus();
+
+  bus.subscribe('commit.created', notifyCommit);
+  bus.subscribe('commit.replayed', notifyCommit);
+
+  bus.subscribe('notebook.starred', (event) =>
+    notifyOwner(event, (notebook, actor) => ({
+      type: 'notebook_starred',
+      title: 'Notebook Starred',
+      message: `${actor} starred "${notebook.name}"`,
+      link: `/notebook/${notebook._id}`,
+    }))
+  );
+
+  bus.subscribe('notebook.forked', (event) =>
+    notifyOwner(event, (notebook, actor) => ({
+      type: 'notebook_forked',
+      title: 'Notebook Forked',
+      message: `${actor} forked "${notebook.name}"`,
+      link: `/notebook/${event.forkId}`,
+    }))
+  );
+
+  // Addresses without an account are emailed by the invitation service, and links are shared by hand
+  bus.subscribe('collaborator.invited', async ({ invitation, ...event }) => {
+    if (invitation.kind !== InvitationKind.USER || !invitation.invitee) {
+      return;
+    }
+    const notebook = await Notebook.findById(event.notebookId);
+    if (!notebook) {
+      return;
+    }
+    const actor = await displayName(event.userId);
+
+    await new NotificationService().notify({
+      user: invitation.invitee,
+      type: 'collaborator_added',
+      title: 'Notebook Invitation',
+      message: `${actor} invited you to "${notebook.name}" as a ${invitation.role.toLowerCase()}`,
+      link: `/invite/${invitation.token}`,
+      relatedNotebook: event.notebookId,
+      relatedUser: event.userId,
+      reason: 'participating',
+    });
+  });
+
+  // The new owner has to accept, so they need to hear about the offer
+  bus.subscribe('ownership.transferRequested', async (event) => {
+    const notebook = await Notebook.findById(event.notebookId);
+    if (!notebook) {
+      return;
+    }
+    const actor = await displayName(event.userId);
+
+    await new NotificationService().notify({
+      user: event.toUserId,
+      type: 'collaborator_added',
+      title: 'Ownership Transfer',
+      message: `${actor} wants to make you the owner of "${notebook.name}"`,
+      link: `/notebook/${notebook._id}`,
+      relatedNotebook: event.notebookId,
+      relatedUser: event.userId,
+      reason: 'participating',
+    });
+  });
+
+  bus.subscribe('comment.created', async (event) => {
+    const { pullRequest } = event;
+    if (pullRequest) {
+      await notifyAllBut(event.userId, [pullRequest.author.toString()], (user) => ({
+        user,
+        type: 'comment_added',
+        title: 'New Comment',
+        message: `New comment on your pull request "${pullRequest.title}"`,
+        link: `/notebook/${event.notebookId}/pulls?pr=${pullRequest._id}`,
+        relatedNotebook: event.notebookId,
+        relatedUser: event.userId,
+        reason: 'participating',
+      }));
+      return;
+    }
+
+    const notebook = await Notebook.findById(event.notebookId);
+    if (!notebook) {
+      return;
+    }
+
+    // Whoever wrote the comment being replied to is part of the conversation; the rest follow the notebook
+    const repliedTo = event.parentAuthorId?.toString();
+    const watchers = await new NotificationPreferenceService().watchers(notebook);
+    const recipients = repliedTo ? [...new Set([...watchers, repliedTo])] : watchers;
+
+    await notifyAllBut(event.userId, recipients, (user) => ({
+      user,
+      type: 'comment_added',
+      title: 'New Comment',
+      message: `New comment on "${notebook.name}"`,
+      link: `/notebook/${notebook._id}`,
+      relatedNotebook: event.notebookId,
+      relatedUser: event.userId,
+      reason: user === repliedTo ? 'participating' : 'watching',
+    }));
+  });
+
+  bus.subscribe('pullRequest.reviewed', async (event) => {
+    const { pullRequest, review } = event;
+    await notifyAllBut(event.userId, [pullRequest.author.toString()], (user) => ({
+      user,
+      type: 'review_submitted',
+      title: 'New Review',
+      message: verdictNotification[review.verdict](pullRequest.title),
+      link: `/notebook/${event.notebookId}/pulls?pr=${pullRequest._id}`,
+      relatedNotebook: event.notebookId,
+      relatedUser: event.userId,
+      reason: 'participating',
+    }));
+  });
+};
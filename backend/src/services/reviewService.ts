@@ -0,0 +1,21 @@
+import Review, { IReview, ReviewVerdict } from '../models/Review';
+import { IPullRequest } from '../models/PullRequest';
+
+export class ReviewService {
+  // Each reviewer's latest approval or change request, oldest first. Plain comment reviews
+  // don't change where a reviewer stands, and the author can't review their own pull request.
+  async getVerdicts(pullRequest: IPullRequest): Promise<IReview[]> {
+    const reviews = await Review.find({
+      pullRequest: pullRequest._id,
+      author: { $ne: pullRequest.author },
+      verdict: { $ne: ReviewVerdict.COMMENT },
+    }).sort({ createdAt: 1 });
+
+    const latest = new Map<string, IReview>();
+    for (const review of reviews) {
+      latest.delete(review.author.toString());
+      latest.set(review.author.toString(), review);
+    }
+    return [...latest.values()];
+  }
+}
@@ -0,0 +1,209 @@
+import mongoose from 'mongoose';
+import Branch from '../models/Branch';
+import Commit from '../models/Commit';
+import SearchDocument from '../models/SearchDocument';
+import { GitService, BlobEntry } from './gitService';
+import { config } from '../config/config';
+import { withRepoLock } from '../utils/repoLock';
+
+const MARKDOWN_FILE = /\.(md|markdown)$/i;
+const MAX_INDEXED_SIZE = 512 * 1024;
+const SNIPPETS_PER_FILE = 3;
+const SNIPPET_LENGTH = 200;
+
+export interface SearchSnippet {
+  line: number;
+  text: string;
+  // [start, end) offsets into text
+  highlights: Array<[number, number]>;
+}
+
+export interface FileSearchResult {
+  notebook: { _id: mongoose.Types.ObjectId; name: string };
+  branch: string;
+  branches: string[];
+  path: string;
+  score: number;
+  snippets: SearchSnippet[];
+}
+
+export interface SearchNotebook {
+  _id: mongoose.Types.ObjectId;
+  name: string;
+}
+
+export interface SearchOptions {
+  branch?: string;
+  limit?: number;
+}
+
+// Words worth highlighting; excluded (-word) terms never appear in matches
+const searchTerms = (query: string): string[] => {
+  const words = query.replace(/(^|\s)-\S+/g, ' ').toLowerCase().match(/[\p{L}\p{N}_]+/gu) || [];
+  return [...new Set(words.filter((word) => word.length > 1))];
+};
+
+const findSnippets = (content: string, terms: string[]): SearchSnippet[] => {
+  const snippets: SearchSnippet[] = [];
+  const lines = content.split('\n');
+
+  for (let i = 0; i < lines.length && snippets.length < SNIPPETS_PER_FILE; i++) {
+    const line = lines[i];
+    const lower = line.toLowerCase();
+    const ranges: Array<[number, number]> = [];
+    for (const term of terms) {
+      for (let at = lower.indexOf(term); at !== -1; at = lower.indexOf(term, at + term.length)) {
+        ranges.push([at, at + term.length]);
+      }
+    }
+    if (ranges.length === 0) {
+      continue;
+    }
+
+    // Long lines are cut to a window starting a little before the first match
+    ranges.sort((a, b) => a[0] - b[0]);
+    const start = line.length > SNIPPET_LENGTH ? Math.max(0, ranges[0][0] - 40) : 0;
+    const end = start + SNIPPET_LENGTH;
+    snippets.push({
+      line: i + 1,
+      text: line.slice(start, end),
+      highlights: ranges
+        .filter(([from, to]) => from >= start && to <= end)
+        .map(([from, to]) => [from - start, to - start]),
+    });
+  }
+
+  return snippets;
+};
+
+export class SearchService {
+  // Bring a branch's entries up to date with its head, re-reading only the files changed since the last update
+  async updateBranch(notebookId: string, gitRepoPath: string, branchName: string): Promise<void> {
+    return withRepoLock(
+      `search:${notebookId}`,
+      async () => {
+        const branch = await Branch.findOne({ notebook: notebookId, name: branchName });
+        if (!branch) {
+          return;
+        }
+
+        const gitService = new GitService(gitRepoPath);
+        const head = await gitService.getBranchHead(branchName);
+        if (branch.indexedCommitHash === head) {
+          return;
+        }
+
+        let changes: BlobEntry[] | null = null;
+        if (branch.indexedCommitHash) {
+          // The old head may be gone if the branch was deleted and recreated; index it from scratch then
+          changes = await gitService.getChangedBlobs(branch.indexedCommitHash, head).catch(() => null);
+        }
+        if (!changes) {
+          await SearchDocument.deleteMany({ notebook: notebookId, branch: branchName });
+          changes = await gitService.listBlobs(head);
+        }
+
+        for (const change of changes.filter((c) => MARKDOWN_FILE.test(c.path))) {
+          const filter = { notebook: notebookId, branch: branchName, path: change.path };
+          const content = change.blob ? await gitService.readBlob(change.blob) : '';
+          if (!change.blob || content.length > MAX_INDEXED_SIZE) {
+            await SearchDocument.deleteOne(filter);
+            continue;
+          }
+          await SearchDocument.updateOne(filter, { blob: change.blob, content }, { upsert: true });
+        }
+
+        await Branch.updateOne({ _id: branch._id }, { indexedCommitHash: head });
+      },
+      config.gitLockTimeout
+    );
+  }
+
+  // Index after a commit without holding up the response; a failed update is retried by the next one
+  queueBranchUpdate(notebookId: string, gitRepoPath: string, branchName: string): void {
+    this.updateBranch(notebookId, gitRepoPath, branchName).catch((error) => {
+      console.error(`Failed to update search index for ${notebookId}:${branchName}:`, error);
+    });
+  }
+
+  async removeBranch(notebookId: string, branchName: string): Promise<void> {
+    await SearchDocument.deleteMany({ notebook: notebookId, branch: branchName });
+  }
+
+  async removeNotebook(notebookId: string): Promise<void> {
+    await SearchDocument.deleteMany({ notebook: notebookId });
+  }
+
+  // Ranked file matches in the given notebooks; a file identical on several branches is listed once
+  async searchFiles(notebooks: SearchNotebook[], query: string, options: SearchOptions = {}): Promise<FileSearchResult[]> {
+    const limit = options.limit || 30;
+    const names = new Map(notebooks.map((n) => [n._id.toString(), n.name]));
+
+    const filter: any = {
+      notebook: { $in: notebooks.map((n) => n._id) },
+      $text: { $search: query },
+    };
+    if (options.branch) {
+      filter.branch = options.branch;
+    }
+
+    const documents = await SearchDocument.find(filter, { score: { $meta: 'textScore' } })
+      .sort({ score: { $meta: 'textScore' } })
+      .limit(limit * 3)
+      .lean<Array<{ notebook: mongoose.Types.ObjectId; branch: string; path: string; blob: string; content: string; score: number }>>();
+
+    const defaultBranches = await Branch.find({
+      notebook: { $in: [...new Set(documents.map((d) => d.notebook.toString()))] },
+      isDefault: true,
+    }).lean();
+    const defaultBranchOf = new Map(defaultBranches.map((b) => [b.notebook.toString(), b.name]));
+
+    const terms = searchTerms(query);
+    const results = new Map<string, FileSearchResult>();
+    for (const document of documents) {
+      const notebookId = document.notebook.toString();
+      const key = `${notebookId}:${document.path}:${document.blob}`;
+      const existing = results.get(key);
+      if (existing) {
+        existing.branches.push(document.branch);
+        if (document.branch === defaultBranchOf.get(notebookId)) {
+          existing.branch = document.branch;
+        }
+        continue;
+      }
+      if (results.size === limit) {
+        continue;
+      }
+
+      results.set(key, {
+        notebook: { _id: document.notebook, name: names.get(notebookId) || '' },
+        branch: document.branch,
+        branches: [document.branch],
+        path: document.path,
+        score: document.score,
+        snippets: findSnippets(document.content, terms),
+      });
+    }
+
+    return [...results.values()];
+  }
+
+  async searchCommits(notebooks: SearchNotebook[], query: string, limit: number = 20) {
+    const names = new Map(notebooks.map((n) => [n._id.toString(), n.name]));
+
+    const commits = await Commit.find(
+      { notebook: { $in: notebooks.map((n) => n._id) }, $text: { $search: query } },
+      { score: { $meta: 'textScore' } }
+    )
+      .sort({ score: { $meta: 'textScore' } })
+      .limit(limit)
+      .populate('author', 'username name')
+      .populate('branch', 'name')
+      .lean();
+
+    return commits.map((commit) => ({
+      ...commit,
+      notebook: { _id: commit.notebook, name: names.get(commit.notebook.toString()) || '' },
+    }));
+  }
+}
@@ -0,0 +1,131 @@
+import mongoose from 'mongoose';
+import { INotebook } from '../models/Notebook';
+import Tag, { ITag } from '../models/Tag';
+import Release from '../models/Release';
+import Branch from '../models/Branch';
+import { IUser } from '../models/User';
+import { GitService, TagDetails } from './gitService';
+
+export interface TagSummary {
+  _id: mongoose.Types.ObjectId;
+  name: string;
+  description?: string;
+  color?: string;
+  commitHash: string;
+  createdBy?: mongoose.Types.ObjectId;
+  annotated: boolean;
+  tagger?: string;
+  date?: string;
+  createdAt: Date;
+}
+
+export interface CreateTagOptions {
+  name: string;
+  commitHash: string;
+  description?: string;
+  color?: string;
+}
+
+// Git's ref name rules, narrowed to names that also read well in URLs and archive file names
+export const isValidTagName = (name: string): boolean =>
+  /^[A-Za-z0-9][\w.-]*$/.test(name) && !name.includes('..') && !name.endsWith('.') && !name.endsWith('.lock');
+
+export class TagService {
+  // The commit a branch name, tag or hash refers to, defaulting to the default branch's head; null if there is none
+  async resolveRef(notebook: INotebook, ref?: string): Promise<string | null> {
+    if (!ref) {
+      const defaultBranch = await Branch.findOne({ notebook: notebook._id, isDefault: true });
+      ref = defaultBranch?.name || 'main';
+    }
+    return new GitService(notebook.gitRepoPath).resolveCommit(ref).catch(() => null);
+  }
+
+  // Tags as the repository has them, with the color and authorship their Tag documents add. Read-only;
+  // tags only show up here once syncTags() has seen them.
+  async listTags(notebook: INotebook): Promise<TagSummary[]> {
+    const gitTags = await new GitService(notebook.gitRepoPath).listTagDetails();
+    const records = new Map((await Tag.find({ notebook: notebook._id })).map((tag) => [tag.name, tag]));
+
+    return gitTags
+      .filter((gitTag) => records.has(gitTag.name))
+      .map((gitTag) => this.summarize(records.get(gitTag.name)!, gitTag))
+      .sort((a, b) => (b.date || '').localeCompare(a.date || ''));
+  }
+
+  // Bring Tag documents in line with the repository after git changed its tags wholesale, e.g. a fork or import.
+  // The repository decides which tags exist and what they point at.
+  async syncTags(notebook: INotebook): Promise<void> {
+    const gitTags = await new GitService(notebook.gitRepoPath).listTagDetails();
+    const records = new Map((await Tag.find({ notebook: notebook._id })).map((tag) => [tag.name, tag]));
+
+    for (const gitTag of gitTags) {
+      const tag = records.get(gitTag.name);
+      records.delete(gitTag.name);
+      if (!tag) {
+        await Tag.findOneAndUpdate(
+          { notebook: notebook._id, name: gitTag.name },
+          { $setOnInsert: { commitHash: gitTag.commitHash, description: gitTag.message } },
+          { upsert: true }
+        );
+      } else if (tag.commitHash !== gitTag.commitHash) {
+        tag.commitHash = gitTag.commitHash;
+        await tag.save();
+      }
+    }
+
+    // Whatever is left was deleted from the repository
+    const stale = [...records.values()].map((tag) => tag._id);
+    if (stale.length > 0) {
+      await Release.deleteMany({ tag: { $in: stale } });
+      await Tag.deleteMany({ _id: { $in: stale } });
+    }
+  }
+
+  async createTag(notebook: INotebook, user: IUser, options: CreateTagOptions): Promise<TagSummary> {
+    const gitService = new GitService(notebook.gitRepoPath);
+    await gitService.createTag(
+      options.name,
+      options.commitHash,
+      options.description || options.name,
+      user.name || user.username,
+      user.email
+    );
+
+    const tag = await Tag.findOneAndUpdate(
+      { notebook: notebook._id, name: options.name },
+      {
+        commitHash: options.commitHash,
+        description: options.description,
+        color: options.color,
+        createdBy: user._id,
+      },
+      { upsert: true, new: true, setDefaultsOnInsert: true }
+    );
+    const details = (await gitService.listTagDetails()).find((t) => t.name === options.name);
+    return this.summarize(tag!, details);
+  }
+
+  async deleteTag(notebook: INotebook, name: string): Promise<void> {
+    await new GitService(notebook.gitRepoPath).deleteTag(name);
+
+    const tag = await Tag.findOneAndDelete({ notebook: notebook._id, name });
+    if (tag) {
+      await Release.deleteMany({ tag: tag._id });
+    }
+  }
+
+  private summarize(tag: ITag, details?: TagDetails): TagSummary {
+    return {
+      _id: tag._id as mongoose.Types.ObjectId,
+      name: tag.name,
+      description: tag.description,
+      color: tag.color,
+      commitHash: tag.commitHash,
+      createdBy: tag.createdBy,
+      annotated: details?.annotated ?? true,
+      tagger: details?.tagger,
+      date: details?.date,
+      createdAt: tag.createdAt,
+    };
+  }
+}
@@ -0,0 +1,29 @@
+import { Response } from 'express';
+import { Readable } from 'stream';
+
+export type ArchiveFormat = 'zip' | 'tar.gz';
+
+export const ARCHIVE_FORMATS: ArchiveFormat[] = ['zip', 'tar.gz'];
+
+const contentTypes: Record<ArchiveFormat, string> = {
+  zip: 'application/zip',
+  'tar.gz': 'application/gzip',
+};
+
+// A file name safe to use in Content-Disposition and as the folder inside the archive
+export const archiveName = (...parts: string[]): string =>
+  parts
+    .map((part) => part.replace(/[^\w.-]+/g, '-').replace(/^-+|-+$/g, ''))
+    .filter((part) => part)
+    .join('-') || 'notebook';
+
+// Send an archive as a download; a failure mid-stream can only abort the connection, as the headers are already out
+export const sendArchive = (res: Response, stream: Readable, name: string, format: ArchiveFormat): void => {
+  res.set('Content-Type', contentTypes[format]);
+  res.attachment(`${name}.${format}`);
+  stream.on('error', (error) => {
+    console.error(`Failed to stream archive ${name}.${format}:`, error);
+    res.destroy(error);
+  });
+  stream.pipe(res);
+};
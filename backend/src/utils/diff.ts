@@ -0,0 +1,148 @@
+// Split a unified git diff into per-file chunks keyed by file path
+export const parseDiffByFile = (diffText: string): Map<string, string> => {
+  const fileMap = new Map<string, string>();
+
+  if (!diffText || diffText.length === 0) {
+    return fileMap;
+  }
+
+  const lines = diffText.split('\n');
+  let currentFile = '';
+  let currentDiff: string[] = [];
+
+  for (const line of lines) {
+    // Check for file headers like "diff --git a/file.txt b/file.txt"
+    if (line.startsWith('diff --git')) {
+      // Save previous file
+      if (currentFile && currentDiff.length > 0) {
+        fileMap.set(currentFile, currentDiff.join('\n'));
+      }
+
+      // Extract filename from "diff --git a/file.txt b/file.txt"
+      const match = line.match(/diff --git a\/(.+?) b\//);
+      currentFile = match ? match[1] : '';
+      currentDiff = [line];
+    } else if (currentFile) {
+      currentDiff.push(line);
+    }
+  }
+
+  // Save last file
+  if (currentFile && currentDiff.length > 0) {
+    fileMap.set(currentFile, currentDiff.join('\n'));
+  }
+
+  return fileMap;
+};
+
+export type ConflictSegment =
+  | { type: 'common'; lines: string[] }
+  | { type: 'conflict'; ours: string[]; base: string[]; theirs: string[] };
+
+// Split a file written with diff3-style conflict markers into common and conflicting segments.
+// Joining every segment's lines with "\n" (picking one side per conflict) rebuilds the file.
+export const parseConflictMarkers = (content: string): ConflictSegment[] => {
+  const segments: ConflictSegment[] = [];
+  let common: string[] = [];
+  let conflict: { ours: string[]; base: string[]; theirs: string[] } | null = null;
+  let side: 'ours' | 'base' | 'theirs' = 'ours';
+
+  for (const line of content.split('\n')) {
+    if (!conflict && line.startsWith('<<<<<<<')) {
+      if (common.length > 0) {
+        segments.push({ type: 'common', lines: common });
+        common = [];
+      }
+      conflict = { ours: [], base: [], theirs: [] };
+      side = 'ours';
+    } else if (conflict && side === 'ours' && line.startsWith('|||||||')) {
+      side = 'base';
+    } else if (conflict && side !== 'theirs' && line === '=======') {
+      side = 'theirs';
+    } else if (conflict && side === 'theirs' && line.startsWith('>>>>>>>')) {
+      segments.push({ type: 'conflict', ...conflict });
+      conflict = null;
+    } else if (conflict) {
+      conflict[side].push(line);
+    } else {
+      common.push(line);
+    }
+  }
+
+  // An unterminated conflict block is kept as plain text rather than dropped
+  if (conflict) {
+    common.push(...conflict.ours, ...conflict.base, ...conflict.theirs);
+  }
+  if (common.length > 0) {
+    segments.push({ type: 'common', lines: common });
+  }
+
+  return segments;
+};
+
+export interface SplitLine {
+  number: number;
+  text: string;
+  type: 'context' | 'deleted' | 'added';
+}
+
+// One row of a side-by-side diff; a side is null where the other side has a line with no counterpart
+export interface SplitRow {
+  left: SplitLine | null;
+  right: SplitLine | null;
+}
+
+export interface SplitHunk {
+  header: string;
+  rows: SplitRow[];
+}
+
+// Lay out one file's unified diff side by side, pairing each run of deleted lines with the added lines that replace it
+export const splitDiff = (fileDiff: string): SplitHunk[] => {
+  const hunks: SplitHunk[] = [];
+  let hunk: SplitHunk | null = null;
+  let oldLine = 0;
+  let newLine = 0;
+  let deleted: SplitLine[] = [];
+  let added: SplitLine[] = [];
+
+  const flush = () => {
+    for (let i = 0; i < Math.max(deleted.length, added.length); i++) {
+      hunk!.rows.push({ left: deleted[i] || null, right: added[i] || null });
+    }
+    deleted = [];
+    added = [];
+  };
+
+  for (const line of fileDiff.split('\n')) {
+    const header = line.match(/^@@ -(\d+)(?:,\d+)? \+(\d+)(?:,\d+)? @@/);
+    if (header) {
+      if (hunk) {
+        flush();
+      }
+      hunk = { header: line, rows: [] };
+      hunks.push(hunk);
+      oldLine = Number(header[1]);
+      newLine = Number(header[2]);
+    } else if (!hunk || line.startsWith('\\')) {
+      // File headers before the first hunk, and "\ No newline at end of file"
+      continue;
+    } else if (line.startsWith('-')) {
+      deleted.push({ number: oldLine++, text: line.slice(1), type: 'deleted' });
+    } else if (line.startsWith('+')) {
+      added.push({ number: newLine++, text: line.slice(1), type: 'added' });
+    } else if (line.startsWith(' ')) {
+      flush();
+      const text = line.slice(1);
+      hunk.rows.push({
+        left: { number: oldLine++, text, type: 'context' },
+        right: { number: newLine++, text, type: 'context' },
+      });
+    }
+  }
+  if (hunk) {
+    flush();
+  }
+
+  return hunks;
+};
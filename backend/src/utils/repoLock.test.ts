@@ -0,0 +1,85 @@
+import { Response } from 'express';
+import { withRepoLock, RepositoryBusyError } from './repoLock';
+import { handleRepositoryBusy } from '../middleware/errorHandler';
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe('withRepoLock', () => {
+  it('runs tasks for the same repository one at a time, in the order they asked', async () => {
+    const events: string[] = [];
+    const task = (name: string, ms: number) => async () => {
+      events.push(`${name} start`);
+      await sleep(ms);
+      events.push(`${name} end`);
+      return name;
+    };
+
+    const results = await Promise.all([
+      withRepoLock('fifo', task('a', 30), 1000),
+      withRepoLock('fifo', task('b', 10), 1000),
+      withRepoLock('fifo', task('c', 0), 1000),
+    ]);
+
+    expect(results).toEqual(['a', 'b', 'c']);
+    expect(events).toEqual(['a start', 'a end', 'b start', 'b end', 'c start', 'c end']);
+  });
+
+  it('lets different repositories run side by side', async () => {
+    const events: string[] = [];
+    await Promise.all([
+      withRepoLock('one', async () => {
+        events.push('one start');
+        await sleep(20);
+        events.push('one end');
+      }, 1000),
+      withRepoLock('two', async () => {
+        events.push('two start');
+      }, 1000),
+    ]);
+
+    expect(events).toEqual(['one start', 'two start', 'one end']);
+  });
+
+  it('does not wait on a lock the same call chain already holds', async () => {
+    const result = await withRepoLock('nested', () =>
+      withRepoLock('nested', () => withRepoLock('nested', async () => 'inner', 50), 50),
+      50
+    );
+
+    expect(result).toBe('inner');
+  });
+
+  it('releases the lock when a task fails', async () => {
+    await expect(withRepoLock('failing', async () => {
+      throw new Error('git failed');
+    }, 1000)).rejects.toThrow('git failed');
+
+    await expect(withRepoLock('failing', async () => 'next', 50)).resolves.toBe('next');
+  });
+
+  it('gives up with RepositoryBusyError after waiting too long, without holding up later tasks', async () => {
+    const slow = withRepoLock('busy', () => sleep(100), 1000);
+    const impatient = withRepoLock('busy', async () => 'never', 20);
+
+    await expect(impatient).rejects.toBeInstanceOf(RepositoryBusyError);
+
+    const patient = withRepoLock('busy', async () => 'after slow', 1000);
+    await slow;
+    await expect(patient).resolves.toBe('after slow');
+  });
+
+  it('is answered with 503 and Retry-After', () => {
+    const res = {
+      set: jest.fn().mockReturnThis(),
+      status: jest.fn().mockReturnThis(),
+      json: jest.fn().mockReturnThis(),
+    };
+
+    expect(handleRepositoryBusy(new RepositoryBusyError(), res as unknown as Response)).toBe(true);
+    expect(res.set).toHaveBeenCalledWith('Retry-After', '2');
+    expect(res.status).toHaveBeenCalledWith(503);
+    expect(res.json).toHaveBeenCalledWith(expect.objectContaining({ retryable: true }));
+
+    expect(handleRepositoryBusy(new Error('other'), res as unknown as Response)).toBe(false);
+  });
+});
@@ -0,0 +1,55 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+export class RepositoryBusyError extends Error {
+  constructor(message = 'The notebook is busy with another change. Please try again in a moment.') {
+    super(message);
+    this.name = 'RepositoryBusyError';
+  }
+}
+
+// Tail of each repository's queue; every waiter chains onto the one before it
+const queues = new Map<string, Promise<void>>();
+
+// Locks held by the current async call chain, so nested git operations don't wait on themselves
+const heldLocks = new AsyncLocalStorage<Set<string>>();
+
+// Run one task at a time per repository, giving up with RepositoryBusyError after waitMs
+export const withRepoLock = async <T>(key: string, task: () => Promise<T>, waitMs: number): Promise<T> => {
+  const held = heldLocks.getStore();
+  if (held?.has(key)) {
+    return task();
+  }
+
+  let release!: () => void;
+  const done = new Promise<void>((resolve) => {
+    release = resolve;
+  });
+
+  const previous = queues.get(key) || Promise.resolve();
+  const tail = previous.then(() => done);
+  queues.set(key, tail);
+
+  let timer: NodeJS.Timeout | undefined;
+  const acquired = await Promise.race([
+    previous.then(() => true),
+    new Promise<boolean>((resolve) => {
+      timer = setTimeout(() => resolve(false), waitMs);
+    }),
+  ]);
+  clearTimeout(timer);
+
+  if (!acquired) {
+    // Give up our place so the tasks queued behind us only wait for the ones ahead
+    release();
+    throw new RepositoryBusyError();
+  }
+
+  try {
+    return await heldLocks.run(new Set([...(held || []), key]), task);
+  } finally {
+    release();
+    if (queues.get(key) === tail) {
+      queues.delete(key);
+    }
+  }
+};
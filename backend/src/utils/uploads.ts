@@ -0,0 +1,5 @@
+import path from 'path';
+
+// Uploads are kept next to the notebook's files but never committed
+export const uploadDirectory = (gitRepoPath: string): string =>
+  path.join(process.cwd(), 'repos', gitRepoPath, 'uploads');
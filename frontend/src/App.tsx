@@ -1,4 +1,4 @@
-import { Routes, Route, Navigate } from 'react-router-dom';
+import { Routes, Route, Navigate, useLocation } from 'react-router-dom';
 import { useAuth } from './context/AuthContext';
 import Login from './pages/Login.tsx';
 import Register from './pages/Register.tsx';
@@ -7,9 +7,14 @@ import NotebookView from './pages/NotebookView.tsx';
 import Editor from './pages/Editor.tsx';
 import CommitHistory from './pages/CommitHistory.tsx';
 import Reader from './pages/Reader.tsx';
+import PullRequests from './pages/PullRequests.tsx';
+import Invite from './pages/Invite.tsx';
+import NotificationToasts from './components/common/NotificationToasts';
 
 function App() {
   const { isAuthenticated, loading } = useAuth();
+  const location = useLocation();
+  const from = (location.state as { from?: string } | null)?.from || '/dashboard';
 
   if (loading) {
     return (
@@ -20,37 +25,48 @@ function App() {
   }
 
   return (
-    <Routes>
-      <Route
-        path="/login"
-        element={isAuthenticated ? <Navigate to="/dashboard" /> : <Login />}
-      />
-      <Route
-        path="/register"
-        element={isAuthenticated ? <Navigate to="/dashboard" /> : <Register />}
-      />
-      <Route
-        path="/dashboard"
-        element={isAuthenticated ? <Dashboard /> : <Navigate to="/login" />}
-      />
-      <Route
-        path="/notebook/:id"
-        element={isAuthenticated ? <NotebookView /> : <Navigate to="/login" />}
-      />
-      <Route
-        path="/notebook/:id/editor"
-        element={isAuthenticated ? <Editor /> : <Navigate to="/login" />}
-      />
-      <Route
-        path="/notebook/:id/commits"
-        element={isAuthenticated ? <CommitHistory /> : <Navigate to="/login" />}
-      />
-      <Route
-        path="/notebook/:id/reader"
-        element={isAuthenticated ? <Reader /> : <Navigate to="/login" />}
-      />
-      <Route path="/" element={<Navigate to="/dashboard" />} />
-    </Routes>
+    <>
+      <Routes>
+        <Route
+          path="/login"
+          element={isAuthenticated ? <Navigate to={from} /> : <Login />}
+        />
+        <Route
+          path="/register"
+          element={isAuthenticated ? <Navigate to={from} /> : <Register />}
+        />
+        <Route
+          path="/dashboard"
+          element={isAuthenticated ? <Dashboard /> : <Navigate to="/login" />}
+        />
+        <Route
+          path="/notebook/:id"
+          element={isAuthenticated ? <NotebookView /> : <Navigate to="/login" />}
+        />
+        <Route
+          path="/notebook/:id/editor"
+          element={isAuthenticated ? <Editor /> : <Navigate to="/login" />}
+        />
+        <Route
+          path="/notebook/:id/commits"
+          element={isAuthenticated ? <CommitHistory /> : <Navigate to="/login" />}
+        />
+        <Route
+          path="/notebook/:id/reader"
+          element={isAuthenticated ? <Reader /> : <Navigate to="/login" />}
+        />
+        <Route
+          path="/notebook/:id/pulls"
+          element={isAuthenticated ? <PullRequests /> : <Navigate to="/login" />}
+        />
+        <Route
+          path="/invite/:token"
+          element={isAuthenticated ? <Invite /> : <Navigate to="/login" state={{ from: location.pathname }} />}
+        />
+        <Route path="/" element={<Navigate to="/dashboard" />} />
+      </Routes>
+      {isAuthenticated && <NotificationToasts />}
+    </>
   );
 }
 
@@ -0,0 +1,67 @@
+import { Link } from 'react-router-dom';
+import { formatDistanceToNow } from 'date-fns';
+import { BlameCommit } from '../../types';
+
+// A run of lines by one commit, positioned in pixels from the top of the gutter
+export interface BlameMark {
+  top: number;
+  height: number;
+  commit: BlameCommit;
+}
+
+interface BlameGutterProps {
+  marks: BlameMark[];
+  notebookId: string;
+  branch: string;
+  className?: string;
+}
+
+// One colour per author, so a shared notebook shows at a glance who wrote which parts
+const authorColor = (commit: BlameCommit) => {
+  const key = commit.user?._id || commit.authorEmail;
+  let hash = 0;
+  for (let i = 0; i < key.length; i++) {
+    hash = (hash * 31 + key.charCodeAt(i)) | 0;
+  }
+  return `hsl(${Math.abs(hash) % 360}, 65%, 55%)`;
+};
+
+export default function BlameGutter({ marks, notebookId, branch, className = '' }: BlameGutterProps) {
+  return (
+    <div className={`relative w-52 shrink-0 overflow-hidden text-xs print:hidden ${className}`}>
+      {marks.map((mark, index) => {
+        const { commit } = mark;
+        const author = commit.user?.name || commit.user?.username || commit.authorName;
+        const label = (
+          <>
+            <span className="block truncate font-medium text-slate-700 dark:text-slate-200">{author}</span>
+            <span className="block truncate text-slate-500 dark:text-slate-400">
+              {formatDistanceToNow(new Date(commit.date), { addSuffix: true })} · {commit.summary}
+            </span>
+          </>
+        );
+        // Runs only a line high show just the author
+        const itemClass = 'absolute left-0 right-0 pl-2 pr-1 overflow-hidden border-l-4 border-t border-t-slate-200/60 dark:border-t-slate-700/60 hover:bg-slate-100 dark:hover:bg-slate-800/60';
+        const style = { top: mark.top, height: mark.height, borderLeftColor: authorColor(commit) };
+        const title = `${author} <${commit.authorEmail}>\n${commit.hash.substring(0, 7)} ${commit.summary}`;
+
+        // Commits that never went through the app have no page in the history
+        return commit.recorded ? (
+          <Link
+            key={index}
+            to={`/notebook/${notebookId}/commits?branch=${encodeURIComponent(branch)}&commit=${commit.hash}`}
+            className={itemClass}
+            style={style}
+            title={title}
+          >
+            {label}
+          </Link>
+        ) : (
+          <div key={index} className={itemClass} style={style} title={title}>
+            {label}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,160 @@
+import { Fragment, ReactNode } from 'react';
+import { FileText, Plus, Minus, MessageSquarePlus } from 'lucide-react';
+import { DiffLineRef, FileChange, SplitHunk, SplitLine } from '../../types';
+import { diffLineRefs } from '../../lib/utils';
+
+interface DiffViewerProps {
+  path: string;
+  diff?: string;
+  additions?: number;
+  deletions?: number;
+  status?: FileChange['status'];
+  previousPath?: string;
+  binary?: boolean;
+  // Given instead of diff to show the change side by side
+  hunks?: SplitHunk[];
+  // Extra controls for the file, shown in the header
+  actions?: ReactNode;
+  // Unified diffs only: a button on each line, and content (e.g. comment threads) shown under a line
+  onLineClick?: (line: DiffLineRef) => void;
+  renderLineExtras?: (line: DiffLineRef) => ReactNode;
+}
+
+const statusStyles: Record<Exclude<FileChange['status'], 'modified' | undefined>, string> = {
+  added: 'bg-emerald-100 text-emerald-700 dark:bg-emerald-950/50 dark:text-emerald-400',
+  deleted: 'bg-rose-100 text-rose-700 dark:bg-rose-950/50 dark:text-rose-400',
+  renamed: 'bg-amber-100 text-amber-700 dark:bg-amber-950/50 dark:text-amber-400',
+};
+
+const splitCellStyles: Record<SplitLine['type'], string> = {
+  context: 'text-slate-300',
+  deleted: 'bg-rose-500/20 text-rose-300',
+  added: 'bg-emerald-500/20 text-emerald-300',
+};
+
+const SplitCells = ({ line }: { line: SplitLine | null }) =>
+  line ? (
+    <>
+      <td className={`px-2 text-right text-slate-500 select-none align-top ${splitCellStyles[line.type]}`}>{line.number}</td>
+      <td className={`px-2 py-0.5 whitespace-pre-wrap break-all align-top ${splitCellStyles[line.type]}`}>{line.text || ' '}</td>
+    </>
+  ) : (
+    <>
+      <td className="bg-slate-800/60" />
+      <td className="bg-slate-800/60" />
+    </>
+  );
+
+export default function DiffViewer({
+  path,
+  diff,
+  additions,
+  deletions,
+  status,
+  previousPath,
+  binary,
+  hunks,
+  actions,
+  onLineClick,
+  renderLineExtras,
+}: DiffViewerProps) {
+  const refs = diff && (onLineClick || renderLineExtras) ? diffLineRefs(diff) : [];
+
+  return (
+    <div className="border border-slate-200 dark:border-slate-700 rounded-xl overflow-hidden shadow-sm">
+      <div className="bg-gradient-to-r from-slate-50 to-slate-100 dark:from-slate-800 dark:to-slate-800/50 px-4 py-3 border-b border-slate-200 dark:border-slate-700 flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <FileText className="w-4 h-4 text-indigo-600 dark:text-indigo-400" />
+          <span className="text-sm font-semibold text-slate-700 dark:text-slate-300">
+            {previousPath && <span className="font-normal text-slate-500 dark:text-slate-400">{previousPath} → </span>}
+            {path}
+          </span>
+          {status && status !== 'modified' && (
+            <span className={`text-[10px] font-semibold uppercase tracking-wide px-1.5 py-0.5 rounded ${statusStyles[status]}`}>
+              {status}
+            </span>
+          )}
+        </div>
+        <div className="flex items-center gap-3">
+          {binary ? (
+            <span className="text-xs font-medium text-slate-500 dark:text-slate-400">Binary file</span>
+          ) : additions !== undefined && deletions !== undefined && (
+            <div className="flex items-center gap-3 text-xs">
+              <span className="flex items-center gap-1 text-emerald-600 dark:text-emerald-400 font-semibold">
+                <Plus className="w-3 h-3" />
+                {additions}
+              </span>
+              <span className="flex items-center gap-1 text-rose-600 dark:text-rose-400 font-semibold">
+                <Minus className="w-3 h-3" />
+                {deletions}
+              </span>
+            </div>
+          )}
+          {actions}
+        </div>
+      </div>
+
+      <div className="bg-slate-900 dark:bg-slate-950 p-4 overflow-x-auto">
+        {hunks && hunks.length > 0 ? (
+          <table className="w-full table-fixed text-xs font-mono leading-relaxed border-collapse">
+            <colgroup>
+              <col className="w-10" />
+              <col />
+              <col className="w-10" />
+              <col />
+            </colgroup>
+            <tbody>
+              {hunks.map((hunk, hunkIdx) => [
+                <tr key={`${hunkIdx}-header`}>
+                  <td colSpan={4} className="px-2 py-0.5 text-cyan-400 font-semibold">{hunk.header}</td>
+                </tr>,
+                ...hunk.rows.map((row, rowIdx) => (
+                  <tr key={`${hunkIdx}-${rowIdx}`}>
+                    <SplitCells line={row.left} />
+                    <SplitCells line={row.right} />
+                  </tr>
+                )),
+              ])}
+            </tbody>
+          </table>
+        ) : diff ? (
+          <pre className="text-xs font-mono leading-relaxed">
+            {diff.split('\n').map((line, lineIdx) => {
+              const ref = refs[lineIdx];
+              return (
+                <Fragment key={lineIdx}>
+                  <div
+                    className={`${
+                      line.startsWith('+')
+                        ? 'bg-emerald-500/20 text-emerald-300'
+                        : line.startsWith('-')
+                        ? 'bg-rose-500/20 text-rose-300'
+                        : line.startsWith('@@')
+                        ? 'text-cyan-400 font-semibold'
+                        : 'text-slate-300'
+                    } px-2 py-0.5 ${ref && onLineClick ? 'group relative pl-7' : ''}`}
+                  >
+                    {ref && onLineClick && (
+                      <button
+                        type="button"
+                        onClick={() => onLineClick(ref)}
+                        className="absolute left-1 top-0.5 hidden group-hover:block text-indigo-400 hover:text-indigo-300"
+                        title="Comment on this line"
+                      >
+                        <MessageSquarePlus className="w-3.5 h-3.5" />
+                      </button>
+                    )}
+                    {line || ' '}
+                  </div>
+                  {ref && renderLineExtras?.(ref)}
+                </Fragment>
+              );
+            })}
+          </pre>
+        ) : (
+          <p className="text-sm text-slate-400">No diff available</p>
+        )}
+      </div>
+    </div>
+  );
+}
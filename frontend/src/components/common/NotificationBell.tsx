@@ -1,49 +1,26 @@
-import { useState, useEffect } from 'react';
-import { Bell, X, Check } from 'lucide-react';
+import { useState } from 'react';
+import { Bell, Check, Settings } from 'lucide-react';
 import { Button } from '../ui/button';
-import api from '../../services/api';
 import { useNavigate } from 'react-router-dom';
+import { useNotifications, useMarkNotificationRead, useMarkAllNotificationsRead } from '../../hooks/useNotifications';
+import { UserNotification } from '../../types';
+import NotificationSettingsDialog from './NotificationSettingsDialog';
 
-interface Notification {
-  _id: string;
-  type: string;
-  title: string;
-  message: string;
-  link?: string;
-  isRead: boolean;
-  createdAt: string;
-  relatedUser?: { username: string; name: string };
-}
-
+// The list and unread count stay live through the stream opened by NotificationToasts
 export default function NotificationBell() {
   const [isOpen, setIsOpen] = useState(false);
-  const [notifications, setNotifications] = useState<Notification[]>([]);
-  const [unreadCount, setUnreadCount] = useState(0);
+  const [showSettings, setShowSettings] = useState(false);
   const navigate = useNavigate();
+  const { data } = useNotifications();
+  const markRead = useMarkNotificationRead();
+  const markAllRead = useMarkAllNotificationsRead();
 
-  useEffect(() => {
-    if (isOpen) {
-      fetchNotifications();
-    }
-  }, [isOpen]);
-
-  const fetchNotifications = async () => {
-    try {
-      const data = await api.getNotifications(false, 20);
-      setNotifications(data.notifications || []);
-      setUnreadCount(data.unreadCount || 0);
-    } catch (error) {
-      console.error('Error fetching notifications:', error);
-    }
-  };
+  const notifications = data?.notifications || [];
+  const unreadCount = data?.unreadCount || 0;
 
   const markAsRead = async (id: string) => {
     try {
-      await api.markNotificationAsRead(id);
-      setNotifications(prev =>
-        prev.map(n => n._id === id ? { ...n, isRead: true } : n)
-      );
-      setUnreadCount(prev => Math.max(0, prev - 1));
+      await markRead.mutateAsync(id);
     } catch (error) {
       console.error('Error marking notification as read:', error);
     }
@@ -51,15 +28,13 @@ export default function NotificationBell() {
 
   const markAllAsRead = async () => {
     try {
-      await api.markAllNotificationsAsRead();
-      setNotifications(prev => prev.map(n => ({ ...n, isRead: true })));
-      setUnreadCount(0);
+      await markAllRead.mutateAsync();
     } catch (error) {
       console.error('Error marking all as read:', error);
     }
   };
 
-  const handleNotificationClick = (notification: Notification) => {
+  const handleNotificationClick = (notification: UserNotification) => {
     if (!notification.isRead) {
       markAsRead(notification._id);
     }
@@ -95,17 +70,31 @@ export default function NotificationBell() {
               <h3 className="font-semibold text-slate-900 dark:text-slate-100">
                 Notifications
               </h3>
-              {unreadCount > 0 && (
+              <div className="flex items-center gap-1">
+                {unreadCount > 0 && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={markAllAsRead}
+                    className="text-xs"
+                  >
+                    <Check className="w-3 h-3 mr-1" />
+                    Mark all read
+                  </Button>
+                )}
                 <Button
                   variant="ghost"
                   size="sm"
-                  onClick={markAllAsRead}
+                  onClick={() => {
+                    setIsOpen(false);
+                    setShowSettings(true);
+                  }}
                   className="text-xs"
+                  title="Notification settings"
                 >
-                  <Check className="w-3 h-3 mr-1" />
-                  Mark all read
+                  <Settings className="w-3 h-3" />
                 </Button>
-              )}
+              </div>
             </div>
 
             {/* Notifications List */}
@@ -147,6 +136,8 @@ export default function NotificationBell() {
           </div>
         </>
       )}
+
+      <NotificationSettingsDialog open={showSettings} onOpenChange={setShowSettings} />
     </div>
   );
 }
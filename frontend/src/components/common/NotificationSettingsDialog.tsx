@@ -0,0 +1,141 @@
+import { useEffect, useState } from 'react';
+import { useNotificationPreferences, useUpdateNotificationPreferences } from '../../hooks/useNotifications';
+import { DigestFrequency, NotificationPreferences, NotificationType } from '../../types';
+import { Button } from '../ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogFooter } from '../ui/dialog';
+import { Label } from '../ui/label';
+
+interface NotificationSettingsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+type ChannelKey = 'inAppTypes' | 'emailTypes';
+
+const CHANNELS: Array<{ key: ChannelKey; label: string }> = [
+  { key: 'inAppTypes', label: 'In app' },
+  { key: 'emailTypes', label: 'Email' },
+];
+
+const TYPES: Array<{ type: NotificationType; label: string }> = [
+  { type: 'collaborator_added', label: 'Someone invites me to a notebook' },
+  { type: 'review_submitted', label: 'My pull request gets a review' },
+  { type: 'comment_added', label: 'Someone comments on my notebooks or pull requests' },
+  { type: 'notebook_forked', label: 'Someone forks my notebook' },
+  { type: 'notebook_starred', label: 'Someone stars my notebook' },
+  { type: 'commit_made', label: 'Someone commits to my notebook' },
+];
+
+const DIGESTS: Array<{ value: DigestFrequency; label: string }> = [
+  { value: 'off', label: 'No digest' },
+  { value: 'daily', label: 'Daily' },
+  { value: 'weekly', label: 'Weekly' },
+];
+
+const getErrorMessage = (error: unknown, fallback: string) => {
+  const err = error as { response?: { data?: { message?: string } }; message?: string };
+  return err?.response?.data?.message || err?.message || fallback;
+};
+
+export default function NotificationSettingsDialog({ open, onOpenChange }: NotificationSettingsDialogProps) {
+  const { data, isLoading } = useNotificationPreferences();
+  const updatePreferences = useUpdateNotificationPreferences();
+  const [preferences, setPreferences] = useState<NotificationPreferences>({ inAppTypes: [], emailTypes: [], digest: 'off' });
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (open && data) {
+      setPreferences(data.preferences);
+      setError('');
+    }
+  }, [open, data]);
+
+  const toggleType = (channel: ChannelKey, type: NotificationType, checked: boolean) => {
+    setPreferences((current) => ({
+      ...current,
+      [channel]: checked ? [...current[channel], type] : current[channel].filter((t) => t !== type),
+    }));
+  };
+
+  const handleSave = async () => {
+    try {
+      await updatePreferences.mutateAsync(preferences);
+      onOpenChange(false);
+    } catch (err) {
+      setError(getErrorMessage(err, 'Failed to save your notification settings'));
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Notification Settings</DialogTitle>
+          <DialogDescription>
+            Choose where each kind of notification reaches you. To quiet or follow a single notebook, use the watch menu on its page.
+            {data && !data.emailEnabled && ' This server is not set up to send email yet; your email choices are saved for when it is.'}
+          </DialogDescription>
+        </DialogHeader>
+        {isLoading ? (
+          <p className="text-sm text-slate-500">Loading...</p>
+        ) : (
+          <div className="space-y-5">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-slate-500 dark:text-slate-400">
+                  <th className="pb-2 font-medium">Notify me when</th>
+                  {CHANNELS.map((channel) => (
+                    <th key={channel.key} className="pb-2 px-2 font-medium text-center">{channel.label}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {TYPES.map((option) => (
+                  <tr key={option.type} className="border-t border-slate-100 dark:border-slate-800">
+                    <td className="py-2 text-slate-700 dark:text-slate-300">{option.label}</td>
+                    {CHANNELS.map((channel) => (
+                      <td key={channel.key} className="py-2 px-2 text-center">
+                        <input
+                          type="checkbox"
+                          aria-label={`${channel.label}: ${option.label}`}
+                          checked={preferences[channel.key].includes(option.type)}
+                          onChange={(e) => toggleType(channel.key, option.type, e.target.checked)}
+                          className="h-4 w-4 rounded border-input text-primary focus:ring-2 focus:ring-ring focus:ring-offset-2"
+                        />
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <div className="space-y-2">
+              <Label htmlFor="digestFrequency">Activity digest by email</Label>
+              <select
+                id="digestFrequency"
+                value={preferences.digest}
+                onChange={(e) => setPreferences({ ...preferences, digest: e.target.value as DigestFrequency })}
+                className="w-full h-9 px-3 text-sm bg-card text-foreground border border-border rounded-md"
+              >
+                {DIGESTS.map((option) => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+              <p className="text-xs text-slate-500 dark:text-slate-400">
+                A summary of what others did in the notebooks you own or collaborate on.
+              </p>
+            </div>
+            {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+          </div>
+        )}
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={isLoading || updatePreferences.isPending}>
+            {updatePreferences.isPending ? 'Saving...' : 'Save Settings'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
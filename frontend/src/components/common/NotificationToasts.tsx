@@ -0,0 +1,72 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Bell, X } from 'lucide-react';
+import { useNotificationStream, useMarkNotificationRead } from '../../hooks/useNotifications';
+import { UserNotification } from '../../types';
+
+const TOAST_DURATION = 6000;
+const MAX_TOASTS = 3;
+
+// Listens for notifications while signed in and pops each one up in the corner for a few seconds
+export default function NotificationToasts() {
+  const [toasts, setToasts] = useState<UserNotification[]>([]);
+  const timers = useRef(new Map<string, ReturnType<typeof setTimeout>>());
+  const navigate = useNavigate();
+  const markRead = useMarkNotificationRead();
+
+  const dismiss = useCallback((id: string) => {
+    clearTimeout(timers.current.get(id));
+    timers.current.delete(id);
+    setToasts((current) => current.filter((toast) => toast._id !== id));
+  }, []);
+
+  const show = useCallback(
+    (notification: UserNotification) => {
+      setToasts((current) => [notification, ...current.filter((toast) => toast._id !== notification._id)].slice(0, MAX_TOASTS));
+      timers.current.set(notification._id, setTimeout(() => dismiss(notification._id), TOAST_DURATION));
+    },
+    [dismiss]
+  );
+
+  useNotificationStream(show);
+
+  useEffect(() => {
+    const pending = timers.current;
+    return () => pending.forEach((timer) => clearTimeout(timer));
+  }, []);
+
+  const handleClick = (notification: UserNotification) => {
+    dismiss(notification._id);
+    markRead.mutate(notification._id);
+    if (notification.link) {
+      navigate(notification.link);
+    }
+  };
+
+  if (toasts.length === 0) return null;
+
+  return (
+    <div className="fixed bottom-4 right-4 z-50 w-80 space-y-2">
+      {toasts.map((notification) => (
+        <div
+          key={notification._id}
+          className="flex items-start gap-3 p-4 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-800 rounded-xl shadow-2xl"
+        >
+          <Bell className="w-4 h-4 mt-0.5 text-indigo-600 dark:text-indigo-400 flex-shrink-0" />
+          <button type="button" onClick={() => handleClick(notification)} className="flex-1 min-w-0 text-left">
+            <p className="font-medium text-sm text-slate-900 dark:text-slate-100">{notification.title}</p>
+            <p className="text-sm text-slate-600 dark:text-slate-400">{notification.message}</p>
+          </button>
+          <button
+            type="button"
+            onClick={() => dismiss(notification._id)}
+            className="text-slate-400 hover:text-slate-600 dark:hover:text-slate-200"
+            title="Dismiss"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+}
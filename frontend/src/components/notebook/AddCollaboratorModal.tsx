@@ -1,9 +1,17 @@
 import { useState } from 'react';
-import { X, Search, UserPlus, Loader2 } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { X, Search, UserPlus, Loader2, Mail, Link2, Copy, Trash2 } from 'lucide-react';
 import { Button } from '../ui/button';
 import { Input } from '../ui/input';
 import { Label } from '../ui/label';
 import AlertDialog, { AlertType } from '../common/AlertDialog';
+import {
+  useNotebookInvitations,
+  useInviteCollaborator,
+  useCreateInviteLink,
+  useRevokeInvitation,
+} from '../../hooks/useInvitations';
+import { Invitation } from '../../types';
 
 interface AddCollaboratorModalProps {
   isOpen: boolean;
@@ -12,6 +20,26 @@ interface AddCollaboratorModalProps {
   onSuccess: () => void;
 }
 
+const LINK_EXPIRY_OPTIONS = [
+  { days: 1, label: '1 day' },
+  { days: 7, label: '7 days' },
+  { days: 30, label: '30 days' },
+];
+
+const getErrorMessage = (error: unknown, fallback: string) => {
+  const err = error as { response?: { data?: { message?: string; errors?: Array<{ msg?: string }> } }; message?: string };
+  return err?.response?.data?.message || err?.response?.data?.errors?.[0]?.msg || err?.message || fallback;
+};
+
+const inviteUrl = (token: string) => `${window.location.origin}/invite/${token}`;
+
+const describeInvitation = (invitation: Invitation) => {
+  if (invitation.kind === 'link') {
+    return `Invite link · used ${invitation.uses || 0} time${invitation.uses === 1 ? '' : 's'}`;
+  }
+  return invitation.invitee?.username || invitation.email || 'Unknown';
+};
+
 export default function AddCollaboratorModal({
   isOpen,
   onClose,
@@ -21,12 +49,19 @@ export default function AddCollaboratorModal({
   const [searchQuery, setSearchQuery] = useState('');
   const [searchResults, setSearchResults] = useState<any[]>([]);
   const [isSearching, setIsSearching] = useState(false);
-  const [isAdding, setIsAdding] = useState(false);
   const [selectedRole, setSelectedRole] = useState<'VIEWER' | 'EDITOR'>('VIEWER');
+  const [inviteEmail, setInviteEmail] = useState('');
+  const [linkExpiryDays, setLinkExpiryDays] = useState(7);
   const [alert, setAlert] = useState<{ isOpen: boolean; message: string; type: AlertType; title?: string }>({ 
     isOpen: false, message: '', type: 'info' 
   });
 
+  const { data: invitationsData, isLoading: isLoadingInvitations } = useNotebookInvitations(notebookId, isOpen);
+  const inviteCollaborator = useInviteCollaborator();
+  const createInviteLink = useCreateInviteLink();
+  const revokeInvitation = useRevokeInvitation();
+  const invitations = invitationsData?.invitations || [];
+
   const handleSearch = async () => {
     if (!searchQuery.trim()) return;
 
@@ -56,39 +91,48 @@ export default function AddCollaboratorModal({
     }
   };
 
-  const handleAddCollaborator = async (userId: string) => {
-    setIsAdding(true);
+  // Nobody joins until they accept, so the modal stays open to show the invitation as pending
+  const handleInvite = async (target: { userId?: string; email?: string }) => {
     try {
-      const response = await fetch(
-        `http://localhost:5000/api/notebooks/${notebookId}/collaborators`,
-        {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            Authorization: `Bearer ${localStorage.getItem('token')}`,
-          },
-          body: JSON.stringify({
-            userId,
-            role: selectedRole,
-          }),
-        }
-      );
+      const { invitation } = await inviteCollaborator.mutateAsync({ notebookId, ...target, role: selectedRole });
+      onSuccess();
+      setSearchQuery('');
+      setSearchResults([]);
+      setInviteEmail('');
+      setAlert({
+        isOpen: true,
+        message: `Invitation sent to ${describeInvitation(invitation)}. They'll join once they accept.`,
+        type: 'success',
+      });
+    } catch (error) {
+      setAlert({ isOpen: true, message: getErrorMessage(error, 'Failed to send the invitation'), type: 'error' });
+    }
+  };
 
-      if (response.ok) {
-        onSuccess();
-        setSearchQuery('');
-        setSearchResults([]);
-        setAlert({ isOpen: true, message: 'Collaborator added successfully!', type: 'success' });
-        setTimeout(() => onClose(), 1500);
-      } else {
-        const error = await response.json();
-        setAlert({ isOpen: true, message: error.message || 'Failed to add collaborator', type: 'error' });
-      }
+  const handleCopy = async (invitation: Invitation) => {
+    if (!invitation.token) return;
+    try {
+      await navigator.clipboard.writeText(inviteUrl(invitation.token));
+      setAlert({ isOpen: true, message: 'Invite link copied to clipboard!', type: 'success' });
+    } catch {
+      setAlert({ isOpen: true, title: 'Invite link', message: inviteUrl(invitation.token), type: 'info' });
+    }
+  };
+
+  const handleCreateLink = async () => {
+    try {
+      const { invitation } = await createInviteLink.mutateAsync({ notebookId, role: selectedRole, expiresInDays: linkExpiryDays });
+      await handleCopy(invitation);
     } catch (error) {
-      console.error('Error adding collaborator:', error);
-      setAlert({ isOpen: true, message: 'Failed to add collaborator', type: 'error' });
-    } finally {
-      setIsAdding(false);
+      setAlert({ isOpen: true, message: getErrorMessage(error, 'Failed to create an invite link'), type: 'error' });
+    }
+  };
+
+  const handleRevoke = async (invitation: Invitation) => {
+    try {
+      await revokeInvitation.mutateAsync({ notebookId, invitationId: invitation._id });
+    } catch (error) {
+      setAlert({ isOpen: true, message: getErrorMessage(error, 'Failed to revoke the invitation'), type: 'error' });
     }
   };
 
@@ -101,10 +145,10 @@ export default function AddCollaboratorModal({
         <div className="flex items-center justify-between p-6 border-b border-slate-200 dark:border-slate-800 bg-gradient-to-r from-slate-50 to-transparent dark:from-slate-800/50">
           <div>
             <h2 className="text-2xl font-bold bg-gradient-to-r from-slate-900 to-slate-700 dark:from-slate-100 dark:to-slate-300 bg-clip-text text-transparent">
-              Add Collaborator
+              Invite Collaborators
             </h2>
             <p className="text-sm text-slate-600 dark:text-slate-400 mt-1">
-              Search and invite users to collaborate on this notebook
+              People join this notebook once they accept your invitation
             </p>
           </div>
           <button
@@ -210,19 +254,19 @@ export default function AddCollaboratorModal({
                         </div>
                       </div>
                       <Button
-                        onClick={() => handleAddCollaborator(user._id)}
-                        disabled={isAdding}
+                        onClick={() => handleInvite({ userId: user._id })}
+                        disabled={inviteCollaborator.isPending}
                         size="sm"
                       >
-                        {isAdding ? (
+                        {inviteCollaborator.isPending ? (
                           <>
                             <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-                            Adding...
+                            Inviting...
                           </>
                         ) : (
                           <>
                             <UserPlus className="w-4 h-4 mr-2" />
-                            Add
+                            Invite
                           </>
                         )}
                       </Button>
@@ -239,13 +283,131 @@ export default function AddCollaboratorModal({
                 </p>
               </div>
             )}
+
+            {/* Invite by Email */}
+            <div className="pt-4 border-t border-slate-200 dark:border-slate-800">
+              <Label htmlFor="inviteEmail" className="text-sm font-medium text-slate-700 dark:text-slate-300 mb-2 block">
+                Invite by Email
+              </Label>
+              <div className="flex gap-2">
+                <div className="relative flex-1">
+                  <Mail className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400" />
+                  <Input
+                    id="inviteEmail"
+                    type="email"
+                    placeholder="classmate@university.edu"
+                    value={inviteEmail}
+                    onChange={(e) => setInviteEmail(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && inviteEmail.trim() && handleInvite({ email: inviteEmail.trim() })}
+                    className="pl-10"
+                  />
+                </div>
+                <Button
+                  onClick={() => handleInvite({ email: inviteEmail.trim() })}
+                  disabled={inviteCollaborator.isPending || !inviteEmail.trim()}
+                  className="min-w-[100px]"
+                >
+                  Send
+                </Button>
+              </div>
+              <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">
+                Works for people who haven't signed up yet; they can accept after registering with this address.
+              </p>
+            </div>
+
+            {/* Invite Link */}
+            <div className="pt-4 border-t border-slate-200 dark:border-slate-800">
+              <Label htmlFor="linkExpiry" className="text-sm font-medium text-slate-700 dark:text-slate-300 mb-2 block">
+                Invite Link
+              </Label>
+              <div className="flex gap-2">
+                <select
+                  id="linkExpiry"
+                  value={linkExpiryDays}
+                  onChange={(e) => setLinkExpiryDays(Number(e.target.value))}
+                  className="flex-1 h-9 px-3 text-sm bg-card text-foreground border border-border rounded-md"
+                >
+                  {LINK_EXPIRY_OPTIONS.map((option) => (
+                    <option key={option.days} value={option.days}>Expires in {option.label}</option>
+                  ))}
+                </select>
+                <Button
+                  variant="outline"
+                  onClick={handleCreateLink}
+                  disabled={createInviteLink.isPending}
+                  className="min-w-[100px]"
+                >
+                  <Link2 className="w-4 h-4 mr-2" />
+                  Create link
+                </Button>
+              </div>
+              <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">
+                Anyone signed in who opens the link can join with the role selected above until it expires.
+              </p>
+            </div>
+
+            {/* Pending Invitations */}
+            <div className="pt-4 border-t border-slate-200 dark:border-slate-800">
+              <h3 className="text-sm font-semibold text-slate-700 dark:text-slate-300 mb-3">
+                Pending Invitations ({invitations.length})
+              </h3>
+              {isLoadingInvitations ? (
+                <p className="text-sm text-slate-500 dark:text-slate-400">Loading...</p>
+              ) : invitations.length === 0 ? (
+                <p className="text-sm text-slate-500 dark:text-slate-400">No pending invitations</p>
+              ) : (
+                <div className="space-y-2">
+                  {invitations.map((invitation) => (
+                    <div
+                      key={invitation._id}
+                      className="flex items-center justify-between gap-3 p-3 rounded-lg border border-slate-200 dark:border-slate-700"
+                    >
+                      <div className="flex items-center gap-3 min-w-0">
+                        {invitation.kind === 'link' ? (
+                          <Link2 className="w-4 h-4 text-slate-400 flex-shrink-0" />
+                        ) : invitation.kind === 'email' ? (
+                          <Mail className="w-4 h-4 text-slate-400 flex-shrink-0" />
+                        ) : (
+                          <UserPlus className="w-4 h-4 text-slate-400 flex-shrink-0" />
+                        )}
+                        <div className="min-w-0">
+                          <div className="text-sm font-medium text-slate-900 dark:text-slate-100 truncate">
+                            {describeInvitation(invitation)}
+                          </div>
+                          <div className="text-xs text-slate-500 dark:text-slate-400">
+                            {invitation.role === 'EDITOR' ? 'Editor' : 'Viewer'} · expires{' '}
+                            {formatDistanceToNow(new Date(invitation.expiresAt), { addSuffix: true })}
+                          </div>
+                        </div>
+                      </div>
+                      <div className="flex items-center gap-1 flex-shrink-0">
+                        {invitation.kind !== 'user' && (
+                          <Button variant="ghost" size="sm" onClick={() => handleCopy(invitation)} title="Copy invite link">
+                            <Copy className="w-4 h-4" />
+                          </Button>
+                        )}
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleRevoke(invitation)}
+                          disabled={revokeInvitation.isPending}
+                          title="Revoke invitation"
+                        >
+                          <Trash2 className="w-4 h-4 text-red-500" />
+                        </Button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
           </div>
         </div>
 
         {/* Footer */}
         <div className="flex justify-end gap-3 p-6 border-t border-slate-200 dark:border-slate-800 bg-slate-50 dark:bg-slate-800/50">
           <Button variant="outline" onClick={onClose}>
-            Cancel
+            Done
           </Button>
         </div>
       </div>
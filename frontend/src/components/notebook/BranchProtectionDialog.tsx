@@ -0,0 +1,122 @@
+import { useEffect, useState } from 'react';
+import { useUpdateBranchProtection, useRemoveBranchProtection } from '../../hooks/useBranches';
+import { Branch, BranchProtection } from '../../types';
+import { Button } from '../ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogFooter } from '../ui/dialog';
+import { Input } from '../ui/input';
+import { Label } from '../ui/label';
+import { AlertType } from '../common/AlertDialog';
+
+interface BranchProtectionDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  notebookId: string;
+  branch: Branch | null;
+  onMessage: (message: string, type: AlertType) => void;
+}
+
+// What a branch gets when it is first protected, matching the server's defaults
+const DEFAULT_PROTECTION: BranchProtection = {
+  requirePullRequest: true,
+  requiredApprovals: 0,
+  ownerOnlyDeletion: true,
+  allowForceOperations: false,
+};
+
+const RULES: Array<{ key: 'requirePullRequest' | 'ownerOnlyDeletion' | 'allowForceOperations'; label: string }> = [
+  { key: 'requirePullRequest', label: 'Require a pull request for every change (no direct commits, reverts or merges)' },
+  { key: 'ownerOnlyDeletion', label: 'Only the notebook owner can delete this branch' },
+  { key: 'allowForceOperations', label: 'Allow force-deleting it while it has unmerged commits' },
+];
+
+const getErrorMessage = (error: unknown, fallback: string) => {
+  const err = error as { response?: { data?: { message?: string } }; message?: string };
+  return err?.response?.data?.message || err?.message || fallback;
+};
+
+export default function BranchProtectionDialog({ open, onOpenChange, notebookId, branch, onMessage }: BranchProtectionDialogProps) {
+  const [protection, setProtection] = useState<BranchProtection>(DEFAULT_PROTECTION);
+  const updateProtection = useUpdateBranchProtection();
+  const removeProtection = useRemoveBranchProtection();
+
+  useEffect(() => {
+    if (open) setProtection(branch?.protection || DEFAULT_PROTECTION);
+  }, [open, branch]);
+
+  if (!branch) return null;
+
+  const handleSave = async () => {
+    try {
+      await updateProtection.mutateAsync({ notebookId, branchName: branch.name, protection });
+      onOpenChange(false);
+      onMessage(`Branch "${branch.name}" is now protected`, 'success');
+    } catch (err) {
+      onMessage(getErrorMessage(err, 'Failed to save the protection rules'), 'error');
+    }
+  };
+
+  const handleRemove = async () => {
+    try {
+      await removeProtection.mutateAsync({ notebookId, branchName: branch.name });
+      onOpenChange(false);
+      onMessage(`Branch "${branch.name}" is no longer protected`, 'success');
+    } catch (err) {
+      onMessage(getErrorMessage(err, 'Failed to remove the protection rules'), 'error');
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Protect <span className="font-mono">{branch.name}</span></DialogTitle>
+          <DialogDescription>
+            These rules apply to every collaborator, including editors who could otherwise commit to or delete the branch.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          {RULES.map((rule) => (
+            <div key={rule.key} className="flex items-center space-x-2">
+              <input
+                id={`protection-${rule.key}`}
+                type="checkbox"
+                checked={protection[rule.key]}
+                onChange={(e) => setProtection({ ...protection, [rule.key]: e.target.checked })}
+                className="h-4 w-4 rounded border-input text-primary focus:ring-2 focus:ring-ring focus:ring-offset-2"
+              />
+              <Label htmlFor={`protection-${rule.key}`} className="cursor-pointer font-normal">
+                {rule.label}
+              </Label>
+            </div>
+          ))}
+          <div className="space-y-2">
+            <Label htmlFor="requiredApprovals">Approvals needed to merge a pull request</Label>
+            <Input
+              id="requiredApprovals"
+              type="number"
+              min={0}
+              max={10}
+              value={protection.requiredApprovals}
+              onChange={(e) =>
+                setProtection({ ...protection, requiredApprovals: Math.min(10, Math.max(0, Number(e.target.value) || 0)) })
+              }
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          {branch.protection && (
+            <Button variant="outline" onClick={handleRemove} disabled={removeProtection.isPending} className="mr-auto">
+              {removeProtection.isPending ? 'Removing...' : 'Remove Protection'}
+            </Button>
+          )}
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={updateProtection.isPending}>
+            {updateProtection.isPending ? 'Saving...' : 'Save Rules'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,69 @@
+import { useEffect, useState } from 'react';
+import { Button } from '../ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogFooter } from '../ui/dialog';
+import { Label } from '../ui/label';
+
+interface CherryPickDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  commitHash: string;
+  commitMessage: string;
+  // Branches the commit could go to, i.e. every branch but the one being viewed
+  branches: string[];
+  isPending: boolean;
+  onConfirm: (branch: string) => void;
+}
+
+export default function CherryPickDialog({
+  open,
+  onOpenChange,
+  commitHash,
+  commitMessage,
+  branches,
+  isPending,
+  onConfirm,
+}: CherryPickDialogProps) {
+  const [branch, setBranch] = useState(branches[0] || '');
+
+  useEffect(() => {
+    if (open) setBranch(branches[0] || '');
+  }, [open, branches]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Cherry-pick Commit</DialogTitle>
+          <DialogDescription>
+            Apply the changes of <span className="font-mono">{commitHash.substring(0, 7)}</span> "{commitMessage}" as a new commit on another branch.
+          </DialogDescription>
+        </DialogHeader>
+        {branches.length > 0 ? (
+          <div className="space-y-2">
+            <Label htmlFor="cherryPickBranch">Onto branch</Label>
+            <select
+              id="cherryPickBranch"
+              value={branch}
+              onChange={(e) => setBranch(e.target.value)}
+              className="w-full h-9 px-3 text-sm bg-card text-foreground border border-border rounded-md"
+            >
+              {branches.map((name) => (
+                <option key={name} value={name}>{name}</option>
+              ))}
+            </select>
+          </div>
+        ) : (
+          <p className="text-sm text-slate-500 dark:text-slate-400">There is no other branch to cherry-pick onto.</p>
+        )}
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={() => onConfirm(branch)} disabled={!branch || isPending}>
+            {isPending ? 'Applying...' : 'Cherry-pick'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
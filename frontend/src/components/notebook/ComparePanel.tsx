@@ -0,0 +1,169 @@
+import { useState } from 'react';
+import { useCompare } from '../../hooks/useCommits';
+import DiffViewer from '../common/DiffViewer';
+import { DiffView } from '../../types';
+import { ArrowLeftRight, GitCompare, Plus, Minus } from 'lucide-react';
+
+export interface CompareDraft {
+  base: string;
+  head: string;
+  path: string;
+}
+
+interface ComparePanelProps {
+  notebookId: string;
+  branches: string[];
+  tags: string[];
+  draft: CompareDraft;
+  onDraftChange: (draft: CompareDraft) => void;
+}
+
+const getErrorMessage = (error: unknown, fallback: string) => {
+  const err = error as { response?: { data?: { message?: string } }; message?: string };
+  return err?.response?.data?.message || err?.message || fallback;
+};
+
+const inputClass =
+  'w-full px-3 py-2 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg text-sm text-slate-700 dark:text-slate-200 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent';
+
+export default function ComparePanel({ notebookId, branches, tags, draft, onDraftChange }: ComparePanelProps) {
+  const [view, setView] = useState<DiffView>('unified');
+  // Only compare when asked, not on every keystroke in the ref fields
+  const [comparison, setComparison] = useState<{ base: string; head: string; path?: string } | null>(null);
+  const { data, isLoading, error } = useCompare(notebookId, comparison, view);
+
+  const handleCompare = (e: React.FormEvent) => {
+    e.preventDefault();
+    const base = draft.base.trim();
+    const head = draft.head.trim();
+    if (!base || !head) return;
+    setComparison({ base, head, path: draft.path.trim() || undefined });
+  };
+
+  return (
+    <div className="space-y-4">
+      <form onSubmit={handleCompare} className="space-y-3">
+        <div className="flex items-end gap-2">
+          <label className="flex-1 space-y-1">
+            <span className="text-xs font-medium text-slate-500 dark:text-slate-400">Base</span>
+            <input
+              list="compare-refs"
+              value={draft.base}
+              onChange={(e) => onDraftChange({ ...draft, base: e.target.value })}
+              placeholder="Tag, branch or commit"
+              className={inputClass}
+            />
+          </label>
+          <button
+            type="button"
+            onClick={() => onDraftChange({ ...draft, base: draft.head, head: draft.base })}
+            className="p-2 mb-0.5 text-slate-500 hover:text-indigo-600 dark:hover:text-indigo-400 rounded-lg hover:bg-slate-100 dark:hover:bg-slate-800"
+            title="Swap base and head"
+          >
+            <ArrowLeftRight className="w-4 h-4" />
+          </button>
+          <label className="flex-1 space-y-1">
+            <span className="text-xs font-medium text-slate-500 dark:text-slate-400">Head</span>
+            <input
+              list="compare-refs"
+              value={draft.head}
+              onChange={(e) => onDraftChange({ ...draft, head: e.target.value })}
+              placeholder="Tag, branch or commit"
+              className={inputClass}
+            />
+          </label>
+        </div>
+        <datalist id="compare-refs">
+          {branches.map((name) => (
+            <option key={`branch-${name}`} value={name}>Branch</option>
+          ))}
+          {tags.map((name) => (
+            <option key={`tag-${name}`} value={name}>Tag</option>
+          ))}
+        </datalist>
+        <input
+          value={draft.path}
+          onChange={(e) => onDraftChange({ ...draft, path: e.target.value })}
+          placeholder="Limit to a file or folder (optional)"
+          className={inputClass}
+        />
+        <div className="flex items-center justify-between">
+          <div className="inline-flex rounded-lg border border-slate-200 dark:border-slate-700 overflow-hidden text-xs font-medium">
+            {(['unified', 'split'] as DiffView[]).map((option) => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => setView(option)}
+                className={`px-3 py-1.5 capitalize ${
+                  view === option
+                    ? 'bg-indigo-600 text-white'
+                    : 'bg-white dark:bg-slate-800 text-slate-600 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-700'
+                }`}
+              >
+                {option}
+              </button>
+            ))}
+          </div>
+          <button
+            type="submit"
+            disabled={!draft.base.trim() || !draft.head.trim()}
+            className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 text-white rounded-lg text-sm font-medium inline-flex items-center gap-2"
+          >
+            <GitCompare className="w-4 h-4" />
+            Compare
+          </button>
+        </div>
+      </form>
+
+      {!comparison ? (
+        <p className="text-sm text-slate-500 dark:text-slate-400 text-center py-8">
+          Pick two points, e.g. a tag and a branch, or use the Base and Head buttons in the timeline
+        </p>
+      ) : isLoading ? (
+        <div className="text-slate-500 dark:text-slate-400 text-sm text-center py-8">Comparing...</div>
+      ) : error ? (
+        <div className="text-sm text-rose-600 dark:text-rose-400 text-center py-8">
+          {getErrorMessage(error, 'Failed to compare')}
+        </div>
+      ) : data && (
+        <div className="space-y-4">
+          <div className="flex flex-wrap items-center gap-3 text-sm text-slate-600 dark:text-slate-400">
+            <span>
+              <span className="font-mono">{data.head.ref}</span> is {data.ahead} commit{data.ahead === 1 ? '' : 's'} ahead
+              and {data.behind} behind <span className="font-mono">{data.base.ref}</span>
+            </span>
+            <span className="text-slate-300 dark:text-slate-600">•</span>
+            <span>{data.files.length} file{data.files.length === 1 ? '' : 's'} changed</span>
+            <span className="flex items-center gap-1 text-emerald-600 dark:text-emerald-400 font-semibold">
+              <Plus className="w-3 h-3" />
+              {data.additions}
+            </span>
+            <span className="flex items-center gap-1 text-rose-600 dark:text-rose-400 font-semibold">
+              <Minus className="w-3 h-3" />
+              {data.deletions}
+            </span>
+          </div>
+          {data.files.length > 0 ? (
+            data.files.map((file) => (
+              <DiffViewer
+                key={file.path}
+                path={file.path}
+                diff={file.diff}
+                hunks={file.hunks}
+                additions={file.additions}
+                deletions={file.deletions}
+                status={file.status}
+                previousPath={file.previousPath}
+                binary={file.binary}
+              />
+            ))
+          ) : (
+            <div className="text-sm text-slate-500 dark:text-slate-400 text-center py-8">
+              No differences{data.path ? ` in ${data.path}` : ''}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
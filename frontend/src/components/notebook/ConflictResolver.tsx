@@ -0,0 +1,164 @@
+import { useEffect, useState } from 'react';
+import { ConflictFile } from '../../types';
+import { Button } from '../ui/button';
+import { Textarea } from '../ui/textarea';
+import { GitMerge, Trash2, Check } from 'lucide-react';
+
+type HunkChoice = 'ours' | 'theirs' | 'both' | 'custom';
+
+interface HunkResolution {
+  choice: HunkChoice | null;
+  text: string;
+}
+
+interface ConflictResolverProps {
+  conflict: ConflictFile;
+  oursLabel: string;
+  theirsLabel: string;
+  onResolve: (content: string | null) => void;
+  isResolving?: boolean;
+}
+
+export default function ConflictResolver({ conflict, oursLabel, theirsLabel, onResolve, isResolving }: ConflictResolverProps) {
+  const [resolutions, setResolutions] = useState<Record<number, HunkResolution>>({});
+
+  // Start over whenever a different file is opened
+  useEffect(() => {
+    setResolutions({});
+  }, [conflict.path]);
+
+  const hunkIndexes = conflict.segments
+    .map((segment, idx) => (segment.type === 'conflict' ? idx : -1))
+    .filter((idx) => idx !== -1);
+  const allChosen = hunkIndexes.every((idx) => resolutions[idx]?.choice);
+
+  const choose = (idx: number, choice: HunkChoice) => {
+    const segment = conflict.segments[idx];
+    if (segment.type !== 'conflict') return;
+
+    const lines =
+      choice === 'ours' ? segment.ours
+      : choice === 'theirs' ? segment.theirs
+      : choice === 'both' ? [...segment.ours, ...segment.theirs]
+      : resolutions[idx]?.text.split('\n') ?? segment.ours;
+
+    setResolutions((prev) => ({ ...prev, [idx]: { choice, text: lines.join('\n') } }));
+  };
+
+  const editHunk = (idx: number, text: string) => {
+    setResolutions((prev) => ({ ...prev, [idx]: { choice: 'custom', text } }));
+  };
+
+  const buildContent = () =>
+    conflict.segments
+      .map((segment, idx) => (segment.type === 'common' ? segment.lines.join('\n') : resolutions[idx]?.text ?? ''))
+      .join('\n');
+
+  const renderLines = (lines: string[], emptyText: string) =>
+    lines.length > 0 ? (
+      <pre className="text-xs font-mono leading-relaxed whitespace-pre-wrap">{lines.join('\n')}</pre>
+    ) : (
+      <p className="text-xs italic text-muted-foreground">{emptyText}</p>
+    );
+
+  return (
+    <div className="h-full flex flex-col">
+      <div className="px-4 py-3 border-b border-border bg-card flex items-center justify-between">
+        <div className="flex items-center gap-2 text-sm">
+          <GitMerge className="w-4 h-4 text-primary" />
+          <span className="font-semibold text-foreground">{conflict.path}</span>
+          <span className="text-muted-foreground">
+            {hunkIndexes.length} conflict{hunkIndexes.length === 1 ? '' : 's'}
+          </span>
+        </div>
+        <div className="flex items-center gap-2">
+          {conflict.deletedIn && (
+            <Button variant="outline" size="sm" onClick={() => onResolve(null)} disabled={isResolving}>
+              <Trash2 className="w-4 h-4 mr-1" />
+              Delete File
+            </Button>
+          )}
+          <Button size="sm" onClick={() => onResolve(buildContent())} disabled={!allChosen || isResolving}>
+            <Check className="w-4 h-4 mr-1" />
+            {isResolving ? 'Saving...' : 'Mark Resolved'}
+          </Button>
+        </div>
+      </div>
+
+      {conflict.deletedIn && (
+        <div className="px-4 py-2 text-xs bg-amber-50 dark:bg-amber-950/30 text-amber-800 dark:text-amber-300 border-b border-border">
+          This file was deleted on {conflict.deletedIn === 'ours' ? oursLabel : theirsLabel} but changed on{' '}
+          {conflict.deletedIn === 'ours' ? theirsLabel : oursLabel}. Keep one version or delete the file.
+        </div>
+      )}
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-3">
+        {conflict.segments.map((segment, idx) => {
+          if (segment.type === 'common') {
+            return (
+              <div key={idx} className="px-3 text-muted-foreground">
+                {renderLines(segment.lines, '')}
+              </div>
+            );
+          }
+
+          const resolution = resolutions[idx];
+
+          return (
+            <div key={idx} className="border border-border rounded-lg overflow-hidden">
+              <div className="grid grid-cols-2 divide-x divide-border">
+                <div className="p-3 bg-emerald-500/10">
+                  <div className="text-xs font-semibold text-emerald-700 dark:text-emerald-400 mb-2">
+                    Current ({oursLabel})
+                  </div>
+                  {renderLines(segment.ours, 'Deleted')}
+                </div>
+                <div className="p-3 bg-sky-500/10">
+                  <div className="text-xs font-semibold text-sky-700 dark:text-sky-400 mb-2">
+                    Incoming ({theirsLabel})
+                  </div>
+                  {renderLines(segment.theirs, 'Deleted')}
+                </div>
+              </div>
+
+              {segment.base.length > 0 && (
+                <details className="border-t border-border px-3 py-2 text-muted-foreground">
+                  <summary className="text-xs cursor-pointer">Common ancestor</summary>
+                  <div className="mt-2">{renderLines(segment.base, '')}</div>
+                </details>
+              )}
+
+              <div className="border-t border-border p-3 bg-card space-y-2">
+                <div className="flex flex-wrap items-center gap-2">
+                  {([
+                    ['ours', `Accept ${oursLabel}`],
+                    ['theirs', `Accept ${theirsLabel}`],
+                    ['both', 'Accept Both'],
+                    ['custom', 'Edit'],
+                  ] as [HunkChoice, string][]).map(([choice, label]) => (
+                    <Button
+                      key={choice}
+                      size="sm"
+                      variant={resolution?.choice === choice ? 'default' : 'outline'}
+                      onClick={() => choose(idx, choice)}
+                    >
+                      {label}
+                    </Button>
+                  ))}
+                </div>
+                {resolution && (
+                  <Textarea
+                    value={resolution.text}
+                    onChange={(e) => editHunk(idx, e.target.value)}
+                    rows={Math.min(Math.max(resolution.text.split('\n').length, 2), 12)}
+                    className="font-mono text-xs"
+                  />
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
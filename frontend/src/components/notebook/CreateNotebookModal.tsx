@@ -1,11 +1,19 @@
 import { useState } from 'react';
-import { useCreateNotebook } from '../../hooks/useNotebooks';
+import { useCreateNotebook, useImportNotebook } from '../../hooks/useNotebooks';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogFooter } from '../ui/dialog';
 import { Button } from '../ui/button';
 import { Input } from '../ui/input';
 import { Textarea } from '../ui/textarea';
 import { Label } from '../ui/label';
 
+type ImportSourceType = 'bundle' | 'zip' | 'path';
+
+const importSources: { value: ImportSourceType; label: string; hint: string }[] = [
+  { value: 'zip', label: 'ZIP of a folder', hint: 'A folder of Markdown notes, e.g. an Obsidian vault. A zipped git working copy keeps its history.' },
+  { value: 'bundle', label: 'Git bundle', hint: 'Created with "git bundle create notes.bundle --all"; every branch, tag and commit is kept.' },
+  { value: 'path', label: 'Server path', hint: 'A repository already on the server. Administrators only.' },
+];
+
 interface CreateNotebookModalProps {
   isOpen: boolean;
   onClose: () => void;
@@ -20,8 +28,14 @@ export default function CreateNotebookModal({ isOpen, onClose }: CreateNotebookM
     isPublic: false,
   });
   const [error, setError] = useState('');
+  const [mode, setMode] = useState<'create' | 'import'>('create');
+  const [sourceType, setSourceType] = useState<ImportSourceType>('zip');
+  const [importFile, setImportFile] = useState<File | null>(null);
+  const [importPath, setImportPath] = useState('');
 
   const createNotebook = useCreateNotebook();
+  const importNotebook = useImportNotebook();
+  const isPending = createNotebook.isPending || importNotebook.isPending;
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -32,9 +46,23 @@ export default function CreateNotebookModal({ isOpen, onClose }: CreateNotebookM
       return;
     }
 
+    if (mode === 'import' && (sourceType === 'path' ? !importPath.trim() : !importFile)) {
+      setError(sourceType === 'path' ? 'Enter the repository path' : 'Choose a file to import');
+      return;
+    }
+
     try {
-      await createNotebook.mutateAsync(formData);
+      if (mode === 'import') {
+        await importNotebook.mutateAsync({
+          data: formData,
+          source: sourceType === 'path' ? { type: 'path', path: importPath.trim() } : { type: sourceType, file: importFile! },
+        });
+      } else {
+        await createNotebook.mutateAsync(formData);
+      }
       onClose();
+      setImportFile(null);
+      setImportPath('');
       setFormData({
         name: '',
         description: '',
@@ -43,7 +71,7 @@ export default function CreateNotebookModal({ isOpen, onClose }: CreateNotebookM
         isPublic: false,
       });
     } catch (err: any) {
-      setError(err.response?.data?.message || 'Failed to create notebook');
+      setError(err.response?.data?.message || (mode === 'import' ? 'Failed to import notebook' : 'Failed to create notebook'));
     }
   };
 
@@ -59,13 +87,66 @@ export default function CreateNotebookModal({ isOpen, onClose }: CreateNotebookM
     <Dialog open={isOpen} onOpenChange={onClose}>
       <DialogContent className="sm:max-w-[500px]">
         <DialogHeader>
-          <DialogTitle>Create New Notebook</DialogTitle>
+          <DialogTitle>{mode === 'import' ? 'Import Notebook' : 'Create New Notebook'}</DialogTitle>
           <DialogDescription>
-            Create a new notebook to organize your notes and files.
+            {mode === 'import'
+              ? 'Bring in notes you already have, together with their history.'
+              : 'Create a new notebook to organize your notes and files.'}
           </DialogDescription>
         </DialogHeader>
 
         <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-1 p-1 bg-muted rounded-md">
+            {(['create', 'import'] as const).map((value) => (
+              <button
+                key={value}
+                type="button"
+                onClick={() => setMode(value)}
+                className={`py-1.5 text-sm rounded ${mode === value ? 'bg-background shadow-sm font-medium' : 'text-muted-foreground'}`}
+              >
+                {value === 'create' ? 'Start empty' : 'Import existing notes'}
+              </button>
+            ))}
+          </div>
+
+          {mode === 'import' && (
+            <div className="space-y-2">
+              <Label htmlFor="importSource">Import from</Label>
+              <select
+                id="importSource"
+                value={sourceType}
+                onChange={(e) => {
+                  setSourceType(e.target.value as ImportSourceType);
+                  setImportFile(null);
+                }}
+                className="w-full h-9 px-3 text-sm bg-card text-foreground border border-border rounded-md"
+              >
+                {importSources.map((source) => (
+                  <option key={source.value} value={source.value}>{source.label}</option>
+                ))}
+              </select>
+              <p className="text-xs text-muted-foreground">
+                {importSources.find((source) => source.value === sourceType)?.hint}
+              </p>
+              {sourceType === 'path' ? (
+                <Input
+                  id="importPath"
+                  value={importPath}
+                  onChange={(e) => setImportPath(e.target.value)}
+                  placeholder="/srv/git/course-notes.git"
+                />
+              ) : (
+                <Input
+                  id="importFile"
+                  key={sourceType}
+                  type="file"
+                  accept={sourceType === 'zip' ? '.zip' : '.bundle,.git'}
+                  onChange={(e) => setImportFile(e.target.files?.[0] || null)}
+                />
+              )}
+            </div>
+          )}
+
           <div className="space-y-2">
             <Label htmlFor="name">Notebook Name *</Label>
             <Input
@@ -141,8 +222,10 @@ export default function CreateNotebookModal({ isOpen, onClose }: CreateNotebookM
             <Button type="button" variant="outline" onClick={onClose}>
               Cancel
             </Button>
-            <Button type="submit" disabled={createNotebook.isPending}>
-              {createNotebook.isPending ? 'Creating...' : 'Create Notebook'}
+            <Button type="submit" disabled={isPending}>
+              {mode === 'import'
+                ? importNotebook.isPending ? 'Importing...' : 'Import Notebook'
+                : createNotebook.isPending ? 'Creating...' : 'Create Notebook'}
             </Button>
           </DialogFooter>
         </form>
@@ -0,0 +1,163 @@
+import { useEffect, useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { useExports, useCreateExport } from '../../hooks/useExports';
+import api from '../../services/api';
+import { saveBlob } from '../../lib/utils';
+import { ExportFormat, ExportJob } from '../../types';
+import { Button } from '../ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogFooter } from '../ui/dialog';
+import { Label } from '../ui/label';
+import { AlertType } from '../common/AlertDialog';
+import { Download, Loader2 } from 'lucide-react';
+
+interface ExportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  notebookId: string;
+  branch: string;
+  branches: string[];
+  onMessage: (message: string, type: AlertType) => void;
+}
+
+const FORMATS: Array<{ value: ExportFormat; label: string; description: string }> = [
+  { value: 'pdf', label: 'PDF', description: 'One printable document' },
+  { value: 'epub', label: 'EPUB', description: 'For e-readers' },
+  { value: 'html', label: 'HTML site', description: 'Linked pages, zipped' },
+];
+
+const getErrorMessage = (error: unknown, fallback: string) => {
+  const err = error as { response?: { data?: { message?: string } }; message?: string };
+  return err?.response?.data?.message || err?.message || fallback;
+};
+
+const formatSize = (bytes: number) =>
+  bytes < 1024 * 1024 ? `${Math.max(1, Math.round(bytes / 1024))} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+export default function ExportDialog({ open, onOpenChange, notebookId, branch, branches, onMessage }: ExportDialogProps) {
+  const [format, setFormat] = useState<ExportFormat>('pdf');
+  const [ref, setRef] = useState(branch);
+  const [downloading, setDownloading] = useState<string | null>(null);
+
+  const { data: exportsData } = useExports(notebookId, open);
+  const createExport = useCreateExport();
+  const exports: ExportJob[] = exportsData?.exports || [];
+
+  useEffect(() => {
+    if (open) setRef(branch);
+  }, [open, branch]);
+
+  const handleExport = async () => {
+    try {
+      await createExport.mutateAsync({ notebookId, format, ref });
+    } catch (err) {
+      onMessage(getErrorMessage(err, 'Failed to start the export'), 'error');
+    }
+  };
+
+  const handleDownload = async (job: ExportJob) => {
+    setDownloading(job._id);
+    try {
+      const blob = await api.downloadExport(notebookId, job._id);
+      saveBlob(blob, job.fileName || `notebook.${job.format}`);
+    } catch (err) {
+      onMessage(getErrorMessage(err, 'Failed to download the export'), 'error');
+    } finally {
+      setDownloading(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Export Book</DialogTitle>
+          <DialogDescription>
+            Render every note, in table-of-contents order, with math, highlighted code and images. A SUMMARY.md at the top of the notebook sets the order.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="grid grid-cols-3 gap-2">
+            {FORMATS.map((option) => (
+              <button
+                key={option.value}
+                type="button"
+                onClick={() => setFormat(option.value)}
+                className={`p-3 text-left rounded-lg border transition-colors ${
+                  format === option.value
+                    ? 'border-indigo-500 bg-indigo-50 dark:bg-indigo-500/10'
+                    : 'border-slate-200 dark:border-slate-700 hover:bg-slate-50 dark:hover:bg-slate-800'
+                }`}
+              >
+                <div className="text-sm font-medium text-slate-900 dark:text-slate-100">{option.label}</div>
+                <div className="text-xs text-slate-500 dark:text-slate-400">{option.description}</div>
+              </button>
+            ))}
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="exportRef">From branch</Label>
+            <select
+              id="exportRef"
+              value={ref}
+              onChange={(e) => setRef(e.target.value)}
+              className="w-full h-9 px-3 text-sm bg-card text-foreground border border-border rounded-md"
+            >
+              {branches.map((name) => (
+                <option key={name} value={name}>{name}</option>
+              ))}
+            </select>
+          </div>
+
+          {exports.length > 0 && (
+            <div className="space-y-2">
+              <Label>Recent exports</Label>
+              <div className="max-h-56 overflow-y-auto divide-y divide-slate-200 dark:divide-slate-800 border border-slate-200 dark:border-slate-800 rounded-lg">
+                {exports.map((job) => (
+                  <div key={job._id} className="flex items-center gap-3 px-3 py-2">
+                    <div className="flex-1 min-w-0">
+                      <div className="text-sm text-slate-900 dark:text-slate-100 truncate">
+                        {job.format.toUpperCase()} of <span className="font-mono">{job.ref}</span>
+                      </div>
+                      <div className="text-xs text-slate-500 dark:text-slate-400">
+                        {job.status === 'FAILED'
+                          ? <span className="text-red-600 dark:text-red-400">{job.error || 'Export failed'}</span>
+                          : job.status === 'COMPLETED'
+                            ? `${formatSize(job.fileSize || 0)} · ${formatDistanceToNow(new Date(job.completedAt || job.createdAt), { addSuffix: true })}`
+                            : job.status === 'QUEUED' ? 'Waiting to start' : `Rendering… ${job.progress}%`}
+                      </div>
+                      {job.status === 'RUNNING' && (
+                        <div className="mt-1 h-1 bg-slate-200 dark:bg-slate-700 rounded-full overflow-hidden">
+                          <div className="h-full bg-indigo-500 transition-all" style={{ width: `${job.progress}%` }} />
+                        </div>
+                      )}
+                    </div>
+                    {job.status === 'COMPLETED' ? (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleDownload(job)}
+                        disabled={downloading === job._id}
+                      >
+                        <Download className="w-4 h-4 mr-1" />
+                        {downloading === job._id ? 'Saving...' : 'Download'}
+                      </Button>
+                    ) : (job.status === 'QUEUED' || job.status === 'RUNNING') && (
+                      <Loader2 className="w-4 h-4 text-slate-400 animate-spin" />
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Close
+          </Button>
+          <Button onClick={handleExport} disabled={createExport.isPending}>
+            {createExport.isPending ? 'Starting...' : 'Export'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
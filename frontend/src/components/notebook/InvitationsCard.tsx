@@ -0,0 +1,83 @@
+import { useNavigate } from 'react-router-dom';
+import { formatDistanceToNow } from 'date-fns';
+import { Mail } from 'lucide-react';
+import { useMyInvitations, useRespondToInvitation } from '../../hooks/useInvitations';
+import { Invitation } from '../../types';
+import { Button } from '../ui/button';
+import { Card, CardHeader, CardTitle, CardContent } from '../ui/card';
+import { AlertType } from '../common/AlertDialog';
+
+interface InvitationsCardProps {
+  onMessage: (message: string, type: AlertType) => void;
+}
+
+const getErrorMessage = (error: unknown, fallback: string) => {
+  const err = error as { response?: { data?: { message?: string } }; message?: string };
+  return err?.response?.data?.message || err?.message || fallback;
+};
+
+// Notebooks the user was invited to and hasn't answered yet
+export default function InvitationsCard({ onMessage }: InvitationsCardProps) {
+  const navigate = useNavigate();
+  const { data } = useMyInvitations();
+  const respond = useRespondToInvitation();
+
+  const invitations: Invitation[] = data?.invitations || [];
+  if (invitations.length === 0) {
+    return null;
+  }
+
+  const handleRespond = async (invitation: Invitation, accept: boolean) => {
+    if (!invitation.token) return;
+    try {
+      const result = await respond.mutateAsync({ token: invitation.token, accept });
+      if (accept) {
+        navigate(`/notebook/${result.notebook._id}`);
+      } else {
+        onMessage('Invitation declined', 'info');
+      }
+    } catch (error) {
+      onMessage(getErrorMessage(error, `Failed to ${accept ? 'accept' : 'decline'} the invitation`), 'error');
+    }
+  };
+
+  return (
+    <Card className="mb-8 bg-white/80 dark:bg-slate-800/80 backdrop-blur-sm">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-lg flex items-center gap-2">
+          <Mail className="w-5 h-5 text-primary" />
+          Invitations ({invitations.length})
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {invitations.map((invitation) => {
+          const notebookName = typeof invitation.notebook === 'object' ? invitation.notebook.name : 'a notebook';
+          return (
+            <div
+              key={invitation._id}
+              className="flex items-center justify-between gap-4 p-3 rounded-lg border border-border"
+            >
+              <div className="min-w-0">
+                <p className="text-sm text-foreground truncate">
+                  <span className="font-semibold">{invitation.invitedBy.name || invitation.invitedBy.username}</span> invited
+                  you to <span className="font-semibold">"{notebookName}"</span> as {invitation.role === 'EDITOR' ? 'an editor' : 'a viewer'}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  Expires {formatDistanceToNow(new Date(invitation.expiresAt), { addSuffix: true })}
+                </p>
+              </div>
+              <div className="flex gap-2 flex-shrink-0">
+                <Button variant="outline" size="sm" onClick={() => handleRespond(invitation, false)} disabled={respond.isPending}>
+                  Decline
+                </Button>
+                <Button size="sm" onClick={() => handleRespond(invitation, true)} disabled={respond.isPending}>
+                  Accept
+                </Button>
+              </div>
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
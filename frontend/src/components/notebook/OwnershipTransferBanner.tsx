@@ -0,0 +1,80 @@
+import { Crown } from 'lucide-react';
+import { useRequestOwnershipTransfer, useRespondToOwnershipTransfer } from '../../hooks/useNotebooks';
+import { Notebook } from '../../types';
+import { Button } from '../ui/button';
+import { AlertType } from '../common/AlertDialog';
+
+interface OwnershipTransferBannerProps {
+  notebook: Notebook;
+  userId?: string;
+  isOwner: boolean;
+  onMessage: (message: string, type: AlertType) => void;
+}
+
+const getErrorMessage = (error: unknown, fallback: string) => {
+  const err = error as { response?: { data?: { message?: string } }; message?: string };
+  return err?.response?.data?.message || err?.message || fallback;
+};
+
+// Shown to the collaborator a notebook was offered to, so they can take it over, and to the owner while they wait
+export default function OwnershipTransferBanner({ notebook, userId, isOwner, onMessage }: OwnershipTransferBannerProps) {
+  const requestTransfer = useRequestOwnershipTransfer();
+  const respondToTransfer = useRespondToOwnershipTransfer();
+
+  const transfer = notebook.pendingOwnershipTransfer;
+  const isRecipient = !!transfer && transfer.to._id === userId;
+  if (!transfer || (!isOwner && !isRecipient)) {
+    return null;
+  }
+
+  const handleRespond = async (accept: boolean) => {
+    try {
+      await respondToTransfer.mutateAsync({ notebookId: notebook._id, accept });
+      onMessage(accept ? `You are now the owner of "${notebook.name}"` : 'Ownership transfer declined', accept ? 'success' : 'info');
+    } catch (error) {
+      onMessage(getErrorMessage(error, `Failed to ${accept ? 'accept' : 'decline'} the ownership transfer`), 'error');
+    }
+  };
+
+  const handleCancel = async () => {
+    try {
+      await requestTransfer.mutateAsync({ notebookId: notebook._id, userId: null });
+    } catch (error) {
+      onMessage(getErrorMessage(error, 'Failed to cancel the ownership transfer'), 'error');
+    }
+  };
+
+  return (
+    <div className="flex items-start gap-3 p-4 rounded-xl border-2 border-amber-200 dark:border-amber-800/60 bg-amber-50 dark:bg-amber-950/30">
+      <Crown className="w-5 h-5 text-amber-600 dark:text-amber-400 flex-shrink-0 mt-0.5" />
+      <div className="flex-1 space-y-3">
+        {isRecipient ? (
+          <>
+            <p className="text-sm text-slate-700 dark:text-slate-300">
+              <span className="font-semibold">{notebook.owner.name || notebook.owner.username}</span> wants to make you the
+              owner of this notebook. They will stay on as an editor.
+            </p>
+            <div className="flex gap-2">
+              <Button size="sm" onClick={() => handleRespond(true)} disabled={respondToTransfer.isPending}>
+                Accept ownership
+              </Button>
+              <Button size="sm" variant="outline" onClick={() => handleRespond(false)} disabled={respondToTransfer.isPending}>
+                Decline
+              </Button>
+            </div>
+          </>
+        ) : (
+          <>
+            <p className="text-sm text-slate-700 dark:text-slate-300">
+              Waiting for <span className="font-semibold">{transfer.to.name || transfer.to.username}</span> to accept ownership
+              of this notebook.
+            </p>
+            <Button size="sm" variant="outline" onClick={handleCancel} disabled={requestTransfer.isPending}>
+              Cancel transfer
+            </Button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,318 @@
+import { useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { useTags, useReleases, useCreateRelease, useDeleteRelease, useDeleteTag } from '../../hooks/useTags';
+import api from '../../services/api';
+import { saveBlob } from '../../lib/utils';
+import { ArchiveFormat, Release, Tag as TagType } from '../../types';
+import { Button } from '../ui/button';
+import { Card, CardHeader, CardTitle, CardContent } from '../ui/card';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogFooter } from '../ui/dialog';
+import { Input } from '../ui/input';
+import { Textarea } from '../ui/textarea';
+import { Label } from '../ui/label';
+import { AlertType } from '../common/AlertDialog';
+import ConfirmDialog from '../common/ConfirmDialog';
+import { Tag, Plus, Download, Trash2, X } from 'lucide-react';
+
+interface ReleasesCardProps {
+  notebookId: string;
+  notebookName: string;
+  branch: string;
+  branches: string[];
+  canEdit: boolean;
+  onMessage: (message: string, type: AlertType) => void;
+}
+
+const getErrorMessage = (error: unknown, fallback: string) => {
+  const err = error as { response?: { data?: { message?: string } }; message?: string };
+  return err?.response?.data?.message || err?.message || fallback;
+};
+
+// Same rules as the server: letters, digits, ".", "_" and "-", starting with a letter or digit
+const isValidTagName = (name: string) =>
+  /^[A-Za-z0-9][\w.-]*$/.test(name) && !name.includes('..') && !name.endsWith('.') && !name.endsWith('.lock');
+
+export default function ReleasesCard({ notebookId, notebookName, branch, branches, canEdit, onMessage }: ReleasesCardProps) {
+  const [showReleaseDialog, setShowReleaseDialog] = useState(false);
+  const [existingTag, setExistingTag] = useState<string | null>(null);
+  const [tagName, setTagName] = useState('');
+  const [title, setTitle] = useState('');
+  const [notes, setNotes] = useState('');
+  const [ref, setRef] = useState(branch);
+  const [downloading, setDownloading] = useState<string | null>(null);
+  const [confirm, setConfirm] = useState<{ isOpen: boolean; title: string; message: string; onConfirm: () => void }>({
+    isOpen: false,
+    title: '',
+    message: '',
+    onConfirm: () => {},
+  });
+
+  const { data: tagsData } = useTags(notebookId);
+  const { data: releasesData, isLoading } = useReleases(notebookId);
+  const createRelease = useCreateRelease();
+  const deleteRelease = useDeleteRelease();
+  const deleteTag = useDeleteTag();
+
+  const releases: Release[] = releasesData?.releases || [];
+  const releasedTags = new Set(releases.map((release) => release.tag?.name));
+  const unreleasedTags: TagType[] = (tagsData?.tags || []).filter((tag: TagType) => !releasedTags.has(tag.name));
+
+  const openReleaseDialog = (tag?: TagType) => {
+    setExistingTag(tag?.name || null);
+    setTagName(tag?.name || '');
+    setTitle(tag?.description && tag.description !== tag.name ? tag.description : '');
+    setNotes('');
+    setRef(branch);
+    setShowReleaseDialog(true);
+  };
+
+  const handleCreateRelease = async () => {
+    if (!isValidTagName(tagName) || !title.trim()) return;
+    try {
+      await createRelease.mutateAsync({
+        notebookId,
+        tag: tagName,
+        title: title.trim(),
+        notes: notes.trim() || undefined,
+        ref: existingTag ? undefined : ref,
+      });
+      setShowReleaseDialog(false);
+      onMessage(`Published release ${tagName}`, 'success');
+    } catch (err) {
+      onMessage(getErrorMessage(err, 'Failed to publish release'), 'error');
+    }
+  };
+
+  const handleDownload = async (release: Release, format: ArchiveFormat) => {
+    setDownloading(`${release.tag.name}:${format}`);
+    try {
+      const blob = await api.downloadReleaseSnapshot(notebookId, release.tag.name, format);
+      saveBlob(blob, `${notebookName.replace(/[^\w.-]+/g, '-')}-${release.tag.name}.${format}`);
+    } catch (err) {
+      onMessage(getErrorMessage(err, 'Failed to download snapshot'), 'error');
+    } finally {
+      setDownloading(null);
+    }
+  };
+
+  const confirmDeleteRelease = (release: Release) => {
+    setConfirm({
+      isOpen: true,
+      title: 'Delete Release',
+      message: `Delete the release "${release.title}"? The tag ${release.tag.name} is kept.`,
+      onConfirm: async () => {
+        try {
+          await deleteRelease.mutateAsync({ notebookId, tag: release.tag.name });
+        } catch (err) {
+          onMessage(getErrorMessage(err, 'Failed to delete release'), 'error');
+        }
+      },
+    });
+  };
+
+  const confirmDeleteTag = (tag: TagType) => {
+    setConfirm({
+      isOpen: true,
+      title: 'Delete Tag',
+      message: `Delete the tag ${tag.name}? The notes it points to stay in the history.`,
+      onConfirm: async () => {
+        try {
+          await deleteTag.mutateAsync({ notebookId, name: tag.name });
+        } catch (err) {
+          onMessage(getErrorMessage(err, 'Failed to delete tag'), 'error');
+        }
+      },
+    });
+  };
+
+  return (
+    <Card className="shadow-xl shadow-slate-200/50 dark:shadow-slate-950/50 border-slate-200/50 dark:border-slate-800/50">
+      <CardHeader className="border-b border-slate-100 dark:border-slate-800 bg-gradient-to-r from-slate-50 via-indigo-50/30 to-transparent dark:from-slate-800/50 dark:via-indigo-950/20 py-4">
+        <CardTitle className="flex items-center gap-2.5 text-base">
+          <div className="p-2 bg-indigo-100 dark:bg-indigo-950/50 rounded-lg">
+            <Tag className="w-4 h-4 text-indigo-600 dark:text-indigo-400" />
+          </div>
+          <span className="bg-gradient-to-r from-slate-900 to-slate-700 dark:from-slate-100 dark:to-slate-300 bg-clip-text text-transparent font-semibold">
+            Releases
+          </span>
+          <span className="ml-auto text-xs font-normal text-slate-500 dark:text-slate-400 bg-slate-100 dark:bg-slate-800 px-2 py-0.5 rounded-full">
+            {releases.length}
+          </span>
+          {canEdit && (
+            <Button size="sm" onClick={() => openReleaseDialog()} className="h-7 w-7 p-0 ml-2" title="New release">
+              <Plus className="w-3.5 h-3.5" />
+            </Button>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="p-4 space-y-3">
+        {isLoading ? (
+          <p className="text-sm text-slate-500 dark:text-slate-400">Loading releases...</p>
+        ) : releases.length === 0 ? (
+          <p className="text-sm text-slate-500 dark:text-slate-400">
+            No releases yet. Publish one to freeze the notes as they are, e.g. before an exam.
+          </p>
+        ) : (
+          releases.map((release) => (
+            <div key={release._id} className="p-3 rounded-xl border-2 border-slate-100 dark:border-slate-800 space-y-2">
+              <div className="flex items-start justify-between gap-2">
+                <div className="min-w-0">
+                  <p className="font-semibold text-sm text-slate-800 dark:text-slate-200 truncate">{release.title}</p>
+                  <p className="text-xs text-slate-500 dark:text-slate-400 flex items-center gap-1.5">
+                    <span className="w-2 h-2 rounded-full" style={{ backgroundColor: release.tag.color }} />
+                    <span className="font-mono">{release.tag.name}</span>
+                    <span>· {formatDistanceToNow(new Date(release.createdAt), { addSuffix: true })}</span>
+                  </p>
+                </div>
+                {canEdit && (
+                  <button
+                    onClick={() => confirmDeleteRelease(release)}
+                    className="p-1 text-slate-400 hover:text-red-600 dark:hover:text-red-400"
+                    title="Delete release"
+                  >
+                    <Trash2 className="w-3.5 h-3.5" />
+                  </button>
+                )}
+              </div>
+              {release.notes && (
+                <p className="text-xs text-slate-600 dark:text-slate-400 whitespace-pre-line line-clamp-3">{release.notes}</p>
+              )}
+              <div className="flex gap-2">
+                {(['zip', 'tar.gz'] as ArchiveFormat[]).map((format) => (
+                  <Button
+                    key={format}
+                    size="sm"
+                    variant="outline"
+                    className="h-7 text-xs"
+                    onClick={() => handleDownload(release, format)}
+                    disabled={downloading !== null}
+                  >
+                    <Download className="w-3 h-3 mr-1" />
+                    {downloading === `${release.tag.name}:${format}` ? 'Preparing...' : format}
+                  </Button>
+                ))}
+              </div>
+            </div>
+          ))
+        )}
+
+        {unreleasedTags.length > 0 && (
+          <div className="pt-3 border-t border-slate-100 dark:border-slate-800 space-y-2">
+            <p className="text-xs font-semibold uppercase tracking-wide text-slate-500 dark:text-slate-400">Tags</p>
+            <div className="flex flex-wrap gap-1.5">
+              {unreleasedTags.map((tag) => (
+                <span
+                  key={tag._id}
+                  className="inline-flex items-center gap-1 text-xs font-mono px-2 py-1 rounded-md bg-slate-100 dark:bg-slate-800 text-slate-700 dark:text-slate-300"
+                  title={`${tag.commitHash.substring(0, 7)}${tag.description ? ` — ${tag.description}` : ''}`}
+                >
+                  <span className="w-2 h-2 rounded-full" style={{ backgroundColor: tag.color }} />
+                  {canEdit ? (
+                    <button onClick={() => openReleaseDialog(tag)} className="hover:underline" title="Publish a release for this tag">
+                      {tag.name}
+                    </button>
+                  ) : (
+                    tag.name
+                  )}
+                  {canEdit && (
+                    <button onClick={() => confirmDeleteTag(tag)} className="text-slate-400 hover:text-red-600" title="Delete tag">
+                      <X className="w-3 h-3" />
+                    </button>
+                  )}
+                </span>
+              ))}
+            </div>
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={showReleaseDialog} onOpenChange={setShowReleaseDialog}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>New Release</DialogTitle>
+            <DialogDescription>
+              {existingTag
+                ? `Publish release notes for the tag ${existingTag}.`
+                : 'Tag the current notes and publish them with release notes and a downloadable snapshot.'}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="releaseTag">Tag</Label>
+                <Input
+                  id="releaseTag"
+                  value={tagName}
+                  onChange={(e) => setTagName(e.target.value.trim())}
+                  placeholder="midterm-1-final"
+                  disabled={!!existingTag}
+                  className="font-mono"
+                />
+              </div>
+              {!existingTag && (
+                <div className="space-y-2">
+                  <Label htmlFor="releaseRef">From branch</Label>
+                  <select
+                    id="releaseRef"
+                    value={ref}
+                    onChange={(e) => setRef(e.target.value)}
+                    className="w-full h-9 px-3 text-sm bg-card text-foreground border border-border rounded-md"
+                  >
+                    {branches.map((name) => (
+                      <option key={name} value={name}>{name}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+            </div>
+            {tagName && !isValidTagName(tagName) && (
+              <p className="text-xs text-red-600 dark:text-red-400">
+                Use letters, digits, ".", "_" and "-", starting with a letter or digit.
+              </p>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="releaseTitle">Title</Label>
+              <Input
+                id="releaseTitle"
+                value={title}
+                onChange={(e) => setTitle(e.target.value)}
+                placeholder="Midterm 1 notes"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="releaseNotes">Release notes</Label>
+              <Textarea
+                id="releaseNotes"
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                placeholder="What's covered, what changed since the last release (optional)"
+                rows={5}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowReleaseDialog(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleCreateRelease}
+              disabled={!isValidTagName(tagName) || !title.trim() || createRelease.isPending}
+            >
+              {createRelease.isPending ? 'Publishing...' : 'Publish Release'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <ConfirmDialog
+        isOpen={confirm.isOpen}
+        onClose={() => setConfirm({ ...confirm, isOpen: false })}
+        onConfirm={confirm.onConfirm}
+        message={confirm.message}
+        title={confirm.title}
+        confirmText="Delete"
+        variant="destructive"
+      />
+    </Card>
+  );
+}
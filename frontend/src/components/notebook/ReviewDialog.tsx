@@ -0,0 +1,100 @@
+import { useEffect, useState } from 'react';
+import { ReviewVerdict } from '../../types';
+import { Button } from '../ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogFooter } from '../ui/dialog';
+import { Label } from '../ui/label';
+import { Textarea } from '../ui/textarea';
+
+interface ReviewDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Authors and viewers can only leave comments
+  canDecide: boolean;
+  pendingCount: number;
+  isPending: boolean;
+  onSubmit: (verdict: ReviewVerdict, body: string) => void;
+}
+
+const VERDICTS: Array<{ value: ReviewVerdict; label: string; description: string }> = [
+  { value: 'COMMENT', label: 'Comment', description: 'Feedback without a decision' },
+  { value: 'APPROVE', label: 'Approve', description: 'Sign off on merging these changes' },
+  { value: 'REQUEST_CHANGES', label: 'Request changes', description: 'Changes are needed before this is merged' },
+];
+
+export default function ReviewDialog({ open, onOpenChange, canDecide, pendingCount, isPending, onSubmit }: ReviewDialogProps) {
+  const [verdict, setVerdict] = useState<ReviewVerdict>('COMMENT');
+  const [body, setBody] = useState('');
+
+  useEffect(() => {
+    if (open) {
+      setVerdict('COMMENT');
+      setBody('');
+    }
+  }, [open]);
+
+  const isEmptyComment = verdict === 'COMMENT' && !body.trim() && pendingCount === 0;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Submit Review</DialogTitle>
+          <DialogDescription>
+            {pendingCount > 0
+              ? `Your ${pendingCount} pending inline comment${pendingCount === 1 ? '' : 's'} will be posted with this review.`
+              : 'Click a line in the diff to comment on it before submitting.'}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            {VERDICTS.map((option) => {
+              const disabled = option.value !== 'COMMENT' && !canDecide;
+              return (
+                <label
+                  key={option.value}
+                  className={`flex items-start gap-3 p-3 rounded-lg border transition-colors ${
+                    verdict === option.value
+                      ? 'border-indigo-500 bg-indigo-50 dark:bg-indigo-500/10'
+                      : 'border-slate-200 dark:border-slate-700'
+                  } ${disabled ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer hover:bg-slate-50 dark:hover:bg-slate-800'}`}
+                >
+                  <input
+                    type="radio"
+                    name="reviewVerdict"
+                    value={option.value}
+                    checked={verdict === option.value}
+                    disabled={disabled}
+                    onChange={() => setVerdict(option.value)}
+                    className="mt-1"
+                  />
+                  <span>
+                    <span className="block text-sm font-medium text-slate-900 dark:text-slate-100">{option.label}</span>
+                    <span className="block text-xs text-slate-500 dark:text-slate-400">{option.description}</span>
+                  </span>
+                </label>
+              );
+            })}
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="reviewBody">Summary</Label>
+            <Textarea
+              id="reviewBody"
+              value={body}
+              onChange={(e) => setBody(e.target.value)}
+              placeholder="Overall feedback (optional)"
+              rows={4}
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={() => onSubmit(verdict, body)} disabled={isEmptyComment || isPending}>
+            {isPending ? 'Submitting...' : 'Submit Review'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
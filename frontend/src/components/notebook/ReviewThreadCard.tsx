@@ -0,0 +1,137 @@
+import { useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { useCreateReviewComment, useResolveReviewThread } from '../../hooks/usePullRequests';
+import { Comment, ReviewThread } from '../../types';
+import { Button } from '../ui/button';
+import { Textarea } from '../ui/textarea';
+import { AlertType } from '../common/AlertDialog';
+import { CheckCircle2, ChevronDown, ChevronRight, RotateCcw } from 'lucide-react';
+
+interface ReviewThreadCardProps {
+  notebookId: string;
+  pullRequestId: string;
+  thread: ReviewThread;
+  canReply: boolean;
+  canResolve: boolean;
+  // Shown above the thread when it is not under its line, e.g. "notes/a.md:12 (outdated)"
+  location?: string;
+  onMessage: (message: string, type: AlertType) => void;
+}
+
+const getErrorMessage = (error: unknown, fallback: string) => {
+  const err = error as { response?: { data?: { message?: string } }; message?: string };
+  return err?.response?.data?.message || err?.message || fallback;
+};
+
+const CommentBody = ({ comment }: { comment: Comment }) => (
+  <div className="space-y-1">
+    <div className="flex items-center gap-2 text-xs">
+      <span className="font-semibold text-slate-800 dark:text-slate-200">{comment.author?.name || comment.author?.username}</span>
+      <span className="text-slate-400 dark:text-slate-500">
+        {formatDistanceToNow(new Date(comment.createdAt), { addSuffix: true })}
+      </span>
+    </div>
+    <p className="text-sm text-slate-700 dark:text-slate-300 whitespace-pre-wrap">{comment.content}</p>
+  </div>
+);
+
+export default function ReviewThreadCard({
+  notebookId,
+  pullRequestId,
+  thread,
+  canReply,
+  canResolve,
+  location,
+  onMessage,
+}: ReviewThreadCardProps) {
+  const [expanded, setExpanded] = useState(false);
+  const [reply, setReply] = useState('');
+  const createComment = useCreateReviewComment();
+  const resolveThread = useResolveReviewThread();
+
+  const handleReply = async () => {
+    if (!reply.trim()) return;
+    try {
+      await createComment.mutateAsync({ notebookId, pullRequestId, content: reply, parentCommentId: thread._id });
+      setReply('');
+    } catch (error) {
+      onMessage(getErrorMessage(error, 'Failed to post the reply'), 'error');
+    }
+  };
+
+  const handleResolve = async (resolved: boolean) => {
+    try {
+      await resolveThread.mutateAsync({ notebookId, pullRequestId, commentId: thread._id, resolved });
+      setExpanded(false);
+    } catch (error) {
+      onMessage(getErrorMessage(error, 'Failed to update the thread'), 'error');
+    }
+  };
+
+  // Resolved threads stay folded to one line until opened
+  if (thread.resolved && !expanded) {
+    return (
+      <button
+        type="button"
+        onClick={() => setExpanded(true)}
+        className="w-full flex items-center gap-2 px-3 py-2 text-left text-xs font-sans text-slate-500 dark:text-slate-400 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-lg hover:bg-slate-50 dark:hover:bg-slate-800"
+      >
+        <ChevronRight className="w-3.5 h-3.5" />
+        <CheckCircle2 className="w-3.5 h-3.5 text-emerald-600 dark:text-emerald-400" />
+        {location && <span className="font-mono">{location}</span>}
+        <span className="truncate">
+          Resolved{thread.resolvedBy ? ` by ${thread.resolvedBy.name || thread.resolvedBy.username}` : ''}: {thread.content}
+        </span>
+      </button>
+    );
+  }
+
+  return (
+    <div className="font-sans bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-lg overflow-hidden">
+      {(location || thread.resolved) && (
+        <div className="flex items-center gap-2 px-3 py-1.5 text-xs text-slate-500 dark:text-slate-400 bg-slate-50 dark:bg-slate-800/50 border-b border-slate-200 dark:border-slate-700">
+          {thread.resolved && (
+            <button type="button" onClick={() => setExpanded(false)} className="hover:text-slate-700 dark:hover:text-slate-200">
+              <ChevronDown className="w-3.5 h-3.5" />
+            </button>
+          )}
+          {location && <span className="font-mono">{location}</span>}
+        </div>
+      )}
+      <div className="p-3 space-y-3">
+        <CommentBody comment={thread} />
+        {thread.replies.map((replyComment) => (
+          <div key={replyComment._id} className="pl-3 border-l-2 border-slate-200 dark:border-slate-700">
+            <CommentBody comment={replyComment} />
+          </div>
+        ))}
+        {canReply && (
+          <Textarea
+            value={reply}
+            onChange={(e) => setReply(e.target.value)}
+            placeholder="Reply..."
+            rows={2}
+          />
+        )}
+        <div className="flex items-center justify-end gap-2">
+          {canResolve && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => handleResolve(!thread.resolved)}
+              disabled={resolveThread.isPending}
+            >
+              {thread.resolved ? <RotateCcw className="w-4 h-4 mr-1" /> : <CheckCircle2 className="w-4 h-4 mr-1" />}
+              {thread.resolved ? 'Reopen' : 'Resolve'}
+            </Button>
+          )}
+          {canReply && (
+            <Button size="sm" onClick={handleReply} disabled={!reply.trim() || createComment.isPending}>
+              {createComment.isPending ? 'Posting...' : 'Reply'}
+            </Button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
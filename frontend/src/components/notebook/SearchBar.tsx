@@ -1,9 +1,10 @@
 import { useState } from 'react';
-import { Search, X, Filter } from 'lucide-react';
+import { Search, X, Filter, FileText, GitCommit } from 'lucide-react';
 import { Input } from '../ui/input';
 import { Button } from '../ui/button';
 import { useNavigate } from 'react-router-dom';
 import api from '../../services/api';
+import { CommitSearchResult, FileSearchResult, SearchSnippet } from '../../types';
 
 interface Notebook {
   _id: string;
@@ -16,12 +17,32 @@ interface Notebook {
   viewCount: number;
 }
 
+// Snippet text with the matched words wrapped in <mark>
+const renderSnippet = (snippet: SearchSnippet) => {
+  const parts: React.ReactNode[] = [];
+  let at = 0;
+  snippet.highlights.forEach(([from, to], index) => {
+    if (from < at) return;
+    parts.push(snippet.text.slice(at, from));
+    parts.push(
+      <mark key={index} className="bg-amber-200 dark:bg-amber-500/40 text-inherit rounded px-0.5">
+        {snippet.text.slice(from, to)}
+      </mark>
+    );
+    at = to;
+  });
+  parts.push(snippet.text.slice(at));
+  return parts;
+};
+
 export default function SearchBar() {
   const [isOpen, setIsOpen] = useState(false);
   const [query, setQuery] = useState('');
   const [course, setCourse] = useState('');
   const [sort, setSort] = useState('relevance');
   const [results, setResults] = useState<Notebook[]>([]);
+  const [fileResults, setFileResults] = useState<FileSearchResult[]>([]);
+  const [commitResults, setCommitResults] = useState<CommitSearchResult[]>([]);
   const [isSearching, setIsSearching] = useState(false);
   const navigate = useNavigate();
 
@@ -32,6 +53,8 @@ export default function SearchBar() {
     try {
       const data = await api.searchNotebooks(query, course, sort);
       setResults(data.notebooks || []);
+      setFileResults(data.files || []);
+      setCommitResults(data.commits || []);
     } catch (error) {
       console.error('Search error:', error);
     } finally {
@@ -39,6 +62,17 @@ export default function SearchBar() {
     }
   };
 
+  const openFile = (result: FileSearchResult, line?: number) => {
+    const params = new URLSearchParams({ file: result.path, branch: result.branch });
+    if (line) {
+      params.set('line', String(line));
+    }
+    navigate(`/notebook/${result.notebook._id}/reader?${params.toString()}`);
+    setIsOpen(false);
+  };
+
+  const hasResults = results.length > 0 || fileResults.length > 0 || commitResults.length > 0;
+
   const handleKeyPress = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter') {
       handleSearch();
@@ -64,7 +98,7 @@ export default function SearchBar() {
               <Search className="w-5 h-5 text-slate-400" />
               <Input
                 type="text"
-                placeholder="Search notebooks by name, description, or course..."
+                placeholder="Search notebooks, notes and commit messages..."
                 value={query}
                 onChange={(e) => setQuery(e.target.value)}
                 onKeyPress={handleKeyPress}
@@ -112,41 +146,105 @@ export default function SearchBar() {
                   <div className="inline-block h-8 w-8 animate-spin rounded-full border-4 border-solid border-indigo-500 border-r-transparent"></div>
                   <p className="mt-4 text-slate-500">Searching...</p>
                 </div>
-              ) : results.length > 0 ? (
-                <div className="space-y-3">
-                  {results.map((notebook) => (
-                    <button
-                      key={notebook._id}
-                      onClick={() => {
-                        navigate(`/notebook/${notebook._id}`);
-                        setIsOpen(false);
-                      }}
-                      className="w-full p-4 rounded-xl border-2 border-slate-200 dark:border-slate-700 hover:border-indigo-300 dark:hover:border-indigo-700 hover:bg-slate-50 dark:hover:bg-slate-800/50 transition-all text-left"
-                    >
-                      <div className="flex items-start justify-between mb-2">
-                        <h3 className="font-semibold text-slate-900 dark:text-slate-100">
-                          {notebook.name}
-                        </h3>
-                        <span className="text-xs text-slate-500 dark:text-slate-400">
-                          ⭐ {notebook.starCount}
-                        </span>
-                      </div>
-                      {notebook.description && (
-                        <p className="text-sm text-slate-600 dark:text-slate-400 mb-2 line-clamp-2">
-                          {notebook.description}
-                        </p>
-                      )}
-                      <div className="flex items-center gap-4 text-xs text-slate-500 dark:text-slate-400">
-                        <span>By {notebook.owner.username}</span>
-                        {notebook.courseName && <span>• {notebook.courseName}</span>}
-                        <span>• {notebook.viewCount} views</span>
-                      </div>
-                    </button>
-                  ))}
+              ) : hasResults ? (
+                <div className="space-y-6">
+                  {results.length > 0 && (
+                    <div className="space-y-3">
+                      <h4 className="text-xs font-semibold uppercase tracking-wide text-slate-500 dark:text-slate-400">Notebooks</h4>
+                      {results.map((notebook) => (
+                        <button
+                          key={notebook._id}
+                          onClick={() => {
+                            navigate(`/notebook/${notebook._id}`);
+                            setIsOpen(false);
+                          }}
+                          className="w-full p-4 rounded-xl border-2 border-slate-200 dark:border-slate-700 hover:border-indigo-300 dark:hover:border-indigo-700 hover:bg-slate-50 dark:hover:bg-slate-800/50 transition-all text-left"
+                        >
+                          <div className="flex items-start justify-between mb-2">
+                            <h3 className="font-semibold text-slate-900 dark:text-slate-100">
+                              {notebook.name}
+                            </h3>
+                            <span className="text-xs text-slate-500 dark:text-slate-400">
+                              ⭐ {notebook.starCount}
+                            </span>
+                          </div>
+                          {notebook.description && (
+                            <p className="text-sm text-slate-600 dark:text-slate-400 mb-2 line-clamp-2">
+                              {notebook.description}
+                            </p>
+                          )}
+                          <div className="flex items-center gap-4 text-xs text-slate-500 dark:text-slate-400">
+                            <span>By {notebook.owner.username}</span>
+                            {notebook.courseName && <span>• {notebook.courseName}</span>}
+                            <span>• {notebook.viewCount} views</span>
+                          </div>
+                        </button>
+                      ))}
+                    </div>
+                  )}
+
+                  {fileResults.length > 0 && (
+                    <div className="space-y-3">
+                      <h4 className="text-xs font-semibold uppercase tracking-wide text-slate-500 dark:text-slate-400">Notes</h4>
+                      {fileResults.map((result) => (
+                        <div
+                          key={`${result.notebook._id}:${result.branch}:${result.path}`}
+                          className="rounded-xl border-2 border-slate-200 dark:border-slate-700 overflow-hidden"
+                        >
+                          <button
+                            onClick={() => openFile(result)}
+                            className="w-full flex items-center gap-2 px-4 py-3 hover:bg-slate-50 dark:hover:bg-slate-800/50 transition-colors text-left"
+                          >
+                            <FileText className="w-4 h-4 text-indigo-500 flex-shrink-0" />
+                            <span className="font-mono text-sm text-slate-900 dark:text-slate-100 truncate">{result.path}</span>
+                            <span className="ml-auto flex-shrink-0 text-xs text-slate-500 dark:text-slate-400">
+                              {result.notebook.name} • {result.branch}
+                              {result.branches.length > 1 && ` +${result.branches.length - 1}`}
+                            </span>
+                          </button>
+                          {result.snippets.map((snippet) => (
+                            <button
+                              key={snippet.line}
+                              onClick={() => openFile(result, snippet.line)}
+                              className="w-full flex gap-3 px-4 py-1.5 border-t border-slate-100 dark:border-slate-800 hover:bg-indigo-50 dark:hover:bg-indigo-950/30 transition-colors text-left"
+                            >
+                              <span className="w-10 flex-shrink-0 text-right font-mono text-xs text-slate-400">{snippet.line}</span>
+                              <span className="text-sm text-slate-600 dark:text-slate-400 truncate">{renderSnippet(snippet)}</span>
+                            </button>
+                          ))}
+                        </div>
+                      ))}
+                    </div>
+                  )}
+
+                  {commitResults.length > 0 && (
+                    <div className="space-y-3">
+                      <h4 className="text-xs font-semibold uppercase tracking-wide text-slate-500 dark:text-slate-400">Commits</h4>
+                      {commitResults.map((commit) => (
+                        <button
+                          key={commit._id}
+                          onClick={() => {
+                            navigate(`/notebook/${commit.notebook._id}/commits`);
+                            setIsOpen(false);
+                          }}
+                          className="w-full flex items-start gap-3 p-3 rounded-xl border-2 border-slate-200 dark:border-slate-700 hover:border-indigo-300 dark:hover:border-indigo-700 hover:bg-slate-50 dark:hover:bg-slate-800/50 transition-all text-left"
+                        >
+                          <GitCommit className="w-4 h-4 mt-0.5 text-slate-400 flex-shrink-0" />
+                          <div className="min-w-0">
+                            <p className="text-sm font-medium text-slate-900 dark:text-slate-100 truncate">{commit.message}</p>
+                            <p className="text-xs text-slate-500 dark:text-slate-400">
+                              <span className="font-mono">{commit.hash.substring(0, 7)}</span> • {commit.notebook.name}
+                              {commit.branch && ` • ${commit.branch.name}`} • {commit.author?.username}
+                            </p>
+                          </div>
+                        </button>
+                      ))}
+                    </div>
+                  )}
                 </div>
               ) : query || course ? (
                 <div className="text-center py-12">
-                  <p className="text-slate-500">No notebooks found</p>
+                  <p className="text-slate-500">Nothing found</p>
                 </div>
               ) : (
                 <div className="text-center py-12">
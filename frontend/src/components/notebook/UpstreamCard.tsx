@@ -0,0 +1,256 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useUpstream, useRefreshUpstream, useUpstreamPullRequests, useCreateUpstreamPullRequest } from '../../hooks/useUpstream';
+import { useStartMerge } from '../../hooks/useMerge';
+import { PullRequest, UpstreamStatus } from '../../types';
+import { Button } from '../ui/button';
+import { Card, CardHeader, CardTitle, CardContent } from '../ui/card';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogFooter } from '../ui/dialog';
+import { Input } from '../ui/input';
+import { Textarea } from '../ui/textarea';
+import { Label } from '../ui/label';
+import { AlertType } from '../common/AlertDialog';
+import { GitFork, ArrowDown, ArrowUp, GitPullRequest, RefreshCw, Search } from 'lucide-react';
+
+interface UpstreamCardProps {
+  notebookId: string;
+  branch: string;
+  branches: string[];
+  isOwner: boolean;
+  canEdit: boolean;
+  onMessage: (message: string, type: AlertType) => void;
+}
+
+const getErrorMessage = (error: unknown, fallback: string) => {
+  const err = error as { response?: { data?: { message?: string } }; message?: string };
+  return err?.response?.data?.message || err?.message || fallback;
+};
+
+const statusStyles: Record<PullRequest['status'], string> = {
+  OPEN: 'text-emerald-700 dark:text-emerald-400',
+  MERGED: 'text-purple-700 dark:text-purple-400',
+  CLOSED: 'text-slate-500 dark:text-slate-400',
+};
+
+export default function UpstreamCard({ notebookId, branch, branches, isOwner, canEdit, onMessage }: UpstreamCardProps) {
+  const navigate = useNavigate();
+  const [showProposeDialog, setShowProposeDialog] = useState(false);
+  const [title, setTitle] = useState('');
+  const [description, setDescription] = useState('');
+  const [sourceBranch, setSourceBranch] = useState(branch);
+  const [targetBranch, setTargetBranch] = useState('');
+
+  const { data, isLoading, error } = useUpstream(notebookId, branch);
+  const { data: proposalsData } = useUpstreamPullRequests(notebookId);
+  const refreshUpstream = useRefreshUpstream();
+  const startMerge = useStartMerge();
+  const createUpstreamPullRequest = useCreateUpstreamPullRequest();
+
+  const upstream: UpstreamStatus | null = data?.upstream ?? null;
+  const proposals: PullRequest[] = proposalsData?.pullRequests || [];
+
+  // The original was deleted or made private; nothing to sync with
+  if (!isLoading && !error && !upstream) {
+    return null;
+  }
+
+  const handleRefresh = async () => {
+    try {
+      await refreshUpstream.mutateAsync({ notebookId, branch });
+    } catch (err) {
+      onMessage(getErrorMessage(err, 'Failed to check the original notebook for changes'), 'error');
+    }
+  };
+
+  const handleSync = async () => {
+    if (!upstream) return;
+    try {
+      const result = await startMerge.mutateAsync({
+        notebookId,
+        upstream: true,
+        targetBranch: branch,
+        sourceBranch: upstream.upstreamBranch,
+      });
+      if (result.merged) {
+        onMessage(`Pulled the latest changes from ${upstream.notebook.name} into ${branch}`, 'success');
+      } else {
+        // Conflicts are resolved in the editor, like any other merge
+        navigate(`/notebook/${notebookId}/editor?branch=${encodeURIComponent(branch)}`);
+      }
+    } catch (err) {
+      onMessage(getErrorMessage(err, 'Failed to pull upstream changes'), 'error');
+    }
+  };
+
+  const openProposeDialog = () => {
+    setSourceBranch(branch);
+    setTargetBranch(upstream?.upstreamBranch || '');
+    setTitle('');
+    setDescription('');
+    setShowProposeDialog(true);
+  };
+
+  const handlePropose = async () => {
+    if (!title.trim() || !sourceBranch) return;
+    try {
+      await createUpstreamPullRequest.mutateAsync({
+        notebookId,
+        title: title.trim(),
+        description: description.trim() || undefined,
+        sourceBranch,
+        targetBranch: targetBranch || undefined,
+      });
+      setShowProposeDialog(false);
+      onMessage(`Proposed your changes to ${upstream?.notebook.name}`, 'success');
+    } catch (err) {
+      onMessage(getErrorMessage(err, 'Failed to open pull request'), 'error');
+    }
+  };
+
+  return (
+    <Card className="shadow-xl shadow-slate-200/50 dark:shadow-slate-950/50 border-slate-200/50 dark:border-slate-800/50">
+      <CardHeader className="border-b border-slate-100 dark:border-slate-800 bg-gradient-to-r from-slate-50 via-indigo-50/30 to-transparent dark:from-slate-800/50 dark:via-indigo-950/20 py-4">
+        <CardTitle className="flex items-center gap-2.5 text-base">
+          <div className="p-2 bg-indigo-100 dark:bg-indigo-950/50 rounded-lg">
+            <GitFork className="w-4 h-4 text-indigo-600 dark:text-indigo-400" />
+          </div>
+          <span className="bg-gradient-to-r from-slate-900 to-slate-700 dark:from-slate-100 dark:to-slate-300 bg-clip-text text-transparent font-semibold">
+            Upstream
+          </span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="p-4 space-y-4">
+        {isLoading ? (
+          <p className="text-sm text-slate-500 dark:text-slate-400">Comparing with the original notebook...</p>
+        ) : error || !upstream ? (
+          <p className="text-sm text-red-600 dark:text-red-400">{getErrorMessage(error, 'Could not compare with the original notebook')}</p>
+        ) : (
+          <>
+            <p className="text-sm text-slate-600 dark:text-slate-400">
+              <span className="font-mono text-slate-800 dark:text-slate-200">{upstream.branch}</span> compared with{' '}
+              <span className="font-medium text-slate-800 dark:text-slate-200">{upstream.notebook.name}</span>:
+              <span className="font-mono text-slate-800 dark:text-slate-200">{upstream.upstreamBranch}</span>
+            </p>
+            {upstream.ahead === null || upstream.behind === null ? (
+              <p className="text-sm text-slate-500 dark:text-slate-400">Not compared with the original yet.</p>
+            ) : (
+              <div className="grid grid-cols-2 gap-2 text-sm">
+                <div className="flex items-center gap-2 p-2 rounded-lg bg-slate-50 dark:bg-slate-800/50">
+                  <ArrowUp className="w-4 h-4 text-emerald-600" />
+                  <span className="font-semibold">{upstream.ahead}</span> ahead
+                </div>
+                <div className="flex items-center gap-2 p-2 rounded-lg bg-slate-50 dark:bg-slate-800/50">
+                  <ArrowDown className="w-4 h-4 text-amber-600" />
+                  <span className="font-semibold">{upstream.behind}</span> behind
+                </div>
+              </div>
+            )}
+            <div className="flex flex-wrap gap-2">
+              {canEdit && (
+                <Button size="sm" variant="outline" onClick={handleRefresh} disabled={refreshUpstream.isPending}>
+                  <Search className="w-4 h-4 mr-1.5" />
+                  {refreshUpstream.isPending ? 'Checking...' : 'Check for Changes'}
+                </Button>
+              )}
+              {isOwner && (
+                <Button size="sm" onClick={handleSync} disabled={upstream.behind === 0 || startMerge.isPending}>
+                  <RefreshCw className={`w-4 h-4 mr-1.5 ${startMerge.isPending ? 'animate-spin' : ''}`} />
+                  {startMerge.isPending ? 'Syncing...' : 'Sync Changes'}
+                </Button>
+              )}
+              {canEdit && (
+                <Button size="sm" variant="outline" onClick={openProposeDialog} disabled={upstream.ahead === 0}>
+                  <GitPullRequest className="w-4 h-4 mr-1.5" />
+                  Propose Changes
+                </Button>
+              )}
+            </div>
+          </>
+        )}
+
+        {proposals.length > 0 && (
+          <div className="pt-3 border-t border-slate-100 dark:border-slate-800 space-y-2">
+            <p className="text-xs font-semibold uppercase tracking-wide text-slate-500 dark:text-slate-400">Your proposals</p>
+            {proposals.slice(0, 5).map((pr) => (
+              <div key={pr._id} className="flex items-center justify-between gap-2 text-sm">
+                <span className="truncate text-slate-700 dark:text-slate-300">{pr.title}</span>
+                <span className={`text-xs font-semibold ${statusStyles[pr.status]}`}>{pr.status.toLowerCase()}</span>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={showProposeDialog} onOpenChange={setShowProposeDialog}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Propose Changes</DialogTitle>
+            <DialogDescription>
+              Open a pull request in {upstream?.notebook.name} with the changes from this fork.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="upstreamSource">From (this fork)</Label>
+                <select
+                  id="upstreamSource"
+                  value={sourceBranch}
+                  onChange={(e) => setSourceBranch(e.target.value)}
+                  className="w-full h-9 px-3 text-sm bg-card text-foreground border border-border rounded-md"
+                >
+                  {branches.map((name) => (
+                    <option key={name} value={name}>{name}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="upstreamTarget">Into (original)</Label>
+                <select
+                  id="upstreamTarget"
+                  value={targetBranch}
+                  onChange={(e) => setTargetBranch(e.target.value)}
+                  className="w-full h-9 px-3 text-sm bg-card text-foreground border border-border rounded-md"
+                >
+                  {upstream?.branches.map((name) => (
+                    <option key={name} value={name}>{name}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="upstreamTitle">Title</Label>
+              <Input
+                id="upstreamTitle"
+                value={title}
+                onChange={(e) => setTitle(e.target.value)}
+                placeholder="Summarize the proposed changes..."
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="upstreamDescription">Description</Label>
+              <Textarea
+                id="upstreamDescription"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                placeholder="Explain what changed and why (optional)"
+                rows={4}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowProposeDialog(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handlePropose}
+              disabled={!title.trim() || !sourceBranch || createUpstreamPullRequest.isPending}
+            >
+              {createUpstreamPullRequest.isPending ? 'Opening...' : 'Open Pull Request'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,90 @@
+import { useState } from 'react';
+import { Bell, BellOff, Check, Eye } from 'lucide-react';
+import { useUpdateWatch, useWatchStatus } from '../../hooks/useNotebooks';
+import { WatchLevel } from '../../types';
+import { Button } from '../ui/button';
+import { AlertType } from '../common/AlertDialog';
+
+interface WatchMenuProps {
+  notebookId: string;
+  onMessage: (message: string, type: AlertType) => void;
+}
+
+const LEVELS: Array<{ value: WatchLevel; label: string; description: string }> = [
+  { value: 'participating', label: 'Participating', description: 'Only replies to you, reviews of your pull requests and changes to your access' },
+  { value: 'watching', label: 'All activity', description: 'Also every comment, fork and star on this notebook' },
+  { value: 'ignoring', label: 'Ignore', description: 'Never be notified about this notebook' },
+];
+
+const BUTTON_LABELS: Record<WatchLevel, string> = {
+  watching: 'Watching',
+  participating: 'Participating',
+  ignoring: 'Ignoring',
+};
+
+const getErrorMessage = (error: unknown, fallback: string) => {
+  const err = error as { response?: { data?: { message?: string } }; message?: string };
+  return err?.response?.data?.message || err?.message || fallback;
+};
+
+export default function WatchMenu({ notebookId, onMessage }: WatchMenuProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const { data: status } = useWatchStatus(notebookId);
+  const updateWatch = useUpdateWatch();
+
+  const handleSelect = async (level: WatchLevel | null) => {
+    setIsOpen(false);
+    try {
+      await updateWatch.mutateAsync({ notebookId, level });
+    } catch (error) {
+      onMessage(getErrorMessage(error, 'Failed to update notifications for this notebook'), 'error');
+    }
+  };
+
+  const level = status?.level || 'participating';
+  const Icon = level === 'ignoring' ? BellOff : level === 'watching' ? Eye : Bell;
+
+  return (
+    <div className="relative">
+      <Button
+        onClick={() => setIsOpen(!isOpen)}
+        variant="outline"
+        size="sm"
+        className="shadow-sm hover:shadow-md transition-all"
+        disabled={!status || updateWatch.isPending}
+        title="Notifications for this notebook"
+      >
+        <Icon className="w-4 h-4 mr-2" />
+        {BUTTON_LABELS[level]}
+      </Button>
+      {isOpen && (
+        <>
+          <div className="fixed inset-0 z-10" onClick={() => setIsOpen(false)} />
+          <div className="absolute right-0 mt-1 w-72 z-20 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg shadow-lg py-1">
+            {LEVELS.map((option) => (
+              <button
+                key={option.value}
+                onClick={() => handleSelect(option.value)}
+                className="w-full flex items-start gap-2 text-left px-3 py-2 hover:bg-slate-100 dark:hover:bg-slate-700"
+              >
+                <Check className={`w-4 h-4 mt-0.5 flex-shrink-0 text-indigo-600 dark:text-indigo-400 ${option.value === level ? '' : 'invisible'}`} />
+                <span>
+                  <span className="block text-sm font-medium text-slate-700 dark:text-slate-200">{option.label}</span>
+                  <span className="block text-xs text-slate-500 dark:text-slate-400">{option.description}</span>
+                </span>
+              </button>
+            ))}
+            {status && !status.isDefault && (
+              <button
+                onClick={() => handleSelect(null)}
+                className="w-full text-left px-3 py-2 text-xs text-slate-500 dark:text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-700 border-t border-slate-200 dark:border-slate-700"
+              >
+                Reset to default
+              </button>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,5 +1,6 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import api from '../services/api';
+import { BranchProtection } from '../types';
 
 // Helper to get user token for cache isolation
 const getUserToken = () => localStorage.getItem('token');
@@ -30,9 +31,35 @@ export const useDeleteBranch = () => {
   const queryClient = useQueryClient();
   const token = getUserToken();
   
+  return useMutation({
+    mutationFn: ({ notebookId, branchName, force }: { notebookId: string; branchName: string; force?: boolean }) =>
+      api.deleteBranch(notebookId, branchName, force),
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['branches', variables.notebookId, token] });
+    },
+  });
+};
+
+export const useUpdateBranchProtection = () => {
+  const queryClient = useQueryClient();
+  const token = getUserToken();
+
+  return useMutation({
+    mutationFn: ({ notebookId, branchName, protection }: { notebookId: string; branchName: string; protection: BranchProtection }) =>
+      api.updateBranchProtection(notebookId, branchName, protection),
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['branches', variables.notebookId, token] });
+    },
+  });
+};
+
+export const useRemoveBranchProtection = () => {
+  const queryClient = useQueryClient();
+  const token = getUserToken();
+
   return useMutation({
     mutationFn: ({ notebookId, branchName }: { notebookId: string; branchName: string }) =>
-      api.deleteBranch(notebookId, branchName),
+      api.removeBranchProtection(notebookId, branchName),
     onSuccess: (_, variables) => {
       queryClient.invalidateQueries({ queryKey: ['branches', variables.notebookId, token] });
     },
@@ -0,0 +1,237 @@
+import { useEffect, useState } from 'react';
+import * as Y from 'yjs';
+import { WebsocketProvider } from 'y-websocket';
+import { Awareness } from 'y-protocols/awareness';
+import type { editor as MonacoEditorTypes } from 'monaco-editor';
+import type { Monaco } from '@monaco-editor/react';
+import { User } from '../types';
+
+const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:5000/api';
+const COLLAB_URL = new URL(`${API_URL}/collab`, window.location.href).toString().replace(/^http/, 'ws');
+
+const CURSOR_COLORS = ['#e11d48', '#2563eb', '#16a34a', '#d97706', '#9333ea', '#0891b2', '#db2777', '#65a30d'];
+
+export interface CollaboratorPresence {
+  clientId: number;
+  userId: string;
+  name: string;
+  color: string;
+}
+
+interface AwarenessUser {
+  id: string;
+  name: string;
+  color: string;
+}
+
+interface AwarenessSelection {
+  anchor: unknown;
+  head: unknown;
+}
+
+const colorFor = (userId: string) => {
+  let hash = 0;
+  for (const char of userId) {
+    hash = (hash * 31 + char.charCodeAt(0)) | 0;
+  }
+  return CURSOR_COLORS[Math.abs(hash) % CURSOR_COLORS.length];
+};
+
+// Keep a Monaco model and a shared Y.Text in step, and draw other people's cursors and selections
+const bindEditor = (
+  ytext: Y.Text,
+  awareness: Awareness,
+  editor: MonacoEditorTypes.IStandaloneCodeEditor,
+  monaco: Monaco
+) => {
+  const model = editor.getModel();
+  if (!model) return () => {};
+
+  const doc = ytext.doc!;
+  const localOrigin = {};
+  let applyingRemote = false;
+  let decorations: string[] = [];
+  const styles = document.createElement('style');
+  document.head.appendChild(styles);
+
+  // The shared document wins over whatever the editor loaded on its own
+  if (model.getValue() !== ytext.toString()) {
+    applyingRemote = true;
+    model.setValue(ytext.toString());
+    applyingRemote = false;
+  }
+
+  const renderCursors = () => {
+    const next: MonacoEditorTypes.IModelDeltaDecoration[] = [];
+    const rules: string[] = [];
+
+    awareness.getStates().forEach((state, clientId) => {
+      const user = state.user as AwarenessUser | undefined;
+      const selection = state.selection as AwarenessSelection | null | undefined;
+      if (clientId === doc.clientID || !user || !selection) return;
+
+      const anchor = Y.createAbsolutePositionFromRelativePosition(Y.createRelativePositionFromJSON(selection.anchor), doc);
+      const head = Y.createAbsolutePositionFromRelativePosition(Y.createRelativePositionFromJSON(selection.head), doc);
+      if (!anchor || !head || anchor.type !== ytext || head.type !== ytext) return;
+
+      const start = model.getPositionAt(Math.min(anchor.index, head.index));
+      const end = model.getPositionAt(Math.max(anchor.index, head.index));
+      const cursor = model.getPositionAt(head.index);
+
+      if (anchor.index !== head.index) {
+        next.push({
+          range: new monaco.Range(start.lineNumber, start.column, end.lineNumber, end.column),
+          options: { className: `remote-selection-${clientId}` },
+        });
+      }
+      next.push({
+        range: new monaco.Range(cursor.lineNumber, cursor.column, cursor.lineNumber, cursor.column),
+        options: {
+          beforeContentClassName: `remote-cursor remote-cursor-${clientId}`,
+          hoverMessage: { value: user.name },
+          stickiness: monaco.editor.TrackedRangeStickiness.NeverGrowsWhenTypingAtEdges,
+        },
+      });
+
+      rules.push(`.remote-selection-${clientId} { background-color: ${user.color}33; }`);
+      rules.push(`.remote-cursor-${clientId} { border-color: ${user.color}; }`);
+      rules.push(`.remote-cursor-${clientId}::after { content: ${JSON.stringify(user.name)}; background-color: ${user.color}; }`);
+    });
+
+    decorations = editor.deltaDecorations(decorations, next);
+    styles.textContent = rules.join('\n');
+  };
+
+  const onRemoteChange = (event: Y.YTextEvent, transaction: Y.Transaction) => {
+    if (transaction.origin === localOrigin) return;
+
+    // Apply each delta op straight away so later offsets line up with the updated model
+    applyingRemote = true;
+    let index = 0;
+    event.delta.forEach((op) => {
+      if (op.retain !== undefined) {
+        index += op.retain;
+      } else if (typeof op.insert === 'string') {
+        const pos = model.getPositionAt(index);
+        model.applyEdits([{ range: new monaco.Range(pos.lineNumber, pos.column, pos.lineNumber, pos.column), text: op.insert }]);
+        index += op.insert.length;
+      } else if (op.delete !== undefined) {
+        const start = model.getPositionAt(index);
+        const end = model.getPositionAt(index + op.delete);
+        model.applyEdits([{ range: new monaco.Range(start.lineNumber, start.column, end.lineNumber, end.column), text: '' }]);
+      }
+    });
+    applyingRemote = false;
+    renderCursors();
+  };
+  ytext.observe(onRemoteChange);
+
+  const contentListener = model.onDidChangeContent((event) => {
+    if (applyingRemote) return;
+
+    // Offsets refer to the model before the change, so apply from the end backwards
+    doc.transact(() => {
+      [...event.changes]
+        .sort((a, b) => b.rangeOffset - a.rangeOffset)
+        .forEach((change) => {
+          if (change.rangeLength > 0) ytext.delete(change.rangeOffset, change.rangeLength);
+          if (change.text) ytext.insert(change.rangeOffset, change.text);
+        });
+    }, localOrigin);
+  });
+
+  const selectionListener = editor.onDidChangeCursorSelection(() => {
+    const selection = editor.getSelection();
+    if (!selection) return;
+
+    awareness.setLocalStateField('selection', {
+      anchor: Y.createRelativePositionFromTypeIndex(ytext, model.getOffsetAt(selection.getSelectionStart())),
+      head: Y.createRelativePositionFromTypeIndex(ytext, model.getOffsetAt(selection.getPosition())),
+    });
+  });
+
+  awareness.on('change', renderCursors);
+  renderCursors();
+
+  return () => {
+    awareness.off('change', renderCursors);
+    awareness.setLocalStateField('selection', null);
+    ytext.unobserve(onRemoteChange);
+    contentListener.dispose();
+    selectionListener.dispose();
+    editor.deltaDecorations(decorations, []);
+    styles.remove();
+  };
+};
+
+export const useCollaboration = ({
+  notebookId,
+  branch,
+  filePath,
+  user,
+  editor,
+  monaco,
+  enabled = true,
+}: {
+  notebookId?: string;
+  branch: string;
+  filePath: string | null;
+  user: User | null;
+  editor: MonacoEditorTypes.IStandaloneCodeEditor | null;
+  monaco: Monaco | null;
+  enabled?: boolean;
+}) => {
+  const [synced, setSynced] = useState(false);
+  const [peers, setPeers] = useState<CollaboratorPresence[]>([]);
+  const userId = user?._id;
+  const userName = user?.name || user?.username;
+
+  useEffect(() => {
+    const token = localStorage.getItem('token');
+    if (!enabled || !notebookId || !filePath || !userId || !userName || !editor || !monaco || !token) return;
+
+    const doc = new Y.Doc();
+    const provider = new WebsocketProvider(COLLAB_URL, notebookId, doc, {
+      params: { branch, file: filePath, token },
+    });
+    const ytext = doc.getText('content');
+    let unbind: (() => void) | null = null;
+
+    provider.awareness.setLocalStateField('user', { id: userId, name: userName, color: colorFor(userId) });
+
+    // Only bind once the server's copy has arrived, otherwise the local text would be merged in twice
+    const handleSync = (isSynced: boolean) => {
+      if (isSynced && !unbind) {
+        unbind = bindEditor(ytext, provider.awareness, editor, monaco);
+        setSynced(true);
+      }
+    };
+
+    const updatePeers = () => {
+      const seen = new Set<string>();
+      const others: CollaboratorPresence[] = [];
+      provider.awareness.getStates().forEach((state, clientId) => {
+        const peer = state.user as AwarenessUser | undefined;
+        if (clientId === doc.clientID || !peer || peer.id === userId || seen.has(peer.id)) return;
+        seen.add(peer.id);
+        others.push({ clientId, userId: peer.id, name: peer.name, color: peer.color });
+      });
+      setPeers(others);
+    };
+
+    provider.on('sync', handleSync);
+    provider.awareness.on('change', updatePeers);
+
+    return () => {
+      unbind?.();
+      provider.off('sync', handleSync);
+      provider.awareness.off('change', updatePeers);
+      provider.destroy();
+      doc.destroy();
+      setSynced(false);
+      setPeers([]);
+    };
+  }, [enabled, notebookId, branch, filePath, userId, userName, editor, monaco]);
+
+  return { synced, peers };
+};
@@ -1,5 +1,6 @@
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useQuery, useMutation, useQueryClient, QueryClient } from '@tanstack/react-query';
 import api from '../services/api';
+import { Blame, Comparison, DiffView, FileHistory, FileOperation } from '../types';
 
 // Helper to get user token for cache isolation
 const getUserToken = () => localStorage.getItem('token');
@@ -22,25 +23,93 @@ export const useCommit = (notebookId: string, hash: string) => {
   });
 };
 
+// Everything that reads a branch's history or files is stale once a new commit lands on it.
+// Keys are matched by prefix, and the branch or ref comes before the token in them
+const invalidateHistory = (queryClient: QueryClient, notebookId: string) => {
+  queryClient.invalidateQueries({ queryKey: ['commits', notebookId] });
+  queryClient.invalidateQueries({ queryKey: ['fileTree', notebookId] });
+  queryClient.invalidateQueries({ queryKey: ['blame', notebookId] });
+  queryClient.invalidateQueries({ queryKey: ['fileHistory', notebookId] });
+  queryClient.invalidateQueries({ queryKey: ['compare', notebookId] });
+};
+
 export const useCreateCommit = () => {
   const queryClient = useQueryClient();
-  const token = getUserToken();
-  
+
   return useMutation({
-    mutationFn: ({ notebookId, branch, message, files }: { 
+    mutationFn: ({ notebookId, branch, message, files, operations }: { 
       notebookId: string; 
       branch: string; 
       message: string; 
-      files: Array<{ path: string; content: string }> 
+      files: Array<{ path: string; content: string }>;
+      operations?: FileOperation[];
     }) =>
-      api.createCommit(notebookId, { branch, message, files }),
+      api.createCommit(notebookId, { branch, message, files, operations }),
+    onSuccess: (_, variables) => invalidateHistory(queryClient, variables.notebookId),
+  });
+};
+
+export const useRevertCommit = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ notebookId, hash, branch }: { notebookId: string; hash: string; branch: string }) =>
+      api.revertCommit(notebookId, hash, branch),
+    onSuccess: (_, variables) => invalidateHistory(queryClient, variables.notebookId),
+  });
+};
+
+export const useCherryPickCommit = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ notebookId, hash, branch }: { notebookId: string; hash: string; branch: string }) =>
+      api.cherryPickCommit(notebookId, hash, branch),
+    onSuccess: (_, variables) => invalidateHistory(queryClient, variables.notebookId),
+  });
+};
+
+export const useRestoreFile = () => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: ({ notebookId, hash, branch, path }: { notebookId: string; hash: string; branch: string; path: string }) =>
+      api.restoreFile(notebookId, hash, branch, path),
     onSuccess: (_, variables) => {
-      queryClient.invalidateQueries({ queryKey: ['commits', variables.notebookId, token] });
-      queryClient.invalidateQueries({ queryKey: ['fileTree', variables.notebookId, token] });
+      invalidateHistory(queryClient, variables.notebookId);
+      queryClient.invalidateQueries({ queryKey: ['fileContent', variables.notebookId] });
     },
   });
 };
 
+export const useBlame = (notebookId: string, path: string | null, ref: string, enabled: boolean = true) => {
+  const token = getUserToken();
+  return useQuery<Blame>({
+    queryKey: ['blame', notebookId, path, ref, token],
+    queryFn: () => api.getBlame(notebookId, path!, ref),
+    enabled: !!notebookId && !!path && enabled,
+  });
+};
+
+export const useFileHistory = (notebookId: string, path: string | null, ref: string) => {
+  const token = getUserToken();
+  return useQuery<FileHistory>({
+    queryKey: ['fileHistory', notebookId, path, ref, token],
+    queryFn: () => api.getFileHistory(notebookId, path!, ref),
+    enabled: !!notebookId && !!path,
+  });
+};
+
+export const useCompare = (
+  notebookId: string,
+  comparison: { base: string; head: string; path?: string } | null,
+  view: DiffView
+) => {
+  const token = getUserToken();
+  return useQuery<Comparison>({
+    queryKey: ['compare', notebookId, comparison, view, token],
+    queryFn: () => api.compareRefs(notebookId, comparison!.base, comparison!.head, view, comparison!.path),
+    enabled: !!notebookId && !!comparison,
+  });
+};
+
 export const useCommitDiff = (notebookId: string, hash: string) => {
   const token = getUserToken();
   return useQuery({
@@ -0,0 +1,31 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import api from '../services/api';
+import { ExportFormat, ExportJob } from '../types';
+
+// Helper to get user token for cache isolation
+const getUserToken = () => localStorage.getItem('token');
+
+const isPending = (job: ExportJob) => job.status === 'QUEUED' || job.status === 'RUNNING';
+
+export const useExports = (notebookId: string, enabled: boolean = true) => {
+  const token = getUserToken();
+  return useQuery({
+    queryKey: ['exports', notebookId, token],
+    queryFn: () => api.getExports(notebookId),
+    enabled: !!notebookId && enabled,
+    // Keep polling while any export is still being rendered
+    refetchInterval: (query) => (query.state.data?.exports?.some(isPending) ? 2000 : false),
+  });
+};
+
+export const useCreateExport = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ notebookId, format, ref }: { notebookId: string; format: ExportFormat; ref?: string }) =>
+      api.createExport(notebookId, { format, ref }),
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['exports', variables.notebookId] });
+    },
+  });
+};
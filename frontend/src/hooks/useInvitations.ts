@@ -0,0 +1,94 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import api from '../services/api';
+import { Invitation } from '../types';
+
+// Helper to get user token for cache isolation
+const getUserToken = () => localStorage.getItem('token');
+
+// Pending invitations and links of a notebook; only its owner may list them
+export const useNotebookInvitations = (notebookId: string, enabled = true) => {
+  const token = getUserToken();
+  return useQuery<{ invitations: Invitation[] }>({
+    queryKey: ['invitations', notebookId, token],
+    queryFn: () => api.getNotebookInvitations(notebookId),
+    enabled: !!notebookId && enabled,
+  });
+};
+
+export const useMyInvitations = () => {
+  const token = getUserToken();
+  return useQuery<{ invitations: Invitation[] }>({
+    queryKey: ['myInvitations', token],
+    queryFn: () => api.getMyInvitations(),
+  });
+};
+
+export const useInvitation = (token: string) => {
+  const userToken = getUserToken();
+  return useQuery<{ invitation: Invitation; hasAccess: boolean }>({
+    queryKey: ['invitation', token, userToken],
+    queryFn: () => api.getInvitation(token),
+    enabled: !!token,
+    retry: false,
+  });
+};
+
+export const useInviteCollaborator = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ notebookId, ...data }: {
+      notebookId: string;
+      userId?: string;
+      email?: string;
+      role: 'VIEWER' | 'EDITOR';
+    }) => api.inviteCollaborator(notebookId, data),
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['invitations', variables.notebookId] });
+    },
+  });
+};
+
+export const useCreateInviteLink = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ notebookId, role, expiresInDays }: {
+      notebookId: string;
+      role: 'VIEWER' | 'EDITOR';
+      expiresInDays?: number;
+    }) => api.createInviteLink(notebookId, { role, expiresInDays }),
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['invitations', variables.notebookId] });
+    },
+  });
+};
+
+export const useRevokeInvitation = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ notebookId, invitationId }: { notebookId: string; invitationId: string }) =>
+      api.revokeInvitation(notebookId, invitationId),
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['invitations', variables.notebookId] });
+    },
+  });
+};
+
+// Accepting adds a notebook to the user's list
+export const useRespondToInvitation = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ token, accept }: { token: string; accept: boolean }) =>
+      accept ? api.acceptInvitation(token) : api.declineInvitation(token),
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['myInvitations'] });
+      queryClient.invalidateQueries({ queryKey: ['invitation', variables.token] });
+      if (variables.accept) {
+        queryClient.invalidateQueries({ queryKey: ['notebooks'] });
+      }
+    },
+  });
+};
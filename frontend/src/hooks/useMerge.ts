@@ -0,0 +1,85 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import api from '../services/api';
+
+// Helper to get user token for cache isolation
+const getUserToken = () => localStorage.getItem('token');
+
+export const useMerge = (notebookId: string) => {
+  const token = getUserToken();
+  return useQuery({
+    queryKey: ['merge', notebookId, token],
+    queryFn: () => api.getMerge(notebookId),
+    enabled: !!notebookId,
+  });
+};
+
+export const useStartMerge = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ notebookId, ...data }: {
+      notebookId: string;
+      sourceBranch?: string;
+      targetBranch?: string;
+      pullRequest?: string;
+      upstream?: boolean;
+      message?: string;
+    }) =>
+      api.startMerge(notebookId, data),
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['merge', variables.notebookId] });
+      queryClient.invalidateQueries({ queryKey: ['branches', variables.notebookId] });
+      queryClient.invalidateQueries({ queryKey: ['commits', variables.notebookId] });
+      queryClient.invalidateQueries({ queryKey: ['fileTree', variables.notebookId] });
+      queryClient.invalidateQueries({ queryKey: ['pullRequests', variables.notebookId] });
+      queryClient.invalidateQueries({ queryKey: ['pullRequest', variables.notebookId] });
+      queryClient.invalidateQueries({ queryKey: ['upstream', variables.notebookId] });
+    },
+  });
+};
+
+export const useResolveConflict = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ notebookId, ...data }: {
+      notebookId: string;
+      path: string;
+      content?: string;
+      deleted?: boolean;
+    }) =>
+      api.resolveConflict(notebookId, data),
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['merge', variables.notebookId] });
+    },
+  });
+};
+
+export const useCompleteMerge = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ notebookId }: { notebookId: string }) => api.completeMerge(notebookId),
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['merge', variables.notebookId] });
+      queryClient.invalidateQueries({ queryKey: ['branches', variables.notebookId] });
+      queryClient.invalidateQueries({ queryKey: ['commits', variables.notebookId] });
+      queryClient.invalidateQueries({ queryKey: ['fileTree', variables.notebookId] });
+      queryClient.invalidateQueries({ queryKey: ['pullRequests', variables.notebookId] });
+      queryClient.invalidateQueries({ queryKey: ['pullRequest', variables.notebookId] });
+      queryClient.invalidateQueries({ queryKey: ['upstream', variables.notebookId] });
+    },
+  });
+};
+
+export const useAbortMerge = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ notebookId }: { notebookId: string }) => api.abortMerge(notebookId),
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['merge', variables.notebookId] });
+      queryClient.invalidateQueries({ queryKey: ['fileTree', variables.notebookId] });
+    },
+  });
+};
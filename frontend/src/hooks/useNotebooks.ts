@@ -1,5 +1,6 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import api from '../services/api';
+import { WatchLevel, WatchStatus } from '../types';
 
 // Helper to get user token for cache isolation
 const getUserToken = () => localStorage.getItem('token');
@@ -38,6 +39,19 @@ export const useCreateNotebook = () => {
   });
 };
 
+export const useImportNotebook = () => {
+  const queryClient = useQueryClient();
+  const token = getUserToken();
+
+  return useMutation({
+    mutationFn: ({ data, source }: { data: Parameters<typeof api.importNotebook>[0]; source: Parameters<typeof api.importNotebook>[1] }) =>
+      api.importNotebook(data, source),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['notebooks', token] });
+    },
+  });
+};
+
 export const useUpdateNotebook = () => {
   const queryClient = useQueryClient();
   const token = getUserToken();
@@ -52,6 +66,49 @@ export const useUpdateNotebook = () => {
   });
 };
 
+export const useUpdateCollaboratorRole = () => {
+  const queryClient = useQueryClient();
+  const token = getUserToken();
+
+  return useMutation({
+    mutationFn: ({ notebookId, userId, role }: { notebookId: string; userId: string; role: 'VIEWER' | 'EDITOR' }) =>
+      api.updateCollaboratorRole(notebookId, userId, role),
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['notebook', variables.notebookId, token] });
+    },
+  });
+};
+
+// A null userId withdraws the pending offer
+export const useRequestOwnershipTransfer = () => {
+  const queryClient = useQueryClient();
+  const token = getUserToken();
+
+  return useMutation({
+    mutationFn: ({ notebookId, userId }: { notebookId: string; userId: string | null }) =>
+      userId ? api.requestOwnershipTransfer(notebookId, userId) : api.cancelOwnershipTransfer(notebookId),
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['notebook', variables.notebookId, token] });
+    },
+  });
+};
+
+// Accepting changes who owns the notebook, and so what the user may do with it
+export const useRespondToOwnershipTransfer = () => {
+  const queryClient = useQueryClient();
+  const token = getUserToken();
+
+  return useMutation({
+    mutationFn: ({ notebookId, accept }: { notebookId: string; accept: boolean }) =>
+      api.respondToOwnershipTransfer(notebookId, accept),
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['notebook', variables.notebookId, token] });
+      queryClient.invalidateQueries({ queryKey: ['notebooks', token] });
+      queryClient.invalidateQueries({ queryKey: ['watch', variables.notebookId] });
+    },
+  });
+};
+
 export const useDeleteNotebook = () => {
   const queryClient = useQueryClient();
   const token = getUserToken();
@@ -63,3 +120,26 @@ export const useDeleteNotebook = () => {
     },
   });
 };
+
+export const useWatchStatus = (notebookId: string) => {
+  const token = getUserToken();
+  return useQuery<WatchStatus>({
+    queryKey: ['watch', notebookId, token],
+    queryFn: () => api.getWatchStatus(notebookId),
+    enabled: !!notebookId,
+  });
+};
+
+// A null level goes back to the default for the user's role
+export const useUpdateWatch = () => {
+  const queryClient = useQueryClient();
+  const token = getUserToken();
+
+  return useMutation({
+    mutationFn: ({ notebookId, level }: { notebookId: string; level: WatchLevel | null }) =>
+      level ? api.watchNotebook(notebookId, level) : api.resetWatch(notebookId),
+    onSuccess: (data: WatchStatus, { notebookId }) => {
+      queryClient.setQueryData(['watch', notebookId, token], data);
+    },
+  });
+};
@@ -0,0 +1,127 @@
+import { useEffect, useRef } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import api from '../services/api';
+import { NotificationPreferences, UserNotification } from '../types';
+
+// Helper to get user token for cache isolation
+const getUserToken = () => localStorage.getItem('token');
+
+const API_URL = import.meta.env.VITE_API_URL || 'http://localhost:5000/api';
+const STREAM_URL = new URL(`${API_URL}/notifications/stream`, window.location.href).toString();
+
+// How many of the latest notifications the bell shows
+const NOTIFICATION_LIMIT = 20;
+
+interface NotificationList {
+  notifications: UserNotification[];
+  unreadCount: number;
+}
+
+interface PreferencesResponse {
+  preferences: NotificationPreferences;
+  emailEnabled: boolean;
+}
+
+export const useNotifications = () => {
+  const token = getUserToken();
+  return useQuery<NotificationList>({
+    queryKey: ['notifications', token],
+    queryFn: () => api.getNotifications(false, NOTIFICATION_LIMIT),
+    enabled: !!token,
+  });
+};
+
+// Keep the notification list current from the server's event stream, and hand each new notification to onNotification
+export const useNotificationStream = (onNotification?: (notification: UserNotification) => void) => {
+  const queryClient = useQueryClient();
+  const token = getUserToken();
+  const callback = useRef(onNotification);
+
+  useEffect(() => {
+    callback.current = onNotification;
+  }, [onNotification]);
+
+  useEffect(() => {
+    if (!token) return;
+
+    // EventSource reconnects by itself after network errors
+    const source = new EventSource(`${STREAM_URL}?token=${encodeURIComponent(token)}`);
+
+    source.addEventListener('notification', (event) => {
+      const { notification, unreadCount } = JSON.parse((event as MessageEvent).data) as {
+        notification: UserNotification;
+        unreadCount: number;
+      };
+      queryClient.setQueryData<NotificationList>(['notifications', token], (current) => ({
+        notifications: [notification, ...(current?.notifications || []).filter((n) => n._id !== notification._id)].slice(
+          0,
+          NOTIFICATION_LIMIT
+        ),
+        unreadCount,
+      }));
+      callback.current?.(notification);
+    });
+
+    // Read or deleted in another tab
+    source.addEventListener('unread', () => {
+      queryClient.invalidateQueries({ queryKey: ['notifications', token] });
+    });
+
+    return () => source.close();
+  }, [queryClient, token]);
+};
+
+export const useMarkNotificationRead = () => {
+  const queryClient = useQueryClient();
+  const token = getUserToken();
+
+  return useMutation({
+    mutationFn: (notificationId: string) => api.markNotificationAsRead(notificationId),
+    onSuccess: (_, notificationId) => {
+      queryClient.setQueryData<NotificationList>(['notifications', token], (current) =>
+        current && {
+          notifications: current.notifications.map((n) => (n._id === notificationId ? { ...n, isRead: true } : n)),
+          unreadCount: Math.max(0, current.unreadCount - 1),
+        }
+      );
+    },
+  });
+};
+
+export const useMarkAllNotificationsRead = () => {
+  const queryClient = useQueryClient();
+  const token = getUserToken();
+
+  return useMutation({
+    mutationFn: () => api.markAllNotificationsAsRead(),
+    onSuccess: () => {
+      queryClient.setQueryData<NotificationList>(['notifications', token], (current) =>
+        current && {
+          notifications: current.notifications.map((n) => ({ ...n, isRead: true })),
+          unreadCount: 0,
+        }
+      );
+    },
+  });
+};
+
+export const useNotificationPreferences = () => {
+  const token = getUserToken();
+  return useQuery<PreferencesResponse>({
+    queryKey: ['notificationPreferences', token],
+    queryFn: () => api.getNotificationPreferences(),
+    enabled: !!token,
+  });
+};
+
+export const useUpdateNotificationPreferences = () => {
+  const queryClient = useQueryClient();
+  const token = getUserToken();
+
+  return useMutation({
+    mutationFn: (data: Partial<NotificationPreferences>) => api.updateNotificationPreferences(data),
+    onSuccess: (data: PreferencesResponse) => {
+      queryClient.setQueryData(['notificationPreferences', token], data);
+    },
+  });
+};
@@ -0,0 +1,175 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import api from '../services/api';
+import { DraftReviewComment, ReviewVerdict } from '../types';
+
+// Helper to get user token for cache isolation
+const getUserToken = () => localStorage.getItem('token');
+
+export const usePullRequests = (notebookId: string, status?: string) => {
+  const token = getUserToken();
+  return useQuery({
+    queryKey: ['pullRequests', notebookId, status, token],
+    queryFn: () => api.getPullRequests(notebookId, status),
+    enabled: !!notebookId,
+  });
+};
+
+export const usePullRequest = (notebookId: string, pullRequestId: string) => {
+  const token = getUserToken();
+  return useQuery({
+    queryKey: ['pullRequest', notebookId, pullRequestId, token],
+    queryFn: () => api.getPullRequest(notebookId, pullRequestId),
+    enabled: !!notebookId && !!pullRequestId,
+  });
+};
+
+export const usePullRequestDiff = (notebookId: string, pullRequestId: string) => {
+  const token = getUserToken();
+  return useQuery({
+    queryKey: ['pullRequestDiff', notebookId, pullRequestId, token],
+    queryFn: () => api.getPullRequestDiff(notebookId, pullRequestId),
+    enabled: !!notebookId && !!pullRequestId,
+  });
+};
+
+export const useCreatePullRequest = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ notebookId, title, description, sourceBranch, targetBranch }: {
+      notebookId: string;
+      title: string;
+      description?: string;
+      sourceBranch: string;
+      targetBranch?: string;
+    }) =>
+      api.createPullRequest(notebookId, { title, description, sourceBranch, targetBranch }),
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['pullRequests', variables.notebookId] });
+    },
+  });
+};
+
+export const useUpdatePullRequest = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ notebookId, pullRequestId, ...data }: {
+      notebookId: string;
+      pullRequestId: string;
+      title?: string;
+      description?: string;
+      status?: 'OPEN' | 'CLOSED';
+    }) =>
+      api.updatePullRequest(notebookId, pullRequestId, data),
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['pullRequests', variables.notebookId] });
+      queryClient.invalidateQueries({ queryKey: ['pullRequest', variables.notebookId, variables.pullRequestId] });
+    },
+  });
+};
+
+// Pull requests from a fork show the source branch as last fetched; this fetches it again
+export const useRefreshPullRequest = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ notebookId, pullRequestId }: { notebookId: string; pullRequestId: string }) =>
+      api.refreshPullRequest(notebookId, pullRequestId),
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['pullRequest', variables.notebookId, variables.pullRequestId] });
+      queryClient.invalidateQueries({ queryKey: ['pullRequestDiff', variables.notebookId, variables.pullRequestId] });
+    },
+  });
+};
+
+export const useMergePullRequest = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ notebookId, pullRequestId }: { notebookId: string; pullRequestId: string }) =>
+      api.mergePullRequest(notebookId, pullRequestId),
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['pullRequests', variables.notebookId] });
+      queryClient.invalidateQueries({ queryKey: ['pullRequest', variables.notebookId, variables.pullRequestId] });
+      queryClient.invalidateQueries({ queryKey: ['pullRequestDiff', variables.notebookId, variables.pullRequestId] });
+      queryClient.invalidateQueries({ queryKey: ['branches', variables.notebookId] });
+      queryClient.invalidateQueries({ queryKey: ['commits', variables.notebookId] });
+      queryClient.invalidateQueries({ queryKey: ['fileTree', variables.notebookId] });
+    },
+  });
+};
+
+export const useReviews = (notebookId: string, pullRequestId: string) => {
+  const token = getUserToken();
+  return useQuery({
+    queryKey: ['reviews', notebookId, pullRequestId, token],
+    queryFn: () => api.getReviews(notebookId, pullRequestId),
+    enabled: !!notebookId && !!pullRequestId,
+  });
+};
+
+export const useReviewComments = (notebookId: string, pullRequestId: string) => {
+  const token = getUserToken();
+  return useQuery({
+    queryKey: ['reviewComments', notebookId, pullRequestId, token],
+    queryFn: () => api.getReviewComments(notebookId, pullRequestId),
+    enabled: !!notebookId && !!pullRequestId,
+  });
+};
+
+export const useSubmitReview = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ notebookId, pullRequestId, ...data }: {
+      notebookId: string;
+      pullRequestId: string;
+      verdict: ReviewVerdict;
+      body?: string;
+      comments?: DraftReviewComment[];
+    }) =>
+      api.submitReview(notebookId, pullRequestId, data),
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['reviews', variables.notebookId, variables.pullRequestId] });
+      queryClient.invalidateQueries({ queryKey: ['reviewComments', variables.notebookId, variables.pullRequestId] });
+    },
+  });
+};
+
+export const useCreateReviewComment = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ notebookId, pullRequestId, ...data }: {
+      notebookId: string;
+      pullRequestId: string;
+      content: string;
+      filePath?: string;
+      lineNumber?: number;
+      side?: 'old' | 'new';
+      parentCommentId?: string;
+    }) =>
+      api.createReviewComment(notebookId, pullRequestId, data),
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['reviewComments', variables.notebookId, variables.pullRequestId] });
+    },
+  });
+};
+
+export const useResolveReviewThread = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ notebookId, pullRequestId, commentId, resolved }: {
+      notebookId: string;
+      pullRequestId: string;
+      commentId: string;
+      resolved: boolean;
+    }) =>
+      api.resolveReviewThread(notebookId, pullRequestId, commentId, resolved),
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['reviewComments', variables.notebookId, variables.pullRequestId] });
+    },
+  });
+};
@@ -0,0 +1,82 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import api from '../services/api';
+
+// Helper to get user token for cache isolation
+const getUserToken = () => localStorage.getItem('token');
+
+export const useTags = (notebookId: string) => {
+  const token = getUserToken();
+  return useQuery({
+    queryKey: ['tags', notebookId, token],
+    queryFn: () => api.getTags(notebookId),
+    enabled: !!notebookId,
+  });
+};
+
+export const useReleases = (notebookId: string) => {
+  const token = getUserToken();
+  return useQuery({
+    queryKey: ['releases', notebookId, token],
+    queryFn: () => api.getReleases(notebookId),
+    enabled: !!notebookId,
+  });
+};
+
+export const useCreateTag = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ notebookId, name, ref, description, color }: {
+      notebookId: string;
+      name: string;
+      ref?: string;
+      description?: string;
+      color?: string;
+    }) => api.createTag(notebookId, { name, ref, description, color }),
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['tags', variables.notebookId] });
+    },
+  });
+};
+
+// A deleted tag takes its release with it
+export const useDeleteTag = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ notebookId, name }: { notebookId: string; name: string }) => api.deleteTag(notebookId, name),
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['tags', variables.notebookId] });
+      queryClient.invalidateQueries({ queryKey: ['releases', variables.notebookId] });
+    },
+  });
+};
+
+export const useCreateRelease = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ notebookId, tag, title, notes, ref }: {
+      notebookId: string;
+      tag: string;
+      title: string;
+      notes?: string;
+      ref?: string;
+    }) => api.createRelease(notebookId, { tag, title, notes, ref }),
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['tags', variables.notebookId] });
+      queryClient.invalidateQueries({ queryKey: ['releases', variables.notebookId] });
+    },
+  });
+};
+
+export const useDeleteRelease = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ notebookId, tag }: { notebookId: string; tag: string }) => api.deleteRelease(notebookId, tag),
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['releases', variables.notebookId] });
+    },
+  });
+};
@@ -0,0 +1,53 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import api from '../services/api';
+
+// Helper to get user token for cache isolation
+const getUserToken = () => localStorage.getItem('token');
+
+export const useUpstream = (notebookId: string, branch?: string, enabled = true) => {
+  const token = getUserToken();
+  return useQuery({
+    queryKey: ['upstream', notebookId, branch, token],
+    queryFn: () => api.getUpstream(notebookId, branch),
+    enabled: !!notebookId && enabled,
+  });
+};
+
+export const useRefreshUpstream = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ notebookId, branch }: { notebookId: string; branch?: string }) =>
+      api.refreshUpstream(notebookId, branch),
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['upstream', variables.notebookId] });
+    },
+  });
+};
+
+export const useUpstreamPullRequests = (notebookId: string, enabled = true) => {
+  const token = getUserToken();
+  return useQuery({
+    queryKey: ['upstreamPullRequests', notebookId, token],
+    queryFn: () => api.getUpstreamPullRequests(notebookId),
+    enabled: !!notebookId && enabled,
+  });
+};
+
+export const useCreateUpstreamPullRequest = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ notebookId, title, description, sourceBranch, targetBranch }: {
+      notebookId: string;
+      title: string;
+      description?: string;
+      sourceBranch: string;
+      targetBranch?: string;
+    }) =>
+      api.createUpstreamPullRequest(notebookId, { title, description, sourceBranch, targetBranch }),
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['upstreamPullRequests', variables.notebookId] });
+    },
+  });
+};
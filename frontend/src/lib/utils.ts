@@ -1,6 +1,39 @@
 import { type ClassValue, clsx } from "clsx"
 import { twMerge } from "tailwind-merge"
+import type { DiffLineRef } from "../types"
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+// Hand a file fetched through the API to the browser as a download
+export function saveBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob)
+  const a = document.createElement("a")
+  a.href = url
+  a.download = filename
+  a.click()
+  URL.revokeObjectURL(url)
+}
+
+// Where each line of a unified diff sits in the old or new file; null for headers
+export function diffLineRefs(diff: string): Array<DiffLineRef | null> {
+  let oldLine = 0
+  let newLine = 0
+  let inHunk = false
+  return diff.split("\n").map((line): DiffLineRef | null => {
+    const header = line.match(/^@@ -(\d+)(?:,\d+)? \+(\d+)(?:,\d+)? @@/)
+    if (header) {
+      inHunk = true
+      oldLine = Number(header[1])
+      newLine = Number(header[2])
+      return null
+    }
+    if (!inHunk || line.startsWith("\\")) return null
+    if (line.startsWith("-")) return { side: "old", lineNumber: oldLine++ }
+    if (line.startsWith("+")) return { side: "new", lineNumber: newLine++ }
+    if (!line.startsWith(" ")) return null
+    oldLine++
+    return { side: "new", lineNumber: newLine++ }
+  })
+}
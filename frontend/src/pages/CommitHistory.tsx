@@ -1,9 +1,40 @@
-import { useState } from 'react';
-import { useParams, useNavigate, Link } from 'react-router-dom';
+import { useMemo, useState } from 'react';
+import { useParams, useNavigate, useSearchParams, Link } from 'react-router-dom';
+import { useAuth } from '../context/AuthContext';
 import { useNotebook } from '../hooks/useNotebooks';
 import { useBranches } from '../hooks/useBranches';
-import { useCommits, useCommitDiff } from '../hooks/useCommits';
-import { ChevronLeft, GitBranch, Edit3, FileText, Clock, User, Hash, FolderOpen, Plus, Minus } from 'lucide-react';
+import { useTags } from '../hooks/useTags';
+import {
+  useCommits,
+  useCommitDiff,
+  useFileHistory,
+  useRevertCommit,
+  useCherryPickCommit,
+  useRestoreFile,
+} from '../hooks/useCommits';
+import DiffViewer from '../components/common/DiffViewer';
+import AlertDialog, { AlertType } from '../components/common/AlertDialog';
+import ConfirmDialog from '../components/common/ConfirmDialog';
+import ComparePanel, { CompareDraft } from '../components/notebook/ComparePanel';
+import CherryPickDialog from '../components/notebook/CherryPickDialog';
+import { Branch, Collaborator, FileChange, Tag } from '../types';
+import {
+  ChevronLeft,
+  GitBranch,
+  GitCompare,
+  Edit3,
+  FileText,
+  Clock,
+  User,
+  Hash,
+  FolderOpen,
+  Plus,
+  Minus,
+  X,
+  Undo2,
+  Cherry,
+  RotateCcw,
+} from 'lucide-react';
 
 interface Commit {
   hash: string;
@@ -12,28 +43,135 @@ interface Commit {
     _id: string;
     name?: string;
     username: string;
-    email: string;
+    email?: string;
   };
   timestamp?: string;
   date?: string;
-  filesChanged?: Array<{ path: string; additions: number; deletions: number }>;
+  filesChanged?: FileChange[];
   files?: string[];
+  // In a file's history, the name the file had at this commit
+  path?: string;
 }
 
+const getErrorMessage = (error: unknown, fallback: string) => {
+  const err = error as { response?: { data?: { message?: string } }; message?: string };
+  return err?.response?.data?.message || err?.message || fallback;
+};
+
 export default function CommitHistory() {
+  const { user } = useAuth();
   const { id: notebookId } = useParams<{ id: string }>();
   const navigate = useNavigate();
-  const [selectedBranch, setSelectedBranch] = useState<string>('main');
-  const [selectedCommit, setSelectedCommit] = useState<string | null>(null);
+  const [searchParams, setSearchParams] = useSearchParams();
+  // ?branch=&commit= opens a commit directly, e.g. from a blame gutter; ?path= narrows the timeline to one file
+  const [selectedBranch, setSelectedBranch] = useState<string>(searchParams.get('branch') || 'main');
+  const [selectedCommit, setSelectedCommit] = useState<string | null>(searchParams.get('commit'));
+  const filePath = searchParams.get('path');
+  const [comparing, setComparing] = useState(false);
+  const [compareDraft, setCompareDraft] = useState<CompareDraft>({ base: '', head: selectedBranch, path: filePath || '' });
+  const [showCherryPick, setShowCherryPick] = useState(false);
+  const [confirm, setConfirm] = useState<{ isOpen: boolean; title: string; message: string; confirmText: string; onConfirm: () => void }>({
+    isOpen: false, title: '', message: '', confirmText: '', onConfirm: () => {}
+  });
+  const [alert, setAlert] = useState<{ isOpen: boolean; message: string; type: AlertType }>({
+    isOpen: false, message: '', type: 'info'
+  });
 
   const { data: notebookData } = useNotebook(notebookId!);
   const notebook = notebookData?.notebook;
   const { data: branchesData } = useBranches(notebookId!);
-  const { data: commitsData, isLoading } = useCommits(notebookId!, selectedBranch);
-  const { data: diffData } = useCommitDiff(notebookId!, selectedCommit || '');
+  const { data: tagsData } = useTags(notebookId!);
+  const { data: commitsData, isLoading: commitsLoading } = useCommits(notebookId!, selectedBranch);
+  const { data: historyData, isLoading: historyLoading } = useFileHistory(notebookId!, filePath, selectedBranch);
+  const { data: diffData, isError: diffError } = useCommitDiff(notebookId!, selectedCommit || '');
+  const revertCommit = useRevertCommit();
+  const cherryPickCommit = useCherryPickCommit();
+  const restoreFile = useRestoreFile();
 
   const branches = branchesData?.branches || [];
-  const commits: Commit[] = commitsData?.commits || [];
+  const tags: Tag[] = tagsData?.tags || [];
+  const isLoading = filePath ? historyLoading : commitsLoading;
+  const commits: Commit[] = filePath
+    ? (historyData?.commits || []).map((entry) => ({
+        hash: entry.hash,
+        message: entry.message,
+        author: entry.user || entry.authorName,
+        date: entry.date,
+        path: entry.path,
+      }))
+    : commitsData?.commits || [];
+
+  // A file's history shows only that file's part of each commit, under whatever name it had then
+  const selectedPath = filePath && (commits.find((c) => c.hash === selectedCommit)?.path || filePath);
+  const diffFiles = (diffData?.files || []).filter(
+    (file: FileChange) => !selectedPath || file.path === selectedPath || file.previousPath === selectedPath
+  );
+
+  const isOwner = notebook?.owner._id === user?._id;
+  const role = isOwner ? 'OWNER' : notebook?.collaborators.find((c: Collaborator) => c.user._id === user?._id)?.role;
+  const canEdit = role === 'OWNER' || role === 'EDITOR';
+  const otherBranches = useMemo(
+    () => (branchesData?.branches || []).map((branch: Branch) => branch.name).filter((name: string) => name !== selectedBranch),
+    [branchesData, selectedBranch]
+  );
+
+  // Every undo is a new commit on the branch being viewed, so show it once it lands
+  const showNewCommit = (data: { commit: { hash: string } }, message: string) => {
+    setSelectedCommit(data.commit.hash);
+    setAlert({ isOpen: true, message, type: 'success' });
+  };
+
+  const handleRevert = () => {
+    const hash = selectedCommit!;
+    setConfirm({
+      isOpen: true,
+      title: 'Revert Commit',
+      message: `Undo the changes of ${hash.substring(0, 7)} with a new commit on ${selectedBranch}? The commit itself stays in the history.`,
+      confirmText: 'Revert',
+      onConfirm: async () => {
+        try {
+          const data = await revertCommit.mutateAsync({ notebookId: notebookId!, hash, branch: selectedBranch });
+          showNewCommit(data, `Reverted ${hash.substring(0, 7)} on ${selectedBranch}`);
+        } catch (err) {
+          setAlert({ isOpen: true, message: getErrorMessage(err, 'Failed to revert the commit'), type: 'error' });
+        }
+      },
+    });
+  };
+
+  const handleCherryPick = async (branch: string) => {
+    const hash = selectedCommit!;
+    try {
+      await cherryPickCommit.mutateAsync({ notebookId: notebookId!, hash, branch });
+      setShowCherryPick(false);
+      setAlert({ isOpen: true, message: `Applied ${hash.substring(0, 7)} to ${branch}`, type: 'success' });
+    } catch (err) {
+      setAlert({ isOpen: true, message: getErrorMessage(err, 'Failed to cherry-pick the commit'), type: 'error' });
+    }
+  };
+
+  const handleRestore = (hash: string, path: string, when: string) => {
+    setConfirm({
+      isOpen: true,
+      title: 'Restore File',
+      message: `Replace ${path} on ${selectedBranch} with its content ${when}? This is saved as a new commit.`,
+      confirmText: 'Restore',
+      onConfirm: async () => {
+        try {
+          const data = await restoreFile.mutateAsync({ notebookId: notebookId!, hash, branch: selectedBranch, path });
+          showNewCommit(data, `Restored ${path}`);
+        } catch (err) {
+          setAlert({ isOpen: true, message: getErrorMessage(err, 'Failed to restore the file'), type: 'error' });
+        }
+      },
+    });
+  };
+
+  const clearFilePath = () => {
+    const next = new URLSearchParams(searchParams);
+    next.delete('path');
+    setSearchParams(next);
+  };
 
   const formatDate = (dateString: string) => {
     const date = new Date(dateString);
@@ -99,6 +237,17 @@ export default function CommitHistory() {
                   ))}
                 </select>
               </div>
+              <button
+                onClick={() => setComparing(!comparing)}
+                className={`px-4 py-2.5 rounded-lg text-sm font-medium inline-flex items-center gap-2 transition-all border ${
+                  comparing
+                    ? 'bg-indigo-50 dark:bg-indigo-950/40 border-indigo-300 dark:border-indigo-600 text-indigo-700 dark:text-indigo-300'
+                    : 'bg-white dark:bg-slate-800 border-slate-200 dark:border-slate-700 text-slate-700 dark:text-slate-200 hover:border-indigo-300 dark:hover:border-indigo-600'
+                }`}
+              >
+                <GitCompare className="w-4 h-4" />
+                Compare
+              </button>
               <button
                 onClick={() => navigate(`/notebook/${notebookId}/editor?branch=${selectedBranch}`)}
                 className="px-4 py-2.5 bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg text-sm font-medium inline-flex items-center gap-2 transition-all shadow-sm hover:shadow-md"
@@ -117,9 +266,22 @@ export default function CommitHistory() {
           <div className="bg-white dark:bg-slate-900 rounded-xl shadow-sm border border-slate-200 dark:border-slate-800 overflow-hidden">
             <div className="px-6 py-4 border-b border-slate-100 dark:border-slate-800 bg-gradient-to-r from-slate-50 to-transparent dark:from-slate-800/50">
               <div className="flex items-center justify-between">
-                <h2 className="text-lg font-semibold text-slate-900 dark:text-slate-100 flex items-center gap-2">
-                  <Clock className="w-5 h-5 text-indigo-600 dark:text-indigo-400" />
-                  Commit Timeline
+                <h2 className="text-lg font-semibold text-slate-900 dark:text-slate-100 flex items-center gap-2 min-w-0">
+                  <Clock className="w-5 h-5 shrink-0 text-indigo-600 dark:text-indigo-400" />
+                  {filePath ? (
+                    <>
+                      <span className="truncate">History of <span className="font-mono text-base">{filePath}</span></span>
+                      <button
+                        onClick={clearFilePath}
+                        className="p-1 shrink-0 text-slate-400 hover:text-slate-600 dark:hover:text-slate-200 rounded"
+                        title="Show all commits"
+                      >
+                        <X className="w-4 h-4" />
+                      </button>
+                    </>
+                  ) : (
+                    'Commit Timeline'
+                  )}
                 </h2>
                 <span className="text-sm text-slate-500 dark:text-slate-400 font-medium">{commits.length} commits</span>
               </div>
@@ -134,8 +296,12 @@ export default function CommitHistory() {
               ) : commits.length === 0 ? (
                 <div className="text-center py-12">
                   <FileText className="w-16 h-16 mx-auto mb-4 text-slate-400 dark:text-slate-600 opacity-50" />
-                  <p className="text-slate-500 dark:text-slate-400 text-sm">No commits yet</p>
-                  <p className="text-slate-400 dark:text-slate-500 text-xs mt-1">Make your first commit in the editor!</p>
+                  <p className="text-slate-500 dark:text-slate-400 text-sm">
+                    {filePath ? `No commits change ${filePath} on ${selectedBranch}` : 'No commits yet'}
+                  </p>
+                  {!filePath && (
+                    <p className="text-slate-400 dark:text-slate-500 text-xs mt-1">Make your first commit in the editor!</p>
+                  )}
                 </div>
               ) : (
                 <div className="space-y-3">
@@ -191,6 +357,33 @@ export default function CommitHistory() {
                               <Hash className="w-3 h-3" />
                               <span className="text-xs font-mono font-medium">{commit.hash.substring(0, 7)}</span>
                             </div>
+
+                            {filePath && commit.path && commit.path !== filePath && (
+                              <span className="text-xs text-slate-500 dark:text-slate-400">
+                                as <span className="font-mono">{commit.path}</span>
+                              </span>
+                            )}
+
+                            {comparing && (
+                              <div className="flex items-center gap-1 ml-auto">
+                                {(['base', 'head'] as const).map((side) => (
+                                  <button
+                                    key={side}
+                                    onClick={(e) => {
+                                      e.stopPropagation();
+                                      setCompareDraft({ ...compareDraft, [side]: commit.hash });
+                                    }}
+                                    className={`px-2 py-0.5 rounded text-xs font-medium capitalize border ${
+                                      compareDraft[side] === commit.hash
+                                        ? 'bg-indigo-600 border-indigo-600 text-white'
+                                        : 'border-slate-200 dark:border-slate-700 text-slate-600 dark:text-slate-300 hover:border-indigo-300 dark:hover:border-indigo-600'
+                                    }`}
+                                  >
+                                    {side}
+                                  </button>
+                                ))}
+                              </div>
+                            )}
                             
                             {commit.filesChanged && commit.filesChanged.length > 0 && (
                               <>
@@ -234,15 +427,48 @@ export default function CommitHistory() {
 
           {/* Diff Viewer */}
           <div className="bg-white dark:bg-slate-900 rounded-xl shadow-sm border border-slate-200 dark:border-slate-800 overflow-hidden">
-            <div className="px-6 py-4 border-b border-slate-100 dark:border-slate-800 bg-gradient-to-r from-slate-50 to-transparent dark:from-slate-800/50">
+            <div className="px-6 py-4 border-b border-slate-100 dark:border-slate-800 bg-gradient-to-r from-slate-50 to-transparent dark:from-slate-800/50 flex items-center justify-between">
               <h2 className="text-lg font-semibold text-slate-900 dark:text-slate-100 flex items-center gap-2">
-                <FolderOpen className="w-5 h-5 text-indigo-600 dark:text-indigo-400" />
-                Changes
+                {comparing ? (
+                  <GitCompare className="w-5 h-5 text-indigo-600 dark:text-indigo-400" />
+                ) : (
+                  <FolderOpen className="w-5 h-5 text-indigo-600 dark:text-indigo-400" />
+                )}
+                {comparing ? 'Compare' : 'Changes'}
               </h2>
+              {!comparing && selectedCommit && diffData && canEdit && (
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={handleRevert}
+                    disabled={revertCommit.isPending}
+                    className="px-3 py-1.5 text-sm font-medium rounded-lg border border-slate-200 dark:border-slate-700 text-slate-700 dark:text-slate-200 hover:border-indigo-300 dark:hover:border-indigo-600 inline-flex items-center gap-1.5 disabled:opacity-50"
+                    title={`Undo this commit on ${selectedBranch}`}
+                  >
+                    <Undo2 className="w-4 h-4" />
+                    Revert
+                  </button>
+                  <button
+                    onClick={() => setShowCherryPick(true)}
+                    className="px-3 py-1.5 text-sm font-medium rounded-lg border border-slate-200 dark:border-slate-700 text-slate-700 dark:text-slate-200 hover:border-indigo-300 dark:hover:border-indigo-600 inline-flex items-center gap-1.5"
+                    title="Apply this commit to another branch"
+                  >
+                    <Cherry className="w-4 h-4" />
+                    Cherry-pick
+                  </button>
+                </div>
+              )}
             </div>
             
             <div className="p-6">
-              {!selectedCommit ? (
+              {comparing ? (
+                <ComparePanel
+                  notebookId={notebookId!}
+                  branches={branches.map((branch: Branch) => branch.name)}
+                  tags={tags.map((tag) => tag.name)}
+                  draft={compareDraft}
+                  onDraftChange={setCompareDraft}
+                />
+              ) : !selectedCommit ? (
                 <div className="flex flex-col items-center justify-center py-16 text-center">
                   <div className="w-20 h-20 bg-gradient-to-br from-indigo-100 to-purple-100 dark:from-indigo-950/30 dark:to-purple-950/30 rounded-2xl flex items-center justify-center mb-4">
                     <FileText className="w-10 h-10 text-indigo-400 dark:text-indigo-500" />
@@ -250,55 +476,46 @@ export default function CommitHistory() {
                   <p className="text-slate-600 dark:text-slate-400 font-medium mb-1">No commit selected</p>
                   <p className="text-slate-400 dark:text-slate-500 text-sm">Click on a commit to view its changes</p>
                 </div>
+              ) : diffError ? (
+                <div className="text-slate-500 dark:text-slate-400 text-sm text-center py-8">
+                  This commit was not made in the app, so its changes are not recorded here
+                </div>
               ) : diffData ? (
                 <div className="space-y-4">
-                  {diffData.files && diffData.files.length > 0 ? (
-                    diffData.files.map((file: any, idx: number) => (
-                      <div key={idx} className="border border-slate-200 dark:border-slate-700 rounded-xl overflow-hidden shadow-sm">
-                        <div className="bg-gradient-to-r from-slate-50 to-slate-100 dark:from-slate-800 dark:to-slate-800/50 px-4 py-3 border-b border-slate-200 dark:border-slate-700 flex items-center justify-between">
-                          <div className="flex items-center gap-2">
-                            <FileText className="w-4 h-4 text-indigo-600 dark:text-indigo-400" />
-                            <span className="text-sm font-semibold text-slate-700 dark:text-slate-300">{file.path || file.name || `File ${idx + 1}`}</span>
+                  {diffFiles.length > 0 ? (
+                    diffFiles.map((file: any, idx: number) => (
+                      <DiffViewer
+                        key={idx}
+                        path={file.path || file.name || `File ${idx + 1}`}
+                        diff={file.diff}
+                        additions={file.additions}
+                        deletions={file.deletions}
+                        status={file.status}
+                        previousPath={file.previousPath}
+                        binary={file.binary}
+                        actions={canEdit && (
+                          <div className="flex items-center gap-1">
+                            {file.status !== 'added' && diffData.commit?.parentHash && (
+                              <button
+                                onClick={() => handleRestore(diffData.commit.parentHash, file.previousPath || file.path, 'from before this commit')}
+                                className="p-1 rounded text-slate-500 hover:text-indigo-600 dark:hover:text-indigo-400 hover:bg-white dark:hover:bg-slate-700"
+                                title="Restore the version from before this commit"
+                              >
+                                <RotateCcw className="w-3.5 h-3.5" />
+                              </button>
+                            )}
+                            {file.status !== 'deleted' && (
+                              <button
+                                onClick={() => handleRestore(selectedCommit, file.path, 'as of this commit')}
+                                className="px-1.5 py-0.5 rounded text-[11px] font-medium text-slate-500 hover:text-indigo-600 dark:hover:text-indigo-400 hover:bg-white dark:hover:bg-slate-700"
+                                title="Restore the version from this commit"
+                              >
+                                Use this version
+                              </button>
+                            )}
                           </div>
-                          {file.additions !== undefined && file.deletions !== undefined && (
-                            <div className="flex items-center gap-3 text-xs">
-                              <span className="flex items-center gap-1 text-emerald-600 dark:text-emerald-400 font-semibold">
-                                <Plus className="w-3 h-3" />
-                                {file.additions}
-                              </span>
-                              <span className="flex items-center gap-1 text-rose-600 dark:text-rose-400 font-semibold">
-                                <Minus className="w-3 h-3" />
-                                {file.deletions}
-                              </span>
-                            </div>
-                          )}
-                        </div>
-                        
-                        <div className="bg-slate-900 dark:bg-slate-950 p-4 overflow-x-auto">
-                          {file.diff ? (
-                            <pre className="text-xs font-mono leading-relaxed">
-                              {file.diff.split('\n').map((line: string, lineIdx: number) => (
-                                <div
-                                  key={lineIdx}
-                                  className={`${
-                                    line.startsWith('+')
-                                      ? 'bg-emerald-500/20 text-emerald-300'
-                                      : line.startsWith('-')
-                                      ? 'bg-rose-500/20 text-rose-300'
-                                      : line.startsWith('@@')
-                                      ? 'text-cyan-400 font-semibold'
-                                      : 'text-slate-300'
-                                  } px-2 py-0.5`}
-                                >
-                                  {line || ' '}
-                                </div>
-                              ))}
-                            </pre>
-                          ) : (
-                            <p className="text-sm text-slate-400">No diff available</p>
-                          )}
-                        </div>
-                      </div>
+                        )}
+                      />
                     ))
                   ) : (
                     <div className="text-sm text-slate-500 dark:text-slate-400 text-center py-8">
@@ -324,6 +541,34 @@ export default function CommitHistory() {
           </div>
         </div>
       </div>
+
+      {selectedCommit && (
+        <CherryPickDialog
+          open={showCherryPick}
+          onOpenChange={setShowCherryPick}
+          commitHash={selectedCommit}
+          commitMessage={diffData?.commit?.message || ''}
+          branches={otherBranches}
+          isPending={cherryPickCommit.isPending}
+          onConfirm={handleCherryPick}
+        />
+      )}
+
+      <ConfirmDialog
+        isOpen={confirm.isOpen}
+        onClose={() => setConfirm({ ...confirm, isOpen: false })}
+        onConfirm={confirm.onConfirm}
+        title={confirm.title}
+        message={confirm.message}
+        confirmText={confirm.confirmText}
+      />
+
+      <AlertDialog
+        isOpen={alert.isOpen}
+        onClose={() => setAlert({ ...alert, isOpen: false })}
+        message={alert.message}
+        type={alert.type}
+      />
     </div>
   );
 }
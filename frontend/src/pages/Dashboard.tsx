@@ -5,6 +5,7 @@ import { useNotebooks } from '../hooks/useNotebooks';
 import { Notebook } from '../types';
 import CreateNotebookModal from '../components/notebook/CreateNotebookModal.tsx';
 import SearchBar from '../components/notebook/SearchBar';
+import InvitationsCard from '../components/notebook/InvitationsCard';
 import NotificationBell from '../components/common/NotificationBell';
 import AlertDialog, { AlertType } from '../components/common/AlertDialog';
 import ConfirmDialog from '../components/common/ConfirmDialog';
@@ -272,6 +273,8 @@ export default function Dashboard() {
           )}
         </div>
 
+        <InvitationsCard onMessage={(message, type) => setAlert({ isOpen: true, message, type })} />
+
         {isLoading ? (
           <div className="flex items-center justify-center py-32">
             <div className="text-center">
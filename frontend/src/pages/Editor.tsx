@@ -1,10 +1,14 @@
 import { useState, useEffect, useRef } from 'react';
 import { useParams, useNavigate, useSearchParams } from 'react-router-dom';
-import MonacoEditor from '@monaco-editor/react';
+import MonacoEditor, { Monaco } from '@monaco-editor/react';
+import type { editor as MonacoEditorTypes } from 'monaco-editor';
 import { useAuth } from '../context/AuthContext';
 import { useNotebook } from '../hooks/useNotebooks';
 import { useBranches, useCheckoutBranch, useCreateBranch } from '../hooks/useBranches';
-import { useFileTree, useCreateCommit } from '../hooks/useCommits';
+import { useFileTree, useCreateCommit, useBlame } from '../hooks/useCommits';
+import { useMerge, useStartMerge, useResolveConflict, useCompleteMerge, useAbortMerge } from '../hooks/useMerge';
+import { useCollaboration } from '../hooks/useCollaboration';
+import { Branch, FileOperation, MergeState } from '../types';
 import api from '../services/api';
 import { Button } from '../components/ui/button';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogFooter } from '../components/ui/dialog';
@@ -12,11 +16,13 @@ import { Card, CardHeader, CardTitle, CardContent } from '../components/ui/card'
 import { Input } from '../components/ui/input';
 import { Textarea } from '../components/ui/textarea';
 import { Label } from '../components/ui/label';
-import { ChevronLeft, Lock } from 'lucide-react';
+import { ChevronLeft, Lock, GitMerge, AlertTriangle, CheckCircle2, Pencil, FolderInput, Trash2, Undo2, Users } from 'lucide-react';
 import MarkdownToolbar from '../components/common/MarkdownToolbar';
 import ContextMenu, { ContextMenuItem } from '../components/common/ContextMenu';
 import AlertDialog, { AlertType } from '../components/common/AlertDialog';
 import ConfirmDialog from '../components/common/ConfirmDialog';
+import ConflictResolver from '../components/notebook/ConflictResolver';
+import BlameGutter, { BlameMark } from '../components/common/BlameGutter';
 
 interface FileNode {
   name: string;
@@ -25,6 +31,26 @@ interface FileNode {
   children?: FileNode[];
 }
 
+const getErrorMessage = (error: unknown, fallback: string) => {
+  const err = error as { response?: { data?: { message?: string } }; message?: string };
+  return err?.response?.data?.message || err?.message || fallback;
+};
+
+// Where a path ends up once the staged operations have run, or null if one of them deletes it
+const resolveStagedPath = (filePath: string, operations: FileOperation[]): string | null => {
+  let current: string | null = filePath;
+  for (const operation of operations) {
+    if (!current) break;
+    const source = operation.type === 'delete' ? operation.path : operation.from;
+    if (current !== source && !current.startsWith(`${source}/`)) continue;
+    current = operation.type === 'delete' ? null : operation.to + current.slice(source.length);
+  }
+  return current;
+};
+
+const describeOperation = (operation: FileOperation) =>
+  operation.type === 'delete' ? `Delete ${operation.path}` : `${operation.from} → ${operation.to}`;
+
 export default function Editor() {
   const { user } = useAuth();
   const { id: notebookId } = useParams<{ id: string }>();
@@ -46,14 +72,23 @@ export default function Editor() {
   const [newBranchName, setNewBranchName] = useState('');
   const [newFileName, setNewFileName] = useState('');
   const [showNewFileDialog, setShowNewFileDialog] = useState(false);
+  const [showMergeDialog, setShowMergeDialog] = useState(false);
+  const [mergeSource, setMergeSource] = useState('');
+  const [selectedConflict, setSelectedConflict] = useState<string | null>(null);
   const editorRef = useRef<any>(null);
+  const [editorInstance, setEditorInstance] = useState<MonacoEditorTypes.IStandaloneCodeEditor | null>(null);
+  const [monacoApi, setMonacoApi] = useState<Monaco | null>(null);
   const [contextMenu, setContextMenu] = useState<{ x: number; y: number; file: FileNode } | null>(null);
+  const [stagedOperations, setStagedOperations] = useState<FileOperation[]>([]);
+  const [pathDialog, setPathDialog] = useState<{ type: 'rename' | 'move'; node: FileNode; value: string } | null>(null);
+  const [showBlame, setShowBlame] = useState(false);
+  const [blameMarks, setBlameMarks] = useState<BlameMark[]>([]);
 
   // Alert/Confirm states
   const [alert, setAlert] = useState<{ isOpen: boolean; message: string; type: AlertType; title?: string }>({ 
     isOpen: false, message: '', type: 'info' 
   });
-  const [confirm, setConfirm] = useState<{ isOpen: boolean; message: string; onConfirm: () => void; title?: string }>({ 
+  const [confirm, setConfirm] = useState<{ isOpen: boolean; message: string; onConfirm: () => void; title?: string; confirmText?: string }>({ 
     isOpen: false, message: '', onConfirm: () => {} 
   });
 
@@ -63,9 +98,76 @@ export default function Editor() {
   const checkoutBranch = useCheckoutBranch();
   const createBranch = useCreateBranch();
   const createCommit = useCreateCommit();
+  const { data: mergeData } = useMerge(notebookId!);
+  const startMerge = useStartMerge();
+  const resolveConflict = useResolveConflict();
+  const completeMerge = useCompleteMerge();
+  const abortMerge = useAbortMerge();
 
   const notebook = notebookData?.notebook;
   const branches = branchesData?.branches || [];
+  const merge: MergeState | null = mergeData?.merge ?? null;
+  const activeConflict = merge?.conflicts.find((c) => c.path === selectedConflict) || null;
+  const { data: blame } = useBlame(notebookId!, selectedFile, currentBranch, showBlame && !merge);
+
+  // Once the shared session has synced, it owns the editor content instead of fileContent
+  const collaboration = useCollaboration({
+    notebookId,
+    branch: currentBranch,
+    filePath: selectedFile,
+    user,
+    editor: editorInstance,
+    monaco: monacoApi,
+    enabled: !merge,
+  });
+
+  // The working tree stays on the merge target until the merge is finished
+  useEffect(() => {
+    if (merge && currentBranch !== merge.targetBranch) {
+      setCurrentBranch(merge.targetBranch);
+    }
+  }, [merge, currentBranch]);
+
+  // Keep a conflicted file open while any remain
+  useEffect(() => {
+    if (merge && merge.conflicts.length > 0 && !merge.conflicts.some((c) => c.path === selectedConflict)) {
+      setSelectedConflict(merge.conflicts[0].path);
+    } else if (!merge && selectedConflict) {
+      setSelectedConflict(null);
+    }
+  }, [merge, selectedConflict]);
+
+  // Blame is of the last commit on the branch, so lines added since then have no entry
+  useEffect(() => {
+    if (!showBlame || !blame || !editorInstance || !monacoApi) {
+      setBlameMarks([]);
+      return;
+    }
+
+    const update = () => {
+      const scrollTop = editorInstance.getScrollTop();
+      const visibleHeight = editorInstance.getLayoutInfo().height;
+      const lineHeight = editorInstance.getOption(monacoApi.editor.EditorOption.lineHeight);
+      const marks: BlameMark[] = [];
+      for (const range of blame.ranges) {
+        const commit = blame.commits.find((c) => c.hash === range.hash);
+        const top = editorInstance.getTopForLineNumber(range.startLine) - scrollTop;
+        const bottom = editorInstance.getTopForLineNumber(range.startLine + range.lineCount - 1) + lineHeight - scrollTop;
+        if (commit && bottom > 0 && top < visibleHeight) {
+          marks.push({ top, height: bottom - top, commit });
+        }
+      }
+      setBlameMarks(marks);
+    };
+
+    update();
+    const subscriptions = [
+      editorInstance.onDidScrollChange(update),
+      editorInstance.onDidLayoutChange(update),
+      editorInstance.onDidContentSizeChange(update),
+    ];
+    return () => subscriptions.forEach((subscription) => subscription.dispose());
+  }, [showBlame, blame, editorInstance, monacoApi]);
 
   // Load file content when file is selected
   useEffect(() => {
@@ -119,13 +221,84 @@ export default function Editor() {
   const handleContextMenu = (e: React.MouseEvent, file: FileNode) => {
     e.preventDefault();
     e.stopPropagation();
-    if (file.type === 'file') {
-      setContextMenu({ x: e.clientX, y: e.clientY, file });
+    setContextMenu({ x: e.clientX, y: e.clientY, file });
+  };
+
+  const openPathDialog = (type: 'rename' | 'move', node: FileNode) => {
+    const current = resolveStagedPath(node.path, stagedOperations);
+    if (!current) return;
+    const slash = current.lastIndexOf('/');
+    setPathDialog({
+      type,
+      node,
+      value: type === 'rename' ? current.slice(slash + 1) : current.slice(0, Math.max(slash, 0)),
+    });
+  };
+
+  const handleStagePath = () => {
+    if (!pathDialog) return;
+    const from = resolveStagedPath(pathDialog.node.path, stagedOperations);
+    const value = pathDialog.value.trim().replace(/^\/+|\/+$/g, '');
+    if (!from || (pathDialog.type === 'rename' && !value)) return;
+
+    const slash = from.lastIndexOf('/');
+    const folder = slash === -1 ? '' : from.slice(0, slash);
+    const name = from.slice(slash + 1);
+    const to =
+      pathDialog.type === 'rename'
+        ? [folder, value].filter(Boolean).join('/')
+        : [value, name].filter(Boolean).join('/');
+
+    if (to !== from) {
+      setStagedOperations((prev) => [...prev, { type: pathDialog.type, from, to }]);
     }
+    setPathDialog(null);
+  };
+
+  const handleStageDelete = (node: FileNode) => {
+    const current = resolveStagedPath(node.path, stagedOperations);
+    if (!current) return;
+    setConfirm({
+      isOpen: true,
+      title: node.type === 'directory' ? 'Delete Folder' : 'Delete File',
+      message: `"${current}"${node.type === 'directory' ? ' and everything in it' : ''} will be deleted in your next commit.`,
+      confirmText: 'Delete',
+      onConfirm: () => setStagedOperations((prev) => [...prev, { type: 'delete', path: current }]),
+    });
+  };
+
+  // Rename, move and delete are staged here and only happen when the next commit is made
+  const getFileOperationItems = (node: FileNode): ContextMenuItem[] => {
+    const disabled = !!merge || !resolveStagedPath(node.path, stagedOperations);
+    return [
+      {
+        label: 'Rename',
+        icon: <Pencil className="w-4 h-4" />,
+        onClick: () => openPathDialog('rename', node),
+        disabled,
+      },
+      {
+        label: 'Move',
+        icon: <FolderInput className="w-4 h-4" />,
+        onClick: () => openPathDialog('move', node),
+        disabled,
+      },
+      {
+        label: 'Delete',
+        icon: <Trash2 className="w-4 h-4" />,
+        onClick: () => handleStageDelete(node),
+        disabled,
+        danger: true,
+      },
+    ];
   };
 
   const getFileContextMenuItems = (file: FileNode): ContextMenuItem[] => {
     const isCurrentFile = selectedFile === file.path;
+
+    if (file.type === 'directory') {
+      return getFileOperationItems(file);
+    }
     
     return [
       {
@@ -175,6 +348,8 @@ export default function Editor() {
           setAlert({ isOpen: true, message: 'Filename copied to clipboard!', type: 'success' });
         },
       },
+      { separator: true, label: '', onClick: () => {} },
+      ...getFileOperationItems(file),
     ];
   };
 
@@ -199,14 +374,17 @@ export default function Editor() {
     if (!commitMessage.trim() || !notebookId) return;
 
     // Ensure we have a file to commit
-    if (!selectedFile) {
+    if (!selectedFile && stagedOperations.length === 0) {
       setAlert({ isOpen: true, message: 'Please select a file to commit', type: 'warning' });
       return;
     }
 
+    // The open file is committed wherever the staged operations put it, and not at all if they delete it
+    const committedPath = selectedFile ? resolveStagedPath(selectedFile, stagedOperations) : null;
+
     try {
       // First save the current file if there are unsaved changes
-      if (hasUnsavedChanges) {
+      if (selectedFile && hasUnsavedChanges) {
         await api.saveFile(notebookId, {
           branch: currentBranch,
           filePath: selectedFile,
@@ -215,20 +393,26 @@ export default function Editor() {
       }
 
       // Structure the files array properly with path and content
-      const files = [{
-        path: selectedFile,
+      const files = committedPath ? [{
+        path: committedPath,
         content: fileContent
-      }];
+      }] : [];
 
       await createCommit.mutateAsync({
         notebookId,
         branch: currentBranch,
         message: commitMessage,
         files,
+        operations: stagedOperations,
       });
       setCommitMessage('');
       setShowCommitDialog(false);
       setHasUnsavedChanges(false);
+      setStagedOperations([]);
+      if (selectedFile !== committedPath) {
+        setSelectedFile(committedPath);
+        setSearchParams(committedPath ? { file: committedPath, branch: currentBranch } : { branch: currentBranch });
+      }
       refetchFileTree();
       setAlert({ isOpen: true, message: 'Commit created successfully!', type: 'success' });
     } catch (error: any) {
@@ -239,14 +423,17 @@ export default function Editor() {
   };
 
   const handleBranchChange = async (branchName: string) => {
-    if (hasUnsavedChanges) {
+    if (hasUnsavedChanges || stagedOperations.length > 0) {
       setConfirm({
         isOpen: true,
         title: 'Unsaved Changes',
-        message: 'You have unsaved changes. Do you want to switch branches anyway?',
+        message: stagedOperations.length > 0
+          ? 'You have unsaved changes or staged file operations, which will be discarded. Do you want to switch branches anyway?'
+          : 'You have unsaved changes. Do you want to switch branches anyway?',
         onConfirm: async () => {
           try {
             await checkoutBranch.mutateAsync({ notebookId: notebookId!, branchName });
+            setStagedOperations([]);
             setCurrentBranch(branchName);
             setSearchParams({ branch: branchName });
             refetchFileTree();
@@ -308,6 +495,82 @@ export default function Editor() {
     }
   };
 
+  const handleStartMerge = async () => {
+    if (!mergeSource || !notebookId) return;
+
+    try {
+      const data = await startMerge.mutateAsync({
+        notebookId,
+        sourceBranch: mergeSource,
+        targetBranch: currentBranch,
+      });
+      setShowMergeDialog(false);
+      setMergeSource('');
+      if (data.merged) {
+        refetchFileTree();
+        setAlert({ isOpen: true, message: `Merged ${mergeSource} into ${currentBranch}!`, type: 'success' });
+      } else {
+        setAlert({
+          isOpen: true,
+          title: 'Merge Conflicts',
+          message: `${data.merge.conflicts.length} file(s) have conflicting changes. Resolve each one, then complete the merge.`,
+          type: 'warning',
+        });
+      }
+    } catch (error) {
+      console.error('Failed to merge branch:', error);
+      setAlert({ isOpen: true, message: getErrorMessage(error, 'Failed to merge branch'), type: 'error' });
+    }
+  };
+
+  const handleResolveConflict = async (content: string | null) => {
+    if (!activeConflict || !notebookId) return;
+
+    try {
+      await resolveConflict.mutateAsync({
+        notebookId,
+        path: activeConflict.path,
+        ...(content === null ? { deleted: true } : { content }),
+      });
+    } catch (error) {
+      console.error('Failed to resolve conflict:', error);
+      setAlert({ isOpen: true, message: getErrorMessage(error, 'Failed to resolve conflict'), type: 'error' });
+    }
+  };
+
+  const handleCompleteMerge = async () => {
+    if (!merge || !notebookId) return;
+
+    try {
+      await completeMerge.mutateAsync({ notebookId });
+      refetchFileTree();
+      setAlert({ isOpen: true, message: `Merged ${merge.sourceBranch} into ${merge.targetBranch}!`, type: 'success' });
+    } catch (error) {
+      console.error('Failed to complete merge:', error);
+      setAlert({ isOpen: true, message: getErrorMessage(error, 'Failed to complete merge'), type: 'error' });
+    }
+  };
+
+  const handleAbortMerge = () => {
+    if (!merge || !notebookId) return;
+
+    setConfirm({
+      isOpen: true,
+      title: 'Abort Merge',
+      message: `Abort merging ${merge.sourceBranch} into ${merge.targetBranch}? Any conflict resolutions will be discarded.`,
+      confirmText: 'Abort Merge',
+      onConfirm: async () => {
+        try {
+          await abortMerge.mutateAsync({ notebookId });
+          refetchFileTree();
+        } catch (error) {
+          console.error('Failed to abort merge:', error);
+          setAlert({ isOpen: true, message: 'Failed to abort merge', type: 'error' });
+        }
+      },
+    });
+  };
+
   const toggleFolder = (path: string) => {
     setExpandedFolders((prev) => {
       const next = new Set(prev);
@@ -325,14 +588,19 @@ export default function Editor() {
       const isExpanded = expandedFolders.has(node.path);
       const paddingLeft = level * 16 + 12;
       const isSelected = selectedFile === node.path;
+      const stagedPath = resolveStagedPath(node.path, stagedOperations);
+      const stagedClass = !stagedPath ? 'line-through opacity-50' : stagedPath !== node.path ? 'italic' : '';
+      const stagedTitle = !stagedPath ? 'Deleted in the next commit' : stagedPath !== node.path ? `Becomes ${stagedPath} in the next commit` : undefined;
 
       if (node.type === 'directory') {
         return (
           <div key={node.path}>
             <div
               onClick={() => toggleFolder(node.path)}
-              className="flex items-center py-2 px-2 hover:bg-accent rounded-md mx-2 cursor-pointer transition-colors group"
+              onContextMenu={(e) => handleContextMenu(e, node)}
+              className={`flex items-center py-2 px-2 hover:bg-accent rounded-md mx-2 cursor-pointer transition-colors group ${stagedClass}`}
               style={{ paddingLeft: `${paddingLeft}px` }}
+              title={stagedTitle}
             >
               <svg className="w-4 h-4 mr-2 text-primary" fill="currentColor" viewBox="0 0 20 20">
                 <path d={isExpanded ? "M2 6a2 2 0 012-2h5l2 2h5a2 2 0 012 2v6a2 2 0 01-2 2H4a2 2 0 01-2-2V6z" : "M2 6a2 2 0 012-2h5l2 2h5a2 2 0 012 2v6a2 2 0 01-2 2H4a2 2 0 01-2-2V6z"}/>
@@ -358,8 +626,9 @@ export default function Editor() {
             isSelected 
               ? 'bg-primary/10 border-l-2 border-primary text-primary' 
               : 'hover:bg-accent text-muted-foreground hover:text-foreground'
-          }`}
+          } ${stagedClass}`}
           style={{ paddingLeft: `${paddingLeft}px` }}
+          title={stagedTitle}
         >
           <svg className="w-4 h-4 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 21h10a2 2 0 002-2V9.414a1 1 0 00-.293-.707l-5.414-5.414A1 1 0 0012.586 3H7a2 2 0 00-2 2v14a2 2 0 002 2z" />
@@ -502,6 +771,26 @@ export default function Editor() {
               {selectedFile}
             </span>
           )}
+          {collaboration.synced && (
+            <div className="flex items-center gap-2">
+              <span className="flex items-center gap-1 text-xs text-emerald-500">
+                <span className="w-2 h-2 rounded-full bg-emerald-500 animate-pulse"></span>
+                Live
+              </span>
+              <div className="flex -space-x-2">
+                {collaboration.peers.map((peer) => (
+                  <div
+                    key={peer.clientId}
+                    title={`${peer.name} is editing`}
+                    className="w-7 h-7 rounded-full border-2 border-card flex items-center justify-center text-xs font-semibold text-white"
+                    style={{ backgroundColor: peer.color }}
+                  >
+                    {peer.name.charAt(0).toUpperCase()}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
         </div>
 
         <div className="flex items-center gap-2">
@@ -509,6 +798,7 @@ export default function Editor() {
             <select
               value={currentBranch}
               onChange={(e) => handleBranchChange(e.target.value)}
+              disabled={!!merge}
               className="h-9 text-sm min-w-[180px] pl-9 pr-8 appearance-none cursor-pointer bg-card text-foreground border border-border rounded-md hover:bg-accent transition-colors font-medium focus:outline-none focus:ring-2 focus:ring-primary focus:ring-offset-2"
             >
               {branches.map((branch: any) => (
@@ -535,6 +825,32 @@ export default function Editor() {
             </svg>
           </div>
 
+          {!merge && selectedFile && (
+            <Button
+              onClick={() => setShowBlame(!showBlame)}
+              variant={showBlame ? 'default' : 'secondary'}
+              size="sm"
+              className="flex items-center gap-1"
+              title="Show who last changed each line"
+            >
+              <Users className="w-4 h-4" />
+              Blame
+            </Button>
+          )}
+
+          {!merge && (
+            <Button
+              onClick={() => setShowMergeDialog(true)}
+              variant="secondary"
+              size="sm"
+              className="flex items-center gap-1"
+              disabled={branches.length < 2}
+            >
+              <GitMerge className="w-4 h-4" />
+              Merge
+            </Button>
+          )}
+
           <Button
             onClick={() => setShowNewBranchDialog(true)}
             variant="secondary"
@@ -563,6 +879,7 @@ export default function Editor() {
           <Button
             onClick={() => setShowCommitDialog(true)}
             size="sm"
+            disabled={!!merge}
           >
             <svg className="w-4 h-4 mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z" />
@@ -572,9 +889,62 @@ export default function Editor() {
         </div>
       </header>
 
+      {/* Merge in progress */}
+      {merge && (
+        <div className="px-4 py-2 border-b border-border bg-amber-50 dark:bg-amber-950/30 flex items-center justify-between">
+          <div className="flex items-center gap-2 text-sm text-amber-800 dark:text-amber-300">
+            <GitMerge className="w-4 h-4" />
+            <span>
+              Merging <span className="font-semibold">{merge.sourceBranch}</span> into{' '}
+              <span className="font-semibold">{merge.targetBranch}</span>
+              {' '}— {merge.resolved.length} of {merge.resolved.length + merge.conflicts.length} conflicts resolved
+            </span>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="sm" onClick={handleAbortMerge} disabled={abortMerge.isPending}>
+              Abort Merge
+            </Button>
+            <Button
+              size="sm"
+              onClick={handleCompleteMerge}
+              disabled={merge.conflicts.length > 0 || completeMerge.isPending}
+            >
+              {completeMerge.isPending ? 'Completing...' : 'Complete Merge'}
+            </Button>
+          </div>
+        </div>
+      )}
+
       <div className="flex-1 flex overflow-hidden">
         {/* Sidebar - File Tree */}
         <aside className="w-64 bg-card border-r border-border overflow-y-auto">
+          {merge && (
+            <div className="border-b border-border">
+              <div className="p-3 text-sm font-semibold text-foreground">Conflicts</div>
+              <div className="pb-2">
+                {merge.conflicts.map((c) => (
+                  <div
+                    key={c.path}
+                    onClick={() => setSelectedConflict(c.path)}
+                    className={`flex items-center gap-2 py-2 px-3 rounded-md mx-2 cursor-pointer text-sm transition-colors ${
+                      selectedConflict === c.path
+                        ? 'bg-primary/10 text-primary'
+                        : 'text-muted-foreground hover:bg-accent hover:text-foreground'
+                    }`}
+                  >
+                    <AlertTriangle className="w-4 h-4 text-amber-500 shrink-0" />
+                    <span className="truncate">{c.path}</span>
+                  </div>
+                ))}
+                {merge.resolved.map((path) => (
+                  <div key={path} className="flex items-center gap-2 py-2 px-3 mx-2 text-sm text-muted-foreground">
+                    <CheckCircle2 className="w-4 h-4 text-emerald-500 shrink-0" />
+                    <span className="truncate">{path}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
           <div className="p-3 border-b border-border flex justify-between items-center sticky top-0 bg-card">
             <span className="text-sm font-semibold text-foreground">Files</span>
             <button
@@ -598,11 +968,53 @@ export default function Editor() {
               </div>
             )}
           </div>
+          {stagedOperations.length > 0 && (
+            <div className="border-t border-border">
+              <div className="p-3 flex justify-between items-center">
+                <span className="text-sm font-semibold text-foreground">Staged Changes</span>
+                <div className="flex items-center gap-1">
+                  <button
+                    onClick={() => setStagedOperations((prev) => prev.slice(0, -1))}
+                    className="p-1 rounded text-muted-foreground hover:text-foreground hover:bg-accent transition-colors"
+                    title="Undo last"
+                  >
+                    <Undo2 className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => setStagedOperations([])}
+                    className="text-xs px-1.5 py-1 rounded text-muted-foreground hover:text-foreground hover:bg-accent transition-colors"
+                  >
+                    Clear
+                  </button>
+                </div>
+              </div>
+              <div className="pb-2">
+                {stagedOperations.map((operation, index) => (
+                  <div key={index} className="flex items-center gap-2 py-1.5 px-3 mx-2 text-xs text-muted-foreground">
+                    {operation.type === 'delete' ? (
+                      <Trash2 className="w-3.5 h-3.5 text-destructive shrink-0" />
+                    ) : (
+                      <FolderInput className="w-3.5 h-3.5 text-primary shrink-0" />
+                    )}
+                    <span className="truncate" title={describeOperation(operation)}>{describeOperation(operation)}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
         </aside>
 
         {/* Editor */}
         <main className="flex-1 bg-background flex flex-col">
-          {selectedFile ? (
+          {merge && activeConflict ? (
+            <ConflictResolver
+              conflict={activeConflict}
+              oursLabel={merge.targetBranch}
+              theirsLabel={merge.sourceBranch}
+              onResolve={handleResolveConflict}
+              isResolving={resolveConflict.isPending}
+            />
+          ) : selectedFile ? (
             <>
               {getLanguageFromFile(selectedFile) === 'markdown' && (
                 <MarkdownToolbar
@@ -610,28 +1022,40 @@ export default function Editor() {
                   disabled={!selectedFile}
                 />
               )}
-              <div className="flex-1">
-                <MonacoEditor
-                  height="100%"
-                  language={getLanguageFromFile(selectedFile)}
-                  value={fileContent}
-                  onChange={handleEditorChange}
-                  onMount={(editor) => {
-                    editorRef.current = editor;
-                  }}
-                  theme="vs-dark"
-                  options={{
-                    minimap: { enabled: true },
-                    fontSize: 14,
-                    wordWrap: 'on',
-                    automaticLayout: true,
-                    fontFamily: "'Fira Code', 'Cascadia Code', Consolas, monospace",
-                    fontLigatures: true,
-                    cursorBlinking: 'smooth',
-                    smoothScrolling: true,
-                    padding: { top: 16, bottom: 16 },
-                  }}
-                />
+              <div className="flex-1 flex">
+                {showBlame && !merge && (
+                  <BlameGutter
+                    marks={blameMarks}
+                    notebookId={notebookId!}
+                    branch={currentBranch}
+                    className="bg-card border-r border-border"
+                  />
+                )}
+                <div className="flex-1 min-w-0">
+                  <MonacoEditor
+                    height="100%"
+                    language={getLanguageFromFile(selectedFile)}
+                    value={collaboration.synced ? undefined : fileContent}
+                    onChange={handleEditorChange}
+                    onMount={(editor, monaco) => {
+                      editorRef.current = editor;
+                      setEditorInstance(editor);
+                      setMonacoApi(monaco);
+                    }}
+                    theme="vs-dark"
+                    options={{
+                      minimap: { enabled: true },
+                      fontSize: 14,
+                      wordWrap: 'on',
+                      automaticLayout: true,
+                      fontFamily: "'Fira Code', 'Cascadia Code', Consolas, monospace",
+                      fontLigatures: true,
+                      cursorBlinking: 'smooth',
+                      smoothScrolling: true,
+                      padding: { top: 16, bottom: 16 },
+                    }}
+                  />
+                </div>
               </div>
             </>
           ) : (
@@ -668,6 +1092,16 @@ export default function Editor() {
               </div>
             </div>
           )}
+          {stagedOperations.length > 0 && (
+            <div className="p-3 bg-muted rounded-lg text-sm border border-border">
+              <span className="font-medium text-muted-foreground">Staged changes:</span>
+              <ul className="mt-1 space-y-0.5 font-mono text-xs text-foreground">
+                {stagedOperations.map((operation, index) => (
+                  <li key={index} className="truncate">{describeOperation(operation)}</li>
+                ))}
+              </ul>
+            </div>
+          )}
           <div className="space-y-2">
             <Label htmlFor="commitMessage">Commit Message</Label>
             <Textarea
@@ -684,7 +1118,7 @@ export default function Editor() {
             </Button>
             <Button
               onClick={handleCommit}
-              disabled={!commitMessage.trim() || !selectedFile || createCommit.isPending}
+              disabled={!commitMessage.trim() || (!selectedFile && stagedOperations.length === 0) || createCommit.isPending}
             >
               {createCommit.isPending ? 'Committing...' : 'Commit Changes'}
             </Button>
@@ -736,6 +1170,50 @@ export default function Editor() {
         </DialogContent>
       </Dialog>
 
+      {/* Merge Dialog */}
+      <Dialog open={showMergeDialog} onOpenChange={setShowMergeDialog}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Merge Branch</DialogTitle>
+            <DialogDescription>
+              Bring the changes from another branch into {currentBranch}.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="mergeSource">Merge from</Label>
+            <select
+              id="mergeSource"
+              value={mergeSource}
+              onChange={(e) => setMergeSource(e.target.value)}
+              className="w-full h-9 px-3 text-sm bg-card text-foreground border border-border rounded-md"
+            >
+              <option value="">Select a branch...</option>
+              {branches
+                .filter((branch: Branch) => branch.name !== currentBranch)
+                .map((branch: Branch) => (
+                  <option key={branch._id} value={branch.name}>
+                    {branch.name}
+                  </option>
+                ))}
+            </select>
+          </div>
+          <p className="text-sm text-muted-foreground">
+            If both branches changed the same lines, you will be asked to resolve each conflict before the merge is committed.
+          </p>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowMergeDialog(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleStartMerge}
+              disabled={!mergeSource || startMerge.isPending}
+            >
+              {startMerge.isPending ? 'Merging...' : 'Merge'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       {/* New File Dialog */}
       <Dialog open={showNewFileDialog} onOpenChange={setShowNewFileDialog}>
         <DialogContent>
@@ -774,6 +1252,40 @@ export default function Editor() {
         </DialogContent>
       </Dialog>
 
+      {/* Rename / Move Dialog */}
+      <Dialog open={!!pathDialog} onOpenChange={(open) => !open && setPathDialog(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{pathDialog?.type === 'rename' ? 'Rename' : 'Move'} {pathDialog?.node.type === 'directory' ? 'Folder' : 'File'}</DialogTitle>
+            <DialogDescription>
+              The change is staged and made in your next commit, where history records it as a rename.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="stagedPath">{pathDialog?.type === 'rename' ? 'New name' : 'Destination folder'}</Label>
+            <Input
+              id="stagedPath"
+              type="text"
+              value={pathDialog?.value || ''}
+              onChange={(e) => pathDialog && setPathDialog({ ...pathDialog, value: e.target.value })}
+              onKeyDown={(e) => e.key === 'Enter' && handleStagePath()}
+              placeholder={pathDialog?.type === 'rename' ? 'e.g. lecture-01.md' : 'e.g. week-1/lectures (empty for the top level)'}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPathDialog(null)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleStagePath}
+              disabled={pathDialog?.type === 'rename' && !pathDialog.value.trim()}
+            >
+              Stage {pathDialog?.type === 'rename' ? 'Rename' : 'Move'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       {/* Context Menu */}
       {contextMenu && (
         <ContextMenu
@@ -799,7 +1311,7 @@ export default function Editor() {
         onConfirm={confirm.onConfirm}
         message={confirm.message}
         title={confirm.title}
-        confirmText="Switch Branch"
+        confirmText={confirm.confirmText || 'Switch Branch'}
         variant="default"
       />
     </div>
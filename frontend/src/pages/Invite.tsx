@@ -0,0 +1,111 @@
+import { useState } from 'react';
+import { useParams, useNavigate, Link } from 'react-router-dom';
+import { formatDistanceToNow } from 'date-fns';
+import { BookOpen, Loader2 } from 'lucide-react';
+import { useInvitation, useRespondToInvitation } from '../hooks/useInvitations';
+import { Button } from '../components/ui/button';
+import { Card, CardHeader, CardTitle, CardDescription, CardContent, CardFooter } from '../components/ui/card';
+import { Invitation } from '../types';
+
+const getErrorMessage = (error: unknown, fallback: string) => {
+  const err = error as { response?: { data?: { message?: string } }; message?: string };
+  return err?.response?.data?.message || err?.message || fallback;
+};
+
+const CLOSED_MESSAGES: Record<Exclude<Invitation['status'], 'pending'>, string> = {
+  accepted: 'This invitation has already been accepted.',
+  declined: 'This invitation was declined.',
+  expired: 'This invitation has expired. Ask the notebook owner for a new one.',
+};
+
+export default function Invite() {
+  const { token } = useParams<{ token: string }>();
+  const navigate = useNavigate();
+  const { data, isLoading, error } = useInvitation(token!);
+  const respond = useRespondToInvitation();
+  const [respondError, setRespondError] = useState('');
+
+  const invitation = data?.invitation;
+  const notebook = invitation && typeof invitation.notebook === 'object' ? invitation.notebook : null;
+
+  const handleRespond = async (accept: boolean) => {
+    setRespondError('');
+    try {
+      const result = await respond.mutateAsync({ token: token!, accept });
+      navigate(accept ? `/notebook/${result.notebook._id}` : '/dashboard');
+    } catch (err) {
+      setRespondError(getErrorMessage(err, `Failed to ${accept ? 'accept' : 'decline'} the invitation`));
+    }
+  };
+
+  const renderBody = () => {
+    if (isLoading) {
+      return <p className="text-sm text-muted-foreground">Loading invitation...</p>;
+    }
+    if (error || !invitation || !notebook) {
+      return <p className="text-sm text-muted-foreground">This invitation doesn't exist or was revoked.</p>;
+    }
+    if (data.hasAccess) {
+      return <p className="text-sm text-muted-foreground">You already have access to "{notebook.name}".</p>;
+    }
+    if (invitation.status !== 'pending') {
+      return <p className="text-sm text-muted-foreground">{CLOSED_MESSAGES[invitation.status]}</p>;
+    }
+    return (
+      <div className="space-y-2">
+        <p className="text-sm text-foreground">
+          <span className="font-semibold">{invitation.invitedBy.name || invitation.invitedBy.username}</span> invited you to
+          collaborate on <span className="font-semibold">"{notebook.name}"</span> as{' '}
+          {invitation.role === 'EDITOR' ? 'an editor, who can read and edit it' : 'a viewer, who can read it'}.
+        </p>
+        {notebook.description && <p className="text-sm text-muted-foreground">{notebook.description}</p>}
+        <p className="text-xs text-muted-foreground">
+          Expires {formatDistanceToNow(new Date(invitation.expiresAt), { addSuffix: true })}
+        </p>
+        {respondError && <p className="text-sm text-red-600 dark:text-red-400">{respondError}</p>}
+      </div>
+    );
+  };
+
+  const canRespond = invitation?.status === 'pending' && !data?.hasAccess && !!notebook;
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-blue-50 via-indigo-50 to-purple-50 dark:from-gray-900 dark:via-blue-900/20 dark:to-purple-900/20 p-4">
+      <Card className="w-full max-w-md shadow-xl">
+        <CardHeader>
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 rounded-xl bg-gradient-to-br from-blue-600 via-indigo-600 to-purple-600 flex items-center justify-center">
+              <BookOpen className="w-5 h-5 text-white" />
+            </div>
+            <div>
+              <CardTitle>Notebook Invitation</CardTitle>
+              {notebook && <CardDescription>{notebook.courseCode || notebook.courseName || 'NoteVerse'}</CardDescription>}
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>{renderBody()}</CardContent>
+        <CardFooter className="flex justify-end gap-2">
+          {canRespond ? (
+            <>
+              {invitation.kind !== 'link' && (
+                <Button variant="outline" onClick={() => handleRespond(false)} disabled={respond.isPending}>
+                  Decline
+                </Button>
+              )}
+              <Button onClick={() => handleRespond(true)} disabled={respond.isPending}>
+                {respond.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Accept and open
+              </Button>
+            </>
+          ) : data?.hasAccess && notebook ? (
+            <Button onClick={() => navigate(`/notebook/${notebook._id}`)}>Open notebook</Button>
+          ) : (
+            <Link to="/dashboard">
+              <Button variant="outline">Back to dashboard</Button>
+            </Link>
+          )}
+        </CardFooter>
+      </Card>
+    </div>
+  );
+}
@@ -1,5 +1,5 @@
 import { useState } from 'react';
-import { Link, useNavigate } from 'react-router-dom';
+import { Link, useNavigate, useLocation } from 'react-router-dom';
 import { useAuth } from '../context/AuthContext';
 import { Button } from '../components/ui/button';
 import { Input } from '../components/ui/input';
@@ -14,6 +14,9 @@ export default function Login() {
   const [loading, setLoading] = useState(false);
   const { login } = useAuth();
   const navigate = useNavigate();
+  const location = useLocation();
+  // Where a signed-out visitor was headed, such as an invite link
+  const from = (location.state as { from?: string } | null)?.from || '/dashboard';
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -22,7 +25,7 @@ export default function Login() {
 
     try {
       await login({ email, password });
-      navigate('/dashboard');
+      navigate(from);
     } catch (err: any) {
       setError(err.response?.data?.message || 'Login failed');
     } finally {
@@ -189,7 +192,7 @@ export default function Login() {
             </CardContent>
 
             <CardFooter className="flex flex-col space-y-4 pb-6">
-              <Link to="/register" className="w-full">
+              <Link to="/register" state={location.state} className="w-full">
                 <Button
                   variant="outline"
                   className="w-full h-11 border-2 hover:bg-accent/50 transition-all duration-300"
@@ -1,15 +1,25 @@
 import { useState } from 'react';
 import { useParams, useNavigate, Link } from 'react-router-dom';
 import { useAuth } from '../context/AuthContext';
-import { useNotebook } from '../hooks/useNotebooks';
-import { useBranches, useCheckoutBranch } from '../hooks/useBranches';
+import { useNotebook, useUpdateCollaboratorRole, useRequestOwnershipTransfer } from '../hooks/useNotebooks';
+import { useBranches, useCheckoutBranch, useDeleteBranch } from '../hooks/useBranches';
 import { useFileTree } from '../hooks/useCommits';
-import { ChevronLeft, GitBranch, History, Edit3, FolderOpen, FileText, Users, Eye, Lock, Globe, BookOpen, UserPlus } from 'lucide-react';
+import { ChevronLeft, GitBranch, GitFork, GitPullRequest, History, Edit3, FolderOpen, FileText, Users, Eye, Lock, Globe, BookOpen, UserPlus, Download, Shield, Trash2, Crown } from 'lucide-react';
 import { Button } from '../components/ui/button';
 import { Card, CardHeader, CardTitle, CardContent } from '../components/ui/card';
 import AddCollaboratorModal from '../components/notebook/AddCollaboratorModal';
+import UpstreamCard from '../components/notebook/UpstreamCard';
+import ReleasesCard from '../components/notebook/ReleasesCard';
+import ExportDialog from '../components/notebook/ExportDialog';
+import BranchProtectionDialog from '../components/notebook/BranchProtectionDialog';
+import WatchMenu from '../components/notebook/WatchMenu';
+import OwnershipTransferBanner from '../components/notebook/OwnershipTransferBanner';
+import { ArchiveFormat, Branch, Collaborator } from '../types';
+import api from '../services/api';
+import { saveBlob } from '../lib/utils';
 import ContextMenu, { ContextMenuItem } from '../components/common/ContextMenu';
 import AlertDialog, { AlertType } from '../components/common/AlertDialog';
+import ConfirmDialog from '../components/common/ConfirmDialog';
 
 interface FileNode {
   name: string;
@@ -26,17 +36,30 @@ export default function NotebookView() {
   const [expandedFolders, setExpandedFolders] = useState<Set<string>>(new Set(['/']));
   const [isAddCollaboratorOpen, setIsAddCollaboratorOpen] = useState(false);
   const [contextMenu, setContextMenu] = useState<{ x: number; y: number; file: FileNode } | null>(null);
+  const [showDownloadMenu, setShowDownloadMenu] = useState(false);
+  const [downloadingArchive, setDownloadingArchive] = useState(false);
+  const [showExportDialog, setShowExportDialog] = useState(false);
+  const [protectionBranch, setProtectionBranch] = useState<Branch | null>(null);
   const [alert, setAlert] = useState<{ isOpen: boolean; message: string; type: AlertType; title?: string }>({ 
     isOpen: false, message: '', type: 'info' 
   });
+  const [confirm, setConfirm] = useState<{ isOpen: boolean; message: string; onConfirm: () => void; title?: string; confirmText?: string }>({
+    isOpen: false, message: '', onConfirm: () => {}
+  });
 
   const { data: notebookData, isLoading: notebookLoading, error: notebookError, refetch: refetchNotebook } = useNotebook(notebookId!);
   const { data: branchesData, isLoading: branchesLoading } = useBranches(notebookId!);
   const { data: fileTree, isLoading: fileTreeLoading } = useFileTree(notebookId!, selectedBranch);
   const checkoutBranch = useCheckoutBranch();
+  const deleteBranch = useDeleteBranch();
+  const updateCollaboratorRole = useUpdateCollaboratorRole();
+  const requestOwnershipTransfer = useRequestOwnershipTransfer();
 
   const notebook = notebookData?.notebook;
   const branches = branchesData?.branches || [];
+  const isOwner = notebook?.owner._id === user?._id;
+  const canEditBranches =
+    isOwner || !!notebook?.collaborators.some((c: Collaborator) => c.user._id === user?._id && c.role === 'EDITOR');
 
   const handleBranchChange = async (branchName: string) => {
     try {
@@ -47,6 +70,58 @@ export default function NotebookView() {
     }
   };
 
+  const handleDeleteBranch = (branch: Branch, force = false) => {
+    setConfirm({
+      isOpen: true,
+      title: force ? 'Force Delete Branch' : 'Delete Branch',
+      message: force
+        ? `"${branch.name}" has commits that were never merged. Delete it anyway and discard them?`
+        : `Delete branch "${branch.name}"?`,
+      confirmText: force ? 'Force Delete' : 'Delete',
+      onConfirm: async () => {
+        try {
+          await deleteBranch.mutateAsync({ notebookId: notebookId!, branchName: branch.name, force });
+        } catch (error) {
+          const data = (error as { response?: { data?: { message?: string; unmerged?: boolean } } })?.response?.data;
+          // Git keeps branches with unmerged work unless asked to force it
+          if (data?.unmerged && !force) {
+            handleDeleteBranch(branch, true);
+            return;
+          }
+          console.error('Failed to delete branch:', error);
+          setAlert({ isOpen: true, message: data?.message || 'Failed to delete the branch', type: 'error' });
+        }
+      },
+    });
+  };
+
+  const handleRoleChange = async (collaborator: Collaborator, role: 'VIEWER' | 'EDITOR') => {
+    try {
+      await updateCollaboratorRole.mutateAsync({ notebookId: notebookId!, userId: collaborator.user._id, role });
+    } catch (error) {
+      const data = (error as { response?: { data?: { message?: string } } })?.response?.data;
+      setAlert({ isOpen: true, message: data?.message || 'Failed to change the role', type: 'error' });
+    }
+  };
+
+  const handleTransferOwnership = (collaborator: Collaborator) => {
+    setConfirm({
+      isOpen: true,
+      title: 'Transfer Ownership',
+      message: `Offer ownership of "${notebook?.name}" to ${collaborator.user.username}? Once they accept, they can manage collaborators and delete the notebook, and you stay on as an editor.`,
+      confirmText: 'Offer Ownership',
+      onConfirm: async () => {
+        try {
+          await requestOwnershipTransfer.mutateAsync({ notebookId: notebookId!, userId: collaborator.user._id });
+          setAlert({ isOpen: true, message: `${collaborator.user.username} needs to accept before ownership moves.`, type: 'success' });
+        } catch (error) {
+          const data = (error as { response?: { data?: { message?: string } } })?.response?.data;
+          setAlert({ isOpen: true, message: data?.message || 'Failed to offer ownership', type: 'error' });
+        }
+      },
+    });
+  };
+
   const toggleFolder = (path: string) => {
     setExpandedFolders((prev) => {
       const next = new Set(prev);
@@ -59,6 +134,21 @@ export default function NotebookView() {
     });
   };
 
+  // Whole notebook at the selected branch, for reading offline
+  const handleDownloadArchive = async (format: ArchiveFormat) => {
+    setShowDownloadMenu(false);
+    setDownloadingArchive(true);
+    try {
+      const blob = await api.downloadArchive(notebookId!, selectedBranch, format);
+      saveBlob(blob, `${(notebook?.name || 'notebook').replace(/[^\w.-]+/g, '-')}-${selectedBranch.replace(/[^\w.-]+/g, '-')}.${format}`);
+    } catch (error) {
+      console.error('Failed to download notebook:', error);
+      setAlert({ isOpen: true, message: 'Failed to download the notebook', type: 'error' });
+    } finally {
+      setDownloadingArchive(false);
+    }
+  };
+
   const handleContextMenu = (e: React.MouseEvent, file: FileNode) => {
     e.preventDefault();
     e.stopPropagation();
@@ -94,6 +184,15 @@ export default function NotebookView() {
         onClick: () => navigate(`/editor/${notebookId}?file=${encodeURIComponent(file.path)}&branch=${selectedBranch}`),
         disabled: !canEdit,
       },
+      {
+        label: 'View History',
+        icon: (
+          <svg fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+          </svg>
+        ),
+        onClick: () => navigate(`/notebook/${notebookId}/commits?branch=${encodeURIComponent(selectedBranch)}&path=${encodeURIComponent(file.path)}`),
+      },
       { separator: true, label: '', onClick: () => {} },
       {
         label: 'Copy Path',
@@ -279,6 +378,15 @@ export default function NotebookView() {
                 <h1 className="text-4xl font-bold bg-gradient-to-r from-slate-900 via-indigo-900 to-slate-800 dark:from-slate-100 dark:via-indigo-200 dark:to-slate-300 bg-clip-text text-transparent leading-tight">
                   {notebook.name}
                 </h1>
+                {notebook.forkedFrom && (
+                  <Link
+                    to={`/notebook/${notebook.forkedFrom._id}`}
+                    className="mt-1 inline-flex items-center gap-1.5 text-xs text-slate-500 dark:text-slate-400 hover:text-indigo-600 dark:hover:text-indigo-400"
+                  >
+                    <GitFork className="w-3.5 h-3.5" />
+                    Forked from {notebook.forkedFrom.name}
+                  </Link>
+                )}
                 {notebook.description && (
                   <p className="text-sm text-slate-600 dark:text-slate-400 mt-2 max-w-2xl">{notebook.description}</p>
                 )}
@@ -302,13 +410,14 @@ export default function NotebookView() {
                   className="pl-10 pr-8 py-2.5 min-w-[140px] bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg text-sm font-medium text-slate-700 dark:text-slate-200 hover:border-indigo-400 dark:hover:border-indigo-500 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent transition-all cursor-pointer shadow-sm hover:shadow-md"
                   disabled={checkoutBranch.isPending}
                 >
-                  {branches.map((branch: any) => (
+                  {branches.map((branch: Branch) => (
                     <option key={branch._id} value={branch.name}>
                       {branch.name}
                     </option>
                   ))}
                 </select>
               </div>
+              <WatchMenu notebookId={notebookId!} onMessage={(message, type) => setAlert({ isOpen: true, message, type })} />
               <Button
                 onClick={() => navigate(`/notebook/${notebookId}/commits`)}
                 variant="outline"
@@ -318,6 +427,49 @@ export default function NotebookView() {
                 <History className="w-4 h-4 mr-2" />
                 History
               </Button>
+              <Button
+                onClick={() => navigate(`/notebook/${notebookId}/pulls`)}
+                variant="outline"
+                size="sm"
+                className="shadow-sm hover:shadow-md transition-all"
+              >
+                <GitPullRequest className="w-4 h-4 mr-2" />
+                Pull Requests
+              </Button>
+              <div className="relative">
+                <Button
+                  onClick={() => setShowDownloadMenu(!showDownloadMenu)}
+                  variant="outline"
+                  size="sm"
+                  className="shadow-sm hover:shadow-md transition-all"
+                  disabled={downloadingArchive}
+                >
+                  <Download className="w-4 h-4 mr-2" />
+                  {downloadingArchive ? 'Preparing...' : 'Download'}
+                </Button>
+                {showDownloadMenu && (
+                  <div className="absolute right-0 mt-1 w-44 z-20 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg shadow-lg py-1">
+                    {(['zip', 'tar.gz'] as ArchiveFormat[]).map((format) => (
+                      <button
+                        key={format}
+                        onClick={() => handleDownloadArchive(format)}
+                        className="w-full text-left px-3 py-2 text-sm text-slate-700 dark:text-slate-200 hover:bg-slate-100 dark:hover:bg-slate-700"
+                      >
+                        {selectedBranch} as .{format}
+                      </button>
+                    ))}
+                    <button
+                      onClick={() => {
+                        setShowDownloadMenu(false);
+                        setShowExportDialog(true);
+                      }}
+                      className="w-full text-left px-3 py-2 text-sm text-slate-700 dark:text-slate-200 hover:bg-slate-100 dark:hover:bg-slate-700 border-t border-slate-200 dark:border-slate-700"
+                    >
+                      Export book…
+                    </button>
+                  </div>
+                )}
+              </div>
               <Button
                 onClick={() => navigate(`/notebook/${notebookId}/reader?branch=${selectedBranch}`)}
                 variant="outline"
@@ -383,6 +535,41 @@ export default function NotebookView() {
 
           {/* Sidebar - Branches & Collaborators */}
           <div className="space-y-6">
+            <OwnershipTransferBanner
+              notebook={notebook}
+              userId={user?._id}
+              isOwner={isOwner}
+              onMessage={(message, type) => setAlert({ isOpen: true, message, type })}
+            />
+
+            {/* Upstream (only for forks) */}
+            {notebook.forkedFrom && (
+              <UpstreamCard
+                notebookId={notebookId!}
+                branch={selectedBranch}
+                branches={branches.map((branch: Branch) => branch.name)}
+                isOwner={notebook.owner._id === user?._id}
+                canEdit={
+                  notebook.owner._id === user?._id ||
+                  notebook.collaborators.some((c: Collaborator) => c.user._id === user?._id && c.role === 'EDITOR')
+                }
+                onMessage={(message, type) => setAlert({ isOpen: true, message, type })}
+              />
+            )}
+
+            {/* Releases */}
+            <ReleasesCard
+              notebookId={notebookId!}
+              notebookName={notebook.name}
+              branch={selectedBranch}
+              branches={branches.map((branch: Branch) => branch.name)}
+              canEdit={
+                notebook.owner._id === user?._id ||
+                notebook.collaborators.some((c: Collaborator) => c.user._id === user?._id && c.role === 'EDITOR')
+              }
+              onMessage={(message, type) => setAlert({ isOpen: true, message, type })}
+            />
+
             {/* Branches */}
             <Card className="shadow-xl shadow-slate-200/50 dark:shadow-slate-950/50 border-slate-200/50 dark:border-slate-800/50">
               <CardHeader className="border-b border-slate-100 dark:border-slate-800 bg-gradient-to-r from-slate-50 via-indigo-50/30 to-transparent dark:from-slate-800/50 dark:via-indigo-950/20 py-4">
@@ -419,18 +606,48 @@ export default function NotebookView() {
                             ACTIVE
                           </span>
                         )}
+                        {branch.protection && (
+                          <span title="Protected branch">
+                            <Shield className="w-3.5 h-3.5 text-amber-600 dark:text-amber-400" />
+                          </span>
+                        )}
+                      </span>
+                      <span className="flex items-center gap-1">
+                        {branch.name !== selectedBranch && (
+                          <Button
+                            onClick={() => handleBranchChange(branch.name)}
+                            variant="ghost"
+                            size="sm"
+                            className="h-7 text-xs hover:bg-indigo-50 dark:hover:bg-indigo-950/30 hover:text-indigo-700 dark:hover:text-indigo-300"
+                            disabled={checkoutBranch.isPending}
+                          >
+                            Switch
+                          </Button>
+                        )}
+                        {isOwner && (
+                          <Button
+                            onClick={() => setProtectionBranch(branch)}
+                            variant="ghost"
+                            size="sm"
+                            className="h-7 w-7 p-0"
+                            title="Protection rules"
+                          >
+                            <Shield className="w-3.5 h-3.5" />
+                          </Button>
+                        )}
+                        {canEditBranches && !branch.isDefault && branch.name !== selectedBranch && (
+                          <Button
+                            onClick={() => handleDeleteBranch(branch)}
+                            variant="ghost"
+                            size="sm"
+                            className="h-7 w-7 p-0 hover:text-rose-600 dark:hover:text-rose-400"
+                            title="Delete branch"
+                            disabled={deleteBranch.isPending}
+                          >
+                            <Trash2 className="w-3.5 h-3.5" />
+                          </Button>
+                        )}
                       </span>
-                      {branch.name !== selectedBranch && (
-                        <Button
-                          onClick={() => handleBranchChange(branch.name)}
-                          variant="ghost"
-                          size="sm"
-                          className="h-7 text-xs hover:bg-indigo-50 dark:hover:bg-indigo-950/30 hover:text-indigo-700 dark:hover:text-indigo-300"
-                          disabled={checkoutBranch.isPending}
-                        >
-                          Switch
-                        </Button>
-                      )}
                     </div>
                   ))}
                 </div>
@@ -478,9 +695,34 @@ export default function NotebookView() {
                             {typeof collab.user === 'object' ? collab.user.username : collab.user}
                           </span>
                         </div>
-                        <span className="text-xs font-semibold text-slate-600 dark:text-slate-400 bg-slate-100 dark:bg-slate-800 px-3 py-1.5 rounded-lg border border-slate-200 dark:border-slate-700 uppercase tracking-wide">
-                          {collab.role}
-                        </span>
+                        {isOwner && typeof collab.user === 'object' ? (
+                          <div className="flex items-center gap-1">
+                            <select
+                              value={collab.role}
+                              onChange={(e) => handleRoleChange(collab, e.target.value as 'VIEWER' | 'EDITOR')}
+                              disabled={updateCollaboratorRole.isPending}
+                              aria-label={`Role of ${collab.user.username}`}
+                              className="h-8 px-2 text-xs font-semibold bg-card text-foreground border border-border rounded-md"
+                            >
+                              <option value="VIEWER">VIEWER</option>
+                              <option value="EDITOR">EDITOR</option>
+                            </select>
+                            <Button
+                              onClick={() => handleTransferOwnership(collab)}
+                              variant="ghost"
+                              size="sm"
+                              className="h-7 w-7 p-0 hover:text-amber-600 dark:hover:text-amber-400"
+                              title="Transfer ownership"
+                              disabled={notebook.pendingOwnershipTransfer?.to._id === collab.user._id}
+                            >
+                              <Crown className="w-3.5 h-3.5" />
+                            </Button>
+                          </div>
+                        ) : (
+                          <span className="text-xs font-semibold text-slate-600 dark:text-slate-400 bg-slate-100 dark:bg-slate-800 px-3 py-1.5 rounded-lg border border-slate-200 dark:border-slate-700 uppercase tracking-wide">
+                            {collab.role}
+                          </span>
+                        )}
                       </div>
                     ))
                   ) : (
@@ -562,6 +804,23 @@ export default function NotebookView() {
         />
       )}
 
+      <ExportDialog
+        open={showExportDialog}
+        onOpenChange={setShowExportDialog}
+        notebookId={notebookId!}
+        branch={selectedBranch}
+        branches={branches.map((branch: Branch) => branch.name)}
+        onMessage={(message, type) => setAlert({ isOpen: true, message, type })}
+      />
+
+      <BranchProtectionDialog
+        open={!!protectionBranch}
+        onOpenChange={(open) => !open && setProtectionBranch(null)}
+        notebookId={notebookId!}
+        branch={protectionBranch}
+        onMessage={(message, type) => setAlert({ isOpen: true, message, type })}
+      />
+
       {/* Custom Dialogs */}
       <AlertDialog
         isOpen={alert.isOpen}
@@ -570,6 +829,16 @@ export default function NotebookView() {
         type={alert.type}
         title={alert.title}
       />
+
+      <ConfirmDialog
+        isOpen={confirm.isOpen}
+        onClose={() => setConfirm({ ...confirm, isOpen: false })}
+        onConfirm={confirm.onConfirm}
+        message={confirm.message}
+        title={confirm.title}
+        confirmText={confirm.confirmText}
+        variant="destructive"
+      />
     </div>
   );
 }
@@ -0,0 +1,795 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useParams, useSearchParams, useNavigate, Link } from 'react-router-dom';
+import { useAuth } from '../context/AuthContext';
+import { useNotebook } from '../hooks/useNotebooks';
+import { useBranches } from '../hooks/useBranches';
+import {
+  usePullRequests,
+  usePullRequest,
+  usePullRequestDiff,
+  useCreatePullRequest,
+  useUpdatePullRequest,
+  useMergePullRequest,
+  useRefreshPullRequest,
+  useReviews,
+  useReviewComments,
+  useSubmitReview,
+  useCreateReviewComment,
+} from '../hooks/usePullRequests';
+import { useStartMerge } from '../hooks/useMerge';
+import {
+  Branch,
+  Collaborator,
+  DiffLineRef,
+  DraftReviewComment,
+  FileDiff,
+  PullRequest,
+  Review,
+  ReviewerVerdict,
+  ReviewThread,
+  ReviewVerdict,
+} from '../types';
+import { diffLineRefs } from '../lib/utils';
+import { Button } from '../components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogFooter } from '../components/ui/dialog';
+import { Input } from '../components/ui/input';
+import { Textarea } from '../components/ui/textarea';
+import { Label } from '../components/ui/label';
+import DiffViewer from '../components/common/DiffViewer';
+import AlertDialog, { AlertType } from '../components/common/AlertDialog';
+import ConfirmDialog from '../components/common/ConfirmDialog';
+import ReviewThreadCard from '../components/notebook/ReviewThreadCard';
+import ReviewDialog from '../components/notebook/ReviewDialog';
+import { ChevronLeft, GitPullRequest, GitMerge, GitBranch, Clock, User, Plus, Minus, XCircle, RotateCcw, RefreshCw, CheckCircle2, ShieldCheck, MessageSquare } from 'lucide-react';
+
+type StatusFilter = 'OPEN' | 'MERGED' | 'CLOSED' | 'ALL';
+
+const statusStyles: Record<PullRequest['status'], string> = {
+  OPEN: 'bg-emerald-50 dark:bg-emerald-950/30 text-emerald-700 dark:text-emerald-400 border-emerald-200 dark:border-emerald-800',
+  MERGED: 'bg-purple-50 dark:bg-purple-950/30 text-purple-700 dark:text-purple-400 border-purple-200 dark:border-purple-800',
+  CLOSED: 'bg-rose-50 dark:bg-rose-950/30 text-rose-700 dark:text-rose-400 border-rose-200 dark:border-rose-800',
+};
+
+const verdictStyles: Record<ReviewVerdict, { label: string; className: string }> = {
+  APPROVE: { label: 'approved', className: 'text-emerald-700 dark:text-emerald-400' },
+  REQUEST_CHANGES: { label: 'requested changes', className: 'text-rose-700 dark:text-rose-400' },
+  COMMENT: { label: 'commented', className: 'text-slate-600 dark:text-slate-400' },
+};
+
+const lineKey = (filePath: string, line: DiffLineRef) => `${filePath}:${line.side}:${line.lineNumber}`;
+
+// Branches proposed from a fork are shown as "fork name:branch"
+const sourceLabel = (pr: PullRequest) =>
+  pr.sourceNotebook ? `${pr.sourceNotebook.name}:${pr.sourceBranch?.name}` : pr.sourceBranch?.name;
+
+export default function PullRequests() {
+  const { user } = useAuth();
+  const { id: notebookId } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const selectedId = searchParams.get('pr') || '';
+
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('OPEN');
+  const [showCreateDialog, setShowCreateDialog] = useState(false);
+  const [newTitle, setNewTitle] = useState('');
+  const [newDescription, setNewDescription] = useState('');
+  const [sourceBranch, setSourceBranch] = useState('');
+  const [targetBranch, setTargetBranch] = useState('');
+  const [alert, setAlert] = useState<{ isOpen: boolean; message: string; type: AlertType; title?: string }>({
+    isOpen: false, message: '', type: 'info'
+  });
+  // The line whose comment box is open, and inline comments saved for the next review
+  const [draftLine, setDraftLine] = useState<(DiffLineRef & { filePath: string }) | null>(null);
+  const [draftText, setDraftText] = useState('');
+  const [pendingComments, setPendingComments] = useState<DraftReviewComment[]>([]);
+  const [showReviewDialog, setShowReviewDialog] = useState(false);
+  const [newThread, setNewThread] = useState('');
+  const [confirm, setConfirm] = useState<{ isOpen: boolean; message: string; onConfirm: () => void; title?: string; confirmText?: string }>({
+    isOpen: false, message: '', onConfirm: () => {}
+  });
+
+  const { data: notebookData } = useNotebook(notebookId!);
+  const { data: branchesData } = useBranches(notebookId!);
+  const { data: pullRequestsData, isLoading } = usePullRequests(notebookId!, statusFilter);
+  const { data: pullRequestData } = usePullRequest(notebookId!, selectedId);
+  const { data: diffData } = usePullRequestDiff(notebookId!, selectedId);
+  const createPullRequest = useCreatePullRequest();
+  const updatePullRequest = useUpdatePullRequest();
+  const mergePullRequest = useMergePullRequest();
+  const refreshPullRequest = useRefreshPullRequest();
+  const { data: reviewsData } = useReviews(notebookId!, selectedId);
+  const { data: commentsData } = useReviewComments(notebookId!, selectedId);
+  const submitReview = useSubmitReview();
+  const createReviewComment = useCreateReviewComment();
+  const startMerge = useStartMerge();
+
+  const notebook = notebookData?.notebook;
+  const branches: Branch[] = branchesData?.branches || [];
+  const pullRequests: PullRequest[] = pullRequestsData?.pullRequests || [];
+  const selected: PullRequest | undefined = pullRequestData?.pullRequest;
+  const files: FileDiff[] = diffData?.files || [];
+
+  const isOwner = notebook?.owner._id === user?._id;
+  const collaborator = notebook?.collaborators.find((c: Collaborator) => c.user._id === user?._id);
+  const canEdit = isOwner || collaborator?.role === 'EDITOR';
+  const canManageSelected = !!selected && (isOwner || selected.author._id === user?._id);
+  const isAuthor = !!selected && selected.author._id === user?._id;
+  const canResolveThreads = canEdit || isAuthor;
+  const targetProtection = branches.find((b) => b.name === selected?.targetBranch?.name)?.protection;
+  const reviews: Review[] = reviewsData?.reviews || [];
+  const verdicts: ReviewerVerdict[] = reviewsData?.verdicts || [];
+  const approvalCount = verdicts.filter((v) => v.verdict === 'APPROVE').length;
+
+  // Inline threads are shown under their line; the rest, and those whose line left the diff, below it
+  const { threadsByLine, otherThreads } = useMemo(() => {
+    const threads: ReviewThread[] = commentsData?.comments || [];
+    const diffFiles: FileDiff[] = diffData?.files || [];
+    const lines = new Set<string>();
+    for (const file of diffFiles) {
+      for (const ref of diffLineRefs(file.diff)) {
+        if (ref) lines.add(lineKey(file.path, ref));
+      }
+    }
+    const byLine = new Map<string, ReviewThread[]>();
+    const others: ReviewThread[] = [];
+    for (const thread of threads) {
+      const key = thread.filePath && thread.lineNumber
+        ? lineKey(thread.filePath, { side: thread.side || 'new', lineNumber: thread.lineNumber })
+        : null;
+      if (key && lines.has(key)) {
+        byLine.set(key, [...(byLine.get(key) || []), thread]);
+      } else {
+        others.push(thread);
+      }
+    }
+    return { threadsByLine: byLine, otherThreads: others };
+  }, [commentsData, diffData]);
+
+  useEffect(() => {
+    setDraftLine(null);
+    setPendingComments([]);
+  }, [selectedId]);
+
+  const openCreateDialog = () => {
+    const defaultBranch = branches.find((b) => b.isDefault) || branches[0];
+    setTargetBranch(defaultBranch?.name || '');
+    setSourceBranch(branches.find((b) => b.name !== defaultBranch?.name)?.name || '');
+    setNewTitle('');
+    setNewDescription('');
+    setShowCreateDialog(true);
+  };
+
+  const getErrorMessage = (error: unknown, fallback: string) => {
+    const err = error as { response?: { data?: { message?: string; conflicts?: string[] } }; message?: string };
+    const conflicts = err?.response?.data?.conflicts;
+    const message = err?.response?.data?.message || err?.message || fallback;
+    return conflicts && conflicts.length > 0 ? `${message}\n\nConflicting files: ${conflicts.join(', ')}` : message;
+  };
+
+  const handleCreate = async () => {
+    if (!newTitle.trim() || !sourceBranch || !notebookId) return;
+
+    try {
+      const data = await createPullRequest.mutateAsync({
+        notebookId,
+        title: newTitle,
+        description: newDescription || undefined,
+        sourceBranch,
+        targetBranch,
+      });
+      setShowCreateDialog(false);
+      setStatusFilter('OPEN');
+      setSearchParams({ pr: data.pullRequest._id });
+      setAlert({ isOpen: true, message: 'Pull request opened successfully!', type: 'success' });
+    } catch (error) {
+      console.error('Failed to open pull request:', error);
+      setAlert({ isOpen: true, message: getErrorMessage(error, 'Failed to open pull request'), type: 'error' });
+    }
+  };
+
+  const handleRefresh = async () => {
+    if (!selected || !notebookId) return;
+
+    try {
+      await refreshPullRequest.mutateAsync({ notebookId, pullRequestId: selected._id });
+    } catch (error) {
+      console.error('Failed to refresh pull request:', error);
+      setAlert({ isOpen: true, message: getErrorMessage(error, 'Failed to fetch the latest changes'), type: 'error' });
+    }
+  };
+
+  const handleMerge = () => {
+    if (!selected || !notebookId) return;
+
+    setConfirm({
+      isOpen: true,
+      title: 'Merge Pull Request',
+      message: `Merge "${sourceLabel(selected)}" into "${selected.targetBranch.name}"?`,
+      onConfirm: async () => {
+        try {
+          await mergePullRequest.mutateAsync({ notebookId, pullRequestId: selected._id });
+          setAlert({ isOpen: true, message: 'Pull request merged successfully!', type: 'success' });
+        } catch (error) {
+          console.error('Failed to merge pull request:', error);
+          const conflicts = (error as { response?: { data?: { conflicts?: string[] } } })?.response?.data?.conflicts;
+          if (conflicts && conflicts.length > 0) {
+            offerConflictResolution(conflicts);
+            return;
+          }
+          setAlert({ isOpen: true, message: getErrorMessage(error, 'Failed to merge pull request'), type: 'error' });
+        }
+      },
+    });
+  };
+
+  const offerConflictResolution = (conflicts: string[]) => {
+    if (!selected || !notebookId) return;
+
+    setConfirm({
+      isOpen: true,
+      title: 'Merge Conflicts',
+      message: `${conflicts.join(', ')} changed on both branches. Resolve the conflicts in the editor?`,
+      confirmText: 'Resolve Conflicts',
+      onConfirm: async () => {
+        try {
+          await startMerge.mutateAsync({ notebookId, pullRequest: selected._id });
+          navigate(`/notebook/${notebookId}/editor?branch=${encodeURIComponent(selected.targetBranch.name)}`);
+        } catch (error) {
+          console.error('Failed to start merge:', error);
+          setAlert({ isOpen: true, message: getErrorMessage(error, 'Failed to start merge'), type: 'error' });
+        }
+      },
+    });
+  };
+
+  const handleStatusChange = async (status: 'OPEN' | 'CLOSED') => {
+    if (!selected || !notebookId) return;
+
+    try {
+      await updatePullRequest.mutateAsync({ notebookId, pullRequestId: selected._id, status });
+    } catch (error) {
+      console.error('Failed to update pull request:', error);
+      setAlert({ isOpen: true, message: getErrorMessage(error, 'Failed to update pull request'), type: 'error' });
+    }
+  };
+
+  const openLineComment = (filePath: string, line: DiffLineRef) => {
+    setDraftLine({ filePath, ...line });
+    setDraftText('');
+  };
+
+  const handleLineComment = async () => {
+    if (!selected || !notebookId || !draftLine || !draftText.trim()) return;
+
+    try {
+      await createReviewComment.mutateAsync({
+        notebookId,
+        pullRequestId: selected._id,
+        content: draftText,
+        filePath: draftLine.filePath,
+        lineNumber: draftLine.lineNumber,
+        side: draftLine.side,
+      });
+      setDraftLine(null);
+    } catch (error) {
+      console.error('Failed to post comment:', error);
+      setAlert({ isOpen: true, message: getErrorMessage(error, 'Failed to post comment'), type: 'error' });
+    }
+  };
+
+  const addToReview = () => {
+    if (!draftLine || !draftText.trim()) return;
+    setPendingComments([...pendingComments, { ...draftLine, content: draftText }]);
+    setDraftLine(null);
+  };
+
+  const handleSubmitReview = async (verdict: ReviewVerdict, body: string) => {
+    if (!selected || !notebookId) return;
+
+    try {
+      await submitReview.mutateAsync({
+        notebookId,
+        pullRequestId: selected._id,
+        verdict,
+        body: body.trim() || undefined,
+        comments: pendingComments,
+      });
+      setShowReviewDialog(false);
+      setPendingComments([]);
+    } catch (error) {
+      console.error('Failed to submit review:', error);
+      setAlert({ isOpen: true, message: getErrorMessage(error, 'Failed to submit review'), type: 'error' });
+    }
+  };
+
+  const handleNewThread = async () => {
+    if (!selected || !notebookId || !newThread.trim()) return;
+
+    try {
+      await createReviewComment.mutateAsync({ notebookId, pullRequestId: selected._id, content: newThread });
+      setNewThread('');
+    } catch (error) {
+      console.error('Failed to post comment:', error);
+      setAlert({ isOpen: true, message: getErrorMessage(error, 'Failed to post comment'), type: 'error' });
+    }
+  };
+
+  const renderLineExtras = (filePath: string) => (line: DiffLineRef) => {
+    const key = lineKey(filePath, line);
+    const threads = threadsByLine.get(key) || [];
+    const pending = pendingComments.filter((comment) => lineKey(comment.filePath, comment) === key);
+    const isDraft = !!draftLine && lineKey(draftLine.filePath, draftLine) === key;
+    if (threads.length === 0 && pending.length === 0 && !isDraft) return null;
+
+    return (
+      <div className="my-1 ml-7 mr-2 space-y-2 whitespace-normal">
+        {threads.map((thread) => (
+          <ReviewThreadCard
+            key={thread._id}
+            notebookId={notebookId!}
+            pullRequestId={selectedId}
+            thread={thread}
+            canReply={!!notebook}
+            canResolve={canResolveThreads || thread.author._id === user?._id}
+            onMessage={(message, type) => setAlert({ isOpen: true, message, type })}
+          />
+        ))}
+        {pending.map((comment) => (
+          <div
+            key={pendingComments.indexOf(comment)}
+            className="font-sans flex items-start justify-between gap-3 p-3 text-sm bg-amber-50 dark:bg-amber-950/20 border border-amber-200 dark:border-amber-800 rounded-lg"
+          >
+            <span className="text-slate-700 dark:text-slate-300 whitespace-pre-wrap">
+              <span className="mr-2 text-[10px] font-semibold text-amber-700 dark:text-amber-400">PENDING</span>
+              {comment.content}
+            </span>
+            <button
+              type="button"
+              onClick={() => setPendingComments(pendingComments.filter((c) => c !== comment))}
+              className="text-slate-400 hover:text-rose-600"
+              title="Discard"
+            >
+              <XCircle className="w-4 h-4" />
+            </button>
+          </div>
+        ))}
+        {isDraft && (
+          <div className="font-sans p-3 space-y-2 bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-lg">
+            <Textarea
+              value={draftText}
+              onChange={(e) => setDraftText(e.target.value)}
+              placeholder={`Comment on line ${line.lineNumber}`}
+              rows={3}
+              autoFocus
+            />
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" size="sm" onClick={() => setDraftLine(null)}>
+                Cancel
+              </Button>
+              <Button variant="outline" size="sm" onClick={handleLineComment} disabled={!draftText.trim() || createReviewComment.isPending}>
+                Comment now
+              </Button>
+              <Button size="sm" onClick={addToReview} disabled={!draftText.trim()}>
+                Add to review
+              </Button>
+            </div>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric',
+    });
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 via-blue-50 to-indigo-50 dark:from-slate-950 dark:via-slate-900 dark:to-slate-950">
+      {/* Header */}
+      <header className="bg-white/80 dark:bg-slate-900/80 backdrop-blur-md border-b border-slate-200 dark:border-slate-800 sticky top-0 z-10 shadow-sm">
+        <div className="max-w-7xl mx-auto px-6 py-4">
+          <div className="flex justify-between items-center">
+            <div className="space-y-1">
+              <Link
+                to={`/notebook/${notebookId}`}
+                className="text-sm text-indigo-600 dark:text-indigo-400 hover:text-indigo-700 dark:hover:text-indigo-300 inline-flex items-center gap-1.5 transition-colors font-medium group"
+              >
+                <ChevronLeft className="w-4 h-4 group-hover:-translate-x-0.5 transition-transform" />
+                Back to Notebook
+              </Link>
+              <h1 className="text-3xl font-bold bg-gradient-to-r from-slate-900 to-slate-700 dark:from-slate-100 dark:to-slate-300 bg-clip-text text-transparent">
+                {notebook?.name || 'Notebook'}
+                <span className="text-slate-400 dark:text-slate-500 text-lg ml-3 font-normal">/ Pull Requests</span>
+              </h1>
+            </div>
+            {canEdit && (
+              <Button onClick={openCreateDialog} disabled={branches.length < 2}>
+                <GitPullRequest className="w-4 h-4 mr-2" />
+                New Pull Request
+              </Button>
+            )}
+          </div>
+        </div>
+      </header>
+
+      <div className="max-w-7xl mx-auto px-6 py-8">
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          {/* Pull Request List */}
+          <div className="bg-white dark:bg-slate-900 rounded-xl shadow-sm border border-slate-200 dark:border-slate-800 overflow-hidden">
+            <div className="px-6 py-4 border-b border-slate-100 dark:border-slate-800 bg-gradient-to-r from-slate-50 to-transparent dark:from-slate-800/50">
+              <div className="flex items-center gap-2">
+                {(['OPEN', 'MERGED', 'CLOSED', 'ALL'] as StatusFilter[]).map((status) => (
+                  <button
+                    key={status}
+                    onClick={() => setStatusFilter(status)}
+                    className={`px-3 py-1.5 rounded-lg text-sm font-medium transition-colors ${
+                      statusFilter === status
+                        ? 'bg-indigo-600 text-white'
+                        : 'text-slate-600 dark:text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-800'
+                    }`}
+                  >
+                    {status.charAt(0) + status.slice(1).toLowerCase()}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div className="p-6">
+              {isLoading ? (
+                <div className="text-center py-12">
+                  <div className="inline-block h-8 w-8 animate-spin rounded-full border-4 border-solid border-indigo-600 border-r-transparent"></div>
+                  <p className="mt-4 text-slate-500 dark:text-slate-400 text-sm">Loading pull requests...</p>
+                </div>
+              ) : pullRequests.length === 0 ? (
+                <div className="text-center py-12">
+                  <GitPullRequest className="w-16 h-16 mx-auto mb-4 text-slate-400 dark:text-slate-600 opacity-50" />
+                  <p className="text-slate-500 dark:text-slate-400 text-sm">No pull requests</p>
+                  <p className="text-slate-400 dark:text-slate-500 text-xs mt-1">Propose changes from a branch to get them reviewed</p>
+                </div>
+              ) : (
+                <div className="space-y-3">
+                  {pullRequests.map((pr) => (
+                    <div
+                      key={pr._id}
+                      onClick={() => setSearchParams({ pr: pr._id })}
+                      className={`border rounded-xl p-4 cursor-pointer transition-all duration-200 ${
+                        selectedId === pr._id
+                          ? 'border-indigo-300 dark:border-indigo-600 bg-indigo-50 dark:bg-indigo-950/30 shadow-md'
+                          : 'border-slate-200 dark:border-slate-700 hover:border-indigo-200 dark:hover:border-indigo-700 hover:bg-slate-50 dark:hover:bg-slate-800/50'
+                      }`}
+                    >
+                      <div className="flex items-start justify-between gap-3 mb-2">
+                        <p className="text-sm font-semibold text-slate-900 dark:text-slate-100 leading-tight">{pr.title}</p>
+                        <span className={`text-[10px] font-semibold px-2 py-0.5 rounded border ${statusStyles[pr.status]}`}>
+                          {pr.status}
+                        </span>
+                      </div>
+                      <div className="flex flex-wrap items-center gap-2 text-xs text-slate-600 dark:text-slate-400">
+                        <GitBranch className="w-3.5 h-3.5" />
+                        <span className="font-mono">{sourceLabel(pr)} → {pr.targetBranch?.name}</span>
+                        <span className="text-slate-300 dark:text-slate-600">•</span>
+                        <User className="w-3.5 h-3.5" />
+                        <span>{pr.author?.name || pr.author?.username}</span>
+                        <span className="text-slate-300 dark:text-slate-600">•</span>
+                        <Clock className="w-3.5 h-3.5" />
+                        <span>{formatDate(pr.createdAt)}</span>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+
+          {/* Pull Request Details */}
+          <div className="bg-white dark:bg-slate-900 rounded-xl shadow-sm border border-slate-200 dark:border-slate-800 overflow-hidden">
+            {!selected ? (
+              <div className="flex flex-col items-center justify-center py-24 text-center">
+                <div className="w-20 h-20 bg-gradient-to-br from-indigo-100 to-purple-100 dark:from-indigo-950/30 dark:to-purple-950/30 rounded-2xl flex items-center justify-center mb-4">
+                  <GitPullRequest className="w-10 h-10 text-indigo-400 dark:text-indigo-500" />
+                </div>
+                <p className="text-slate-600 dark:text-slate-400 font-medium mb-1">No pull request selected</p>
+                <p className="text-slate-400 dark:text-slate-500 text-sm">Click on a pull request to review its changes</p>
+              </div>
+            ) : (
+              <>
+                <div className="px-6 py-4 border-b border-slate-100 dark:border-slate-800 bg-gradient-to-r from-slate-50 to-transparent dark:from-slate-800/50 space-y-3">
+                  <div className="flex items-start justify-between gap-3">
+                    <h2 className="text-lg font-semibold text-slate-900 dark:text-slate-100">{selected.title}</h2>
+                    <span className={`text-xs font-semibold px-2.5 py-1 rounded-md border ${statusStyles[selected.status]}`}>
+                      {selected.status}
+                    </span>
+                  </div>
+                  <div className="flex flex-wrap items-center gap-2 text-xs text-slate-600 dark:text-slate-400">
+                    <span className="font-medium">{selected.author?.name || selected.author?.username}</span>
+                    <span>wants to merge</span>
+                    <span className="font-mono bg-slate-100 dark:bg-slate-800 px-1.5 py-0.5 rounded">{sourceLabel(selected)}</span>
+                    <span>into</span>
+                    <span className="font-mono bg-slate-100 dark:bg-slate-800 px-1.5 py-0.5 rounded">{selected.targetBranch?.name}</span>
+                  </div>
+                  {selected.status === 'MERGED' && selected.mergedAt && (
+                    <p className="text-xs text-purple-700 dark:text-purple-400 flex items-center gap-1.5">
+                      <GitMerge className="w-3.5 h-3.5" />
+                      Merged by {selected.mergedBy?.name || selected.mergedBy?.username} on {formatDate(selected.mergedAt)}
+                    </p>
+                  )}
+                  {selected.description && (
+                    <p className="text-sm text-slate-700 dark:text-slate-300 whitespace-pre-wrap">{selected.description}</p>
+                  )}
+                  {(verdicts.length > 0 || !!targetProtection?.requiredApprovals) && (
+                    <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-xs text-slate-600 dark:text-slate-400">
+                      {verdicts.length > 0 ? (
+                        verdicts.map((verdict) => (
+                          <span key={verdict.review} className={`inline-flex items-center gap-1 ${verdictStyles[verdict.verdict].className}`}>
+                            {verdict.verdict === 'APPROVE' ? <CheckCircle2 className="w-3.5 h-3.5" /> : <XCircle className="w-3.5 h-3.5" />}
+                            {verdict.user?.name || verdict.user?.username} {verdictStyles[verdict.verdict].label}
+                          </span>
+                        ))
+                      ) : (
+                        <span>No reviews yet</span>
+                      )}
+                      {!!targetProtection?.requiredApprovals && (
+                        <span className="inline-flex items-center gap-1 text-amber-700 dark:text-amber-400">
+                          <ShieldCheck className="w-3.5 h-3.5" />
+                          {approvalCount} of {targetProtection.requiredApprovals} approval{targetProtection.requiredApprovals === 1 ? '' : 's'} needed for {selected.targetBranch?.name}
+                        </span>
+                      )}
+                    </div>
+                  )}
+                  <div className="flex items-center justify-between">
+                    {diffData && (
+                      <div className="flex items-center gap-3 text-xs">
+                        <span className="flex items-center gap-1 text-emerald-600 dark:text-emerald-400 font-semibold">
+                          <Plus className="w-3 h-3" />
+                          {diffData.additions}
+                        </span>
+                        <span className="flex items-center gap-1 text-rose-600 dark:text-rose-400 font-semibold">
+                          <Minus className="w-3 h-3" />
+                          {diffData.deletions}
+                        </span>
+                        <span className="text-slate-500 dark:text-slate-400">
+                          {files.length} file{files.length === 1 ? '' : 's'}
+                        </span>
+                      </div>
+                    )}
+                    <div className="flex items-center gap-2 ml-auto">
+                      {selected.status === 'OPEN' && canManageSelected && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleStatusChange('CLOSED')}
+                          disabled={updatePullRequest.isPending}
+                        >
+                          <XCircle className="w-4 h-4 mr-1" />
+                          Close
+                        </Button>
+                      )}
+                      {selected.status === 'CLOSED' && canManageSelected && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleStatusChange('OPEN')}
+                          disabled={updatePullRequest.isPending}
+                        >
+                          <RotateCcw className="w-4 h-4 mr-1" />
+                          Reopen
+                        </Button>
+                      )}
+                      {selected.status === 'OPEN' && selected.sourceNotebook && (canEdit || isAuthor) && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={handleRefresh}
+                          disabled={refreshPullRequest.isPending}
+                          title={`Fetch the latest commits from ${selected.sourceNotebook.name}`}
+                        >
+                          <RefreshCw className={`w-4 h-4 mr-1 ${refreshPullRequest.isPending ? 'animate-spin' : ''}`} />
+                          Refresh
+                        </Button>
+                      )}
+                      {selected.status === 'OPEN' && (
+                        <Button variant="outline" size="sm" onClick={() => setShowReviewDialog(true)}>
+                          <CheckCircle2 className="w-4 h-4 mr-1" />
+                          Review{pendingComments.length > 0 ? ` (${pendingComments.length})` : ''}
+                        </Button>
+                      )}
+                      {selected.status === 'OPEN' && isOwner && (
+                        <Button
+                          size="sm"
+                          onClick={handleMerge}
+                          disabled={mergePullRequest.isPending}
+                        >
+                          <GitMerge className="w-4 h-4 mr-1" />
+                          {mergePullRequest.isPending ? 'Merging...' : 'Merge'}
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                </div>
+
+                <div className="p-6">
+                  {!diffData ? (
+                    <div className="text-slate-500 dark:text-slate-400 text-sm text-center py-8">
+                      Loading diff...
+                    </div>
+                  ) : files.length > 0 ? (
+                    <div className="space-y-4">
+                      {files.map((file) => (
+                        <DiffViewer
+                          key={file.path}
+                          path={file.path}
+                          diff={file.diff}
+                          additions={file.additions}
+                          deletions={file.deletions}
+                          status={file.status}
+                          previousPath={file.previousPath}
+                          binary={file.binary}
+                          onLineClick={selected.status === 'OPEN' ? (line) => openLineComment(file.path, line) : undefined}
+                          renderLineExtras={renderLineExtras(file.path)}
+                        />
+                      ))}
+                    </div>
+                  ) : (
+                    <div className="text-sm text-slate-500 dark:text-slate-400 text-center py-8">
+                      No changes between these branches
+                    </div>
+                  )}
+                </div>
+
+                {/* Conversation */}
+                <div className="px-6 pb-6 space-y-3">
+                  <h3 className="flex items-center gap-2 text-sm font-semibold text-slate-900 dark:text-slate-100">
+                    <MessageSquare className="w-4 h-4 text-indigo-600 dark:text-indigo-400" />
+                    Conversation
+                  </h3>
+                  {reviews.filter((review) => review.body || review.verdict !== 'COMMENT').map((review) => (
+                    <div key={review._id} className="p-3 border border-slate-200 dark:border-slate-700 rounded-lg space-y-1">
+                      <div className="flex flex-wrap items-center gap-2 text-xs">
+                        <span className="font-semibold text-slate-800 dark:text-slate-200">{review.author?.name || review.author?.username}</span>
+                        <span className={`font-medium ${verdictStyles[review.verdict].className}`}>{verdictStyles[review.verdict].label}</span>
+                        {review.commitHash && (
+                          <span className="font-mono text-slate-400 dark:text-slate-500">at {review.commitHash.substring(0, 7)}</span>
+                        )}
+                        <span className="text-slate-400 dark:text-slate-500">{formatDate(review.createdAt)}</span>
+                      </div>
+                      {review.body && (
+                        <p className="text-sm text-slate-700 dark:text-slate-300 whitespace-pre-wrap">{review.body}</p>
+                      )}
+                    </div>
+                  ))}
+                  {otherThreads.map((thread) => (
+                    <ReviewThreadCard
+                      key={thread._id}
+                      notebookId={notebookId!}
+                      pullRequestId={selectedId}
+                      thread={thread}
+                      canReply={!!notebook}
+                      canResolve={canResolveThreads || thread.author._id === user?._id}
+                      location={thread.filePath ? `${thread.filePath}:${thread.lineNumber} (outdated)` : undefined}
+                      onMessage={(message, type) => setAlert({ isOpen: true, message, type })}
+                    />
+                  ))}
+                  <Textarea
+                    value={newThread}
+                    onChange={(e) => setNewThread(e.target.value)}
+                    placeholder="Leave a comment on this pull request"
+                    rows={3}
+                  />
+                  <div className="flex justify-end">
+                    <Button size="sm" onClick={handleNewThread} disabled={!newThread.trim() || createReviewComment.isPending}>
+                      Comment
+                    </Button>
+                  </div>
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {/* New Pull Request Dialog */}
+      <Dialog open={showCreateDialog} onOpenChange={setShowCreateDialog}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>New Pull Request</DialogTitle>
+            <DialogDescription>
+              Propose merging the changes from one branch into another.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="sourceBranch">From</Label>
+                <select
+                  id="sourceBranch"
+                  value={sourceBranch}
+                  onChange={(e) => setSourceBranch(e.target.value)}
+                  className="w-full h-9 px-3 text-sm bg-card text-foreground border border-border rounded-md"
+                >
+                  {branches.map((branch) => (
+                    <option key={branch._id} value={branch.name}>{branch.name}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="targetBranch">Into</Label>
+                <select
+                  id="targetBranch"
+                  value={targetBranch}
+                  onChange={(e) => setTargetBranch(e.target.value)}
+                  className="w-full h-9 px-3 text-sm bg-card text-foreground border border-border rounded-md"
+                >
+                  {branches.map((branch) => (
+                    <option key={branch._id} value={branch.name}>{branch.name}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="prTitle">Title</Label>
+              <Input
+                id="prTitle"
+                value={newTitle}
+                onChange={(e) => setNewTitle(e.target.value)}
+                placeholder="Summarize the proposed changes..."
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="prDescription">Description</Label>
+              <Textarea
+                id="prDescription"
+                value={newDescription}
+                onChange={(e) => setNewDescription(e.target.value)}
+                placeholder="Explain what changed and why (optional)"
+                rows={4}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowCreateDialog(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={handleCreate}
+              disabled={!newTitle.trim() || !sourceBranch || sourceBranch === targetBranch || createPullRequest.isPending}
+            >
+              {createPullRequest.isPending ? 'Opening...' : 'Open Pull Request'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <ReviewDialog
+        open={showReviewDialog}
+        onOpenChange={setShowReviewDialog}
+        canDecide={canEdit && !isAuthor}
+        pendingCount={pendingComments.length}
+        isPending={submitReview.isPending}
+        onSubmit={handleSubmitReview}
+      />
+
+      {/* Custom Dialogs */}
+      <AlertDialog
+        isOpen={alert.isOpen}
+        onClose={() => setAlert({ ...alert, isOpen: false })}
+        message={alert.message}
+        type={alert.type}
+        title={alert.title}
+      />
+
+      <ConfirmDialog
+        isOpen={confirm.isOpen}
+        onClose={() => setConfirm({ ...confirm, isOpen: false })}
+        onConfirm={confirm.onConfirm}
+        message={confirm.message}
+        title={confirm.title}
+        confirmText={confirm.confirmText || 'Merge'}
+        variant="default"
+      />
+    </div>
+  );
+}
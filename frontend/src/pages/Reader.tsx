@@ -1,8 +1,8 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { useParams, useNavigate, useSearchParams, Link } from 'react-router-dom';
 import { useNotebook } from '../hooks/useNotebooks';
 import { useBranches } from '../hooks/useBranches';
-import { useFileTree } from '../hooks/useCommits';
+import { useFileTree, useBlame } from '../hooks/useCommits';
 import { 
   ChevronLeft, 
   ChevronRight, 
@@ -22,11 +22,15 @@ import {
   ZoomIn,
   ZoomOut,
   Copy,
-  Check
+  Check,
+  Users,
+  History
 } from 'lucide-react';
 import { Button } from '../components/ui/button';
 import { Card } from '../components/ui/card';
 import ContextMenu, { ContextMenuItem } from '../components/common/ContextMenu';
+import BlameGutter, { BlameMark } from '../components/common/BlameGutter';
+import { Blame, BlameCommit } from '../types';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
 import rehypeRaw from 'rehype-raw';
@@ -40,12 +44,41 @@ interface FileNode {
   children?: FileNode[];
 }
 
+interface HastNode {
+  type: string;
+  position?: { start: { line: number } };
+  properties?: Record<string, unknown>;
+  children?: HastNode[];
+}
+
+// Tag rendered elements with the Markdown line they start on, so search results can jump to a line
+const rehypeSourceLines = () => (tree: HastNode) => {
+  const visit = (node: HastNode) => {
+    if (node.type === 'element' && node.position) {
+      node.properties = { ...node.properties, dataSourceLine: node.position.start.line };
+    }
+    node.children?.forEach(visit);
+  };
+  visit(tree);
+};
+
+const LINE_TARGETS = ['p', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'li', 'pre', 'blockquote', 'tr']
+  .map((tag) => `article ${tag}[data-source-line]`)
+  .join(', ');
+
+// The commit that last changed a (1-based) line
+const blameCommitAt = (blame: Blame, line: number): BlameCommit | undefined => {
+  const range = blame.ranges.find((r) => line >= r.startLine && line < r.startLine + r.lineCount);
+  return range && blame.commits.find((c) => c.hash === range.hash);
+};
+
 export default function Reader() {
   const { id: notebookId } = useParams<{ id: string }>();
   const navigate = useNavigate();
   const [searchParams, setSearchParams] = useSearchParams();
   const selectedFile = searchParams.get('file') || '';
   const selectedBranch = searchParams.get('branch') || 'main';
+  const targetLine = Number(searchParams.get('line')) || 0;
 
   const [content, setContent] = useState<string>('');
   const [loading, setLoading] = useState(false);
@@ -57,10 +90,14 @@ export default function Reader() {
   const [copied, setCopied] = useState(false);
   const [expandedFolders, setExpandedFolders] = useState<Set<string>>(new Set(['/']));
   const [contextMenu, setContextMenu] = useState<{ x: number; y: number; file: FileNode | null } | null>(null);
+  const [showBlame, setShowBlame] = useState(false);
+  const [blameMarks, setBlameMarks] = useState<BlameMark[]>([]);
+  const blameContainerRef = useRef<HTMLDivElement>(null);
 
   const { data: notebookData } = useNotebook(notebookId!);
   const { data: branchesData } = useBranches(notebookId!);
   const { data: fileTree } = useFileTree(notebookId!, selectedBranch);
+  const { data: blame } = useBlame(notebookId!, selectedFile || null, selectedBranch, showBlame);
 
   const notebook = notebookData?.notebook;
   const branches = branchesData?.branches || [];
@@ -100,6 +137,51 @@ export default function Reader() {
     loadFile();
   }, [selectedFile, notebookId, selectedBranch]);
 
+  // Scroll to and flash the block holding ?line=, e.g. when opened from a search result
+  useEffect(() => {
+    if (!targetLine || loading || !content) return;
+
+    const blocks = Array.from(document.querySelectorAll<HTMLElement>(LINE_TARGETS));
+    const target = blocks.filter((block) => Number(block.dataset.sourceLine) <= targetLine).pop();
+    if (!target) return;
+
+    target.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    const highlight = ['bg-amber-100', 'dark:bg-amber-500/20', 'rounded', 'transition-colors'];
+    target.classList.add(...highlight);
+    const timer = setTimeout(() => target.classList.remove(...highlight), 3000);
+    return () => clearTimeout(timer);
+  }, [targetLine, loading, content]);
+
+  // Line up each rendered block with the commit that last changed the line it starts on
+  useEffect(() => {
+    const container = blameContainerRef.current;
+    if (!showBlame || !blame || loading || !container) {
+      setBlameMarks([]);
+      return;
+    }
+
+    const measure = () => {
+      const origin = container.getBoundingClientRect().top;
+      const marks: BlameMark[] = [];
+      for (const block of Array.from(container.querySelectorAll<HTMLElement>(LINE_TARGETS))) {
+        const commit = blameCommitAt(blame, Number(block.dataset.sourceLine));
+        const top = block.getBoundingClientRect().top - origin;
+        const previous = marks[marks.length - 1];
+        if (!commit || (previous && (previous.commit.hash === commit.hash || top <= previous.top))) continue;
+        marks.push({ top, height: 0, commit });
+      }
+      marks.forEach((mark, i) => {
+        mark.height = (marks[i + 1]?.top ?? container.offsetHeight) - mark.top;
+      });
+      setBlameMarks(marks);
+    };
+
+    // Images loading and the window resizing move blocks around
+    const observer = new ResizeObserver(measure);
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, [showBlame, blame, loading, content, fontSize]);
+
   // Extract table of contents from markdown
   useEffect(() => {
     const headings: Array<{ level: number; text: string; id: string }> = [];
@@ -351,6 +433,28 @@ export default function Reader() {
                 {copied ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
               </Button>
 
+              {/* Blame */}
+              <Button
+                variant={showBlame ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => setShowBlame(!showBlame)}
+                disabled={!selectedFile}
+                title="Show who last changed each part"
+              >
+                <Users className="w-4 h-4" />
+              </Button>
+
+              {/* File history */}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => navigate(`/notebook/${notebookId}/commits?branch=${encodeURIComponent(selectedBranch)}&path=${encodeURIComponent(selectedFile)}`)}
+                disabled={!selectedFile}
+                title="Show the commits that changed this file"
+              >
+                <History className="w-4 h-4" />
+              </Button>
+
               {/* Print */}
               <Button
                 variant="outline"
@@ -438,37 +542,47 @@ export default function Reader() {
                 onContextMenu={(e) => handleContextMenu(e, null)}
               >
                 {content ? (
-                  <article 
-                    className="prose prose-slate dark:prose-invert max-w-none prose-headings:scroll-mt-20 prose-headings:font-bold prose-h1:text-4xl prose-h1:mb-6 prose-h2:text-3xl prose-h2:mt-12 prose-h2:mb-4 prose-h3:text-2xl prose-h3:mt-8 prose-h3:mb-3 prose-p:mb-4 prose-p:leading-relaxed prose-a:text-indigo-600 dark:prose-a:text-indigo-400 prose-a:no-underline hover:prose-a:underline prose-code:text-indigo-600 dark:prose-code:text-indigo-400 prose-code:bg-slate-100 dark:prose-code:bg-slate-800 prose-code:px-1.5 prose-code:py-0.5 prose-code:rounded prose-pre:bg-slate-900 dark:prose-pre:bg-slate-950 prose-pre:border prose-pre:border-slate-800 prose-li:my-1 prose-ul:my-4 prose-ol:my-4"
-                    style={{ fontSize: `${fontSize}px` }}
-                  >
-                    <ReactMarkdown
-                      remarkPlugins={[remarkGfm]}
-                      rehypePlugins={[rehypeRaw, rehypeHighlight]}
-                      components={{
-                        h1: ({ node, ...props }) => (
-                          <h1 id={props.children?.toString().toLowerCase().replace(/[^\w]+/g, '-')} {...props} />
-                        ),
-                        h2: ({ node, ...props }) => (
-                          <h2 id={props.children?.toString().toLowerCase().replace(/[^\w]+/g, '-')} {...props} />
-                        ),
-                        h3: ({ node, ...props }) => (
-                          <h3 id={props.children?.toString().toLowerCase().replace(/[^\w]+/g, '-')} {...props} />
-                        ),
-                        h4: ({ node, ...props }) => (
-                          <h4 id={props.children?.toString().toLowerCase().replace(/[^\w]+/g, '-')} {...props} />
-                        ),
-                        h5: ({ node, ...props }) => (
-                          <h5 id={props.children?.toString().toLowerCase().replace(/[^\w]+/g, '-')} {...props} />
-                        ),
-                        h6: ({ node, ...props }) => (
-                          <h6 id={props.children?.toString().toLowerCase().replace(/[^\w]+/g, '-')} {...props} />
-                        ),
-                      }}
+                  <div ref={blameContainerRef} className="flex gap-6">
+                    {showBlame && (
+                      <BlameGutter
+                        marks={blameMarks}
+                        notebookId={notebookId!}
+                        branch={selectedBranch}
+                        className="-ml-2 lg:-ml-6"
+                      />
+                    )}
+                    <article 
+                      className="flex-1 min-w-0 prose prose-slate dark:prose-invert max-w-none prose-headings:scroll-mt-20 prose-headings:font-bold prose-h1:text-4xl prose-h1:mb-6 prose-h2:text-3xl prose-h2:mt-12 prose-h2:mb-4 prose-h3:text-2xl prose-h3:mt-8 prose-h3:mb-3 prose-p:mb-4 prose-p:leading-relaxed prose-a:text-indigo-600 dark:prose-a:text-indigo-400 prose-a:no-underline hover:prose-a:underline prose-code:text-indigo-600 dark:prose-code:text-indigo-400 prose-code:bg-slate-100 dark:prose-code:bg-slate-800 prose-code:px-1.5 prose-code:py-0.5 prose-code:rounded prose-pre:bg-slate-900 dark:prose-pre:bg-slate-950 prose-pre:border prose-pre:border-slate-800 prose-li:my-1 prose-ul:my-4 prose-ol:my-4"
+                      style={{ fontSize: `${fontSize}px` }}
                     >
-                      {content}
-                    </ReactMarkdown>
-                  </article>
+                      <ReactMarkdown
+                        remarkPlugins={[remarkGfm]}
+                        rehypePlugins={[rehypeRaw, rehypeSourceLines, rehypeHighlight]}
+                        components={{
+                          h1: ({ node, ...props }) => (
+                            <h1 id={props.children?.toString().toLowerCase().replace(/[^\w]+/g, '-')} {...props} />
+                          ),
+                          h2: ({ node, ...props }) => (
+                            <h2 id={props.children?.toString().toLowerCase().replace(/[^\w]+/g, '-')} {...props} />
+                          ),
+                          h3: ({ node, ...props }) => (
+                            <h3 id={props.children?.toString().toLowerCase().replace(/[^\w]+/g, '-')} {...props} />
+                          ),
+                          h4: ({ node, ...props }) => (
+                            <h4 id={props.children?.toString().toLowerCase().replace(/[^\w]+/g, '-')} {...props} />
+                          ),
+                          h5: ({ node, ...props }) => (
+                            <h5 id={props.children?.toString().toLowerCase().replace(/[^\w]+/g, '-')} {...props} />
+                          ),
+                          h6: ({ node, ...props }) => (
+                            <h6 id={props.children?.toString().toLowerCase().replace(/[^\w]+/g, '-')} {...props} />
+                          ),
+                        }}
+                      >
+                        {content}
+                      </ReactMarkdown>
+                    </article>
+                  </div>
                 ) : (
                   <div className="flex items-center justify-center h-[calc(100vh-250px)]">
                     <div className="text-center">
@@ -1,5 +1,5 @@
 import { useState } from 'react';
-import { Link, useNavigate } from 'react-router-dom';
+import { Link, useNavigate, useLocation } from 'react-router-dom';
 import { useAuth } from '../context/AuthContext';
 import { Button } from '../components/ui/button';
 import { Input } from '../components/ui/input';
@@ -19,6 +19,8 @@ export default function Register() {
   const [loading, setLoading] = useState(false);
   const { register } = useAuth();
   const navigate = useNavigate();
+  const location = useLocation();
+  const from = (location.state as { from?: string } | null)?.from || '/dashboard';
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -27,7 +29,7 @@ export default function Register() {
 
     try {
       await register(formData);
-      navigate('/dashboard');
+      navigate(from);
     } catch (err: any) {
       setError(err.response?.data?.message || 'Registration failed');
     } finally {
@@ -268,7 +270,7 @@ export default function Register() {
             </CardContent>
 
             <CardFooter className="flex flex-col space-y-4 pb-6">
-              <Link to="/login" className="w-full">
+              <Link to="/login" state={location.state} className="w-full">
                 <Button
                   variant="outline"
                   className="w-full h-11 border-2 hover:bg-accent/50 transition-all duration-300"
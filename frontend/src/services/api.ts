@@ -72,6 +72,26 @@ class ApiService {
     return response.data;
   }
 
+  async importNotebook(
+    data: { name: string; description?: string; courseName?: string; courseCode?: string; isPublic?: boolean },
+    source: { type: 'bundle' | 'zip'; file: File } | { type: 'path'; path: string }
+  ) {
+    const formData = new FormData();
+    Object.entries(data).forEach(([key, value]) => {
+      if (value !== undefined && value !== '') formData.append(key, String(value));
+    });
+    formData.append('source', source.type);
+    if (source.type === 'path') {
+      formData.append('path', source.path);
+    } else {
+      formData.append('file', source.file);
+    }
+    const response = await this.api.post('/notebooks/import', formData, {
+      headers: { 'Content-Type': 'multipart/form-data' },
+    });
+    return response.data;
+  }
+
   async getNotebook(id: string) {
     const response = await this.api.get(`/notebooks/${id}`);
     return response.data;
@@ -87,6 +107,27 @@ class ApiService {
     return response.data;
   }
 
+  // Collaborator endpoints
+  async updateCollaboratorRole(notebookId: string, userId: string, role: 'VIEWER' | 'EDITOR') {
+    const response = await this.api.patch(`/notebooks/${notebookId}/collaborators/${userId}`, { role });
+    return response.data;
+  }
+
+  async requestOwnershipTransfer(notebookId: string, userId: string) {
+    const response = await this.api.post(`/notebooks/${notebookId}/transfer`, { userId });
+    return response.data;
+  }
+
+  async cancelOwnershipTransfer(notebookId: string) {
+    const response = await this.api.delete(`/notebooks/${notebookId}/transfer`);
+    return response.data;
+  }
+
+  async respondToOwnershipTransfer(notebookId: string, accept: boolean) {
+    const response = await this.api.post(`/notebooks/${notebookId}/transfer/${accept ? 'accept' : 'decline'}`);
+    return response.data;
+  }
+
   async searchPublicNotebooks(query?: string, courseName?: string) {
     const response = await this.api.get('/notebooks/public', {
       params: { query, courseName },
@@ -105,8 +146,25 @@ class ApiService {
     return response.data;
   }
 
-  async deleteBranch(notebookId: string, branchName: string) {
-    const response = await this.api.delete(`/notebooks/${notebookId}/branches/${branchName}`);
+  async deleteBranch(notebookId: string, branchName: string, force?: boolean) {
+    const response = await this.api.delete(`/notebooks/${notebookId}/branches/${branchName}`, {
+      params: force ? { force: true } : undefined,
+    });
+    return response.data;
+  }
+
+  async updateBranchProtection(notebookId: string, branchName: string, protection: {
+    requirePullRequest?: boolean;
+    requiredApprovals?: number;
+    ownerOnlyDeletion?: boolean;
+    allowForceOperations?: boolean;
+  }) {
+    const response = await this.api.put(`/notebooks/${notebookId}/branches/${branchName}/protection`, protection);
+    return response.data;
+  }
+
+  async removeBranchProtection(notebookId: string, branchName: string) {
+    const response = await this.api.delete(`/notebooks/${notebookId}/branches/${branchName}/protection`);
     return response.data;
   }
 
@@ -138,6 +196,21 @@ class ApiService {
     return response.data;
   }
 
+  async revertCommit(notebookId: string, hash: string, branch: string) {
+    const response = await this.api.post(`/notebooks/${notebookId}/commits/${hash}/revert`, { branch });
+    return response.data;
+  }
+
+  async cherryPickCommit(notebookId: string, hash: string, branch: string) {
+    const response = await this.api.post(`/notebooks/${notebookId}/commits/${hash}/cherry-pick`, { branch });
+    return response.data;
+  }
+
+  async restoreFile(notebookId: string, hash: string, branch: string, path: string) {
+    const response = await this.api.post(`/notebooks/${notebookId}/commits/${hash}/restore`, { branch, path });
+    return response.data;
+  }
+
   async getFileTree(notebookId: string, commit?: string) {
     const response = await this.api.get(`/notebooks/${notebookId}/commits/files`, {
       params: { commit },
@@ -145,6 +218,27 @@ class ApiService {
     return response.data;
   }
 
+  async getBlame(notebookId: string, path: string, ref: string) {
+    const response = await this.api.get(`/notebooks/${notebookId}/commits/blame`, {
+      params: { path, ref },
+    });
+    return response.data;
+  }
+
+  async getFileHistory(notebookId: string, path: string, ref: string) {
+    const response = await this.api.get(`/notebooks/${notebookId}/commits/history`, {
+      params: { path, ref },
+    });
+    return response.data;
+  }
+
+  async compareRefs(notebookId: string, base: string, head: string, view: 'unified' | 'split', path?: string) {
+    const response = await this.api.get(`/notebooks/${notebookId}/commits/compare`, {
+      params: { base, head, view, path: path || undefined },
+    });
+    return response.data;
+  }
+
   async getFileContent(notebookId: string, branch: string, path: string) {
     const response = await this.api.get(`/notebooks/${notebookId}/commits/file-content`, {
       params: { path, commit: branch },
@@ -152,6 +246,206 @@ class ApiService {
     return response.data;
   }
 
+  // Pull request endpoints
+  async getPullRequests(notebookId: string, status?: string) {
+    const response = await this.api.get(`/notebooks/${notebookId}/pulls`, {
+      params: { status },
+    });
+    return response.data;
+  }
+
+  async createPullRequest(notebookId: string, data: { title: string; description?: string; sourceBranch: string; targetBranch?: string }) {
+    const response = await this.api.post(`/notebooks/${notebookId}/pulls`, data);
+    return response.data;
+  }
+
+  async getPullRequest(notebookId: string, pullRequestId: string) {
+    const response = await this.api.get(`/notebooks/${notebookId}/pulls/${pullRequestId}`);
+    return response.data;
+  }
+
+  async getPullRequestDiff(notebookId: string, pullRequestId: string) {
+    const response = await this.api.get(`/notebooks/${notebookId}/pulls/${pullRequestId}/diff`);
+    return response.data;
+  }
+
+  async refreshPullRequest(notebookId: string, pullRequestId: string) {
+    const response = await this.api.post(`/notebooks/${notebookId}/pulls/${pullRequestId}/refresh`);
+    return response.data;
+  }
+
+  async updatePullRequest(notebookId: string, pullRequestId: string, data: { title?: string; description?: string; status?: 'OPEN' | 'CLOSED' }) {
+    const response = await this.api.patch(`/notebooks/${notebookId}/pulls/${pullRequestId}`, data);
+    return response.data;
+  }
+
+  async mergePullRequest(notebookId: string, pullRequestId: string) {
+    const response = await this.api.post(`/notebooks/${notebookId}/pulls/${pullRequestId}/merge`);
+    return response.data;
+  }
+
+  async getReviews(notebookId: string, pullRequestId: string) {
+    const response = await this.api.get(`/notebooks/${notebookId}/pulls/${pullRequestId}/reviews`);
+    return response.data;
+  }
+
+  async submitReview(notebookId: string, pullRequestId: string, data: {
+    verdict: 'APPROVE' | 'REQUEST_CHANGES' | 'COMMENT';
+    body?: string;
+    comments?: Array<{ filePath: string; lineNumber: number; side: 'old' | 'new'; content: string }>;
+  }) {
+    const response = await this.api.post(`/notebooks/${notebookId}/pulls/${pullRequestId}/reviews`, data);
+    return response.data;
+  }
+
+  async getReviewComments(notebookId: string, pullRequestId: string) {
+    const response = await this.api.get(`/notebooks/${notebookId}/pulls/${pullRequestId}/comments`);
+    return response.data;
+  }
+
+  async createReviewComment(notebookId: string, pullRequestId: string, data: {
+    content: string;
+    filePath?: string;
+    lineNumber?: number;
+    side?: 'old' | 'new';
+    parentCommentId?: string;
+  }) {
+    const response = await this.api.post(`/notebooks/${notebookId}/pulls/${pullRequestId}/comments`, data);
+    return response.data;
+  }
+
+  async resolveReviewThread(notebookId: string, pullRequestId: string, commentId: string, resolved: boolean) {
+    const response = await this.api.patch(`/notebooks/${notebookId}/pulls/${pullRequestId}/comments/${commentId}`, { resolved });
+    return response.data;
+  }
+
+  // Merge endpoints
+  async getMerge(notebookId: string) {
+    const response = await this.api.get(`/notebooks/${notebookId}/merge`);
+    return response.data;
+  }
+
+  async startMerge(notebookId: string, data: { sourceBranch?: string; targetBranch?: string; pullRequest?: string; upstream?: boolean; message?: string }) {
+    const response = await this.api.post(`/notebooks/${notebookId}/merge`, data);
+    return response.data;
+  }
+
+  async resolveConflict(notebookId: string, data: { path: string; content?: string; deleted?: boolean }) {
+    const response = await this.api.post(`/notebooks/${notebookId}/merge/resolve`, data);
+    return response.data;
+  }
+
+  async completeMerge(notebookId: string) {
+    const response = await this.api.post(`/notebooks/${notebookId}/merge/complete`);
+    return response.data;
+  }
+
+  async abortMerge(notebookId: string) {
+    const response = await this.api.post(`/notebooks/${notebookId}/merge/abort`);
+    return response.data;
+  }
+
+  // Upstream (forked-from notebook) endpoints
+  async getUpstream(notebookId: string, branch?: string) {
+    const response = await this.api.get(`/notebooks/${notebookId}/upstream`, {
+      params: { branch },
+    });
+    return response.data;
+  }
+
+  async refreshUpstream(notebookId: string, branch?: string) {
+    const response = await this.api.post(`/notebooks/${notebookId}/upstream/refresh`, null, {
+      params: { branch },
+    });
+    return response.data;
+  }
+
+  async getUpstreamPullRequests(notebookId: string) {
+    const response = await this.api.get(`/notebooks/${notebookId}/upstream/pulls`);
+    return response.data;
+  }
+
+  async createUpstreamPullRequest(notebookId: string, data: { title: string; description?: string; sourceBranch: string; targetBranch?: string }) {
+    const response = await this.api.post(`/notebooks/${notebookId}/upstream/pulls`, data);
+    return response.data;
+  }
+
+  // Tag and release endpoints
+  async getTags(notebookId: string) {
+    const response = await this.api.get(`/notebooks/${notebookId}/tags`);
+    return response.data;
+  }
+
+  async createTag(notebookId: string, data: { name: string; ref?: string; description?: string; color?: string }) {
+    const response = await this.api.post(`/notebooks/${notebookId}/tags`, data);
+    return response.data;
+  }
+
+  async deleteTag(notebookId: string, name: string) {
+    const response = await this.api.delete(`/notebooks/${notebookId}/tags/${encodeURIComponent(name)}`);
+    return response.data;
+  }
+
+  async getReleases(notebookId: string) {
+    const response = await this.api.get(`/notebooks/${notebookId}/releases`);
+    return response.data;
+  }
+
+  async createRelease(notebookId: string, data: { tag: string; title: string; notes?: string; ref?: string; color?: string }) {
+    const response = await this.api.post(`/notebooks/${notebookId}/releases`, data);
+    return response.data;
+  }
+
+  async updateRelease(notebookId: string, tag: string, data: { title?: string; notes?: string }) {
+    const response = await this.api.put(`/notebooks/${notebookId}/releases/${encodeURIComponent(tag)}`, data);
+    return response.data;
+  }
+
+  async deleteRelease(notebookId: string, tag: string) {
+    const response = await this.api.delete(`/notebooks/${notebookId}/releases/${encodeURIComponent(tag)}`);
+    return response.data;
+  }
+
+  async downloadReleaseSnapshot(notebookId: string, tag: string, format: 'zip' | 'tar.gz'): Promise<Blob> {
+    const response = await this.api.get(`/notebooks/${notebookId}/releases/${encodeURIComponent(tag)}/snapshot`, {
+      params: { format },
+      responseType: 'blob',
+    });
+    return response.data;
+  }
+
+  // Whole notebook at a branch, tag or commit, uploads included
+  async downloadArchive(notebookId: string, ref: string, format: 'zip' | 'tar.gz'): Promise<Blob> {
+    const response = await this.api.get(`/notebooks/${notebookId}/archive`, {
+      params: { ref, format },
+      responseType: 'blob',
+    });
+    return response.data;
+  }
+
+  // Book exports are rendered in the background; poll getExport until the job completes, then download it
+  async createExport(notebookId: string, data: { format: 'pdf' | 'epub' | 'html'; ref?: string }) {
+    const response = await this.api.post(`/notebooks/${notebookId}/exports`, data);
+    return response.data;
+  }
+
+  async getExports(notebookId: string) {
+    const response = await this.api.get(`/notebooks/${notebookId}/exports`);
+    return response.data;
+  }
+
+  async getExport(notebookId: string, jobId: string) {
+    const response = await this.api.get(`/notebooks/${notebookId}/exports/${jobId}`);
+    return response.data;
+  }
+
+  async downloadExport(notebookId: string, jobId: string): Promise<Blob> {
+    const response = await this.api.get(`/notebooks/${notebookId}/exports/${jobId}/download`, {
+      responseType: 'blob',
+    });
+    return response.data;
+  }
+
   // File operations
   async saveFile(notebookId: string, data: { branch: string; filePath: string; content: string }) {
     const response = await this.api.post(`/notebooks/${notebookId}/files`, data);
@@ -203,6 +497,63 @@ class ApiService {
     return response.data;
   }
 
+  // Watch endpoints
+  async getWatchStatus(notebookId: string) {
+    const response = await this.api.get(`/notebooks/${notebookId}/watch`);
+    return response.data;
+  }
+
+  async watchNotebook(notebookId: string, level: 'watching' | 'participating' | 'ignoring') {
+    const response = await this.api.put(`/notebooks/${notebookId}/watch`, { level });
+    return response.data;
+  }
+
+  async resetWatch(notebookId: string) {
+    const response = await this.api.delete(`/notebooks/${notebookId}/watch`);
+    return response.data;
+  }
+
+  // Invitation endpoints
+  async getNotebookInvitations(notebookId: string) {
+    const response = await this.api.get(`/notebooks/${notebookId}/invitations`);
+    return response.data;
+  }
+
+  async inviteCollaborator(notebookId: string, data: { userId?: string; email?: string; role: 'VIEWER' | 'EDITOR' }) {
+    const response = await this.api.post(`/notebooks/${notebookId}/invitations`, data);
+    return response.data;
+  }
+
+  async createInviteLink(notebookId: string, data: { role: 'VIEWER' | 'EDITOR'; expiresInDays?: number }) {
+    const response = await this.api.post(`/notebooks/${notebookId}/invitations/link`, data);
+    return response.data;
+  }
+
+  async revokeInvitation(notebookId: string, invitationId: string) {
+    const response = await this.api.delete(`/notebooks/${notebookId}/invitations/${invitationId}`);
+    return response.data;
+  }
+
+  async getMyInvitations() {
+    const response = await this.api.get('/invitations');
+    return response.data;
+  }
+
+  async getInvitation(token: string) {
+    const response = await this.api.get(`/invitations/${encodeURIComponent(token)}`);
+    return response.data;
+  }
+
+  async acceptInvitation(token: string) {
+    const response = await this.api.post(`/invitations/${encodeURIComponent(token)}/accept`);
+    return response.data;
+  }
+
+  async declineInvitation(token: string) {
+    const response = await this.api.post(`/invitations/${encodeURIComponent(token)}/decline`);
+    return response.data;
+  }
+
   // Fork endpoint
   async forkNotebook(notebookId: string) {
     const response = await this.api.post(`/notebooks/${notebookId}/fork`);
@@ -225,9 +576,9 @@ class ApiService {
   }
 
   // Search endpoint
-  async searchNotebooks(query?: string, course?: string, sort?: string) {
+  async searchNotebooks(query?: string, course?: string, sort?: string, notebook?: string, branch?: string) {
     const response = await this.api.get('/notebooks/search', {
-      params: { q: query, course, sort },
+      params: { q: query, course, sort, notebook, branch },
     });
     return response.data;
   }
@@ -255,6 +606,16 @@ class ApiService {
     return response.data;
   }
 
+  async getNotificationPreferences() {
+    const response = await this.api.get('/notifications/preferences');
+    return response.data;
+  }
+
+  async updateNotificationPreferences(data: { inAppTypes?: string[]; emailTypes?: string[]; digest?: 'off' | 'daily' | 'weekly' }) {
+    const response = await this.api.put('/notifications/preferences', data);
+    return response.data;
+  }
+
   // Comment endpoints
   async getComments(notebookId: string, commitId?: string, filePath?: string) {
     const response = await this.api.get(`/notebooks/${notebookId}/comments`, {
@@ -27,10 +27,20 @@ export interface Notebook {
   starCount?: number;
   forkCount?: number;
   viewCount?: number;
+  forkedFrom?: Pick<Notebook, '_id' | 'name'> | null;
+  // Ownership offered to a collaborator who hasn't accepted yet
+  pendingOwnershipTransfer?: { to: Pick<User, '_id' | 'username' | 'name'>; requestedAt: string } | null;
   createdAt: string;
   updatedAt: string;
 }
 
+export interface BranchProtection {
+  requirePullRequest: boolean;
+  requiredApprovals: number;
+  ownerOnlyDeletion: boolean;
+  allowForceOperations: boolean;
+}
+
 export interface Branch {
   _id: string;
   name: string;
@@ -38,6 +48,7 @@ export interface Branch {
   isDefault: boolean;
   notebook: string;
   lastCommitHash?: string;
+  protection?: BranchProtection;
   createdAt: string;
   updatedAt: string;
 }
@@ -46,8 +57,16 @@ export interface FileChange {
   path: string;
   additions: number;
   deletions: number;
+  status?: 'added' | 'modified' | 'deleted' | 'renamed';
+  previousPath?: string;
+  binary?: boolean;
 }
 
+// A change to the file tree staged for the next commit
+export type FileOperation =
+  | { type: 'delete'; path: string }
+  | { type: 'rename' | 'move'; from: string; to: string };
+
 export interface Commit {
   _id: string;
   hash: string;
@@ -71,33 +90,314 @@ export interface PullRequest {
   status: 'OPEN' | 'CLOSED' | 'MERGED';
   sourceBranch: Branch;
   targetBranch: Branch;
-  notebook: string;
+  notebook: string | Pick<Notebook, '_id' | 'name'>;
+  // Set when the pull request comes from a fork of the notebook
+  sourceNotebook?: Pick<Notebook, '_id' | 'name'> | null;
   author: User;
   mergedBy?: User;
   mergedAt?: string;
+  mergeCommitHash?: string;
+  previousTargetHash?: string;
   createdAt: string;
   updatedAt: string;
 }
 
+export interface FileDiff extends FileChange {
+  diff: string;
+}
+
+export type ConflictSegment =
+  | { type: 'common'; lines: string[] }
+  | { type: 'conflict'; ours: string[]; base: string[]; theirs: string[] };
+
+export interface ConflictFile {
+  path: string;
+  segments: ConflictSegment[];
+  deletedIn?: 'ours' | 'theirs';
+}
+
+export interface UpstreamStatus {
+  notebook: Pick<Notebook, '_id' | 'name'>;
+  branch: string;
+  upstreamBranch: string;
+  branches: string[];
+  // null until the original has been fetched for the first time
+  ahead: number | null;
+  behind: number | null;
+}
+
+export interface SearchSnippet {
+  line: number;
+  text: string;
+  highlights: Array<[number, number]>;
+}
+
+export interface FileSearchResult {
+  notebook: Pick<Notebook, '_id' | 'name'>;
+  branch: string;
+  branches: string[];
+  path: string;
+  score: number;
+  snippets: SearchSnippet[];
+}
+
+export interface CommitSearchResult extends Omit<Commit, 'notebook'> {
+  notebook: Pick<Notebook, '_id' | 'name'>;
+  score: number;
+}
+
+export interface MergeState {
+  sourceBranch: string;
+  targetBranch: string;
+  message: string;
+  pullRequest?: string;
+  startedBy: User;
+  startedAt: string;
+  conflicts: ConflictFile[];
+  resolved: string[];
+}
+
+export interface UserNotification {
+  _id: string;
+  type: NotificationType;
+  title: string;
+  message: string;
+  link?: string;
+  isRead: boolean;
+  createdAt: string;
+  relatedUser?: Pick<User, '_id' | 'username' | 'name'>;
+  relatedNotebook?: { _id: string; name: string };
+}
+
+export type NotificationType =
+  | 'collaborator_added'
+  | 'comment_added'
+  | 'commit_made'
+  | 'notebook_forked'
+  | 'notebook_starred'
+  | 'review_submitted';
+
+export type DigestFrequency = 'off' | 'daily' | 'weekly';
+
+// Which notification types each channel delivers
+export interface NotificationPreferences {
+  inAppTypes: NotificationType[];
+  // Types emailed as soon as they happen
+  emailTypes: NotificationType[];
+  digest: DigestFrequency;
+}
+
+export type WatchLevel = 'watching' | 'participating' | 'ignoring';
+
+export interface WatchStatus {
+  level: WatchLevel;
+  // True until the user picks a level; members watch by default, others participate
+  isDefault: boolean;
+}
+
+export type InvitationStatus = 'pending' | 'accepted' | 'declined' | 'expired';
+
+// For a registered user, an email address that may not have an account yet, or anyone with the link
+export type InvitationKind = 'user' | 'email' | 'link';
+
+export interface Invitation {
+  _id: string;
+  kind: InvitationKind;
+  invitee?: Pick<User, '_id' | 'username' | 'name' | 'email'>;
+  email?: string;
+  role: 'EDITOR' | 'VIEWER';
+  // Only sent to the notebook's owner and the invitee
+  token?: string;
+  status: InvitationStatus;
+  invitedBy: Pick<User, '_id' | 'username' | 'name'>;
+  notebook: string | Pick<Notebook, '_id' | 'name' | 'description' | 'courseName' | 'courseCode'>;
+  expiresAt: string;
+  uses?: number;
+  createdAt?: string;
+}
+
 export interface Comment {
   _id: string;
   content: string;
   author: User;
   commit?: string;
   pullRequest?: string;
+  review?: string;
   lineNumber?: number;
+  side?: DiffSide;
   filePath?: string;
   createdAt: string;
   updatedAt: string;
 }
 
+// Which file of a diff a line number counts in: the old one for deleted lines, the new one otherwise
+export type DiffSide = 'old' | 'new';
+
+export interface DiffLineRef {
+  side: DiffSide;
+  lineNumber: number;
+}
+
+// A top-level pull request comment with its replies
+export interface ReviewThread extends Comment {
+  replies: Comment[];
+  resolved: boolean;
+  resolvedBy?: User;
+  resolvedAt?: string;
+}
+
+export type ReviewVerdict = 'APPROVE' | 'REQUEST_CHANGES' | 'COMMENT';
+
+export interface Review {
+  _id: string;
+  pullRequest: string;
+  author: User;
+  verdict: ReviewVerdict;
+  body?: string;
+  commitHash?: string;
+  createdAt: string;
+}
+
+export interface ReviewerVerdict {
+  user: User;
+  verdict: Exclude<ReviewVerdict, 'COMMENT'>;
+  review: string;
+  submittedAt: string;
+}
+
+// An inline comment held back until the review it belongs to is submitted
+export interface DraftReviewComment extends DiffLineRef {
+  filePath: string;
+  content: string;
+}
+
 export interface Tag {
   _id: string;
   name: string;
   description?: string;
   color?: string;
   commitHash: string;
+  createdBy?: string;
+  annotated?: boolean;
+  tagger?: string;
+  date?: string;
+  createdAt: string;
+}
+
+export type ArchiveFormat = 'zip' | 'tar.gz';
+
+export interface Release {
+  _id: string;
+  notebook: string;
+  tag: Tag;
+  title: string;
+  notes: string;
+  author: User;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Who last changed a run of lines; user is the account the git author maps to, if any
+export interface BlameCommit {
+  hash: string;
+  authorName: string;
+  authorEmail: string;
+  date: string;
+  summary: string;
+  recorded: boolean;
+  user: Pick<User, '_id' | 'username' | 'name'> | null;
+}
+
+export interface BlameRange {
+  hash: string;
+  startLine: number;
+  lineCount: number;
+}
+
+export interface Blame {
+  path: string;
+  ref: string;
+  commitHash: string;
+  commits: BlameCommit[];
+  ranges: BlameRange[];
+}
+
+// A commit that changed a file; path is what the file was called at that commit
+export interface FileHistoryEntry {
+  hash: string;
+  parentHash?: string;
+  authorName: string;
+  authorEmail: string;
+  date: string;
+  message: string;
+  description?: string;
+  path: string;
+  recorded: boolean;
+  user: Pick<User, '_id' | 'username' | 'name'> | null;
+}
+
+export interface FileHistory {
+  path: string;
+  ref: string;
+  commitHash: string;
+  commits: FileHistoryEntry[];
+}
+
+export type DiffView = 'unified' | 'split';
+
+export interface SplitLine {
+  number: number;
+  text: string;
+  type: 'context' | 'deleted' | 'added';
+}
+
+// A side is null where the other side has a line with no counterpart
+export interface SplitRow {
+  left: SplitLine | null;
+  right: SplitLine | null;
+}
+
+export interface SplitHunk {
+  header: string;
+  rows: SplitRow[];
+}
+
+export interface ComparedFile extends FileChange {
+  diff?: string;
+  hunks?: SplitHunk[];
+}
+
+export interface Comparison {
+  base: { ref: string; commitHash: string };
+  head: { ref: string; commitHash: string };
+  path: string | null;
+  view: DiffView;
+  // Commits on head that base lacks, and the reverse
+  ahead: number;
+  behind: number;
+  additions: number;
+  deletions: number;
+  files: ComparedFile[];
+}
+
+export type ExportFormat = 'pdf' | 'epub' | 'html';
+
+export type ExportStatus = 'QUEUED' | 'RUNNING' | 'COMPLETED' | 'FAILED';
+
+export interface ExportJob {
+  _id: string;
   notebook: string;
+  requestedBy: User | string;
+  format: ExportFormat;
+  ref: string;
+  commitHash: string;
+  status: ExportStatus;
+  progress: number;
+  fileName?: string;
+  fileSize?: number;
+  error?: string;
+  startedAt?: string;
+  completedAt?: string;
   createdAt: string;
 }
 